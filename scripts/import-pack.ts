@@ -0,0 +1,77 @@
+/**
+ * Import a question pack from a file, offline:
+ *
+ *   npm run import-pack -- questions.csv [--format csv|tsv|opentdb|kahoot|pack]
+ *     [--id my-pack] [--name "My Pack"] [--act homeroom] [--out path.json] [--force] [--dry-run]
+ *
+ * Converts the file (see `src/lib/packImport.ts` for what each format needs),
+ * prints every diagnostic and writes `data/question-packs/<id>.json` — unless
+ * there are errors, the target exists (without `--force`) or it's a dry run.
+ * Exits with 1 if nothing was written because of a problem.
+ */
+
+import { formatDiagnostic } from '@/lib/packDiagnostics';
+import { detectImportFormat, IMPORT_FORMATS, importPack } from '@/lib/packImport';
+import { getPacksDir } from '@/lib/questionLoader';
+import type { ImportFormat } from '@/lib/types';
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    format: { type: 'string' },
+    id: { type: 'string' },
+    name: { type: 'string' },
+    act: { type: 'string' },
+    out: { type: 'string' },
+    force: { type: 'boolean', default: false },
+    'dry-run': { type: 'boolean', default: false },
+  },
+});
+
+const input = positionals[0];
+if (!input) fail('Usage: npm run import-pack -- <file> [--format ...] [--id ...] [--out ...]');
+if (!fs.existsSync(input)) fail(`No such file: ${input}`);
+
+const text = fs.readFileSync(input, 'utf-8');
+const format = (args.format ?? detectImportFormat(input, text)) as ImportFormat | undefined;
+if (!format || !IMPORT_FORMATS.includes(format)) {
+  fail(`Can't tell what kind of file this is — pass --format ${IMPORT_FORMATS.join('|')}`);
+}
+
+const { source, diagnostics, summary } = importPack(format, text, {
+  file: path.basename(input),
+  id: args.id,
+  name: args.name,
+  act: args.act,
+});
+
+for (const d of diagnostics) {
+  console.error(`${d.severity === 'error' ? '✖' : '⚠'} ${formatDiagnostic(d)}`);
+}
+if (!summary || diagnostics.some((d) => d.severity === 'error')) {
+  fail('Not imported — fix the errors above and try again.');
+}
+
+const counts = Object.entries(summary.questionCounts)
+  .map(([act, n]) => `${act}: ${n}`)
+  .join(', ');
+process.stdout.write(`"${summary.name}" — ${summary.totalQuestions} questions (${counts})\n`);
+
+const out = args.out ?? path.join(getPacksDir(), `${source.id}.json`);
+if (args['dry-run']) {
+  process.stdout.write(`Dry run — would write ${out}\n`);
+} else if (fs.existsSync(out) && !args.force) {
+  fail(`${out} already exists — pass --force to replace it.`);
+} else {
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, `${JSON.stringify(source, null, 2)}\n`, 'utf-8');
+  process.stdout.write(`Wrote ${out}\n`);
+}
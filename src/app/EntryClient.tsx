@@ -1,6 +1,8 @@
 'use client';
 
 import { EntryShell } from '@/components/entry/EntryShell';
+import LocalePicker, { useI18n } from '@/components/i18n/LocalePicker';
+import { useProfile } from '@/components/profile/useProfile';
 import {
   CTAButton,
   FeaturePill,
@@ -13,6 +15,7 @@ import {
   NeonInput,
   SubtleLead,
 } from '@/components/entry/primitives';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useCallback, useMemo, useState, useSyncExternalStore } from 'react';
 
@@ -72,7 +75,11 @@ function ArrowRight() {
    ════════════════════════════════════════════════════════════════════ */
 export default function EntryClient() {
   const router = useRouter();
-  const name = useLocalStorageString(LS_NAME, '');
+  const { t } = useI18n();
+  const savedName = useLocalStorageString(LS_NAME, '');
+  const { profile } = useProfile();
+  // Signed in, you play under your profile's name
+  const name = profile?.name ?? savedName;
   const [mode, setMode] = useState<'join' | 'host'>('join');
   const [code, setCode] = useState('');
 
@@ -100,10 +107,10 @@ export default function EntryClient() {
           className="animate-fade-in-up stagger-1 mb-8 flex flex-wrap items-center justify-center gap-2"
           style={{ opacity: 0 }}
         >
-          <FeaturePill color="cyan">LAN-friendly</FeaturePill>
-          <FeaturePill color="violet">Party-ready</FeaturePill>
-          <FeaturePill color="pink">Power-ups</FeaturePill>
-          <FeaturePill color="gold">Boss fights</FeaturePill>
+          <FeaturePill color="cyan">{t('entry.pillLan')}</FeaturePill>
+          <FeaturePill color="violet">{t('entry.pillParty')}</FeaturePill>
+          <FeaturePill color="pink">{t('entry.pillPowerUps')}</FeaturePill>
+          <FeaturePill color="gold">{t('entry.pillBosses')}</FeaturePill>
         </div>
 
         {/* ── Main Card ── */}
@@ -118,41 +125,66 @@ export default function EntryClient() {
 
                 <div className="animate-fade-in-up stagger-4" style={{ opacity: 0 }}>
                   <GradientTitle>Schooled Quest</GradientTitle>
-                  <SubtleLead>Pick a name, then host a lobby or join with a room code.</SubtleLead>
+                  <SubtleLead>{t('entry.lead')}</SubtleLead>
                 </div>
               </div>
 
               {/* ── Name ── */}
               <div className="animate-fade-in-up stagger-5" style={{ opacity: 0 }}>
-                <InputLabel>Display Name</InputLabel>
-                <NeonInput
-                  value={name}
-                  onChange={(e) => {
-                    const v = e.target.value.slice(0, 18);
-                    if (typeof window !== 'undefined') setLocalStorageString(LS_NAME, v);
-                  }}
-                  placeholder="e.g. PixelWizard"
-                  autoComplete="nickname"
-                  inputMode="text"
-                />
-                <HintText className="mt-2">
-                  {safeNameOk ? (
-                    <span style={{ color: 'rgba(167,139,250,0.7)' }}>✓ Looks good</span>
-                  ) : (
-                    '2–18 characters'
+                <InputLabel>{t('entry.displayName')}</InputLabel>
+                {profile ? (
+                  <div className="flex items-center justify-between rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+                    <span className="flex items-center gap-2 font-semibold text-white">
+                      <span className="text-2xl">{profile.avatar}</span>
+                      {profile.name}
+                    </span>
+                    <Link href="/profile" className="text-xs text-violet-300 hover:underline">
+                      {t('entry.profile')}
+                    </Link>
+                  </div>
+                ) : (
+                  <NeonInput
+                    value={name}
+                    onChange={(e) => {
+                      const v = e.target.value.slice(0, 18);
+                      if (typeof window !== 'undefined') setLocalStorageString(LS_NAME, v);
+                    }}
+                    placeholder={t('entry.namePlaceholder')}
+                    autoComplete="nickname"
+                    inputMode="text"
+                  />
+                )}
+                <div className="mt-2 flex items-center justify-between gap-2">
+                  <HintText>
+                    {profile ? (
+                      t('entry.playingAs')
+                    ) : safeNameOk ? (
+                      <span style={{ color: 'rgba(167,139,250,0.7)' }}>{t('entry.nameOk')}</span>
+                    ) : (
+                      t('entry.nameLength')
+                    )}
+                  </HintText>
+                  {!profile && (
+                    <Link href="/profile" className="text-[11px] text-violet-300 hover:underline">
+                      {t('entry.createProfile')}
+                    </Link>
                   )}
-                </HintText>
+                </div>
               </div>
 
               {/* ── Mode Toggle ── */}
               <div className="animate-fade-in-up stagger-6" style={{ opacity: 0 }}>
-                <ModeToggle value={mode} onChangeAction={setMode} />
+                <ModeToggle
+                  value={mode}
+                  onChangeAction={setMode}
+                  labels={{ join: t('entry.modeJoin'), host: t('entry.modeHost') }}
+                />
               </div>
 
               {/* ── Room Code (join only) ── */}
               {mode === 'join' && (
                 <div className="animate-fade-in-up" style={{ animationDuration: '0.5s' }}>
-                  <InputLabel>Room Code</InputLabel>
+                  <InputLabel>{t('entry.roomCode')}</InputLabel>
                   <NeonInput
                     value={normalizedCode}
                     onChange={(e) => setCode(cleanCode(e.target.value))}
@@ -169,9 +201,9 @@ export default function EntryClient() {
                   <div className="mt-2 flex items-center justify-between">
                     <HintText>
                       {codeOk ? (
-                        <span style={{ color: 'rgba(6,182,212,0.7)' }}>✓ Ready</span>
+                        <span style={{ color: 'rgba(6,182,212,0.7)' }}>{t('entry.codeOk')}</span>
                       ) : (
-                        'At least 4 characters'
+                        t('entry.codeLength')
                       )}
                     </HintText>
                     <HintText>
@@ -184,7 +216,7 @@ export default function EntryClient() {
               {/* ── CTA ── */}
               <div className="animate-fade-in-up stagger-7" style={{ opacity: 0 }}>
                 <CTAButton onClick={go} disabled={!canGo}>
-                  {mode === 'host' ? 'Create Lobby' : 'Join Lobby'}
+                  {mode === 'host' ? t('entry.createLobby') : t('entry.joinLobby')}
                   <ArrowRight />
                 </CTAButton>
               </div>
@@ -196,7 +228,7 @@ export default function EntryClient() {
         <div className="animate-fade-in-up stagger-8 mt-6 text-center" style={{ opacity: 0 }}>
           <HintText>
             <span className="hidden sm:inline">
-              Press{' '}
+              {t('entry.press')}{' '}
               <kbd
                 className="inline-block rounded-md px-1.5 py-0.5 text-[10px]"
                 style={{
@@ -207,10 +239,13 @@ export default function EntryClient() {
               >
                 Enter ↵
               </kbd>{' '}
-              to continue
+              {t('entry.toContinue')}
             </span>
-            <span className="sm:hidden">Works great on mobile</span>
+            <span className="sm:hidden">{t('entry.mobile')}</span>
           </HintText>
+          <div className="mt-3">
+            <LocalePicker dark />
+          </div>
         </div>
       </div>
     </EntryShell>
@@ -1,12 +1,14 @@
 'use client';
 
 import { EntryShell } from '@/components/entry/EntryShell';
+import PackPicker, { usePackList } from '@/components/game/PackPicker';
+import { useI18n } from '@/components/i18n/LocalePicker';
 import { GlowCard, GradientTitle, ShimmerButton, SubtleLead } from '@/components/entry/primitives';
 import { getSocket } from '@/lib/socket';
 import type { Ack, PublicRoomState } from '@/lib/types';
 import { ArrowLeft, Loader2 } from 'lucide-react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { useState, useSyncExternalStore } from 'react';
 
 const LS_NAME = 'sq_name_last';
 const LS_HOST_KEY = 'sq_hostKey';
@@ -34,75 +36,88 @@ function useLocalStorageString(key: string, fallback = '') {
   );
 }
 
+/** Pick a question pack, then create the room and open the host dashboard */
 export default function HostCreate() {
   const router = useRouter();
   const params = useSearchParams();
+  const { t } = useI18n();
 
   const savedName = useLocalStorageString(LS_NAME, '');
 
   // Prefer query param name, fallback to saved name
   const hostName = (params.get('name') || savedName).trim();
 
+  const packs = usePackList();
+  const [chosenPackId, setChosenPackId] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const didCreateRef = useRef(false);
 
-  useEffect(() => {
-    if (!hostName) return;
-    if (didCreateRef.current) return;
-    didCreateRef.current = true;
+  // ?pack= preselects, otherwise the default pack (or the first one)
+  const packId =
+    chosenPackId ??
+    [params.get('pack') ?? undefined, 'default', packs?.[0]?.id].find((id) =>
+      packs?.some((p) => p.id === id)
+    );
 
-    const s = getSocket();
+  const create = () => {
+    if (!hostName || !packId || creating) return;
+    setCreating(true);
+    setError(null);
 
-    s.emit('room:create', { hostName }, (res: Ack<{ room: PublicRoomState; hostKey: string }>) => {
-      if (!res.ok) {
-        setError(res.error);
-        didCreateRef.current = false;
-        return;
-      }
+    getSocket().emit(
+      'room:create',
+      { hostName, packId },
+      (res: Ack<{ room: PublicRoomState; hostKey: string }>) => {
+        if (!res.ok) {
+          setError(res.error);
+          setCreating(false);
+          return;
+        }
 
-      setLocalStorageString(LS_HOST_KEY, res.data.hostKey);
-      setLocalStorageString(LS_HOST_ROOM_CODE, res.data.room.code);
+        setLocalStorageString(LS_HOST_KEY, res.data.hostKey);
+        setLocalStorageString(LS_HOST_ROOM_CODE, res.data.room.code);
 
-      router.replace(`/host/${res.data.room.code}?name=${encodeURIComponent(hostName)}`);
-    });
-  }, [hostName, router]);
+        router.replace(`/host/${res.data.room.code}?name=${encodeURIComponent(hostName)}`);
+      }
+    );
+  };
 
   return (
     <EntryShell>
       <GlowCard>
-        <GradientTitle>Creating lobby…</GradientTitle>
-        <SubtleLead>Generating a room code and opening the host dashboard.</SubtleLead>
+        <GradientTitle>{creating ? t('hostCreate.creating') : t('hostCreate.title')}</GradientTitle>
+        <SubtleLead>{creating ? t('hostCreate.creatingLead') : t('hostCreate.lead')}</SubtleLead>
 
         <div className="mt-6">
           {!hostName ? (
             <div className="space-y-4">
-              <p className="text-sm text-white/70">
-                Missing name. Go back and enter a display name.
-              </p>
+              <p className="text-sm text-white/70">{t('common.missingName')}</p>
               <ShimmerButton onClick={() => router.push('/')}>
                 <span className="inline-flex items-center gap-2">
                   <ArrowLeft size={16} />
-                  Back to start
+                  {t('hostCreate.backToStart')}
                 </span>
               </ShimmerButton>
             </div>
-          ) : error ? (
-            <div className="space-y-4">
-              <p className="text-sm text-rose-300/90">{error}</p>
-              <ShimmerButton
-                onClick={() => {
-                  setError(null);
-                  didCreateRef.current = false;
-                  router.refresh();
-                }}
-              >
-                Try again →
-              </ShimmerButton>
+          ) : creating ? (
+            <div className="flex items-center gap-3 text-sm text-white/70">
+              <Loader2 className="animate-spin" size={18} />
+              {t('hostCreate.talking')}
             </div>
-          ) : (
+          ) : !packs ? (
             <div className="flex items-center gap-3 text-sm text-white/70">
               <Loader2 className="animate-spin" size={18} />
-              Talking to the server…
+              {t('hostCreate.loading')}
+            </div>
+          ) : packs.length === 0 ? (
+            <p className="text-sm text-rose-300/90">{t('hostCreate.noPacks')}</p>
+          ) : (
+            <div className="space-y-4">
+              <PackPicker packs={packs} selectedId={packId} onSelect={setChosenPackId} dark />
+              {error && <p className="text-sm text-rose-300/90">{error}</p>}
+              <ShimmerButton onClick={create} disabled={!packId}>
+                {t('hostCreate.create')}
+              </ShimmerButton>
             </div>
           )}
         </div>
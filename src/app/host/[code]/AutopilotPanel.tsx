@@ -0,0 +1,102 @@
+'use client';
+
+import { useI18n } from '@/components/i18n/LocalePicker';
+import { ROOM_CONFIG_BOUNDS } from '@/lib/payloadSchemas';
+import type { AutopilotError, PublicRoomState, RoomConfig } from '@/lib/types';
+import { useState } from 'react';
+
+type Props = {
+  config: RoomConfig;
+  /** What autopilot does next (from the room state) */
+  next: PublicRoomState['autopilot'];
+  /** Why autopilot last switched itself off (host state) */
+  error?: AutopilotError;
+  now: number;
+  onConfigure: (patch: Partial<RoomConfig>) => void;
+};
+
+/** Seconds box for one of autopilot's timings, saved on blur (clamped to the server's bounds) */
+function SecondsField({
+  label,
+  field,
+  config,
+  onConfigure,
+}: Pick<Props, 'config' | 'onConfigure'> & {
+  label: string;
+  field: 'autopilotDwellMs' | 'autopilotShopMs';
+}) {
+  const [value, setValue] = useState(String(config[field] / 1000));
+  const { min, max } = ROOM_CONFIG_BOUNDS[field];
+
+  return (
+    <label className="flex items-center gap-2">
+      <span className="text-neutral-600">{label}</span>
+      <input
+        type="number"
+        min={min / 1000}
+        max={max / 1000}
+        className="w-20 rounded-lg border px-2 py-1 tabular-nums"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={() => {
+          const ms = Math.min(max, Math.max(min, Math.round((Number(value) || 0) * 1000)));
+          setValue(String(ms / 1000));
+          if (ms !== config[field]) onConfigure({ [field]: ms });
+        }}
+      />
+    </label>
+  );
+}
+
+/**
+ * Autopilot: reveal, next question, the shop between acts and the next act all
+ * happen on timers, so the host can play too. Any button still works sooner.
+ */
+export default function AutopilotPanel({ config, next, error, now, onConfigure }: Props) {
+  const { t } = useI18n();
+
+  return (
+    <div className="mt-4 rounded-xl border border-neutral-200 p-4 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 font-semibold">
+          <input
+            type="checkbox"
+            checked={config.autopilot}
+            onChange={(e) => onConfigure({ autopilot: e.target.checked })}
+          />
+          🤖 {t('autopilot.title')}
+        </label>
+        <SecondsField
+          label={t('autopilot.dwell')}
+          field="autopilotDwellMs"
+          config={config}
+          onConfigure={onConfigure}
+        />
+        <SecondsField
+          label={t('autopilot.shop')}
+          field="autopilotShopMs"
+          config={config}
+          onConfigure={onConfigure}
+        />
+      </div>
+      <p className="mt-2 text-xs text-neutral-500">
+        {config.autopilot && next
+          ? t('autopilot.next', {
+              action: t(`autopilot.action.${next.action}`),
+              seconds: Math.max(0, Math.ceil((next.at - now) / 1000)),
+            })
+          : config.autopilot
+            ? t('autopilot.waiting')
+            : t('autopilot.hint')}
+      </p>
+      {!config.autopilot && error && (
+        <p className="mt-2 rounded-lg bg-red-50 px-3 py-2 text-xs text-red-700">
+          {t('autopilot.failed', {
+            action: t(`autopilot.action.${error.action}`),
+            message: error.message,
+          })}
+        </p>
+      )}
+    </div>
+  );
+}
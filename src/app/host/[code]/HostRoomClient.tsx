@@ -1,24 +1,31 @@
 'use client';
 
+import QuestionMediaView from '@/components/game/QuestionMediaView';
+import LocalePicker, { useI18n } from '@/components/i18n/LocalePicker';
+import { localizeAct, localizeQuestion, pickTranslation } from '@/lib/i18n';
 import { logger } from '@/lib/logger';
+import type { ClientToServerEvents, EventPayload, HostEvent, HostPayload } from '@/lib/protocol';
+import { choiceLetter, includesChoice } from '@/lib/questionTypes';
 import { getSocket } from '@/lib/socket';
-import type { Ack, HostRoomState, PublicRoomState, WagerSpotlightPayload } from '@/lib/types';
+import type {
+  Ack,
+  ActInfo,
+  HostRoomState,
+  PublicRoomState,
+  WagerSpotlightPayload,
+} from '@/lib/types';
 import { useSearchParams } from 'next/navigation';
 import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import AutopilotPanel from './AutopilotPanel';
+import JoinRequestsPanel from './JoinRequestsPanel';
+import LobbyPackPanel from './LobbyPackPanel';
+import PackMixPanel from './PackMixPanel';
+import ResultsExport from './ResultsExport';
+import RunPlanPanel from './RunPlanPanel';
 
 const LS_HOST_KEY = 'sq_hostKey';
 const LOCAL_STORAGE_EVENT = 'sq:localstorage';
 
-type ActId = 'homeroom' | 'pop_quiz' | 'field_trip' | 'wager_round' | 'boss_fight';
-
-const ACT_META: Record<ActId, { name: string; emoji: string; color: string }> = {
-  homeroom: { name: 'Homeroom', emoji: '🏫', color: 'green' },
-  pop_quiz: { name: 'Pop Quiz', emoji: '📝', color: 'amber' },
-  field_trip: { name: 'Field Trip', emoji: '🎒', color: 'orange' },
-  wager_round: { name: 'High Stakes', emoji: '🎰', color: 'pink' },
-  boss_fight: { name: 'Boss Fight', emoji: '🐉', color: 'red' },
-};
-
 function useLocalStorageItem(key: string): string | null {
   return useSyncExternalStore(
     (onStoreChange) => {
@@ -36,11 +43,25 @@ function useLocalStorageItem(key: string): string | null {
   );
 }
 
+/** Standard acts cycle through these, in ruleset order */
+const STANDARD_ACT_COLORS = [
+  'bg-green-600 hover:bg-green-700',
+  'bg-amber-600 hover:bg-amber-700',
+  'bg-orange-600 hover:bg-orange-700',
+];
+
+function actButtonClass(act: ActInfo, index: number): string {
+  if (act.kind === 'boss') return 'bg-red-600 hover:bg-red-700';
+  if (act.kind === 'wager') return 'bg-pink-600 hover:bg-pink-700';
+  return STANDARD_ACT_COLORS[index % STANDARD_ACT_COLORS.length];
+}
+
 export default function HostRoomClient({ code }: { code: string }) {
   const params = useSearchParams();
   const hostName = (params.get('name') || '').trim();
   const roomCode = useMemo(() => (code ?? '').trim().toUpperCase(), [code]);
   const hostKey = useLocalStorageItem(LS_HOST_KEY);
+  const { locale, t } = useI18n();
 
   const [room, setRoom] = useState<PublicRoomState | null>(null);
   const [now, setNow] = useState(() => Date.now());
@@ -56,22 +77,31 @@ export default function HostRoomClient({ code }: { code: string }) {
   }, []);
 
   const emitHost = useCallback(
-    <T,>(event: string, extra: Record<string, unknown> = {}, label?: string) => {
-      if (!hostKey) return addLog('❌ No hostKey');
+    <E extends HostEvent>(
+      event: E,
+      extra: Omit<EventPayload<E>, keyof HostPayload>,
+      label?: string
+    ) => {
+      if (!hostKey) return addLog(t('host.noHostKey'));
       const s = getSocket();
-      s.emit(event, { code: roomCode, hostKey, ...extra }, (ack: Ack<T>) => {
+      const onAck = (ack: Ack<{ room: PublicRoomState; planReset?: boolean }>) => {
         if (!ack.ok) {
-          setError((ack as { ok: false; error: string }).error);
-          addLog(`❌ ${label || event}: ${(ack as { ok: false; error: string }).error}`);
+          setError(ack.error);
+          addLog(t('log.failed', { action: label || event, error: ack.error }));
         } else {
           setError(null);
-          addLog(`✅ ${label || event}`);
-          const data = (ack as { ok: true; data: T }).data as Record<string, unknown>;
-          if (data?.room) setRoom(data.room as PublicRoomState);
+          addLog(t('log.done', { action: label || event }));
+          if (ack.data.planReset) addLog(t('log.planReset'));
+          setRoom(ack.data.room);
         }
-      });
+      };
+      // Every host event acks with the fresh room state (see HostEvent)
+      const args = [{ code: roomCode, hostKey, ...extra }, onAck] as Parameters<
+        ClientToServerEvents[E]
+      >;
+      s.emit(event, ...args);
     },
-    [hostKey, roomCode, addLog]
+    [hostKey, roomCode, addLog, t]
   );
 
   useEffect(() => {
@@ -123,7 +153,7 @@ export default function HostRoomClient({ code }: { code: string }) {
           if (!ack.ok) return setError(ack.error);
           setError(null);
           setRoom(ack.data.room);
-          addLog('✅ Resumed into room');
+          addLog(t('host.resumed'));
         }
       );
     };
@@ -140,15 +170,24 @@ export default function HostRoomClient({ code }: { code: string }) {
     return () => {
       s.off('connect', onConnect);
     };
-  }, [roomCode, hostKey, addLog]);
+  }, [roomCode, hostKey, addLog, t]);
 
   const phase = room?.phase ?? 'lobby';
-  const q = room?.currentQuestion;
+  const roomQuestion = room?.currentQuestion;
+  // Shown in the host's own language, like every player's screen
+  const q = roomQuestion && {
+    ...roomQuestion,
+    question: localizeQuestion(roomQuestion.question, locale),
+  };
   const boss = room?.boss;
   const wager = room?.wager;
+  const wagerText = pickTranslation(wager?.translations, locale);
   const shopOpen = room?.shop?.open ?? false;
-  const currentAct = room?.currentAct;
+  const paused = room?.paused ?? false;
+  const currentAct = room?.currentAct && localizeAct(locale, room.currentAct);
   const availableActs = hostState?.availableActs ?? [];
+  const acts = (hostState?.acts ?? []).map((a) => localizeAct(locale, a));
+  const bossAct = acts.find((a) => a.kind === 'boss');
 
   const activePlayers = (room?.players ?? []).filter((p) => p.connected && !p.eliminated);
   const lockedInCount = activePlayers.filter((p) => p.lockedIn).length;
@@ -157,7 +196,7 @@ export default function HostRoomClient({ code }: { code: string }) {
 
   const revealAt = q?.revealAt ?? q?.endsAt ?? 0;
   const canReveal =
-    !!q && (phase === 'question' || phase === 'boss') && !q.locked && now >= revealAt;
+    !!q && (phase === 'question' || phase === 'boss') && !q.locked && !paused && now >= revealAt;
 
   const isCountdown = phase === 'countdown';
   const countdownEndsAt = q?.countdownEndsAt ?? 0;
@@ -191,7 +230,7 @@ export default function HostRoomClient({ code }: { code: string }) {
     return (
       <main className="flex min-h-full items-center justify-center p-6">
         <div className="w-full max-w-md rounded-2xl border p-6">
-          <h1 className="text-xl font-bold">Invalid room</h1>
+          <h1 className="text-xl font-bold">{t('common.invalidRoom')}</h1>
         </div>
       </main>
     );
@@ -204,11 +243,13 @@ export default function HostRoomClient({ code }: { code: string }) {
           <div className="w-full max-w-lg rounded-3xl border border-pink-200 bg-white p-6 shadow-2xl">
             <div className="flex items-start justify-between gap-4">
               <div>
-                <div className="text-sm font-semibold text-pink-700">🎥 Spotlight (Host)</div>
-                <div className="text-2xl font-black text-pink-800">HIGH STAKES LOCKED</div>
+                <div className="text-sm font-semibold text-pink-700">
+                  {t('spotlight.titleHost')}
+                </div>
+                <div className="text-2xl font-black text-pink-800">{t('spotlight.locked')}</div>
               </div>
               <div className="rounded-xl bg-pink-50 px-3 py-2 text-right">
-                <div className="text-xs font-semibold text-pink-700">POT</div>
+                <div className="text-xs font-semibold text-pink-700">{t('spotlight.pot')}</div>
                 <div className="text-lg font-black text-pink-900 tabular-nums">
                   {spotlight.totalWagered}
                 </div>
@@ -217,15 +258,21 @@ export default function HostRoomClient({ code }: { code: string }) {
 
             <div className="mt-4 grid grid-cols-3 gap-2 text-center">
               <div className="rounded-2xl border bg-neutral-50 p-3">
-                <div className="text-[11px] font-semibold text-neutral-600">ALL IN</div>
+                <div className="text-[11px] font-semibold text-neutral-600">
+                  {t('spotlight.allIn')}
+                </div>
                 <div className="text-xl font-black tabular-nums">{spotlight.allInCount}</div>
               </div>
               <div className="rounded-2xl border bg-neutral-50 p-3">
-                <div className="text-[11px] font-semibold text-neutral-600">NO BET</div>
+                <div className="text-[11px] font-semibold text-neutral-600">
+                  {t('spotlight.noBet')}
+                </div>
                 <div className="text-xl font-black tabular-nums">{spotlight.noBetCount}</div>
               </div>
               <div className="rounded-2xl border bg-neutral-50 p-3">
-                <div className="text-[11px] font-semibold text-neutral-600">BIGGEST</div>
+                <div className="text-[11px] font-semibold text-neutral-600">
+                  {t('spotlight.biggest')}
+                </div>
                 <div className="text-sm font-black">
                   {spotlight.biggest ? spotlight.biggest.name : '—'}
                 </div>
@@ -234,7 +281,7 @@ export default function HostRoomClient({ code }: { code: string }) {
 
             {spotlight.topRisk.length > 0 ? (
               <div className="mt-4">
-                <div className="text-xs font-bold text-neutral-600">Top risk takers</div>
+                <div className="text-xs font-bold text-neutral-600">{t('spotlight.topRisk')}</div>
                 <div className="mt-2 space-y-2">
                   {spotlight.topRisk.map((e, idx) => (
                     <div
@@ -246,21 +293,14 @@ export default function HostRoomClient({ code }: { code: string }) {
                         <div>
                           <div className="text-sm font-bold">{e.name}</div>
                           <div className="text-[11px] text-neutral-500">
-                            Bet {e.wager} ({Math.round(e.ratio * 100)}%)
+                            {t('spotlight.bet', {
+                              wager: e.wager,
+                              percent: Math.round(e.ratio * 100),
+                            })}
                           </div>
                         </div>
                       </div>
-                      <div className="text-sm font-black">
-                        {e.tier === 'ALL_IN'
-                          ? '🟥 ALL IN'
-                          : e.tier === 'INSANE'
-                            ? '😈 INSANE'
-                            : e.tier === 'HIGH_ROLLER'
-                              ? '🎲 HIGH ROLLER'
-                              : e.tier === 'BOLD'
-                                ? '💪 BOLD'
-                                : '🙂 SAFE'}
-                      </div>
+                      <div className="text-sm font-black">{t(`tier.${e.tier}`)}</div>
                     </div>
                   ))}
                 </div>
@@ -272,7 +312,7 @@ export default function HostRoomClient({ code }: { code: string }) {
                 type="button"
                 className="w-full rounded-2xl bg-pink-600 px-4 py-3 text-base font-black text-white hover:bg-pink-700"
                 onClick={() => {
-                  if (!hostKey) return addLog('❌ No hostKey');
+                  if (!hostKey) return addLog(t('host.noHostKey'));
                   const s = getSocket();
                   s.emit(
                     'wager:spotlight_end',
@@ -281,22 +321,25 @@ export default function HostRoomClient({ code }: { code: string }) {
                       if (!ack.ok) {
                         setError((ack as { ok: false; error: string }).error);
                         addLog(
-                          `❌ Start High Stakes Question: ${(ack as { ok: false; error: string }).error}`
+                          t('log.failed', {
+                            action: t('host.startWager'),
+                            error: (ack as { ok: false; error: string }).error,
+                          })
                         );
                         return;
                       }
                       setError(null);
-                      addLog('✅ Start High Stakes Question');
+                      addLog(t('log.done', { action: t('host.startWager') }));
                       setSpotlight(null);
                       setRoom((ack as { ok: true; data: { room: PublicRoomState } }).data.room);
                     }
                   );
                 }}
               >
-                ▶ Start High Stakes Question
+                ▶ {t('host.startWager')}
               </button>
               <div className="mt-2 text-center text-xs font-semibold text-neutral-500">
-                Spotlight will stay up until you press Start.
+                {t('host.spotlightStays')}
               </div>
             </div>
           </div>
@@ -308,29 +351,26 @@ export default function HostRoomClient({ code }: { code: string }) {
           <div className="w-full max-w-md rounded-2xl border-2 border-emerald-400 bg-white p-8 shadow-2xl">
             <div className="text-center">
               <div className="text-5xl">🙏</div>
-              <h2 className="mt-4 text-2xl font-bold text-emerald-800">Revive Shrine</h2>
+              <h2 className="mt-4 text-2xl font-bold text-emerald-800">{t('revive.title')}</h2>
               <p className="mt-2 text-lg text-neutral-700">
-                <span className="font-bold">{pendingRevive.playerName}</span> is requesting to be
-                revived!
-              </p>
-              <p className="mt-3 text-sm text-neutral-500">
-                Have them complete the real-world forfeit. Then approve or decline.
+                {t('host.reviveRequest', { name: pendingRevive.playerName })}
               </p>
+              <p className="mt-3 text-sm text-neutral-500">{t('host.reviveForfeit')}</p>
             </div>
             <div className="mt-8 grid grid-cols-2 gap-3">
               <button
                 type="button"
-                onClick={() => emitHost('revive:approve', {}, 'Approve Revive')}
+                onClick={() => emitHost('revive:approve', {}, t('host.approveRevive'))}
                 className="rounded-xl bg-emerald-600 px-4 py-3 text-base font-bold text-white hover:bg-emerald-700"
               >
-                ✅ Approve
+                ✅ {t('host.approve')}
               </button>
               <button
                 type="button"
-                onClick={() => emitHost('revive:decline', {}, 'Decline Revive')}
+                onClick={() => emitHost('revive:decline', {}, t('host.declineRevive'))}
                 className="rounded-xl bg-red-600 px-4 py-3 text-base font-bold text-white hover:bg-red-700"
               >
-                ❌ Decline
+                ❌ {t('host.decline')}
               </button>
             </div>
           </div>
@@ -342,31 +382,43 @@ export default function HostRoomClient({ code }: { code: string }) {
         <header className="rounded-2xl border p-5">
           <div className="flex items-end justify-between gap-4">
             <div>
-              <div className="text-sm text-neutral-500">Host Dashboard</div>
+              <div className="text-sm text-neutral-500">{t('host.dashboard')}</div>
               <h1 className="text-2xl font-bold">
-                {hostName ? `${hostName}'s Room` : 'Host Room'}
+                {hostName ? t('host.roomOf', { name: hostName }) : t('host.room')}
               </h1>
               <div className="mt-1 text-sm text-neutral-600">
-                Code: <span className="font-mono text-lg font-bold">{roomCode}</span>
+                {t('common.code')}: <span className="font-mono text-lg font-bold">{roomCode}</span>
               </div>
               {lanUrl && (
                 <div className="mt-1 text-sm text-neutral-600">
-                  LAN: <span className="font-mono">{lanUrl}</span>
+                  {t('host.lan')}: <span className="font-mono">{lanUrl}</span>
                 </div>
               )}
+              <a
+                href={`/screen/${roomCode}`}
+                target="_blank"
+                rel="noreferrer"
+                className="mt-1 inline-block text-sm text-blue-600 hover:underline"
+              >
+                {t('host.presenterScreen')}
+              </a>
             </div>
             <div className="text-right">
+              <LocalePicker className="mb-1" />
               <div className="rounded-lg bg-neutral-100 px-3 py-1.5 text-sm font-semibold">
-                Phase: {phase}
+                {t('host.phase', { phase: t(`phase.${phase}`) })}
               </div>
               {currentAct && (
                 <div className="mt-1 text-xs text-neutral-500">
-                  {currentAct.emoji} {currentAct.name} · Q{currentAct.questionNumber}/
-                  {currentAct.totalQuestions}
+                  {currentAct.emoji} {currentAct.name} ·{' '}
+                  {t('play.questionProgress', {
+                    number: currentAct.questionNumber,
+                    total: currentAct.totalQuestions,
+                  })}
                 </div>
               )}
               <div className="mt-1 text-xs text-neutral-500">
-                Questions left: {room?.remainingQuestions ?? '?'}
+                {t('host.questionsLeft', { count: room?.remainingQuestions ?? '?' })}
               </div>
             </div>
           </div>
@@ -394,21 +446,72 @@ export default function HostRoomClient({ code }: { code: string }) {
                       : 'bg-green-100 text-green-700'
                   }`}
                 >
-                  {currentAct.heartsAtRisk ? '❤️ Hearts at risk' : '🛡️ Hearts safe'}
+                  {currentAct.heartsAtRisk ? t('common.heartsAtRisk') : t('common.heartsSafe')}
                 </div>
                 <div className="mt-1 text-xs text-neutral-500">
-                  Progress: {currentAct.questionNumber}/{currentAct.totalQuestions}
+                  {t('host.progress', {
+                    number: currentAct.questionNumber,
+                    total: currentAct.totalQuestions,
+                  })}
                 </div>
               </div>
             </div>
           </section>
         )}
+        {/* ── Question Pack (lobby only) ── */}
+        {hostState && phase === 'lobby' && (
+          <LobbyPackPanel
+            pack={hostState.pack}
+            onSwitch={(packId) => emitHost('game:pack', { packId }, t('host.switchPack'))}
+          />
+        )}
+        {hostState && phase === 'lobby' && (
+          <PackMixPanel
+            // Start from the saved mix again whenever the server's changes
+            key={`${hostState.pack.id}:${JSON.stringify(hostState.packMix)}`}
+            acts={acts}
+            pack={hostState.pack}
+            mix={hostState.packMix}
+            onSave={(mix) => emitHost('game:mix', { mix }, t('host.saveMix'))}
+          />
+        )}
+        {/* ── Run Plan / Timeline ── */}
+        {hostState && room && (
+          <RunPlanPanel
+            acts={acts}
+            timeline={hostState.timeline.map((step) => ({
+              ...step,
+              name: acts.find((a) => a.id === step.actId)?.name ?? step.name,
+            }))}
+            config={room.config}
+            editable={phase === 'lobby'}
+            onSave={(plan) => emitHost('game:plan', { plan }, t('host.savePlan'))}
+            onConfigure={(config) =>
+              emitHost('game:configure', { config }, t('host.updateSettings'))
+            }
+            onClearHistory={() => emitHost('history:clear', {}, t('host.resetHistory'))}
+          />
+        )}
         {/* ── Game Flow ── */}
         <section className="rounded-2xl border p-5">
-          <h2 className="text-lg font-semibold">Game Flow</h2>
-          <p className="mt-1 text-xs text-neutral-500">
-            Start Act → Questions → Reveal → (Shop) → Next Question → … → Intermission → Next Act
-          </p>
+          <h2 className="text-lg font-semibold">{t('host.gameFlow')}</h2>
+          <p className="mt-1 text-xs text-neutral-500">{t('host.flowHint')}</p>
+          {paused && (
+            <p className="mt-3 rounded-lg bg-amber-50 px-3 py-2 text-sm font-semibold text-amber-800">
+              {t('host.pausedBanner')}
+            </p>
+          )}
+          {room && (
+            <AutopilotPanel
+              config={room.config}
+              next={room.autopilot}
+              error={hostState?.autopilotError}
+              now={now}
+              onConfigure={(config) =>
+                emitHost('game:configure', { config }, t('host.updateSettings'))
+              }
+            />
+          )}
 
           <div className="mt-4 grid grid-cols-2 gap-2 sm:grid-cols-3">
             {/* Start Game / Next Question */}
@@ -417,24 +520,24 @@ export default function HostRoomClient({ code }: { code: string }) {
               disabled={phase !== 'lobby' && phase !== 'shop' && phase !== 'reveal'}
               onClick={() => {
                 if (phase === 'lobby') {
-                  emitHost('game:start', {}, 'Start Game (Act 1)');
+                  emitHost('game:start', {}, t('host.startGame'));
                 } else {
-                  emitHost('question:next', {}, 'Next Question');
+                  emitHost('question:next', {}, t('host.nextQuestion'));
                 }
               }}
               type="button"
             >
-              {phase === 'lobby' ? '▶ Start Game' : '⏭ Next Question'}
+              {phase === 'lobby' ? `▶ ${t('host.startGame')}` : `⏭ ${t('host.nextQuestion')}`}
             </button>
 
             {/* Reveal */}
             <button
               className="rounded-xl bg-amber-500 px-4 py-2.5 text-sm font-semibold text-white hover:bg-amber-600 disabled:opacity-40"
               disabled={!canReveal}
-              onClick={() => emitHost('question:reveal', {}, 'Reveal Answer')}
+              onClick={() => emitHost('question:reveal', {}, t('host.reveal'))}
               type="button"
             >
-              👁 Reveal Answer
+              👁 {t('host.reveal')}
             </button>
 
             {/* Shop */}
@@ -442,31 +545,56 @@ export default function HostRoomClient({ code }: { code: string }) {
               className="rounded-xl bg-purple-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-purple-700 disabled:opacity-40"
               disabled={phase !== 'reveal' && phase !== 'shop' && phase !== 'intermission'}
               onClick={() =>
-                emitHost('shop:open', { open: !shopOpen }, shopOpen ? 'Close Shop' : 'Open Shop')
+                emitHost(
+                  'shop:open',
+                  { open: !shopOpen },
+                  shopOpen ? t('host.closeShop') : t('host.openShop')
+                )
               }
               type="button"
             >
-              🛒 {shopOpen ? 'Close Shop' : 'Open Shop'}
+              🛒 {shopOpen ? t('host.closeShop') : t('host.openShop')}
             </button>
 
             {/* Lock Wagers (High Stakes) */}
             <button
               className="rounded-xl bg-pink-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-pink-700 disabled:opacity-40"
               disabled={!isWager || !wager?.open}
-              onClick={() => emitHost('wager:lock', {}, 'Lock Wagers')}
+              onClick={() => emitHost('wager:lock', {}, t('host.lockWagers'))}
+              type="button"
+            >
+              🎰 {t('host.lockWagers')}
+            </button>
+
+            {/* Pause / Resume */}
+            <button
+              className="rounded-xl bg-neutral-700 px-4 py-2.5 text-sm font-semibold text-white hover:bg-neutral-800 disabled:opacity-40"
+              disabled={phase === 'lobby' || phase === 'ended'}
+              onClick={() =>
+                paused
+                  ? emitHost('game:resume', {}, t('host.resume'))
+                  : emitHost('game:pause', {}, t('host.pause'))
+              }
               type="button"
             >
-              🎰 Lock Wagers
+              {paused ? `▶ ${t('host.resume')}` : `⏸ ${t('host.pause')}`}
             </button>
 
             {/* Boss (only available as an act transition from intermission) */}
             <button
               className="rounded-xl bg-red-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-red-700 disabled:opacity-40"
-              disabled={!availableActs.includes('boss_fight') || !isIntermission}
-              onClick={() => emitHost('act:start', { actId: 'boss_fight' }, 'Start Boss Fight')}
+              disabled={!bossAct || !availableActs.includes(bossAct.id) || !isIntermission}
+              onClick={() =>
+                bossAct &&
+                emitHost(
+                  'act:start',
+                  { actId: bossAct.id },
+                  t('host.startAct', { act: bossAct.name })
+                )
+              }
               type="button"
             >
-              🐉 Start Boss
+              {bossAct?.emoji ?? '🐉'} {t('host.startBoss')}
             </button>
           </div>
 
@@ -474,44 +602,52 @@ export default function HostRoomClient({ code }: { code: string }) {
           {isIntermission && availableActs.length > 0 && (
             <div className="mt-4 rounded-xl border border-blue-200 bg-blue-50 p-4">
               <h3 className="text-sm font-bold text-blue-800">
-                🎬 {currentAct?.name} complete! Start next act:
+                {t('host.actComplete', { act: currentAct?.name ?? '' })}
               </h3>
               <div className="mt-3 flex flex-wrap gap-2">
                 {availableActs.map((actId) => {
-                  const meta = ACT_META[actId];
+                  const meta = acts.find((a) => a.id === actId);
+                  if (!meta) return null;
                   return (
                     <button
                       key={actId}
                       type="button"
-                      onClick={() => emitHost('act:start', { actId }, `Start ${meta.name}`)}
-                      className={`rounded-xl px-4 py-2.5 text-sm font-semibold text-white transition-colors ${
-                        actId === 'boss_fight'
-                          ? 'bg-red-600 hover:bg-red-700'
-                          : actId === 'wager_round'
-                            ? 'bg-pink-600 hover:bg-pink-700'
-                            : actId === 'field_trip'
-                              ? 'bg-orange-600 hover:bg-orange-700'
-                              : actId === 'pop_quiz'
-                                ? 'bg-amber-600 hover:bg-amber-700'
-                                : 'bg-green-600 hover:bg-green-700'
-                      }`}
+                      onClick={() =>
+                        emitHost('act:start', { actId }, t('host.startAct', { act: meta.name }))
+                      }
+                      className={`rounded-xl px-4 py-2.5 text-sm font-semibold text-white transition-colors ${actButtonClass(meta, acts.indexOf(meta))}`}
                     >
-                      {meta.emoji} Start {meta.name}
+                      {meta.emoji} {t('host.startAct', { act: meta.name })}
                     </button>
                   );
                 })}
               </div>
-              <p className="mt-2 text-xs text-blue-600">
-                💡 You can also open the Shop first, then start the next act.
-              </p>
+              <p className="mt-2 text-xs text-blue-600">{t('host.shopTip')}</p>
             </div>
           )}
         </section>{' '}
+        {/* ── Late Joiners ── */}
+        {hostState && room && (
+          <JoinRequestsPanel
+            requests={hostState.joinRequests}
+            defaults={{
+              lives: room.config.maxLives,
+              coins: room.config.startingCoins,
+              score: hostState.medianScore,
+            }}
+            onAdmit={(requestId, admission) =>
+              emitHost('join:admit', { requestId, ...admission }, t('host.admit'))
+            }
+            onDecline={(requestId) =>
+              emitHost('join:decline', { requestId }, t('host.declineJoin'))
+            }
+          />
+        )}
         {/* ── Wager Phase ── */}
         {isWager && wager && (
           <section className="rounded-2xl border border-pink-200 bg-pink-50 p-5">
             <div className="flex items-center justify-between gap-3">
-              <h2 className="text-lg font-semibold text-pink-800">🎰 High Stakes — Redline</h2>
+              <h2 className="text-lg font-semibold text-pink-800">{t('wager.title')}</h2>
               <div
                 className={`rounded-xl border bg-white px-3 py-1.5 text-sm font-semibold tabular-nums ${
                   wagerSiren ? 'animate-pulse border-red-400 bg-red-50 text-red-700' : ''
@@ -522,25 +658,20 @@ export default function HostRoomClient({ code }: { code: string }) {
             </div>
 
             <div className="mt-2 text-xs text-neutral-600">
-              Stage: <span className="font-bold">{String(wagerStage).toUpperCase()}</span>
+              {t('wager.stage')}{' '}
+              <span className="font-bold">{t(`wagerStage.${wagerStage}`).toUpperCase()}</span>
               {wagerNoDecreases ? (
                 <span className="ml-2 rounded-full bg-red-100 px-2 py-0.5 font-bold text-red-700">
-                  🚨 NO DECREASES
+                  {t('wager.noDecreases')}
                 </span>
               ) : null}
               <span className="ml-2 text-pink-700">
-                · Total wagered: <span className="font-bold">{wager.totalWagered}</span>
+                {t('host.totalWagered', { total: wager.totalWagered })}
               </span>
             </div>
 
             <div className="mt-3 flex flex-wrap gap-2 text-[11px]">
-              {[
-                ['blind', '???'],
-                ['category', 'Category'],
-                ['hint', 'Hint'],
-                ['redline', 'REDLINE'],
-                ['closing', 'Closing'],
-              ].map(([id, label]) => {
+              {(['blind', 'category', 'hint', 'redline', 'closing'] as const).map((id) => {
                 const idx =
                   id === 'blind'
                     ? 0
@@ -561,7 +692,7 @@ export default function HostRoomClient({ code }: { code: string }) {
                         : 'border-neutral-200 bg-white text-neutral-500'
                     }`}
                   >
-                    {label}
+                    {t(`wagerStage.${id}`)}
                   </span>
                 );
               })}
@@ -569,15 +700,17 @@ export default function HostRoomClient({ code }: { code: string }) {
 
             <div className="mt-3 rounded-xl border bg-white p-4 text-sm">
               <div className="font-semibold text-neutral-800">
-                Category: <span className="font-bold">{wager.category ?? '???'}</span>
+                {t('wager.category')}{' '}
+                <span className="font-bold">{wagerText?.category ?? wager.category ?? '???'}</span>
               </div>
               <div className="mt-1 text-sm text-neutral-600">
-                Hint: <span className="font-medium">{wager.hint ?? '???'}</span>
+                {t('wager.hint')}{' '}
+                <span className="font-medium">{wagerText?.hint ?? wager.hint ?? '???'}</span>
               </div>
 
               {!wager.open ? (
                 <div className="mt-3 rounded-xl border border-neutral-200 bg-neutral-50 p-3 text-sm font-semibold text-neutral-700">
-                  🔒 Wagers locked — Spotlight in progress…
+                  {t('wager.lockedSpotlight')}
                 </div>
               ) : null}
             </div>
@@ -587,13 +720,13 @@ export default function HostRoomClient({ code }: { code: string }) {
         {q && (
           <section className="rounded-2xl border border-amber-200 bg-amber-50 p-5">
             <h2 className="text-lg font-semibold">
-              {phase === 'boss' ? '🐉 Boss Question' : '❓ Current Question'}
+              {phase === 'boss' ? t('question.boss') : t('host.currentQuestion')}
             </h2>
 
             {/* Hearts at risk indicator */}
             {q.question.hard && (
               <span className="mt-1 inline-block rounded-full bg-red-100 px-2 py-0.5 text-xs font-bold text-red-700">
-                ⚠️ HARD — hearts at risk
+                {t('host.hardAtRisk')}
               </span>
             )}
 
@@ -603,11 +736,11 @@ export default function HostRoomClient({ code }: { code: string }) {
                 <span className="text-3xl font-black text-blue-600 tabular-nums">
                   {countdownSecondsLeft}
                 </span>
-                <span className="text-sm font-semibold text-blue-700">Countdown…</span>
+                <span className="text-sm font-semibold text-blue-700">{t('host.countdown')}</span>
               </div>
             ) : (
               <div className="mt-3 flex items-center justify-between rounded-xl border bg-white px-3 py-2 text-sm">
-                <span className="font-semibold">⏱️ Reveal in</span>
+                <span className="font-semibold">{t('host.revealIn')}</span>
                 <span className="font-bold tabular-nums">
                   {q.locked ? '—' : `${Math.max(0, Math.ceil((revealAt - now) / 1000))}s`}
                 </span>
@@ -615,40 +748,59 @@ export default function HostRoomClient({ code }: { code: string }) {
             )}
 
             <p className="mt-2 text-xs font-semibold text-neutral-700">
-              🔒 Locked in:{' '}
+              {t('lockIn.count')}{' '}
               <span className="tabular-nums">
                 {lockedInCount}/{activeCount}
               </span>
-              {allLockedIn ? ' · All locked!' : ''}
+              {allLockedIn ? ` ${t('host.allLocked')}` : ''}
             </p>
 
             <p className="mt-2 text-sm font-medium">{q.question.prompt}</p>
+            {q.question.media && (
+              <QuestionMediaView
+                media={q.question.media}
+                preloading={isCountdown}
+                playing={(phase === 'question' || phase === 'boss') && !q.locked}
+                startedAt={q.startedAt}
+              />
+            )}
             <div className="mt-2 grid grid-cols-2 gap-2">
-              {q.question.choices.map((c, i) => (
-                <div
-                  key={i}
-                  className={`rounded-lg border px-3 py-2 text-sm ${
-                    hostState?.currentAnswerIndex === i
-                      ? 'border-green-500 bg-green-100 font-bold'
-                      : 'border-neutral-200 bg-white'
-                  }`}
-                >
-                  {String.fromCharCode(65 + i)}: {c}
-                  {hostState?.currentAnswerIndex === i && ' ✅'}
-                </div>
-              ))}
+              {q.question.choices.map((c, i) => {
+                const correct = includesChoice(hostState?.currentAnswer, i);
+                return (
+                  <div
+                    key={i}
+                    className={`rounded-lg border px-3 py-2 text-sm ${
+                      correct
+                        ? 'border-green-500 bg-green-100 font-bold'
+                        : 'border-neutral-200 bg-white'
+                    }`}
+                  >
+                    {choiceLetter(i)}: {c}
+                    {correct && ' ✅'}
+                  </div>
+                );
+              })}
             </div>
+            {(q.question.type === 'ordering' || q.question.type === 'free_text') &&
+              hostState?.correctChoice && (
+                <div className="mt-2 rounded-lg border border-green-500 bg-green-100 px-3 py-2 text-sm font-bold">
+                  ✅ {hostState.correctChoice}
+                </div>
+              )}
             <div className="mt-2 text-xs text-neutral-500">
-              {q.question.category} · {q.question.value} pts · {q.locked ? 'Locked' : 'Open'}
+              {t(`questionType.${q.question.type}`)} · {q.question.category} ·{' '}
+              {t('common.pts', { value: q.question.value })} ·{' '}
+              {q.locked ? t('host.locked') : t('host.open')}
             </div>
           </section>
         )}
         {/* ── Boss HP ── */}
         {boss && (
           <section className="rounded-2xl border border-red-200 bg-red-50 p-5">
-            <h2 className="text-lg font-semibold">🐉 Boss Fight</h2>
-            <div className="mt-2 text-sm">
-              HP: <span className="font-bold">{boss.hp}</span> / {boss.maxHp}
+            <h2 className="text-lg font-semibold">{t('host.bossFight')}</h2>
+            <div className="mt-2 text-sm font-semibold">
+              {t('host.hp', { hp: boss.hp, max: boss.maxHp })}
             </div>
             <div className="mt-1 h-3 w-full overflow-hidden rounded-full bg-red-200">
               <div
@@ -668,7 +820,7 @@ export default function HostRoomClient({ code }: { code: string }) {
 
             return (
               <section className="rounded-2xl border-2 border-amber-300 bg-linear-to-b from-amber-50 to-white p-6">
-                <h2 className="text-center text-2xl font-bold">🏆 Game Over!</h2>
+                <h2 className="text-center text-2xl font-bold">{t('common.gameOver')}</h2>
 
                 <div className="mt-5 flex items-end justify-center gap-3">
                   {podium.map((p, i) => (
@@ -683,9 +835,12 @@ export default function HostRoomClient({ code }: { code: string }) {
                       }`}
                     >
                       <span className="text-2xl">{medals[i]}</span>
-                      <span className="mt-1 text-sm font-bold">{p.name}</span>
+                      <span className="mt-1 text-sm font-bold">
+                        {p.avatar && `${p.avatar} `}
+                        {p.name}
+                      </span>
                       <span className="mt-0.5 text-lg font-black tabular-nums">{p.score}</span>
-                      <span className="text-xs text-neutral-500">points</span>
+                      <span className="text-xs text-neutral-500">{t('common.points')}</span>
                     </div>
                   ))}
                 </div>
@@ -699,23 +854,28 @@ export default function HostRoomClient({ code }: { code: string }) {
                     >
                       <div className="flex items-center gap-2">
                         <span className="w-5 font-bold text-neutral-400">{rank + 1}.</span>
-                        <span className="font-medium">{p.name}</span>
+                        <span className="font-medium">
+                          {p.avatar && `${p.avatar} `}
+                          {p.name}
+                        </span>
                         {p.eliminated && <span className="text-xs text-red-500">💀</span>}
                       </div>
                       <span className="font-bold tabular-nums">{p.score}</span>
                     </div>
                   ))}
                 </div>
+
+                {hostKey && <ResultsExport code={roomCode} hostKey={hostKey} />}
               </section>
             );
           })()}
         {/* ── Players ── */}
         <section className="rounded-2xl border p-5">
-          <h2 className="text-lg font-semibold">Players ({room?.players.length ?? 0})</h2>
+          <h2 className="text-lg font-semibold">
+            {t('host.players', { count: room?.players.length ?? 0 })}
+          </h2>
           {(room?.players.length ?? 0) === 0 && (
-            <p className="mt-2 text-sm text-neutral-500">
-              No players yet. Share the code or LAN URL.
-            </p>
+            <p className="mt-2 text-sm text-neutral-500">{t('host.noPlayers')}</p>
           )}
           <div className="mt-3 space-y-2">
             {(room?.players ?? []).map((p) => (
@@ -726,7 +886,16 @@ export default function HostRoomClient({ code }: { code: string }) {
                 }`}
               >
                 <div className="flex items-center gap-2">
-                  <span className="font-medium">{p.name}</span>
+                  <span className="font-medium">
+                    {p.avatar && `${p.avatar} `}
+                    {p.name}
+                  </span>
+                  <span
+                    className="rounded-full bg-neutral-100 px-2 py-0.5 text-xs text-neutral-600 uppercase"
+                    title={t('common.language')}
+                  >
+                    {p.locale}
+                  </span>
                   {p.eliminated && (
                     <span className="rounded-full bg-red-100 px-2 py-0.5 text-xs text-red-700">
                       💀
@@ -735,7 +904,7 @@ export default function HostRoomClient({ code }: { code: string }) {
                   {p.buffs?.doublePoints && (
                     <span
                       className="rounded-full bg-yellow-100 px-2 py-0.5 text-xs text-yellow-800"
-                      title="Double Points armed"
+                      title={t('host.doublePoints')}
                     >
                       ⭐ 2×
                     </span>
@@ -743,7 +912,7 @@ export default function HostRoomClient({ code }: { code: string }) {
                   {p.buffs?.shield && (
                     <span
                       className="rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-800"
-                      title="Shield armed"
+                      title={t('host.shield')}
                     >
                       🛡️
                     </span>
@@ -751,7 +920,7 @@ export default function HostRoomClient({ code }: { code: string }) {
                   {(p.inventory['buyback_token'] ?? 0) > 0 && (
                     <span
                       className="rounded-full bg-green-100 px-2 py-0.5 text-xs text-green-800"
-                      title="Has buyback token"
+                      title={t('host.buyback')}
                     >
                       🪙
                     </span>
@@ -771,9 +940,9 @@ export default function HostRoomClient({ code }: { code: string }) {
         </section>
         {/* ── Event Log ── */}
         <section className="rounded-2xl border p-5">
-          <h2 className="text-lg font-semibold">Event Log</h2>
+          <h2 className="text-lg font-semibold">{t('common.eventLog')}</h2>
           <div className="mt-2 max-h-48 overflow-y-auto rounded-lg bg-neutral-50 p-3 font-mono text-xs">
-            {log.length === 0 && <p className="text-neutral-400">No events yet…</p>}
+            {log.length === 0 && <p className="text-neutral-400">{t('common.noEvents')}</p>}
             {log.map((entry, i) => (
               <div key={i} className="py-0.5">
                 {entry}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useI18n } from '@/components/i18n/LocalePicker';
+import type { Admission, JoinRequest } from '@/lib/types';
+import { useState } from 'react';
+
+type Props = {
+  requests: JoinRequest[];
+  /** Starting values the host can adjust: full lives, the room's starting coins, the median score */
+  defaults: Admission;
+  onAdmit: (requestId: string, admission: Admission) => void;
+  onDecline: (requestId: string) => void;
+};
+
+function NumberField({
+  label,
+  value,
+  min,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1">
+      <span className="text-neutral-600">{label}</span>
+      <input
+        type="number"
+        min={min}
+        className="w-20 rounded-lg border px-2 py-1 tabular-nums"
+        value={value}
+        onChange={(e) => onChange(Math.max(min, Math.floor(Number(e.target.value) || 0)))}
+      />
+    </label>
+  );
+}
+
+/** One late joiner: what they'll start with, and admit / decline */
+function RequestRow({
+  request,
+  defaults,
+  onAdmit,
+  onDecline,
+}: Omit<Props, 'requests'> & { request: JoinRequest }) {
+  const { t } = useI18n();
+  const [admission, setAdmission] = useState(defaults);
+  const set = (patch: Partial<Admission>) => setAdmission((prev) => ({ ...prev, ...patch }));
+
+  return (
+    <li className="flex flex-wrap items-center gap-3 rounded-xl border bg-white p-3 text-sm">
+      <span className="font-semibold">
+        {request.avatar && <span className="mr-1">{request.avatar}</span>}
+        {request.name}
+      </span>
+      {request.admitted ? (
+        <span className="text-xs text-green-700">{t('join.admittedNext')}</span>
+      ) : (
+        <>
+          <NumberField
+            label="❤️"
+            value={admission.lives}
+            min={1}
+            onChange={(lives) => set({ lives })}
+          />
+          <NumberField
+            label="🪙"
+            value={admission.coins}
+            min={0}
+            onChange={(coins) => set({ coins })}
+          />
+          <NumberField
+            label={t('join.score')}
+            value={admission.score}
+            min={0}
+            onChange={(score) => set({ score })}
+          />
+          <div className="ml-auto flex gap-2">
+            <button
+              type="button"
+              className="rounded-lg bg-green-600 px-3 py-1.5 font-semibold text-white hover:bg-green-700"
+              onClick={() => onAdmit(request.requestId, admission)}
+            >
+              {t('host.approve')}
+            </button>
+            <button
+              type="button"
+              className="rounded-lg border px-3 py-1.5 font-semibold hover:bg-neutral-50"
+              onClick={() => onDecline(request.requestId)}
+            >
+              {t('host.decline')}
+            </button>
+          </div>
+        </>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Late joiners waiting to be let in. Admitted players join when the next
+ * question starts, with the lives, coins and catch-up score picked here.
+ */
+export default function JoinRequestsPanel({ requests, defaults, onAdmit, onDecline }: Props) {
+  const { t } = useI18n();
+  if (requests.length === 0) return null;
+
+  return (
+    <section className="rounded-2xl border border-blue-200 bg-blue-50 p-5">
+      <h2 className="text-lg font-semibold text-blue-900">
+        {t('join.title', { count: requests.length })}
+      </h2>
+      <p className="mt-1 text-xs text-blue-700">{t('join.hint')}</p>
+      <ul className="mt-3 space-y-2">
+        {requests.map((r) => (
+          <RequestRow
+            key={r.requestId}
+            request={r}
+            defaults={defaults}
+            onAdmit={onAdmit}
+            onDecline={onDecline}
+          />
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import PackPicker, { emptyActs, usePackList } from '@/components/game/PackPicker';
+import { useI18n } from '@/components/i18n/LocalePicker';
+import type { HostRoomState } from '@/lib/types';
+import { useState } from 'react';
+
+type Props = {
+  pack: HostRoomState['pack'];
+  onSwitch: (packId: string) => void;
+};
+
+/** The room's question pack, switchable until the game starts (lobby only) */
+export default function LobbyPackPanel({ pack, onSwitch }: Props) {
+  const { t } = useI18n();
+  const packs = usePackList();
+  const [open, setOpen] = useState(false);
+  const current = packs?.find((p) => p.id === pack.id);
+  const empty = current ? emptyActs(current) : [];
+
+  return (
+    <section className="rounded-2xl border p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">📚 {pack.name}</h2>
+          {empty.length > 0 && (
+            <p className="text-xs font-semibold text-amber-600">
+              {t('packs.leftOut', { acts: empty.map((a) => a.name).join(', ') })}
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          className="rounded-lg border px-3 py-1.5 text-sm font-semibold hover:bg-neutral-50"
+          onClick={() => setOpen((o) => !o)}
+        >
+          {open ? t('packs.done') : t('packs.change')}
+        </button>
+      </div>
+      {open && packs && (
+        <div className="mt-4">
+          <PackPicker
+            packs={packs}
+            selectedId={pack.id}
+            onSelect={(id) => {
+              if (id !== pack.id) onSwitch(id);
+            }}
+          />
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { usePackList } from '@/components/game/PackPicker';
+import { useI18n } from '@/components/i18n/LocalePicker';
+import type { HostRoomState, PackMixEntry, PackSummary } from '@/lib/types';
+import { useState } from 'react';
+
+type Props = {
+  acts: HostRoomState['acts'];
+  pack: HostRoomState['pack'];
+  mix: PackMixEntry[];
+  onSave: (mix: PackMixEntry[]) => void;
+};
+
+/** `entry` pointed at `packId`, keeping its source act if that pack has one by that ID */
+function withPack(entry: PackMixEntry, packId: string, packs: PackSummary[]): PackMixEntry {
+  const acts = packs.find((p) => p.id === packId)?.acts ?? [];
+  const fromActId = entry.fromActId ?? entry.actId;
+  return {
+    ...entry,
+    packId,
+    fromActId: acts.some((a) => a.id === fromActId) ? entry.fromActId : acts[0]?.id,
+  };
+}
+
+/**
+ * Mix other packs into acts (lobby only): each act can draw from several packs,
+ * weighted, instead of just the room's pack
+ */
+export default function PackMixPanel({ acts, pack, mix, onSave }: Props) {
+  const { t } = useI18n();
+  const packs = usePackList() ?? [];
+  const [draft, setDraft] = useState(mix);
+  const [open, setOpen] = useState(mix.length > 0);
+
+  const update = (i: number, patch: Partial<PackMixEntry>) =>
+    setDraft((d) => d.map((e, j) => (j === i ? { ...e, ...patch } : e)));
+
+  const addSource = (actId: string) => {
+    const other = packs.find((p) => p.id !== pack.id)?.id ?? pack.id;
+    const added = withPack({ actId, packId: other, weight: 1 }, other, packs);
+    setDraft((d) =>
+      d.some((e) => e.actId === actId)
+        ? [...d, added]
+        : [...d, { actId, packId: pack.id, weight: 1 }, added]
+    );
+  };
+
+  const changed = JSON.stringify(draft) !== JSON.stringify(mix);
+
+  return (
+    <section className="rounded-2xl border p-5">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">{t('mix.title')}</h2>
+          <p className="text-xs text-neutral-500">{t('mix.lead')}</p>
+        </div>
+        <button
+          type="button"
+          className="rounded-lg border px-3 py-1.5 text-sm font-semibold hover:bg-neutral-50"
+          onClick={() => setOpen((o) => !o)}
+        >
+          {open ? t('mix.hide') : t('mix.open')}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-4 space-y-3">
+          {acts.map((a) => (
+            <div key={a.id} className="rounded-xl border p-3 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-semibold">
+                  {a.emoji} {a.name}
+                  <span className="ml-1 text-xs font-normal text-neutral-500">
+                    ×{a.questionsAvailable}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  className="rounded-lg border px-2 py-0.5 text-xs font-semibold hover:bg-neutral-50"
+                  onClick={() => addSource(a.id)}
+                >
+                  {t('mix.addPack')}
+                </button>
+              </div>
+              {!draft.some((e) => e.actId === a.id) && (
+                <p className="mt-1 text-xs text-neutral-500">📚 {pack.name}</p>
+              )}
+              {draft.map((e, i) =>
+                e.actId !== a.id ? null : (
+                  <div key={i} className="mt-2 flex flex-wrap items-center gap-2">
+                    <select
+                      className="rounded-lg border px-2 py-1"
+                      value={e.packId}
+                      onChange={(ev) => update(i, withPack(e, ev.target.value, packs))}
+                    >
+                      {packs.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.name}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      className="rounded-lg border px-2 py-1"
+                      value={e.fromActId ?? e.actId}
+                      onChange={(ev) =>
+                        update(i, {
+                          fromActId: ev.target.value === e.actId ? undefined : ev.target.value,
+                        })
+                      }
+                    >
+                      {(packs.find((p) => p.id === e.packId)?.acts ?? []).map((pa) => (
+                        <option key={pa.id} value={pa.id}>
+                          {pa.emoji} {pa.name} ×
+                          {packs.find((p) => p.id === e.packId)?.questionCounts[pa.id] ?? 0}
+                        </option>
+                      ))}
+                    </select>
+                    <label className="flex items-center gap-1 text-xs text-neutral-600">
+                      {t('mix.weight')}
+                      <input
+                        type="number"
+                        min={1}
+                        max={100}
+                        className="w-16 rounded-lg border px-2 py-1 text-sm tabular-nums"
+                        value={e.weight}
+                        onChange={(ev) =>
+                          update(i, {
+                            weight: Math.min(
+                              100,
+                              Math.max(1, Math.floor(Number(ev.target.value)) || 1)
+                            ),
+                          })
+                        }
+                      />
+                    </label>
+                    <button
+                      type="button"
+                      className="text-xs text-red-600 hover:underline"
+                      onClick={() => setDraft((d) => d.filter((_, j) => j !== i))}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                )
+              )}
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              className="rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+              disabled={!changed}
+              onClick={() => onSave(draft)}
+            >
+              {t('mix.save')}
+            </button>
+            {draft.length > 0 && (
+              <button
+                type="button"
+                className="rounded-lg border px-3 py-1.5 text-sm font-semibold hover:bg-neutral-50"
+                onClick={() => setDraft([])}
+              >
+                {t('mix.clear')}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { useI18n } from '@/components/i18n/LocalePicker';
+import type { MessageKey } from '@/lib/i18n';
+import { resultsAnswersCsv, resultsStandingsCsv } from '@/lib/gameResults';
+import { getSocket } from '@/lib/socket';
+import type { GameResults } from '@/lib/types';
+import { downloadFile } from '@/lib/utils';
+import { useState } from 'react';
+
+type Props = {
+  code: string;
+  hostKey: string;
+};
+
+const DOWNLOADS: {
+  label: MessageKey;
+  file: string;
+  type: string;
+  build: (r: GameResults) => string;
+}[] = [
+  {
+    label: 'host.downloadAnswers',
+    file: 'answers.csv',
+    type: 'text/csv',
+    build: resultsAnswersCsv,
+  },
+  {
+    label: 'host.downloadStandings',
+    file: 'standings.csv',
+    type: 'text/csv',
+    build: resultsStandingsCsv,
+  },
+  {
+    label: 'host.downloadAll',
+    file: 'results.json',
+    type: 'application/json',
+    build: (r) => `${JSON.stringify(r, null, 2)}\n`,
+  },
+];
+
+/** End-of-game downloads: every answer, the standings, or the whole record */
+export default function ResultsExport({ code, hostKey }: Props) {
+  const { t } = useI18n();
+  const [error, setError] = useState<string | null>(null);
+
+  const download = (d: (typeof DOWNLOADS)[number]) => {
+    getSocket().emit('game:results', { code, hostKey }, (ack) => {
+      if (!ack.ok) return setError(ack.error);
+      setError(null);
+      downloadFile(`${code}-${d.file}`, d.build(ack.data.results), d.type);
+    });
+  };
+
+  return (
+    <div className="mt-5 flex flex-wrap items-center justify-center gap-2">
+      <span className="text-xs font-semibold text-neutral-500">{t('host.downloadResults')}</span>
+      {DOWNLOADS.map((d) => (
+        <button
+          key={d.file}
+          type="button"
+          className="rounded-lg border bg-white px-3 py-1 text-xs font-semibold hover:bg-neutral-50"
+          onClick={() => download(d)}
+        >
+          {t(d.label)}
+        </button>
+      ))}
+      {error && <span className="w-full text-center text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
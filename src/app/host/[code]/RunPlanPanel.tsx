@@ -0,0 +1,299 @@
+'use client';
+
+import { useI18n } from '@/components/i18n/LocalePicker';
+import { SAMPLING_STRATEGIES } from '@/lib/questionSampling';
+import type {
+  HostRoomState,
+  RoomConfig,
+  RunPlanStep,
+  SamplingStrategy,
+  TimelineStep,
+} from '@/lib/types';
+import { useState } from 'react';
+
+type Props = {
+  acts: HostRoomState['acts'];
+  timeline: TimelineStep[];
+  config: RoomConfig;
+  /** Only in the lobby — the plan is locked once the game starts */
+  editable: boolean;
+  onSave: (plan: RunPlanStep[]) => void;
+  onConfigure: (patch: Partial<RoomConfig>) => void;
+  onClearHistory: () => void;
+};
+
+const STATUS_CLASS: Record<TimelineStep['status'], string> = {
+  done: 'border-neutral-200 bg-neutral-50 text-neutral-400 line-through',
+  current: 'border-blue-400 bg-blue-50 text-blue-900 ring-2 ring-blue-200',
+  upcoming: 'border-neutral-200 bg-white text-neutral-800',
+};
+
+/**
+ * Questions-per-act (lobby only — it rebuilds the plan), the sampling strategy
+ * and question history (which group it's shared with, and whether to avoid repeats)
+ */
+function PlanSettings({
+  acts,
+  config,
+  editable,
+  onConfigure,
+  onClearHistory,
+}: Pick<Props, 'acts' | 'config' | 'editable' | 'onConfigure' | 'onClearHistory'>) {
+  const { t } = useI18n();
+  const [perAct, setPerAct] = useState(String(config.questionsPerAct || ''));
+  const [group, setGroup] = useState(config.historyGroup);
+
+  const total = acts.reduce((sum, a) => sum + a.questionsAvailable, 0);
+  const seen = acts.reduce((sum, a) => sum + a.questionsSeen, 0);
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-3 text-sm">
+      {editable && (
+        <label className="flex items-center gap-2">
+          <span className="text-neutral-600">{t('plan.perAct')}</span>
+          <input
+            type="number"
+            min={0}
+            placeholder={t('plan.all')}
+            className="w-20 rounded-lg border px-2 py-1 tabular-nums"
+            value={perAct}
+            onChange={(e) => setPerAct(e.target.value)}
+            onBlur={() => {
+              const n = Math.max(0, Math.floor(Number(perAct) || 0));
+              if (n !== config.questionsPerAct) onConfigure({ questionsPerAct: n });
+            }}
+          />
+        </label>
+      )}
+      <label className="flex items-center gap-2">
+        <span className="text-neutral-600">{t('plan.sampling')}</span>
+        <select
+          className="rounded-lg border px-2 py-1"
+          value={config.sampling}
+          onChange={(e) => onConfigure({ sampling: e.target.value as SamplingStrategy })}
+        >
+          {SAMPLING_STRATEGIES.map((s) => (
+            <option key={s} value={s}>
+              {t(`sampling.${s}`)}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={config.preferUnseen}
+          onChange={(e) => onConfigure({ preferUnseen: e.target.checked })}
+        />
+        <span className="text-neutral-600">{t('plan.preferUnseen')}</span>
+      </label>
+      {editable && (
+        <label className="flex items-center gap-2">
+          <span className="text-neutral-600">{t('plan.historyGroup')}</span>
+          <input
+            className="w-36 rounded-lg border px-2 py-1"
+            placeholder={t('plan.thisRoomOnly')}
+            maxLength={40}
+            value={group}
+            onChange={(e) => setGroup(e.target.value)}
+            onBlur={() => {
+              if (group.trim() !== config.historyGroup) onConfigure({ historyGroup: group.trim() });
+            }}
+          />
+        </label>
+      )}
+      <span className="text-xs text-neutral-500">
+        {t('plan.seen', { seen, total })}
+        {seen > 0 && (
+          <button
+            type="button"
+            className="ml-2 rounded border px-1.5 py-0.5 font-semibold hover:bg-neutral-50"
+            onClick={onClearHistory}
+          >
+            {t('plan.reset')}
+          </button>
+        )}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Run plan: the host's list of acts (each with a question count).
+ * Shown as a timeline during the game; editable in the lobby.
+ */
+export default function RunPlanPanel({
+  acts,
+  timeline,
+  config,
+  editable,
+  onSave,
+  onConfigure,
+  onClearHistory,
+}: Props) {
+  const { t } = useI18n();
+  // null = not editing (show the server's plan)
+  const [draft, setDraft] = useState<RunPlanStep[] | null>(null);
+
+  const steps: RunPlanStep[] =
+    draft ?? timeline.map(({ actId, questionCount }) => ({ actId, questionCount }));
+  const actFor = (actId: string) => acts.find((a) => a.id === actId);
+
+  const update = (fn: (plan: RunPlanStep[]) => RunPlanStep[]) => setDraft(fn([...steps]));
+
+  const move = (from: number, to: number) =>
+    update((plan) => {
+      const [step] = plan.splice(from, 1);
+      plan.splice(to, 0, step);
+      return plan;
+    });
+
+  if (!editable || !draft) {
+    return (
+      <section className="rounded-2xl border p-5">
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold">{t('plan.title')}</h2>
+          {editable && (
+            <button
+              type="button"
+              className="rounded-lg border px-3 py-1.5 text-xs font-semibold hover:bg-neutral-50"
+              onClick={() => setDraft(steps)}
+            >
+              {t('plan.edit')}
+            </button>
+          )}
+        </div>
+        <PlanSettings
+          acts={acts}
+          config={config}
+          editable={editable}
+          onConfigure={onConfigure}
+          onClearHistory={onClearHistory}
+        />
+        <ol className="mt-3 flex flex-wrap items-center gap-2">
+          {timeline.map((step, i) => (
+            <li key={i} className="flex items-center gap-2">
+              {i > 0 && <span className="text-neutral-300">→</span>}
+              <span
+                className={`rounded-xl border px-3 py-1.5 text-sm font-semibold ${STATUS_CLASS[step.status]}`}
+              >
+                {step.emoji} {step.name}
+                <span className="ml-1 text-xs font-normal opacity-70">×{step.questionCount}</span>
+              </span>
+            </li>
+          ))}
+        </ol>
+      </section>
+    );
+  }
+
+  return (
+    <section className="rounded-2xl border border-blue-200 p-5">
+      <h2 className="text-lg font-semibold">{t('plan.title')}</h2>
+      <p className="mt-1 text-xs text-neutral-500">{t('plan.editLead')}</p>
+
+      <div className="mt-3 space-y-2">
+        {steps.map((step, i) => {
+          const act = actFor(step.actId);
+          const max = Math.min(act?.questionsAvailable ?? 0, act?.maxQuestions ?? Infinity);
+          return (
+            <div key={i} className="flex items-center gap-2 rounded-xl border px-3 py-2">
+              <span className="w-6 text-xs font-bold text-neutral-400">{i + 1}.</span>
+              <select
+                className="flex-1 rounded-lg border px-2 py-1 text-sm"
+                value={step.actId}
+                onChange={(e) =>
+                  update((plan) => {
+                    plan[i] = { ...plan[i], actId: e.target.value };
+                    return plan;
+                  })
+                }
+              >
+                {acts.map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {t('plan.actOption', {
+                      emoji: a.emoji,
+                      name: a.name,
+                      count: a.questionsAvailable,
+                    })}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={1}
+                max={max || undefined}
+                className="w-20 rounded-lg border px-2 py-1 text-sm tabular-nums"
+                value={step.questionCount}
+                onChange={(e) =>
+                  update((plan) => {
+                    plan[i] = { ...plan[i], questionCount: Math.max(1, Number(e.target.value)) };
+                    return plan;
+                  })
+                }
+                aria-label={t('plan.questions')}
+              />
+              <button
+                type="button"
+                className="rounded-lg px-2 py-1 text-sm disabled:opacity-30"
+                disabled={i === 0}
+                onClick={() => move(i, i - 1)}
+                aria-label={t('answer.moveUp')}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className="rounded-lg px-2 py-1 text-sm disabled:opacity-30"
+                disabled={i === steps.length - 1}
+                onClick={() => move(i, i + 1)}
+                aria-label={t('answer.moveDown')}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                className="rounded-lg px-2 py-1 text-sm text-red-600 disabled:opacity-30"
+                disabled={steps.length === 1}
+                onClick={() => update((plan) => plan.filter((_, j) => j !== i))}
+                aria-label={t('plan.remove')}
+              >
+                ✕
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button
+          type="button"
+          className="rounded-lg border px-3 py-1.5 text-sm font-semibold hover:bg-neutral-50"
+          onClick={() =>
+            update((plan) => [...plan, { actId: acts[0]?.id ?? '', questionCount: 1 }])
+          }
+        >
+          {t('plan.addAct')}
+        </button>
+        <div className="flex-1" />
+        <button
+          type="button"
+          className="rounded-lg border px-3 py-1.5 text-sm font-semibold hover:bg-neutral-50"
+          onClick={() => setDraft(null)}
+        >
+          {t('plan.cancel')}
+        </button>
+        <button
+          type="button"
+          className="rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-blue-700"
+          onClick={() => {
+            onSave(steps);
+            setDraft(null);
+          }}
+        >
+          {t('plan.save')}
+        </button>
+      </div>
+    </section>
+  );
+}
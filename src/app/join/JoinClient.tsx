@@ -8,6 +8,7 @@ import {
   ShimmerButton,
   SubtleLead,
 } from '@/components/entry/primitives';
+import { useI18n } from '@/components/i18n/LocalePicker';
 import { ArrowLeft } from 'lucide-react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useMemo, useState, useSyncExternalStore } from 'react';
@@ -46,6 +47,7 @@ function useLocalStorageString(key: string, fallback = '') {
 export default function JoinClient() {
   const router = useRouter();
   const params = useSearchParams();
+  const { t } = useI18n();
   const savedName = useLocalStorageString(LS_NAME, '');
 
   // Prefer query param, fallback to saved name
@@ -63,11 +65,13 @@ export default function JoinClient() {
   return (
     <EntryShell>
       <GlowCard>
-        <GradientTitle>Join a room</GradientTitle>
-        <SubtleLead>Enter the room code and you’ll land in the lobby.</SubtleLead>
+        <GradientTitle>{t('joinPage.title')}</GradientTitle>
+        <SubtleLead>{t('joinPage.lead')}</SubtleLead>
 
         <div className="mt-6 space-y-2">
-          <label className="text-xs font-semibold tracking-wide text-white/70">ROOM CODE</label>
+          <label className="text-xs font-semibold tracking-wide text-white/70">
+            {t('joinPage.roomCode')}
+          </label>
           <GlowInput
             value={normalizedCode}
             onChange={(e) => setCode(cleanCode(e.target.value))}
@@ -80,20 +84,16 @@ export default function JoinClient() {
             }}
           />
           <div className="flex items-center justify-between text-[11px] text-white/45">
-            <span>{codeOk ? 'Ready.' : 'Enter at least 4 characters.'}</span>
+            <span>{codeOk ? t('joinPage.ready') : t('joinPage.codeLength')}</span>
             <span className="tabular-nums">{normalizedCode.length}/5</span>
           </div>
 
-          {!name && (
-            <p className="mt-2 text-xs text-rose-300/90">
-              Missing name. Go back and enter a display name.
-            </p>
-          )}
+          {!name && <p className="mt-2 text-xs text-rose-300/90">{t('common.missingName')}</p>}
         </div>
 
         <div className="mt-6 grid gap-3">
           <ShimmerButton disabled={!name || !codeOk} onClick={join}>
-            Join →
+            {t('joinPage.join')}
           </ShimmerButton>
 
           <button
@@ -102,7 +102,7 @@ export default function JoinClient() {
             onClick={() => router.push('/')}
           >
             <ArrowLeft size={16} className="text-white/70" />
-            Back
+            {t('common.back')}
           </button>
         </div>
       </GlowCard>
@@ -0,0 +1,630 @@
+'use client';
+
+import PackDiagnosticsBadge from '@/components/game/PackDiagnosticsBadge';
+import PackMetadataChips from '@/components/game/PackMetadataChips';
+import { DEFAULT_RULESET } from '@/lib/gameConfig';
+import { countDiagnostics, formatDiagnostic } from '@/lib/packDiagnostics';
+import { CONTENT_RATINGS, PACK_DIFFICULTIES } from '@/lib/packFilter';
+import type {
+  ActInfo,
+  ContentRating,
+  PackDifficulty,
+  PackDiagnostic,
+  PackSource,
+  PackSourceQuestion,
+  PackSummary,
+  PackValidation,
+} from '@/lib/types';
+import { downloadFile } from '@/lib/utils';
+import Link from 'next/link';
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import QuestionForm from './QuestionForm';
+import QuestionPreview from './QuestionPreview';
+
+const LS_EDITOR_TOKEN = 'sq_packEditorToken';
+const LOCAL_STORAGE_EVENT = 'sq:localstorage';
+
+function setLocalStorageString(key: string, value: string) {
+  localStorage.setItem(key, value);
+  window.dispatchEvent(new Event(LOCAL_STORAGE_EVENT));
+}
+
+function useLocalStorageString(key: string, fallback = '') {
+  return useSyncExternalStore(
+    (onStoreChange) => {
+      if (typeof window === 'undefined') return () => {};
+      window.addEventListener('storage', onStoreChange);
+      window.addEventListener(LOCAL_STORAGE_EVENT, onStoreChange);
+      return () => {
+        window.removeEventListener('storage', onStoreChange);
+        window.removeEventListener(LOCAL_STORAGE_EVENT, onStoreChange);
+      };
+    },
+    () => (typeof window === 'undefined' ? fallback : (localStorage.getItem(key) ?? fallback)),
+    () => fallback
+  );
+}
+
+/* ── API ── */
+
+type ApiResult = Partial<PackValidation> & {
+  ok: boolean;
+  error?: string;
+  source?: PackSource;
+  pack?: PackSummary;
+};
+
+/** `body` is sent as JSON, or as-is if it's a string (an imported file) */
+async function callApi(token: string, method: string, url: string, body?: unknown) {
+  const text = typeof body === 'string';
+  try {
+    const res = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(body === undefined ? {} : { 'Content-Type': text ? 'text/plain' : 'application/json' }),
+      },
+      body: body === undefined ? undefined : text ? body : JSON.stringify(body),
+    });
+    return (await res.json()) as ApiResult;
+  } catch {
+    return { ok: false, error: 'Could not reach the server.' } satisfies ApiResult;
+  }
+}
+
+/* ── Drafts ── */
+
+const blankQuestion = (): PackSourceQuestion => ({
+  category: '',
+  prompt: '',
+  choices: ['', '', '', ''],
+  answerIndex: 0,
+  value: 100,
+});
+
+const CLASSIC_ACTS: ActInfo[] = DEFAULT_RULESET.acts.map(
+  ({ id, name, emoji, description, kind }) => ({
+    id,
+    name,
+    emoji,
+    description,
+    kind,
+  })
+);
+
+/** Tags as typed into a comma-separated box: trimmed, blanks dropped */
+function cleanTags(tags: string[] | undefined): string[] | undefined {
+  const cleaned = tags?.map((t) => t.trim()).filter(Boolean);
+  return cleaned?.length ? cleaned : undefined;
+}
+
+/** Drop the blank lines the free-text answer box and the tag boxes leave behind */
+function cleanSource(source: PackSource): PackSource {
+  return {
+    ...source,
+    tags: cleanTags(source.tags),
+    questions: Object.fromEntries(
+      Object.entries(source.questions).map(([actId, questions]) => [
+        actId,
+        questions.map((q) => ({
+          ...q,
+          ...(q.answers ? { answers: q.answers.filter((a) => a.trim()) } : {}),
+          tags: cleanTags(q.tags),
+        })),
+      ])
+    ),
+  };
+}
+
+function resultTitle(result: ApiResult): string {
+  if (!result.ok) {
+    return `❌ ${result.error ?? 'Some questions have errors and will be skipped in games'}`;
+  }
+  if (result.pack) {
+    return `✅ Saved "${result.pack.name}" (${result.pack.totalQuestions} questions)`;
+  }
+  if (result.source && result.summary) {
+    return `📥 Imported ${result.summary.totalQuestions} questions — check them, then save`;
+  }
+  if (result.summary) return `✅ Valid — ${result.summary.totalQuestions} questions`;
+  return result.diagnostics?.length ? '⚠️ Worth a look' : '✅ Done';
+}
+
+type Draft = {
+  /** Null until the pack has been saved once */
+  savedId: string | null;
+  source: PackSource;
+  acts: ActInfo[];
+};
+
+/**
+ * Pack editor: load or start a pack, edit its questions act by act with a live
+ * player-screen preview, then validate / save / delete through the authoring API.
+ */
+export default function PackEditor() {
+  const token = useLocalStorageString(LS_EDITOR_TOKEN, '');
+  const [packs, setPacks] = useState<PackSummary[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [actId, setActId] = useState('');
+  const [selected, setSelected] = useState(0);
+  const [result, setResult] = useState<ApiResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refreshPacks = () =>
+    fetch('/api/packs')
+      .then((res) => res.json())
+      .then((data: { packs: PackSummary[] }) => setPacks(data.packs))
+      .catch(() => setPacks([]));
+
+  useEffect(() => {
+    void refreshPacks();
+  }, []);
+
+  const openDraft = (next: Draft) => {
+    setDraft(next);
+    setActId(next.acts[0]?.id ?? '');
+    setSelected(0);
+    setResult(null);
+  };
+
+  const loadPack = async (id: string) => {
+    if (!id) return;
+    if (id === '__new') {
+      openDraft({
+        savedId: null,
+        source: {
+          id: '',
+          name: '',
+          description: '',
+          version: 1,
+          questions: Object.fromEntries(CLASSIC_ACTS.map((a) => [a.id, []])),
+        },
+        acts: CLASSIC_ACTS,
+      });
+      return;
+    }
+    setBusy(true);
+    const res = await callApi(token, 'GET', `/api/packs/${encodeURIComponent(id)}/source`);
+    setBusy(false);
+    if (!res.ok || !res.source) {
+      setResult(res);
+      return;
+    }
+    const acts = packs.find((p) => p.id === id)?.acts ?? CLASSIC_ACTS;
+    openDraft({ savedId: id, source: res.source, acts });
+
+    // What the loader made of it, so skipped questions are easy to find
+    const { diagnostics } = (await fetch(`/api/packs/${encodeURIComponent(id)}/diagnostics`).then(
+      (r) => r.json()
+    )) as { diagnostics?: PackDiagnostic[] };
+    if (diagnostics?.length) {
+      setResult({ ok: countDiagnostics(diagnostics).errors === 0, diagnostics });
+    }
+  };
+
+  /** Convert a spreadsheet / Open Trivia DB / Kahoot file into a new, unsaved draft */
+  const importFile = async (file: File) => {
+    setBusy(true);
+    const url = `/api/packs/import?dryRun=1&file=${encodeURIComponent(file.name)}`;
+    const res = await callApi(token, 'POST', url, await file.text());
+    setBusy(false);
+    if (res.source) openDraft({ savedId: null, source: res.source, acts: CLASSIC_ACTS });
+    setResult(res);
+  };
+
+  const updateSource = (fn: (source: PackSource) => PackSource) =>
+    setDraft((d) => (d ? { ...d, source: fn(d.source) } : d));
+
+  const questions = draft?.source.questions[actId] ?? [];
+  const setQuestions = (fn: (qs: PackSourceQuestion[]) => PackSourceQuestion[]) =>
+    updateSource((s) => ({
+      ...s,
+      questions: { ...s.questions, [actId]: fn(s.questions[actId] ?? []) },
+    }));
+
+  const act = draft?.acts.find((a) => a.id === actId);
+  const question = questions[selected];
+
+  const validate = async () => {
+    if (!draft) return;
+    setBusy(true);
+    setResult(await callApi(token, 'POST', '/api/packs/validate', cleanSource(draft.source)));
+    setBusy(false);
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    setBusy(true);
+    const source = cleanSource(draft.source);
+    const res = draft.savedId
+      ? await callApi(token, 'PUT', `/api/packs/${encodeURIComponent(draft.savedId)}`, source)
+      : await callApi(token, 'POST', '/api/packs', source);
+    setBusy(false);
+    setResult(res);
+    if (res.ok) {
+      setDraft({ ...draft, savedId: source.id, source });
+      void refreshPacks();
+    }
+  };
+
+  /** Download the saved pack (not unsaved edits) as JSON or CSV */
+  const exportPack = async (format: 'json' | 'csv') => {
+    if (!draft?.savedId) return;
+    const id = encodeURIComponent(draft.savedId);
+    try {
+      const res = await fetch(`/api/packs/${id}/export?format=${format}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) {
+        setResult((await res.json()) as ApiResult);
+        return;
+      }
+      downloadFile(`${draft.savedId}.${format}`, await res.blob());
+    } catch {
+      setResult({ ok: false, error: 'Could not reach the server.' });
+    }
+  };
+
+  const remove = async () => {
+    if (!draft?.savedId || !window.confirm(`Delete the pack "${draft.savedId}"?`)) return;
+    setBusy(true);
+    const res = await callApi(token, 'DELETE', `/api/packs/${encodeURIComponent(draft.savedId)}`);
+    setBusy(false);
+    setResult(res);
+    if (res.ok) {
+      setDraft(null);
+      void refreshPacks();
+    }
+  };
+
+  return (
+    <main className="mx-auto max-w-6xl space-y-4 p-6">
+      <div className="flex items-center justify-between gap-3">
+        <h1 className="text-2xl font-bold">📝 Pack Editor</h1>
+        <Link href="/" className="text-sm text-neutral-500 hover:underline">
+          ← Home
+        </Link>
+      </div>
+
+      <section className="flex flex-wrap items-end gap-3 rounded-2xl border p-5">
+        <label className="text-xs text-neutral-600">
+          Editor token
+          <input
+            type="password"
+            className="block w-56 rounded-lg border px-2 py-1 text-sm"
+            placeholder="PACK_EDITOR_TOKEN"
+            value={token}
+            onChange={(e) => setLocalStorageString(LS_EDITOR_TOKEN, e.target.value)}
+          />
+        </label>
+        <label className="text-xs text-neutral-600">
+          Pack
+          <select
+            className="block w-64 rounded-lg border px-2 py-1 text-sm"
+            value={draft ? (draft.savedId ?? '__new') : ''}
+            onChange={(e) => void loadPack(e.target.value)}
+            disabled={busy}
+          >
+            <option value="" disabled>
+              Choose a pack…
+            </option>
+            {packs.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name} ({p.totalQuestions} questions)
+                {p.diagnostics.errors + p.diagnostics.warnings > 0 ? ' ⚠️' : ''}
+              </option>
+            ))}
+            <option value="__new">＋ New pack</option>
+          </select>
+        </label>
+        <label className="cursor-pointer rounded-lg border px-3 py-1 text-sm font-medium hover:bg-neutral-50">
+          📥 Import file…
+          <input
+            type="file"
+            accept=".csv,.tsv,.json,text/csv,text/tab-separated-values,application/json"
+            className="hidden"
+            disabled={busy}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) void importFile(file);
+            }}
+          />
+        </label>
+        {draft?.savedId && packs.find((p) => p.id === draft.savedId) && (
+          <>
+            <PackDiagnosticsBadge
+              diagnostics={packs.find((p) => p.id === draft.savedId)!.diagnostics}
+            />
+            <PackMetadataChips pack={packs.find((p) => p.id === draft.savedId)!} />
+          </>
+        )}
+      </section>
+
+      {result && (
+        <section
+          className={`rounded-2xl border p-4 text-sm ${
+            result.ok ? 'border-green-300 bg-green-50' : 'border-red-300 bg-red-50'
+          }`}
+        >
+          <div className="font-semibold">{resultTitle(result)}</div>
+          {(result.diagnostics?.length ?? 0) > 0 && (
+            <ul className="mt-2 space-y-0.5">
+              {result.diagnostics!.map((d, i) => (
+                <li key={i}>
+                  <button
+                    type="button"
+                    className={`text-left hover:underline ${
+                      d.severity === 'error' ? 'text-red-800' : 'text-amber-800'
+                    }`}
+                    disabled={!draft || !d.actId}
+                    onClick={() => {
+                      if (!d.actId) return;
+                      setActId(d.actId);
+                      setSelected(d.index ?? 0);
+                    }}
+                  >
+                    {d.severity === 'error' ? '❌' : '⚠️'} {formatDiagnostic(d)}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+
+      {draft && (
+        <>
+          <section className="grid gap-3 rounded-2xl border p-5 sm:grid-cols-3">
+            <label className="text-xs text-neutral-600">
+              ID
+              <input
+                className="block w-full rounded-lg border px-2 py-1 text-sm disabled:bg-neutral-50"
+                placeholder="my-pack"
+                value={draft.source.id}
+                disabled={!!draft.savedId}
+                onChange={(e) => updateSource((s) => ({ ...s, id: e.target.value.toLowerCase() }))}
+              />
+            </label>
+            <label className="text-xs text-neutral-600">
+              Name
+              <input
+                className="block w-full rounded-lg border px-2 py-1 text-sm"
+                value={draft.source.name ?? ''}
+                onChange={(e) => updateSource((s) => ({ ...s, name: e.target.value }))}
+              />
+            </label>
+            <label className="text-xs text-neutral-600">
+              Description
+              <input
+                className="block w-full rounded-lg border px-2 py-1 text-sm"
+                value={draft.source.description ?? ''}
+                onChange={(e) => updateSource((s) => ({ ...s, description: e.target.value }))}
+              />
+            </label>
+            <label className="text-xs text-neutral-600">
+              Author
+              <input
+                className="block w-full rounded-lg border px-2 py-1 text-sm"
+                value={draft.source.author ?? ''}
+                onChange={(e) =>
+                  updateSource((s) => ({ ...s, author: e.target.value || undefined }))
+                }
+              />
+            </label>
+            <label className="text-xs text-neutral-600">
+              Tags (comma-separated)
+              <input
+                className="block w-full rounded-lg border px-2 py-1 text-sm"
+                placeholder="science, 90s"
+                value={draft.source.tags?.join(',') ?? ''}
+                onChange={(e) =>
+                  updateSource((s) => ({
+                    ...s,
+                    tags: e.target.value ? e.target.value.split(',') : undefined,
+                  }))
+                }
+              />
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              <label className="text-xs text-neutral-600">
+                Language
+                <input
+                  className="block w-full rounded-lg border px-2 py-1 text-sm"
+                  placeholder="en"
+                  value={draft.source.language ?? ''}
+                  onChange={(e) =>
+                    updateSource((s) => ({ ...s, language: e.target.value || undefined }))
+                  }
+                />
+              </label>
+              <label className="text-xs text-neutral-600">
+                Difficulty
+                <select
+                  className="block w-full rounded-lg border px-1 py-1 text-sm"
+                  value={draft.source.difficulty ?? ''}
+                  onChange={(e) =>
+                    updateSource((s) => ({
+                      ...s,
+                      difficulty: (e.target.value || undefined) as PackDifficulty | undefined,
+                    }))
+                  }
+                >
+                  <option value="">—</option>
+                  {PACK_DIFFICULTIES.map((d) => (
+                    <option key={d} value={d}>
+                      {d}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs text-neutral-600">
+                Rating
+                <select
+                  className="block w-full rounded-lg border px-1 py-1 text-sm"
+                  value={draft.source.rating ?? ''}
+                  onChange={(e) =>
+                    updateSource((s) => ({
+                      ...s,
+                      rating: (e.target.value || undefined) as ContentRating | undefined,
+                    }))
+                  }
+                >
+                  <option value="">—</option>
+                  {CONTENT_RATINGS.map((r) => (
+                    <option key={r} value={r}>
+                      {r}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs text-neutral-600">
+                Minutes
+                <input
+                  type="number"
+                  min={1}
+                  className="block w-full rounded-lg border px-2 py-1 text-sm tabular-nums"
+                  placeholder="auto"
+                  value={draft.source.durationMinutes ?? ''}
+                  onChange={(e) =>
+                    updateSource((s) => ({
+                      ...s,
+                      durationMinutes: e.target.value ? Number(e.target.value) : undefined,
+                    }))
+                  }
+                />
+              </label>
+            </div>
+          </section>
+
+          <div className="flex flex-wrap gap-2">
+            {draft.acts.map((a) => (
+              <button
+                key={a.id}
+                type="button"
+                onClick={() => {
+                  setActId(a.id);
+                  setSelected(0);
+                }}
+                className={`rounded-xl border px-3 py-1.5 text-sm font-semibold ${
+                  a.id === actId
+                    ? 'border-blue-400 bg-blue-50 text-blue-900 ring-2 ring-blue-200'
+                    : 'bg-white hover:bg-neutral-50'
+                }`}
+              >
+                {a.emoji} {a.name}
+                <span className="ml-1 text-xs font-normal opacity-70">
+                  ×{draft.source.questions[a.id]?.length ?? 0}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-[16rem_1fr]">
+            <section className="space-y-2 rounded-2xl border p-4">
+              {questions.length === 0 && (
+                <p className="text-sm text-neutral-500">No questions in this act yet.</p>
+              )}
+              <ol className="space-y-1">
+                {questions.map((q, i) => (
+                  <li key={i}>
+                    <button
+                      type="button"
+                      onClick={() => setSelected(i)}
+                      className={`w-full truncate rounded-lg px-2 py-1 text-left text-sm ${
+                        i === selected
+                          ? 'bg-blue-50 font-semibold text-blue-900'
+                          : 'hover:bg-neutral-50'
+                      }`}
+                    >
+                      {i + 1}. {q.hard ? '⚠️ ' : ''}
+                      {q.prompt || <span className="text-neutral-400">(no prompt)</span>}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+              <button
+                type="button"
+                className="w-full rounded-lg border px-3 py-1.5 text-sm font-semibold hover:bg-neutral-50"
+                onClick={() => {
+                  setQuestions((qs) => [...qs, blankQuestion()]);
+                  setSelected(questions.length);
+                }}
+              >
+                ＋ Add question
+              </button>
+            </section>
+
+            {question ? (
+              <div className="space-y-4">
+                <section className="rounded-2xl border p-5">
+                  <QuestionForm
+                    question={question}
+                    wagerAct={act?.kind === 'wager'}
+                    onChange={(q) =>
+                      setQuestions((qs) => qs.map((old, i) => (i === selected ? q : old)))
+                    }
+                    onRemove={() => {
+                      setQuestions((qs) => qs.filter((_, i) => i !== selected));
+                      setSelected(Math.max(0, selected - 1));
+                    }}
+                  />
+                </section>
+                <QuestionPreview
+                  key={`${actId}:${selected}`}
+                  question={question}
+                  packId={draft.source.id}
+                  wagerAct={act?.kind === 'wager'}
+                />
+              </div>
+            ) : (
+              <div />
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              className="rounded-lg border px-3 py-1.5 text-sm font-semibold hover:bg-neutral-50 disabled:opacity-50"
+              disabled={busy}
+              onClick={() => void validate()}
+            >
+              Validate
+            </button>
+            <button
+              type="button"
+              className="rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+              disabled={busy}
+              onClick={() => void save()}
+            >
+              {draft.savedId ? 'Save changes' : 'Create pack'}
+            </button>
+            <div className="flex-1" />
+            {draft.savedId &&
+              (['json', 'csv'] as const).map((format) => (
+                <button
+                  key={format}
+                  type="button"
+                  className="rounded-lg border px-3 py-1.5 text-sm font-semibold hover:bg-neutral-50 disabled:opacity-50"
+                  disabled={busy}
+                  onClick={() => void exportPack(format)}
+                >
+                  ⬇️ {format.toUpperCase()}
+                </button>
+              ))}
+            {draft.savedId && (
+              <button
+                type="button"
+                className="rounded-lg border border-red-200 px-3 py-1.5 text-sm font-semibold text-red-700 hover:bg-red-50 disabled:opacity-50"
+                disabled={busy}
+                onClick={() => void remove()}
+              >
+                Delete pack
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
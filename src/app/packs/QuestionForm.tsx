@@ -0,0 +1,242 @@
+'use client';
+
+import { choiceLetter, QUESTION_TYPE_LABELS, QUESTION_TYPES } from '@/lib/questionTypes';
+import type { PackSourceQuestion, QuestionType } from '@/lib/types';
+
+type Props = {
+  question: PackSourceQuestion;
+  /** Wager acts show the hint before betting, and the extra hint to Bold+ wagers */
+  wagerAct: boolean;
+  onChange: (question: PackSourceQuestion) => void;
+  onRemove: () => void;
+};
+
+const MIN_CHOICES = 2;
+const MAX_CHOICES = 6;
+
+/** Switch a question to `type`, keeping what carries over and dropping the rest */
+function withType(q: PackSourceQuestion, type: QuestionType): PackSourceQuestion {
+  const { id, category, prompt, hint, extraHint, value, hard, tags, media } = q;
+  const common = { id, category, prompt, hint, extraHint, value, hard, tags, media };
+  const keptChoices = q.choices?.length ? q.choices : ['', ''];
+
+  switch (type) {
+    case 'multiple_choice':
+      return { ...common, type, choices: keptChoices, answerIndex: 0 };
+    case 'true_false':
+      return { ...common, type, answer: true };
+    case 'multi_select':
+      return { ...common, type, choices: keptChoices, answerIndexes: [] };
+    case 'ordering':
+      return { ...common, type, choices: keptChoices };
+    case 'free_text':
+      return { ...common, type, answers: q.answers?.length ? q.answers : [''] };
+  }
+}
+
+const inputClass = 'w-full rounded-lg border px-2 py-1 text-sm';
+
+/** Edit one pack question: its type, prompt, choices / answer, value, hints and tags */
+export default function QuestionForm({ question: q, wagerAct, onChange, onRemove }: Props) {
+  const type = q.type ?? 'multiple_choice';
+  const set = (patch: Partial<PackSourceQuestion>) => onChange({ ...q, ...patch });
+  const optional = (text: string) => (text.trim() ? text : undefined);
+  const choices = q.choices ?? [];
+
+  const setChoice = (i: number, text: string) =>
+    set({ choices: choices.map((c, j) => (j === i ? text : c)) });
+
+  const removeChoice = (i: number) =>
+    set({
+      choices: choices.filter((_, j) => j !== i),
+      answerIndex:
+        q.answerIndex === undefined || q.answerIndex < i
+          ? q.answerIndex
+          : Math.max(0, q.answerIndex - 1),
+      answerIndexes: q.answerIndexes?.filter((j) => j !== i).map((j) => (j > i ? j - 1 : j)),
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <label className="text-xs text-neutral-600">
+          Type
+          <select
+            className={inputClass}
+            value={type}
+            onChange={(e) => onChange(withType(q, e.target.value as QuestionType))}
+          >
+            {QUESTION_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {QUESTION_TYPE_LABELS[t]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-neutral-600">
+          Category
+          <input
+            className={inputClass}
+            value={q.category}
+            onChange={(e) => set({ category: e.target.value })}
+          />
+        </label>
+        <label className="text-xs text-neutral-600">
+          Points
+          <input
+            type="number"
+            min={1}
+            className={`${inputClass} tabular-nums`}
+            value={q.value}
+            onChange={(e) => set({ value: Number(e.target.value) })}
+          />
+        </label>
+        <label className="flex items-end gap-2 pb-1 text-sm">
+          <input
+            type="checkbox"
+            checked={q.hard === true}
+            onChange={(e) => set({ hard: e.target.checked || undefined })}
+          />
+          ⚠️ Hard
+        </label>
+      </div>
+
+      <label className="block text-xs text-neutral-600">
+        Prompt
+        <textarea
+          className={inputClass}
+          rows={2}
+          value={q.prompt}
+          onChange={(e) => set({ prompt: e.target.value })}
+        />
+      </label>
+
+      {type === 'true_false' && (
+        <label className="block text-xs text-neutral-600">
+          Answer
+          <select
+            className={inputClass}
+            value={q.answer === false ? 'false' : 'true'}
+            onChange={(e) => set({ answer: e.target.value === 'true' })}
+          >
+            <option value="true">True</option>
+            <option value="false">False</option>
+          </select>
+        </label>
+      )}
+
+      {type === 'free_text' && (
+        <label className="block text-xs text-neutral-600">
+          Accepted answers (one per line — the first is shown at reveal)
+          <textarea
+            className={inputClass}
+            rows={3}
+            value={(q.answers ?? []).join('\n')}
+            onChange={(e) => set({ answers: e.target.value.split('\n') })}
+          />
+        </label>
+      )}
+
+      {(type === 'multiple_choice' || type === 'multi_select' || type === 'ordering') && (
+        <div className="space-y-1">
+          <div className="text-xs text-neutral-600">
+            {type === 'ordering'
+              ? 'Choices, in the correct order (players see them shuffled)'
+              : type === 'multi_select'
+                ? 'Choices — tick every correct one'
+                : 'Choices — pick the correct one'}
+          </div>
+          {choices.map((choice, i) => (
+            <div key={i} className="flex items-center gap-2">
+              {type === 'multiple_choice' && (
+                <input
+                  type="radio"
+                  checked={q.answerIndex === i}
+                  onChange={() => set({ answerIndex: i })}
+                  aria-label={`Choice ${choiceLetter(i)} is correct`}
+                />
+              )}
+              {type === 'multi_select' && (
+                <input
+                  type="checkbox"
+                  checked={q.answerIndexes?.includes(i) ?? false}
+                  onChange={(e) =>
+                    set({
+                      answerIndexes: e.target.checked
+                        ? [...(q.answerIndexes ?? []), i].sort((a, b) => a - b)
+                        : (q.answerIndexes ?? []).filter((j) => j !== i),
+                    })
+                  }
+                  aria-label={`Choice ${choiceLetter(i)} is correct`}
+                />
+              )}
+              <span className="w-5 text-xs font-bold text-neutral-400">
+                {type === 'ordering' ? `${i + 1}.` : choiceLetter(i)}
+              </span>
+              <input
+                className={inputClass}
+                value={choice}
+                onChange={(e) => setChoice(i, e.target.value)}
+              />
+              <button
+                type="button"
+                className="rounded-lg px-2 py-1 text-sm text-red-600 disabled:opacity-30"
+                disabled={choices.length <= MIN_CHOICES}
+                onClick={() => removeChoice(i)}
+                aria-label="Remove choice"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          {choices.length < MAX_CHOICES && (
+            <button
+              type="button"
+              className="rounded-lg border px-2 py-1 text-xs font-semibold hover:bg-neutral-50"
+              onClick={() => set({ choices: [...choices, ''] })}
+            >
+              ＋ Choice
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        <label className="text-xs text-neutral-600">
+          Hint {wagerAct ? '(shown before betting)' : '(wager acts only)'}
+          <input
+            className={inputClass}
+            value={q.hint ?? ''}
+            onChange={(e) => set({ hint: optional(e.target.value) })}
+          />
+        </label>
+        <label className="text-xs text-neutral-600">
+          Extra hint {wagerAct ? '(Bold+ wagers at REDLINE)' : '(wager acts only)'}
+          <input
+            className={inputClass}
+            value={q.extraHint ?? ''}
+            onChange={(e) => set({ extraHint: optional(e.target.value) })}
+          />
+        </label>
+      </div>
+
+      <label className="block text-xs text-neutral-600">
+        Tags (comma-separated, help hosts find the pack)
+        <input
+          className={inputClass}
+          placeholder="science, space"
+          value={q.tags?.join(',') ?? ''}
+          onChange={(e) => set({ tags: optional(e.target.value)?.split(',') })}
+        />
+      </label>
+
+      <button
+        type="button"
+        className="rounded-lg border border-red-200 px-3 py-1.5 text-xs font-semibold text-red-700 hover:bg-red-50"
+        onClick={onRemove}
+      >
+        Delete question
+      </button>
+    </div>
+  );
+}
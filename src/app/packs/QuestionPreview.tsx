@@ -0,0 +1,179 @@
+'use client';
+
+import { FreeTextInput, OrderingInput } from '@/app/play/[code]/AnswerInputs';
+import QuestionMediaView from '@/components/game/QuestionMediaView';
+import { shuffle } from '@/lib/questionSampling';
+import {
+  choiceLetter,
+  correctAnswerOf,
+  describeAnswer,
+  includesChoice,
+  isCorrectAnswer,
+  QUESTION_TYPE_LABELS,
+  TRUE_FALSE_CHOICES,
+} from '@/lib/questionTypes';
+import type { PackSourceQuestion, PlayerAnswer, Question, QuestionMedia } from '@/lib/types';
+import { useMemo, useState } from 'react';
+
+type Props = {
+  question: PackSourceQuestion;
+  packId: string;
+  wagerAct: boolean;
+};
+
+/** The question as the loader would build it (ordering choices shuffled, like in a game) */
+function toPreviewQuestion(q: PackSourceQuestion, packId: string): Question {
+  const media: QuestionMedia | undefined = q.media?.src
+    ? {
+        type: q.media.type,
+        url: /^https?:\/\//i.test(q.media.src)
+          ? q.media.src
+          : `/media/${[packId, ...q.media.src.split('/')].map(encodeURIComponent).join('/')}`,
+        alt: q.media.alt,
+        start: q.media.start,
+        end: q.media.end,
+      }
+    : undefined;
+  const common = {
+    id: 'preview',
+    category: q.category || 'Category',
+    prompt: q.prompt || 'Your question here',
+    hint: q.hint,
+    extraHint: q.extraHint,
+    value: q.value,
+    hard: q.hard,
+    media,
+  };
+  const choices = q.choices ?? [];
+
+  switch (q.type ?? 'multiple_choice') {
+    case 'true_false':
+      return {
+        ...common,
+        type: 'true_false',
+        choices: TRUE_FALSE_CHOICES,
+        answerIndex: q.answer === false ? 1 : 0,
+      };
+    case 'multi_select':
+      return { ...common, type: 'multi_select', choices, answerIndexes: q.answerIndexes ?? [] };
+    case 'ordering': {
+      const order = shuffle(choices.map((_, i) => i));
+      return {
+        ...common,
+        type: 'ordering',
+        choices: order.map((i) => choices[i]),
+        answerOrder: choices.map((_, pos) => order.indexOf(pos)),
+      };
+    }
+    case 'free_text':
+      return { ...common, type: 'free_text', acceptedAnswers: q.answers ?? [] };
+    case 'multiple_choice':
+    default:
+      return { ...common, type: 'multiple_choice', choices, answerIndex: q.answerIndex ?? 0 };
+  }
+}
+
+/**
+ * How a question looks on the player screen. Answer it to check the answer key.
+ */
+export default function QuestionPreview({ question, packId, wagerAct }: Props) {
+  const q = useMemo(() => toPreviewQuestion(question, packId), [question, packId]);
+  const [answer, setAnswer] = useState<PlayerAnswer | null>(null);
+  const choices = 'choices' in q ? q.choices : [];
+
+  const pick = (i: number): PlayerAnswer => {
+    if (q.type !== 'multi_select') return { answerIndex: i };
+    const current = answer && 'answerIndexes' in answer ? answer.answerIndexes : [];
+    return {
+      answerIndexes: current.includes(i) ? current.filter((j) => j !== i) : [...current, i],
+    };
+  };
+
+  return (
+    <section className="rounded-2xl border border-amber-200 bg-amber-50 p-5">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">❓ Question</h2>
+        <div className="flex items-center gap-2">
+          {q.hard && (
+            <span className="rounded-full bg-red-100 px-2 py-0.5 text-xs font-bold text-red-700">
+              ⚠️ HARD
+            </span>
+          )}
+          <span className="text-xs text-neutral-500">
+            {q.value} pts · {q.category}
+          </span>
+        </div>
+      </div>
+
+      {wagerAct && q.hint && (
+        <div className="mt-3 rounded-xl border border-pink-200 bg-white p-3 text-sm text-neutral-700">
+          Hint (before betting): <span className="font-medium">{q.hint}</span>
+        </div>
+      )}
+
+      {q.media && (
+        <QuestionMediaView media={q.media} preloading={false} playing={false} startedAt={0} />
+      )}
+
+      <p className="mt-2 text-base font-medium">{q.prompt}</p>
+      {q.type !== 'multiple_choice' && (
+        <p className="mt-1 text-xs font-semibold tracking-wide text-blue-700 uppercase">
+          {QUESTION_TYPE_LABELS[q.type]}
+        </p>
+      )}
+
+      {wagerAct && q.extraHint && (
+        <div className="mt-2 rounded-xl border border-pink-200 bg-pink-50 p-3 text-sm font-semibold text-pink-900">
+          🔥 Extra hint: <span className="font-medium">{q.extraHint}</span>
+        </div>
+      )}
+
+      {q.type === 'ordering' && (
+        <OrderingInput
+          key={choices.join('\n')}
+          choices={choices}
+          selected={answer}
+          disabled={false}
+          onSubmit={setAnswer}
+        />
+      )}
+      {q.type === 'free_text' && (
+        <FreeTextInput selected={answer} disabled={false} onSubmit={setAnswer} />
+      )}
+
+      {q.type !== 'ordering' && q.type !== 'free_text' && (
+        <div className="mt-3 grid grid-cols-1 gap-2 sm:grid-cols-2">
+          {choices.map((choice, i) => (
+            <button
+              key={i}
+              type="button"
+              onClick={() => setAnswer(pick(i))}
+              className={`rounded-xl border-2 px-4 py-3 text-left text-sm font-medium transition-all ${
+                includesChoice(answer, i)
+                  ? 'border-blue-500 bg-blue-50 text-blue-800'
+                  : 'border-neutral-200 bg-white hover:border-blue-300 hover:bg-blue-50'
+              }`}
+            >
+              <span className="mr-2 font-bold text-neutral-400">{choiceLetter(i)}</span>
+              {choice || <span className="text-neutral-400">(empty)</span>}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {answer && (
+        <div
+          className={`mt-3 rounded-xl border p-3 text-sm font-semibold ${
+            isCorrectAnswer(q, answer)
+              ? 'border-green-300 bg-green-50 text-green-800'
+              : 'border-red-300 bg-red-50 text-red-800'
+          }`}
+        >
+          {isCorrectAnswer(q, answer)
+            ? '✅ Correct!'
+            : `❌ Wrong — the answer is ${describeAnswer({ choices }, correctAnswerOf(q))}`}
+        </div>
+      )}
+    </section>
+  );
+}
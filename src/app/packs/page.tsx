@@ -0,0 +1,5 @@
+import PackEditor from './PackEditor';
+
+export default function PacksPage() {
+  return <PackEditor />;
+}
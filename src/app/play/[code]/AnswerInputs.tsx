@@ -0,0 +1,110 @@
+'use client';
+
+import { useI18n } from '@/components/i18n/LocalePicker';
+import type { PlayerAnswer } from '@/lib/types';
+import { useState } from 'react';
+
+type Props = {
+  choices: string[];
+  /** What the server last accepted from this player */
+  selected: PlayerAnswer | null;
+  disabled: boolean;
+  onSubmit: (answer: PlayerAnswer) => void;
+};
+
+/**
+ * Ordering question: move the choices into order, then submit.
+ * Starts from the last submitted order (or the order shown).
+ */
+export function OrderingInput({ choices, selected, disabled, onSubmit }: Props) {
+  const { t } = useI18n();
+  const submitted = selected && 'order' in selected ? selected.order : null;
+  const [draft, setDraft] = useState<number[] | null>(null);
+  const order = draft ?? submitted ?? choices.map((_, i) => i);
+  const changed = !submitted || order.some((i, pos) => i !== submitted[pos]);
+
+  const move = (from: number, to: number) => {
+    const next = [...order];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    setDraft(next);
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      <ol className="space-y-2">
+        {order.map((choiceIndex, pos) => (
+          <li
+            key={choiceIndex}
+            className="flex items-center gap-2 rounded-xl border-2 border-neutral-200 bg-white px-3 py-2 text-sm font-medium"
+          >
+            <span className="w-6 font-bold text-neutral-400">{pos + 1}.</span>
+            <span className="flex-1">{choices[choiceIndex]}</span>
+            <button
+              type="button"
+              className="rounded-lg px-2 py-1 disabled:opacity-30"
+              disabled={disabled || pos === 0}
+              onClick={() => move(pos, pos - 1)}
+              aria-label={t('answer.moveUp')}
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              className="rounded-lg px-2 py-1 disabled:opacity-30"
+              disabled={disabled || pos === order.length - 1}
+              onClick={() => move(pos, pos + 1)}
+              aria-label={t('answer.moveDown')}
+            >
+              ↓
+            </button>
+          </li>
+        ))}
+      </ol>
+      <button
+        type="button"
+        disabled={disabled || !changed}
+        onClick={() => {
+          onSubmit({ order });
+          setDraft(null);
+        }}
+        className="w-full rounded-xl border-2 border-blue-500 bg-blue-50 px-4 py-2 text-sm font-semibold text-blue-800 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {submitted && !changed ? t('answer.orderSubmitted') : t('answer.submitOrder')}
+      </button>
+    </div>
+  );
+}
+
+/** Free-text question: type an answer and submit (resubmitting replaces it) */
+export function FreeTextInput({ selected, disabled, onSubmit }: Omit<Props, 'choices'>) {
+  const { t } = useI18n();
+  const submitted = selected && 'text' in selected ? selected.text : null;
+  const [text, setText] = useState(submitted ?? '');
+
+  return (
+    <form
+      className="mt-3 flex gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (text.trim()) onSubmit({ text: text.trim() });
+      }}
+    >
+      <input
+        className="flex-1 rounded-xl border-2 border-neutral-200 px-3 py-2 text-sm"
+        placeholder={t('answer.placeholder')}
+        maxLength={200}
+        value={text}
+        disabled={disabled}
+        onChange={(e) => setText(e.target.value)}
+      />
+      <button
+        type="submit"
+        disabled={disabled || !text.trim() || text.trim() === submitted}
+        className="rounded-xl bg-blue-600 px-4 py-2 text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {submitted && text.trim() === submitted ? t('answer.sent') : t('answer.submit')}
+      </button>
+    </form>
+  );
+}
@@ -1,9 +1,15 @@
 'use client';
 
+import QuestionMediaView from '@/components/game/QuestionMediaView';
+import LocalePicker, { useI18n } from '@/components/i18n/LocalePicker';
+import { useProfileToken } from '@/components/profile/useProfile';
+import { localizeAct, localizeQuestion, localizeShopItem, pickTranslation } from '@/lib/i18n';
 import { logger } from '@/lib/logger';
+import type { ClientEvent, ClientToServerEvents } from '@/lib/protocol';
+import { choiceLetter, describeAnswer, includesChoice } from '@/lib/questionTypes';
 import { getSocket } from '@/lib/socket';
 import type {
-  Ack,
+  PlayerAnswer,
   PlayerRevealPayload,
   PublicRoomState,
   ShopItemId,
@@ -13,35 +19,40 @@ import type {
 } from '@/lib/types';
 import { useSearchParams } from 'next/navigation';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { FreeTextInput, OrderingInput } from './AnswerInputs';
 
-const LS_PLAYER_ID_PREFIX = 'sq_playerId_';
+/** The secret `room:join` hands out, per room — `room:resume` needs it */
+const LS_SESSION_PREFIX = 'sq_session_';
 
-type ItemUseAckWire = {
-  room: PublicRoomState;
-  itemId?: ShopItemId;
-  removedIndexes?: number[];
-  bonusMs?: number;
+const ITEM_META: Record<ShopItemId, { emoji: string; kind: 'passive' | 'active' }> = {
+  double_points: { emoji: '⭐', kind: 'passive' },
+  shield: { emoji: '🛡️', kind: 'passive' },
+  buyback_token: { emoji: '🪙', kind: 'passive' },
+  fifty_fifty: { emoji: '✂️', kind: 'active' },
+  freeze_time: { emoji: '⏱️', kind: 'active' },
 };
 
-const ITEM_META: Record<ShopItemId, { name: string; emoji: string; kind: 'passive' | 'active' }> = {
-  double_points: { name: 'Double Points', emoji: '⭐', kind: 'passive' },
-  shield: { name: 'Shield', emoji: '🛡️', kind: 'passive' },
-  buyback_token: { name: 'Buyback Token', emoji: '🪙', kind: 'passive' },
-  fifty_fifty: { name: '50/50', emoji: '✂️', kind: 'active' },
-  freeze_time: { name: 'Freeze Time', emoji: '⏱️', kind: 'active' },
-};
+/** Short label for an answer: "B", "A, C", "C → A → B" or the typed text */
+function answerLabel(answer: PlayerAnswer): string {
+  if ('answerIndex' in answer) return choiceLetter(answer.answerIndex);
+  if ('answerIndexes' in answer) return answer.answerIndexes.map(choiceLetter).join(', ');
+  if ('order' in answer) return answer.order.map(choiceLetter).join(' → ');
+  return `“${answer.text}”`;
+}
 
 export default function PlayRoomClient({ code }: { code: string }) {
   const params = useSearchParams();
   const nameFromUrl = (params.get('name') || '').trim();
   const roomCode = useMemo(() => (code ?? '').trim().toUpperCase(), [code]);
+  const { locale, t } = useI18n();
+  const profileToken = useProfileToken();
 
   const [name, setName] = useState(nameFromUrl);
   const [room, setRoom] = useState<PublicRoomState | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [log, setLog] = useState<string[]>([]);
   const [removedIndexes, setRemovedIndexes] = useState<number[] | null>(null);
-  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+  const [selectedAnswer, setSelectedAnswer] = useState<PlayerAnswer | null>(null);
   const [freezeBonusMs, setFreezeBonusMs] = useState(0);
   const [now, setNow] = useState(() => Date.now());
   const [revealFeedback, setRevealFeedback] = useState<PlayerRevealPayload | null>(null);
@@ -54,10 +65,12 @@ export default function PlayRoomClient({ code }: { code: string }) {
   const [lockedInBonusPreview, setLockedInBonusPreview] = useState<number | null>(null);
 
   const [playerId, setPlayerId] = useState<string | null>(null);
-  const localStorageChecked = useRef(false);
   const joinAttemptedRef = useRef(false);
   const currentQuestionIdRef = useRef<string | null>(null);
 
+  /** Late join: waiting on the host, admitted (until the next question) or turned away */
+  const [admission, setAdmission] = useState<'pending' | 'admitted' | 'declined' | null>(null);
+
   /** Revive shrine state: 'idle' | 'pending' | 'approved' | 'declined' */
   const [reviveStatus, setReviveStatus] = useState<'idle' | 'pending' | 'approved' | 'declined'>(
     'idle'
@@ -67,20 +80,9 @@ export default function PlayRoomClient({ code }: { code: string }) {
     setLog((prev) => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev].slice(0, 30));
   }, []);
 
-  useEffect(() => {
-    if (!roomCode) return;
-    const stored = localStorage.getItem(`${LS_PLAYER_ID_PREFIX}${roomCode}`);
-    if (stored) setTimeout(() => setPlayerId(stored), 0);
-    localStorageChecked.current = true;
-  }, [roomCode]);
-
   const emit = useCallback(
-    <T, P extends Record<string, unknown> = Record<string, unknown>>(
-      event: string,
-      payload: P,
-      cb?: (ack: Ack<T>) => void
-    ) => {
-      getSocket().emit(event, payload, cb);
+    <E extends ClientEvent>(event: E, ...args: Parameters<ClientToServerEvents[E]>) => {
+      getSocket().emit(event, ...args);
     },
     []
   );
@@ -89,40 +91,38 @@ export default function PlayRoomClient({ code }: { code: string }) {
   const rejoinRoom = useCallback(() => {
     if (!roomCode) return;
     const s = getSocket();
-    const currentPid = playerId ?? localStorage.getItem(`${LS_PLAYER_ID_PREFIX}${roomCode}`);
-
-    if (currentPid) {
-      // Try to resume with existing playerId
-      s.emit(
-        'room:resume',
-        { code: roomCode, playerId: currentPid },
-        (ack: Ack<{ room: PublicRoomState; isHost: boolean }>) => {
-          if (!ack.ok) {
-            // Stale playerId — clear it so join can proceed
-            logger.warn({ error: ack.error }, 'room:resume failed, clearing stale playerId');
-            localStorage.removeItem(`${LS_PLAYER_ID_PREFIX}${roomCode}`);
-            setPlayerId(null);
-            joinAttemptedRef.current = false;
-            // Fall back to watch
-            s.emit('room:watch', { code: roomCode }, (watchAck: Ack<{ room: PublicRoomState }>) => {
-              if (watchAck.ok) setRoom(watchAck.data.room);
-            });
-            return;
-          }
-          setError(null);
-          setRoom(ack.data.room);
-          addLog('✅ Resumed');
+    const sessionToken = localStorage.getItem(`${LS_SESSION_PREFIX}${roomCode}`);
+
+    if (sessionToken) {
+      // Try to resume the session we joined with
+      s.emit('room:resume', { code: roomCode, sessionToken }, (ack) => {
+        if (!ack.ok) {
+          // Stale session — clear it so join can proceed
+          logger.warn({ error: ack.error }, 'room:resume failed, clearing stale session');
+          localStorage.removeItem(`${LS_SESSION_PREFIX}${roomCode}`);
+          setPlayerId(null);
+          joinAttemptedRef.current = false;
+          // Fall back to watch
+          s.emit('room:watch', { code: roomCode }, (watchAck) => {
+            if (watchAck.ok) setRoom(watchAck.data.room);
+          });
+          return;
         }
-      );
+        setError(null);
+        setRoom(ack.data.room);
+        setPlayerId(ack.data.playerId ?? null);
+        setAdmission(ack.data.pending ? 'pending' : null);
+        addLog(t('log.resumed'));
+      });
     } else {
-      // No playerId yet — just watch
-      s.emit('room:watch', { code: roomCode }, (ack: Ack<{ room: PublicRoomState }>) => {
+      // Not joined yet — just watch
+      s.emit('room:watch', { code: roomCode }, (ack) => {
         if (!ack.ok) return setError(ack.error);
         setError(null);
         setRoom(ack.data.room);
       });
     }
-  }, [roomCode, playerId, addLog]);
+  }, [roomCode, addLog, t]);
 
   // ── Socket event listeners (stable, registered once) ──
   useEffect(() => {
@@ -145,7 +145,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
           setSpotlight(null);
           setWagerSiren(false);
         }
-        if (nextRoom.currentAct?.id !== 'wager_round') {
+        if (nextRoom.currentAct?.kind !== 'wager') {
           setWagerExtraHint(null);
           setSpotlight(null);
           setWagerSiren(false);
@@ -172,7 +172,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
     const onWagerFiftyFifty = (payload: { removedIndexes: number[] }) => {
       setRemovedIndexes(payload.removedIndexes);
       setSelectedAnswer((prev) =>
-        prev !== null && payload.removedIndexes.includes(prev) ? null : prev
+        payload.removedIndexes.some((i) => includesChoice(prev, i)) ? null : prev
       );
     };
 
@@ -212,6 +212,21 @@ export default function PlayRoomClient({ code }: { code: string }) {
     return () => window.clearInterval(t);
   }, []);
 
+  // ── Late join: the host's answer ──
+  useEffect(() => {
+    const s = getSocket();
+    const onJoinResult = ({ approved }: { approved: boolean }) => {
+      setAdmission(approved ? 'admitted' : 'declined');
+      if (approved) return;
+      localStorage.removeItem(`${LS_SESSION_PREFIX}${roomCode}`);
+      setPlayerId(null);
+    };
+    s.on('join:result', onJoinResult);
+    return () => {
+      s.off('join:result', onJoinResult);
+    };
+  }, [roomCode]);
+
   // ── Initial connect + reconnect: re-watch/resume the room ──
   useEffect(() => {
     if (!roomCode) return;
@@ -234,27 +249,26 @@ export default function PlayRoomClient({ code }: { code: string }) {
   const doJoin = useCallback(
     (joinName: string) => {
       const trimmed = joinName.trim();
-      if (!trimmed) return setError('Name is required.');
-      emit<{ room: PublicRoomState; playerId: string }>(
-        'room:join',
-        { code: roomCode, name: trimmed },
-        (ack) => {
-          if (!ack.ok) return setError(ack.error);
-          setError(null);
-          setRoom(ack.data.room);
-          setPlayerId(ack.data.playerId);
-          localStorage.setItem(`${LS_PLAYER_ID_PREFIX}${roomCode}`, ack.data.playerId);
-          addLog(`✅ Joined as "${trimmed}"`);
-        }
-      );
+      if (!trimmed) return setError(t('play.nameRequired'));
+      const join = { code: roomCode, name: trimmed, locale };
+      emit('room:join', profileToken ? { ...join, profileToken } : join, (ack) => {
+        if (!ack.ok) return setError(ack.error);
+        setError(null);
+        setRoom(ack.data.room);
+        setPlayerId(ack.data.playerId);
+        setAdmission(ack.data.pending ? 'pending' : null);
+        localStorage.setItem(`${LS_SESSION_PREFIX}${roomCode}`, ack.data.sessionToken);
+        const joined = ack.data.room.players.find((p) => p.playerId === ack.data.playerId);
+        addLog(t('log.joined', { name: joined?.name ?? trimmed }));
+      });
     },
-    [emit, roomCode, addLog]
+    [emit, roomCode, locale, profileToken, addLog, t]
   );
 
   useEffect(() => {
     if (!roomCode || playerId || !nameFromUrl) return;
-    if (joinAttemptedRef.current || !localStorageChecked.current) return;
-    const stored = localStorage.getItem(`${LS_PLAYER_ID_PREFIX}${roomCode}`);
+    if (joinAttemptedRef.current) return;
+    const stored = localStorage.getItem(`${LS_SESSION_PREFIX}${roomCode}`);
     if (stored) return;
     joinAttemptedRef.current = true;
     setTimeout(() => doJoin(nameFromUrl), 0);
@@ -263,25 +277,21 @@ export default function PlayRoomClient({ code }: { code: string }) {
   /* ── Actions ── */
 
   const submitAnswer = useCallback(
-    (answerIndex: number) => {
+    (answer: PlayerAnswer) => {
       if (!playerId) return;
       const prev = selectedAnswer;
-      setSelectedAnswer(answerIndex);
-      emit<{ accepted: boolean }>(
-        'player:answer',
-        { code: roomCode, playerId, answerIndex },
-        (ack) => {
-          if (!ack.ok) {
-            setError(ack.error);
-            setSelectedAnswer(prev ?? null);
-            addLog(`❌ ${ack.error}`);
-          } else {
-            addLog(`✅ Selected: ${String.fromCharCode(65 + answerIndex)}`);
-          }
+      setSelectedAnswer(answer);
+      emit('player:answer', { code: roomCode, ...answer }, (ack) => {
+        if (!ack.ok) {
+          setError(ack.error);
+          setSelectedAnswer(prev ?? null);
+          addLog(t('log.error', { error: ack.error }));
+        } else {
+          addLog(t('log.selected', { answer: answerLabel(answer) }));
         }
-      );
+      });
     },
-    [emit, playerId, roomCode, addLog, selectedAnswer]
+    [emit, playerId, roomCode, addLog, t, selectedAnswer]
   );
 
   const lockIn = useCallback(() => {
@@ -290,10 +300,10 @@ export default function PlayRoomClient({ code }: { code: string }) {
     // Snapshot the potential bonus at lock-in time
     const lockTime = Date.now();
 
-    emit<{ room: PublicRoomState }>('player:lockin', { code: roomCode, playerId }, (ack) => {
+    emit('player:lockin', { code: roomCode }, (ack) => {
       if (!ack.ok) {
         setError(ack.error);
-        addLog(`❌ Lock in: ${ack.error}`);
+        addLog(t('log.failed', { action: t('action.lockIn'), error: ack.error }));
       } else {
         setError(null);
         setRoom((prev) => {
@@ -308,107 +318,115 @@ export default function PlayRoomClient({ code }: { code: string }) {
           }
           return ack.data.room;
         });
-        addLog('🔒 Locked in!');
+        addLog(t('log.lockedIn'));
       }
     });
-  }, [emit, playerId, roomCode, addLog]);
+  }, [emit, playerId, roomCode, addLog, t]);
 
   const submitWager = useCallback(
     (amount: number) => {
       if (!playerId) return;
-      emit<{ room: PublicRoomState }>('wager:set', { code: roomCode, playerId, amount }, (ack) => {
+      emit('wager:set', { code: roomCode, amount }, (ack) => {
         if (!ack.ok) {
           setError(ack.error);
-          addLog(`❌ Wager: ${ack.error}`);
+          addLog(t('log.failed', { action: t('action.wager'), error: ack.error }));
         } else {
           setError(null);
           setRoom(ack.data.room);
         }
       });
     },
-    [emit, playerId, roomCode, addLog]
+    [emit, playerId, roomCode, addLog, t]
   );
 
   const buyItem = useCallback(
     (itemId: ShopItemId) => {
       if (!playerId) return;
-      emit<{ room: PublicRoomState }>('shop:buy', { code: roomCode, playerId, itemId }, (ack) => {
+      emit('shop:buy', { code: roomCode, itemId }, (ack) => {
         if (!ack.ok) {
           setError(ack.error);
-          addLog(`❌ Buy: ${ack.error}`);
+          addLog(t('log.failed', { action: t('action.buy'), error: ack.error }));
         } else {
           setError(null);
           setRoom(ack.data.room);
-          addLog(`✅ Bought ${ITEM_META[itemId].name}`);
+          addLog(t('log.bought', { item: t(`shop.${itemId}.name`) }));
         }
       });
     },
-    [emit, playerId, roomCode, addLog]
+    [emit, playerId, roomCode, addLog, t]
   );
 
   const handleUseItem = useCallback(
     (itemId: ShopItemId) => {
       if (!playerId) return;
-      emit<ItemUseAckWire>('item:use', { code: roomCode, playerId, itemId }, (ack) => {
+      emit('item:use', { code: roomCode, itemId }, (ack) => {
         if (!ack.ok) {
           setError(ack.error);
-          addLog(`❌ Use: ${ack.error}`);
+          addLog(t('log.failed', { action: t('action.use'), error: ack.error }));
         } else {
           setError(null);
-          setRoom(ack.data.room);
-          if (ack.data.removedIndexes) {
-            setRemovedIndexes(ack.data.removedIndexes);
-            if (selectedAnswer !== null && ack.data.removedIndexes.includes(selectedAnswer)) {
+          const data = ack.data;
+          setRoom(data.room);
+          if (data.itemId === 'fifty_fifty') {
+            setRemovedIndexes(data.removedIndexes);
+            if (data.removedIndexes.some((i) => includesChoice(selectedAnswer, i))) {
               setSelectedAnswer(null);
             }
           }
-          if (ack.data.bonusMs) setFreezeBonusMs((prev) => prev + (ack.data.bonusMs ?? 0));
-          addLog(`✅ Used ${ITEM_META[itemId].name}`);
+          if (data.itemId === 'freeze_time') setFreezeBonusMs((prev) => prev + data.bonusMs);
+          addLog(t('log.used', { item: t(`shop.${itemId}.name`) }));
         }
       });
     },
-    [emit, playerId, roomCode, addLog, selectedAnswer]
+    [emit, playerId, roomCode, addLog, t, selectedAnswer]
   );
 
   const doBuyback = useCallback(() => {
     if (!playerId) return;
-    emit<{ room: PublicRoomState }>('player:buyback', { code: roomCode, playerId }, (ack) => {
+    emit('player:buyback', { code: roomCode }, (ack) => {
       if (!ack.ok) {
         setError(ack.error);
-        addLog(`❌ ${ack.error}`);
+        addLog(t('log.error', { error: ack.error }));
       } else {
         setError(null);
         setRoom(ack.data.room);
-        addLog('✅ Bought back in!');
+        addLog(t('log.boughtBack'));
       }
     });
-  }, [emit, playerId, roomCode, addLog]);
+  }, [emit, playerId, roomCode, addLog, t]);
 
   const requestRevive = useCallback(() => {
     if (!playerId) return;
-    emit<{ pending: true }>('revive:request', { code: roomCode, playerId }, (ack) => {
+    emit('revive:request', { code: roomCode }, (ack) => {
       if (!ack.ok) {
         setError(ack.error);
-        addLog(`❌ Revive: ${ack.error}`);
+        addLog(t('log.failed', { action: t('action.revive'), error: ack.error }));
       } else {
         setError(null);
         setReviveStatus('pending');
-        addLog('🙏 Revive requested — waiting for host…');
+        addLog(t('log.reviveRequested'));
       }
     });
-  }, [emit, playerId, roomCode, addLog]);
+  }, [emit, playerId, roomCode, addLog, t]);
 
   /* ── Derived ── */
 
   const phase = room?.phase ?? 'lobby';
-  const q = room?.currentQuestion;
+  const roomQuestion = room?.currentQuestion;
+  // Everything the server sends for display is shown in the player's language
+  const q = roomQuestion && {
+    ...roomQuestion,
+    question: localizeQuestion(roomQuestion.question, locale),
+  };
   const me = room?.players.find((p) => p.playerId === playerId);
   const wager = room?.wager;
+  const wagerText = pickTranslation(wager?.translations, locale);
   const shopOpen = room?.shop?.open ?? false;
+  const shopItems = (room?.shop?.items ?? []).map((item) => localizeShopItem(locale, item));
   const isCountdown = phase === 'countdown';
   const isWager = phase === 'wager';
   const isQuestionPhase = phase === 'question' || phase === 'boss';
-  const currentAct = room?.currentAct;
+  const currentAct = room?.currentAct && localizeAct(locale, room.currentAct);
 
   // ── Countdown state ──
   const countdownEndsAt = q?.countdownEndsAt ?? 0;
@@ -424,7 +442,8 @@ export default function PlayRoomClient({ code }: { code: string }) {
   const totalMs = q ? Math.max(1, playerEndsAt - q.startedAt) : 1;
   const remainingFrac = q ? Math.max(0, Math.min(1, msLeft / totalMs)) : 0;
   const timeUp = q ? now >= playerEndsAt : false;
-  const revealedCorrectIndex = q?.revealedAnswerIndex;
+  const revealedAnswer = q?.revealedAnswer;
+  const questionType = q?.question.type ?? 'multiple_choice';
 
   // ── Wager timer ──
   const wagerEndsAt = wager?.endsAt ?? 0;
@@ -461,7 +480,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
     ([id, count]) => count > 0 && ITEM_META[id as ShopItemId]?.kind === 'passive'
   ) as [ShopItemId, number][];
 
-  const isBossAct = currentAct?.id === 'boss_fight';
+  const isBossAct = currentAct?.kind === 'boss';
   const canRequestRevive =
     !!me?.eliminated && !isQuestionPhase && !isBossAct && reviveStatus === 'idle';
 
@@ -489,9 +508,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
             ? 3
             : 4;
   const isAllInCommitted =
-    currentAct?.id === 'wager_round' &&
-    (me?.score ?? 0) > 0 &&
-    (me?.wager ?? 0) >= (me?.score ?? 0);
+    currentAct?.kind === 'wager' && (me?.score ?? 0) > 0 && (me?.wager ?? 0) >= (me?.score ?? 0);
   const canFinalSwap =
     !!isAllInCommitted &&
     !!me?.lockedIn &&
@@ -500,6 +517,19 @@ export default function PlayRoomClient({ code }: { code: string }) {
     !q?.locked &&
     !timeUp &&
     !me?.eliminated;
+  const answerLocked =
+    isCountdown || !!q?.locked || timeUp || !!me?.eliminated || (!!me?.lockedIn && !canFinalSwap);
+
+  /** Tapping choice `i`: pick it or, for pick-all-that-apply, toggle it (keeping at least one) */
+  const pick = (i: number): PlayerAnswer => {
+    if (questionType !== 'multi_select') return { answerIndex: i };
+    const picks =
+      selectedAnswer && 'answerIndexes' in selectedAnswer ? selectedAnswer.answerIndexes : [];
+    const next = picks.includes(i)
+      ? picks.filter((j) => j !== i)
+      : [...picks, i].sort((a, b) => a - b);
+    return { answerIndexes: next.length > 0 ? next : picks };
+  };
 
   // Keep local wager slider in sync when entering wager phase
   // (deferred to avoid sync setState inside effect warnings)
@@ -517,6 +547,15 @@ export default function PlayRoomClient({ code }: { code: string }) {
     return () => clearTimeout(t);
   }, [isWager, hasMe, myEliminated, myWager]);
 
+  // Tell the server when this device's language changes (pack translations follow it)
+  const myLocale = me?.locale;
+  useEffect(() => {
+    if (!playerId || !myLocale || myLocale === locale) return;
+    emit('player:locale', { code: roomCode, locale }, (ack) => {
+      if (!ack.ok) setError(ack.error);
+    });
+  }, [emit, roomCode, playerId, myLocale, locale]);
+
   // ── Speed Bonus Preview (live countdown, client-only) ──
   const speedBonusMax = currentAct?.speedBonusMax ?? 0;
   const baseDurationMs = q ? q.endsAt - q.startedAt : 0;
@@ -535,11 +574,11 @@ export default function PlayRoomClient({ code }: { code: string }) {
             <div className="w-full max-w-lg rounded-3xl border border-pink-200 bg-white p-6 shadow-2xl">
               <div className="flex items-start justify-between gap-4">
                 <div>
-                  <div className="text-sm font-semibold text-pink-700">🎥 Spotlight</div>
-                  <div className="text-2xl font-black text-pink-800">HIGH STAKES LOCKED</div>
+                  <div className="text-sm font-semibold text-pink-700">{t('spotlight.title')}</div>
+                  <div className="text-2xl font-black text-pink-800">{t('spotlight.locked')}</div>
                 </div>
                 <div className="rounded-xl bg-pink-50 px-3 py-2 text-right">
-                  <div className="text-xs font-semibold text-pink-700">POT</div>
+                  <div className="text-xs font-semibold text-pink-700">{t('spotlight.pot')}</div>
                   <div className="text-lg font-black text-pink-900 tabular-nums">
                     {spotlight.totalWagered}
                   </div>
@@ -548,15 +587,21 @@ export default function PlayRoomClient({ code }: { code: string }) {
 
               <div className="mt-4 grid grid-cols-3 gap-2 text-center">
                 <div className="rounded-2xl border bg-neutral-50 p-3">
-                  <div className="text-[11px] font-semibold text-neutral-600">ALL IN</div>
+                  <div className="text-[11px] font-semibold text-neutral-600">
+                    {t('spotlight.allIn')}
+                  </div>
                   <div className="text-xl font-black tabular-nums">{spotlight.allInCount}</div>
                 </div>
                 <div className="rounded-2xl border bg-neutral-50 p-3">
-                  <div className="text-[11px] font-semibold text-neutral-600">NO BET</div>
+                  <div className="text-[11px] font-semibold text-neutral-600">
+                    {t('spotlight.noBet')}
+                  </div>
                   <div className="text-xl font-black tabular-nums">{spotlight.noBetCount}</div>
                 </div>
                 <div className="rounded-2xl border bg-neutral-50 p-3">
-                  <div className="text-[11px] font-semibold text-neutral-600">BIGGEST</div>
+                  <div className="text-[11px] font-semibold text-neutral-600">
+                    {t('spotlight.biggest')}
+                  </div>
                   <div className="text-sm font-black">
                     {spotlight.biggest ? spotlight.biggest.name : '—'}
                   </div>
@@ -565,7 +610,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
 
               {spotlight.topRisk.length > 0 ? (
                 <div className="mt-4">
-                  <div className="text-xs font-bold text-neutral-600">Top risk takers</div>
+                  <div className="text-xs font-bold text-neutral-600">{t('spotlight.topRisk')}</div>
                   <div className="mt-2 space-y-2">
                     {spotlight.topRisk.map((e, idx) => (
                       <div
@@ -577,39 +622,32 @@ export default function PlayRoomClient({ code }: { code: string }) {
                           <div>
                             <div className="text-sm font-bold">{e.name}</div>
                             <div className="text-[11px] text-neutral-500">
-                              Bet {e.wager} ({Math.round(e.ratio * 100)}%)
+                              {t('spotlight.bet', {
+                                wager: e.wager,
+                                percent: Math.round(e.ratio * 100),
+                              })}
                             </div>
                           </div>
                         </div>
-                        <div className="text-sm font-black">
-                          {e.tier === 'ALL_IN'
-                            ? '🟥 ALL IN'
-                            : e.tier === 'INSANE'
-                              ? '😈 INSANE'
-                              : e.tier === 'HIGH_ROLLER'
-                                ? '🎲 HIGH ROLLER'
-                                : e.tier === 'BOLD'
-                                  ? '💪 BOLD'
-                                  : '🙂 SAFE'}
-                        </div>
+                        <div className="text-sm font-black">{t(`tier.${e.tier}`)}</div>
                       </div>
                     ))}
                   </div>
                 </div>
               ) : (
                 <div className="mt-4 rounded-2xl border bg-neutral-50 p-4 text-sm font-semibold text-neutral-700">
-                  No one placed a bet… coward meta 😅
+                  {t('spotlight.nobody')}
                 </div>
               )}
 
               <div className="mt-4 text-center text-xs font-semibold text-neutral-500">
-                Waiting for the host to start the High Stakes question…
+                {t('spotlight.waiting')}
               </div>
             </div>
           </div>
         )}
         <div className="mx-auto max-w-md rounded-2xl border p-6">
-          <h1 className="text-xl font-bold">Invalid room</h1>
+          <h1 className="text-xl font-bold">{t('common.invalidRoom')}</h1>
         </div>
       </main>
     );
@@ -622,11 +660,11 @@ export default function PlayRoomClient({ code }: { code: string }) {
           <div className="w-full max-w-lg rounded-3xl border border-pink-200 bg-white p-6 shadow-2xl">
             <div className="flex items-start justify-between gap-4">
               <div>
-                <div className="text-sm font-semibold text-pink-700">🎥 Spotlight</div>
-                <div className="text-2xl font-black text-pink-800">HIGH STAKES LOCKED</div>
+                <div className="text-sm font-semibold text-pink-700">{t('spotlight.title')}</div>
+                <div className="text-2xl font-black text-pink-800">{t('spotlight.locked')}</div>
               </div>
               <div className="rounded-xl bg-pink-50 px-3 py-2 text-right">
-                <div className="text-xs font-semibold text-pink-700">POT</div>
+                <div className="text-xs font-semibold text-pink-700">{t('spotlight.pot')}</div>
                 <div className="text-lg font-black text-pink-900 tabular-nums">
                   {spotlight.totalWagered}
                 </div>
@@ -635,15 +673,21 @@ export default function PlayRoomClient({ code }: { code: string }) {
 
             <div className="mt-4 grid grid-cols-3 gap-2 text-center">
               <div className="rounded-2xl border bg-neutral-50 p-3">
-                <div className="text-[11px] font-semibold text-neutral-600">ALL IN</div>
+                <div className="text-[11px] font-semibold text-neutral-600">
+                  {t('spotlight.allIn')}
+                </div>
                 <div className="text-xl font-black tabular-nums">{spotlight.allInCount}</div>
               </div>
               <div className="rounded-2xl border bg-neutral-50 p-3">
-                <div className="text-[11px] font-semibold text-neutral-600">NO BET</div>
+                <div className="text-[11px] font-semibold text-neutral-600">
+                  {t('spotlight.noBet')}
+                </div>
                 <div className="text-xl font-black tabular-nums">{spotlight.noBetCount}</div>
               </div>
               <div className="rounded-2xl border bg-neutral-50 p-3">
-                <div className="text-[11px] font-semibold text-neutral-600">BIGGEST</div>
+                <div className="text-[11px] font-semibold text-neutral-600">
+                  {t('spotlight.biggest')}
+                </div>
                 <div className="text-sm font-black">
                   {spotlight.biggest ? spotlight.biggest.name : '—'}
                 </div>
@@ -652,7 +696,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
 
             {spotlight.topRisk.length > 0 ? (
               <div className="mt-4">
-                <div className="text-xs font-bold text-neutral-600">Top risk takers</div>
+                <div className="text-xs font-bold text-neutral-600">{t('spotlight.topRisk')}</div>
                 <div className="mt-2 space-y-2">
                   {spotlight.topRisk.map((e, idx) => (
                     <div
@@ -664,33 +708,26 @@ export default function PlayRoomClient({ code }: { code: string }) {
                         <div>
                           <div className="text-sm font-bold">{e.name}</div>
                           <div className="text-[11px] text-neutral-500">
-                            Bet {e.wager} ({Math.round(e.ratio * 100)}%)
+                            {t('spotlight.bet', {
+                              wager: e.wager,
+                              percent: Math.round(e.ratio * 100),
+                            })}
                           </div>
                         </div>
                       </div>
-                      <div className="text-sm font-black">
-                        {e.tier === 'ALL_IN'
-                          ? '🟥 ALL IN'
-                          : e.tier === 'INSANE'
-                            ? '😈 INSANE'
-                            : e.tier === 'HIGH_ROLLER'
-                              ? '🎲 HIGH ROLLER'
-                              : e.tier === 'BOLD'
-                                ? '💪 BOLD'
-                                : '🙂 SAFE'}
-                      </div>
+                      <div className="text-sm font-black">{t(`tier.${e.tier}`)}</div>
                     </div>
                   ))}
                 </div>
               </div>
             ) : (
               <div className="mt-4 rounded-2xl border bg-neutral-50 p-4 text-sm font-semibold text-neutral-700">
-                No one placed a bet… coward meta 😅
+                {t('spotlight.nobody')}
               </div>
             )}
 
             <div className="mt-4 text-center text-xs font-semibold text-neutral-500">
-              Next up: the High Stakes question…
+              {t('spotlight.nextUp')}
             </div>
           </div>
         </div>
@@ -700,15 +737,16 @@ export default function PlayRoomClient({ code }: { code: string }) {
         <header className="rounded-2xl border p-5">
           <div className="flex items-end justify-between gap-4">
             <div>
-              <div className="text-sm text-neutral-500">Player</div>
-              <h1 className="text-2xl font-bold">{me?.name ?? 'Room'}</h1>
+              <div className="text-sm text-neutral-500">{t('play.player')}</div>
+              <h1 className="text-2xl font-bold">{me?.name ?? t('play.room')}</h1>
               <div className="mt-1 text-sm text-neutral-600">
-                Code: <span className="font-mono font-semibold">{roomCode}</span>
+                {t('common.code')}: <span className="font-mono font-semibold">{roomCode}</span>
               </div>
             </div>
             <div className="text-right">
+              <LocalePicker className="mb-1" />
               <div className="rounded-lg bg-neutral-100 px-3 py-1.5 text-sm font-semibold">
-                {phase}
+                {t(`phase.${phase}`)}
               </div>
               {currentAct && (
                 <div className="mt-1 text-xs text-neutral-500">
@@ -727,7 +765,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
               <span>🪙 {me.coins}</span>
               {me.eliminated && (
                 <span className="rounded-full bg-red-100 px-2 py-0.5 text-xs font-semibold text-red-700">
-                  💀 ELIMINATED
+                  {t('play.eliminatedBadge')}
                 </span>
               )}
             </div>
@@ -740,17 +778,17 @@ export default function PlayRoomClient({ code }: { code: string }) {
               <div className="mt-2 flex flex-wrap gap-2">
                 {me.buffs?.doublePoints && (
                   <span className="rounded-full border border-yellow-300 bg-yellow-100 px-3 py-1 text-xs font-semibold text-yellow-800">
-                    ⭐ Double Points armed
+                    {t('play.doublePointsArmed')}
                   </span>
                 )}
                 {me.buffs?.shield && (
                   <span className="rounded-full border border-blue-300 bg-blue-100 px-3 py-1 text-xs font-semibold text-blue-800">
-                    🛡️ Shield armed
+                    {t('play.shieldArmed')}
                   </span>
                 )}
                 {(me.inventory['buyback_token'] ?? 0) > 0 && (
                   <span className="rounded-full border border-green-300 bg-green-100 px-3 py-1 text-xs font-semibold text-green-800">
-                    🪙 Buyback Token ready
+                    {t('play.buybackReady')}
                   </span>
                 )}
               </div>
@@ -780,10 +818,13 @@ export default function PlayRoomClient({ code }: { code: string }) {
                       : 'bg-green-100 text-green-700'
                   }`}
                 >
-                  {currentAct.heartsAtRisk ? '❤️ Hearts at risk' : '🛡️ Hearts safe'}
+                  {currentAct.heartsAtRisk ? t('common.heartsAtRisk') : t('common.heartsSafe')}
                 </span>
                 <span className="text-xs text-neutral-500">
-                  Q{currentAct.questionNumber}/{currentAct.totalQuestions}
+                  {t('play.questionProgress', {
+                    number: currentAct.questionNumber,
+                    total: currentAct.totalQuestions,
+                  })}
                 </span>
               </div>
             </div>
@@ -792,24 +833,23 @@ export default function PlayRoomClient({ code }: { code: string }) {
         {/* ── Intermission ── */}
         {phase === 'intermission' && (
           <section className="rounded-2xl border border-blue-200 bg-blue-50 p-5">
-            <h2 className="text-lg font-semibold text-blue-800">🎬 Intermission</h2>
+            <h2 className="text-lg font-semibold text-blue-800">{t('play.intermission')}</h2>
             <p className="mt-1 text-sm text-blue-700">
-              {currentAct?.name} is complete! Take a breather — the host will start the next act
-              soon.
+              {t('play.intermissionBody', { act: currentAct?.name ?? '' })}
             </p>
             {shopOpen && (
-              <p className="mt-2 text-sm font-medium text-purple-700">🛒 The shop is open!</p>
+              <p className="mt-2 text-sm font-medium text-purple-700">{t('play.shopIsOpen')}</p>
             )}
           </section>
         )}
         {/* ── Join ── */}
         {!playerId && !nameFromUrl && (
           <section className="rounded-2xl border p-5">
-            <h2 className="text-lg font-semibold">Join</h2>
+            <h2 className="text-lg font-semibold">{t('play.join')}</h2>
             <div className="mt-3 flex gap-2">
               <input
                 className="w-full rounded-xl border px-3 py-2 text-sm"
-                placeholder="Your name"
+                placeholder={t('play.yourName')}
                 value={name}
                 onChange={(e) => setName(e.target.value)}
               />
@@ -818,14 +858,19 @@ export default function PlayRoomClient({ code }: { code: string }) {
                 type="button"
                 onClick={() => doJoin(name)}
               >
-                Join
+                {t('play.join')}
               </button>
             </div>
           </section>
         )}
-        {!playerId && nameFromUrl && (
+        {!playerId && nameFromUrl && admission !== 'declined' && (
           <section className="rounded-2xl border p-5">
-            <p className="text-sm text-neutral-600">Joining as {nameFromUrl}…</p>
+            <p className="text-sm text-neutral-600">{t('play.joiningAs', { name: nameFromUrl })}</p>
+          </section>
+        )}
+        {admission === 'declined' && (
+          <section className="rounded-2xl border border-red-200 bg-red-50 p-5">
+            <p className="text-sm text-red-700">{t('join.declined')}</p>
           </section>
         )}{' '}
         {/* ── Wager Phase ── */}
@@ -833,10 +878,8 @@ export default function PlayRoomClient({ code }: { code: string }) {
           <section className="rounded-2xl border border-pink-200 bg-pink-50 p-5">
             <div className="flex items-start justify-between gap-4">
               <div>
-                <h2 className="text-lg font-semibold text-pink-800">🎰 High Stakes — Redline</h2>
-                <p className="mt-1 text-sm text-pink-700">
-                  Bet any amount of your points. Right = win your bet. Wrong = lose it.
-                </p>
+                <h2 className="text-lg font-semibold text-pink-800">{t('wager.title')}</h2>
+                <p className="mt-1 text-sm text-pink-700">{t('wager.rules')}</p>
               </div>
 
               <div
@@ -850,37 +893,34 @@ export default function PlayRoomClient({ code }: { code: string }) {
 
             <div className="mt-3 rounded-xl border bg-white p-4">
               <div className="text-sm font-semibold text-neutral-800">
-                Category: <span className="font-bold">{wager.category ?? '???'}</span>
+                {t('wager.category')}{' '}
+                <span className="font-bold">{wagerText?.category ?? wager.category ?? '???'}</span>
               </div>
 
               <div className="mt-1 text-sm text-neutral-600">
-                Hint: <span className="font-medium">{wager.hint ?? '???'}</span>
+                {t('wager.hint')}{' '}
+                <span className="font-medium">{wagerText?.hint ?? wager.hint ?? '???'}</span>
               </div>
 
               {wagerExtraHint ? (
                 <div className="mt-2 rounded-lg border border-pink-200 bg-pink-50 px-3 py-2 text-sm text-pink-900">
-                  <span className="font-semibold">🔥 Extra hint:</span>{' '}
+                  <span className="font-semibold">{t('question.extraHint')}</span>{' '}
                   <span className="font-medium">{wagerExtraHint}</span>
                 </div>
               ) : null}
 
               <div className="mt-2 text-xs text-neutral-600">
-                Stage: <span className="font-bold">{wagerStage.toUpperCase()}</span>
+                {t('wager.stage')}{' '}
+                <span className="font-bold">{t(`wagerStage.${wagerStage}`).toUpperCase()}</span>
                 {wagerNoDecreases ? (
                   <span className="ml-2 rounded-full bg-red-100 px-2 py-0.5 font-bold text-red-700">
-                    🚨 NO DECREASES
+                    {t('wager.noDecreases')}
                   </span>
                 ) : null}
               </div>
 
               <div className="mt-3 flex flex-wrap gap-2 text-[11px]">
-                {[
-                  ['blind', '???'],
-                  ['category', 'Category'],
-                  ['hint', 'Hint'],
-                  ['redline', 'REDLINE'],
-                  ['closing', 'Closing'],
-                ].map(([id, label]) => {
+                {(['blind', 'category', 'hint', 'redline', 'closing'] as const).map((id) => {
                   const idx =
                     id === 'blind'
                       ? 0
@@ -901,7 +941,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
                           : 'border-neutral-200 bg-white text-neutral-500'
                       }`}
                     >
-                      {label}
+                      {t(`wagerStage.${id}`)}
                     </span>
                   );
                 })}
@@ -909,19 +949,19 @@ export default function PlayRoomClient({ code }: { code: string }) {
 
               {!wager.open ? (
                 <div className="mt-3 rounded-xl border border-neutral-200 bg-neutral-50 p-3 text-sm font-semibold text-neutral-700">
-                  🔒 Wagers locked — Spotlight in progress…
+                  {t('wager.lockedSpotlight')}
                 </div>
               ) : null}
             </div>
 
             {me?.eliminated ? (
               <div className="mt-4 rounded-xl border border-red-200 bg-red-50 p-4 text-sm font-semibold text-red-800">
-                💀 You’re eliminated — no wagering this round.
+                {t('wager.eliminated')}
               </div>
             ) : (
               <div className="mt-4 rounded-xl border bg-white p-4">
                 <div className="flex items-center justify-between">
-                  <div className="text-sm font-semibold">Your wager</div>
+                  <div className="text-sm font-semibold">{t('wager.yours')}</div>
                   <div className="text-sm font-bold tabular-nums">{wagerAmount}</div>
                 </div>
 
@@ -973,30 +1013,22 @@ export default function PlayRoomClient({ code }: { code: string }) {
                               : 'bg-neutral-100 text-neutral-600'
                     }`}
                   >
-                    {myTier === 'ALL_IN'
-                      ? '🟥 ALL IN'
-                      : myTier === 'INSANE'
-                        ? '😈 INSANE'
-                        : myTier === 'HIGH_ROLLER'
-                          ? '🎲 HIGH ROLLER'
-                          : myTier === 'BOLD'
-                            ? '💪 BOLD'
-                            : '🙂 SAFE'}
+                    {t(`tier.${myTier}`)}
                   </span>
 
                   {myTierIndex >= 1 && (
                     <span className="rounded-full border border-pink-200 bg-pink-50 px-2 py-0.5 font-semibold text-pink-800">
-                      🔥 Extra hint at REDLINE
+                      {t('wager.perkExtraHint')}
                     </span>
                   )}
                   {myTierIndex >= 2 && (
                     <span className="rounded-full border border-amber-200 bg-amber-50 px-2 py-0.5 font-semibold text-amber-800">
-                      ✂️ Auto 50/50 (question)
+                      {t('wager.perkFiftyFifty')}
                     </span>
                   )}
                   {myTier === 'ALL_IN' && (
                     <span className="rounded-full border border-red-200 bg-red-50 px-2 py-0.5 font-semibold text-red-800">
-                      🔁 Final swap (once)
+                      {t('wager.perkSwap')}
                     </span>
                   )}
                 </div>
@@ -1008,16 +1040,15 @@ export default function PlayRoomClient({ code }: { code: string }) {
                   onClick={() => submitWager(wagerAmount)}
                 >
                   {!wager.open
-                    ? 'Wagers Locked'
+                    ? t('wager.lockedButton')
                     : me?.wagerSubmitted
-                      ? 'Update Wager'
-                      : 'Place Wager'}
+                      ? t('wager.update')
+                      : t('wager.place')}
                 </button>
 
                 <div className="mt-2 text-xs text-neutral-500">
-                  You have <span className="font-semibold">{me?.score ?? 0}</span> points available.
-                  Total wagered by everyone:{' '}
-                  <span className="font-semibold">{wager.totalWagered}</span>
+                  {t('wager.available', { score: me?.score ?? 0 })}{' '}
+                  {t('wager.totalWagered', { total: wager.totalWagered })}
                 </div>
               </div>
             )}
@@ -1029,19 +1060,19 @@ export default function PlayRoomClient({ code }: { code: string }) {
             <div className="flex items-center justify-between">
               <h2 className="text-lg font-semibold">
                 {phase === 'boss'
-                  ? '🐉 Boss Question'
+                  ? t('question.boss')
                   : isCountdown
-                    ? '⏳ Get Ready!'
-                    : '❓ Question'}
+                    ? t('question.getReady')
+                    : t('question.title')}
               </h2>
               <div className="flex items-center gap-2">
                 {q.question.hard && (
                   <span className="rounded-full bg-red-100 px-2 py-0.5 text-xs font-bold text-red-700">
-                    ⚠️ HARD
+                    {t('question.hard')}
                   </span>
                 )}
                 <span className="text-xs text-neutral-500">
-                  {q.question.value} pts · {q.question.category}
+                  {t('common.pts', { value: q.question.value })} · {q.question.category}
                 </span>
               </div>
             </div>
@@ -1053,17 +1084,27 @@ export default function PlayRoomClient({ code }: { code: string }) {
                   {countdownSecondsLeft || '🚀'}
                 </div>
                 <p className="mt-3 text-sm font-semibold text-amber-700">
-                  {countdownSecondsLeft > 0 ? 'Question incoming…' : 'Go!'}
+                  {countdownSecondsLeft > 0 ? t('question.incoming') : t('question.go')}
                 </p>
               </div>
             )}
 
+            {/* ── Media (loaded during the countdown, shown once the question opens) ── */}
+            {q.question.media && (
+              <QuestionMediaView
+                media={q.question.media}
+                preloading={isCountdown}
+                playing={isQuestionPhase && !q.locked}
+                startedAt={q.startedAt}
+              />
+            )}
+
             {/* ── Question Content (hidden during countdown) ── */}
             {!isCountdown && (
               <>
                 {freezeBonusMs > 0 && (
                   <p className="mt-1 text-xs font-medium text-blue-600">
-                    ⏱️ +{freezeBonusMs / 1000}s bonus time!
+                    {t('question.bonusTime', { seconds: freezeBonusMs / 1000 })}
                   </p>
                 )}
 
@@ -1071,7 +1112,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
                 <div className="mt-3 rounded-xl border bg-white p-3">
                   <div className="flex items-center justify-between text-sm">
                     <span className="font-semibold">
-                      {timeUp ? '\u23F1\uFE0F Time\u2019s up' : '\u23F1\uFE0F Time left'}
+                      {timeUp ? t('question.timeUp') : t('question.timeLeft')}
                     </span>
                     <span className="font-bold tabular-nums">{secondsLeft}s</span>
                   </div>
@@ -1085,7 +1126,9 @@ export default function PlayRoomClient({ code }: { code: string }) {
                   {/* Speed Bonus Preview */}
                   {speedBonusMax > 0 && isQuestionPhase && !q.locked && !me?.eliminated && (
                     <div className="mt-2 flex items-center justify-between">
-                      <span className="text-xs font-medium text-amber-700">⚡ Speed Bonus</span>
+                      <span className="text-xs font-medium text-amber-700">
+                        {t('question.speedBonus')}
+                      </span>
                       <span
                         className={`text-sm font-bold tabular-nums ${
                           me?.lockedIn
@@ -1106,25 +1149,29 @@ export default function PlayRoomClient({ code }: { code: string }) {
                 </div>
 
                 <p className="mt-2 text-base font-medium">{q.question.prompt}</p>
+                {questionType !== 'multiple_choice' && (
+                  <p className="mt-1 text-xs font-semibold tracking-wide text-blue-700 uppercase">
+                    {t(`questionType.${questionType}`)}
+                  </p>
+                )}
 
-                {currentAct?.id === 'wager_round' && wagerExtraHint ? (
+                {currentAct?.kind === 'wager' && wagerExtraHint ? (
                   <div className="mt-2 rounded-xl border border-pink-200 bg-pink-50 p-3 text-sm font-semibold text-pink-900">
-                    🔥 Extra hint: <span className="font-medium">{wagerExtraHint}</span>
+                    {t('question.extraHint')} <span className="font-medium">{wagerExtraHint}</span>
                   </div>
                 ) : null}
 
-                {currentAct?.id === 'wager_round' && removedIndexes?.length ? (
+                {currentAct?.kind === 'wager' && removedIndexes?.length ? (
                   <div className="mt-2 text-xs font-semibold text-amber-700">
-                    ✂️ High Roller perk active: 2 wrong answers removed
+                    {t('question.highRollerPerk')}
                   </div>
                 ) : null}
 
                 {isBlackout && (
                   <div className="mt-3 rounded-xl border border-neutral-200 bg-white p-3 text-sm font-semibold text-neutral-700">
-                    🕶️ Blackout! Choices unlock in{' '}
-                    <span className="tabular-nums">
-                      {Math.max(0, Math.ceil((blackoutUntil - now) / 1000))}s
-                    </span>
+                    {t('question.blackout', {
+                      seconds: Math.max(0, Math.ceil((blackoutUntil - now) / 1000)),
+                    })}
                   </div>
                 )}
 
@@ -1134,69 +1181,96 @@ export default function PlayRoomClient({ code }: { code: string }) {
                     className={`mt-3 rounded-xl border p-3 text-sm font-semibold ${
                       revealFeedback.correct
                         ? 'border-green-300 bg-green-50 text-green-800'
-                        : revealFeedback.yourAnswerIndex === null
+                        : revealFeedback.yourAnswer === null
                           ? 'border-amber-300 bg-amber-50 text-amber-800'
                           : 'border-red-300 bg-red-50 text-red-800'
                     }`}
                   >
-                    {currentAct?.id === 'wager_round'
+                    {currentAct?.kind === 'wager'
                       ? revealFeedback.correct
-                        ? `🎰 WIN! +${revealFeedback.wagered ?? 0} (bet doubled)`
-                        : revealFeedback.yourAnswerIndex === null
-                          ? '⏱️ No answer submitted'
-                          : `💸 LOST -${revealFeedback.wagered ?? 0}`
+                        ? t('reveal.wagerWin', { amount: revealFeedback.wagered ?? 0 })
+                        : revealFeedback.yourAnswer === null
+                          ? t('reveal.noAnswer')
+                          : t('reveal.wagerLost', { amount: revealFeedback.wagered ?? 0 })
                       : revealFeedback.correct
-                        ? `✅ Correct! +${revealFeedback.scoreDelta} pts`
-                        : revealFeedback.yourAnswerIndex === null
-                          ? '⏱️ No answer submitted'
-                          : '❌ Wrong'}
+                        ? t('reveal.correct', { points: revealFeedback.scoreDelta })
+                        : revealFeedback.yourAnswer === null
+                          ? t('reveal.noAnswer')
+                          : t('reveal.wrong')}
                     {revealFeedback.correct && revealFeedback.speedBonus
-                      ? ` (⚡ +${revealFeedback.speedBonus} speed bonus)`
+                      ? ` ${t('reveal.speedBonus', { bonus: revealFeedback.speedBonus })}`
                       : null}
-                    {currentAct?.id !== 'wager_round' &&
+                    {currentAct?.kind !== 'wager' &&
                       !revealFeedback.heartsAtRisk &&
                       !revealFeedback.correct &&
-                      revealFeedback.yourAnswerIndex !== null && (
-                        <span className="ml-2 text-green-600">🛡️ No heart lost (safe round)</span>
+                      revealFeedback.yourAnswer !== null && (
+                        <span className="ml-2 text-green-600">{t('reveal.safeRound')}</span>
                       )}
                     <span className="ml-2 font-medium text-neutral-700">
-                      {revealFeedback.shieldUsed ? '🛡️ Shield used ' : ''}
-                      {revealFeedback.doublePointsUsed ? '⭐ Double Points used ' : ''}
-                      {revealFeedback.buybackUsed ? '🪙 Buyback used ' : ''}
+                      {revealFeedback.shieldUsed ? `${t('reveal.shieldUsed')} ` : ''}
+                      {revealFeedback.doublePointsUsed ? `${t('reveal.doublePointsUsed')} ` : ''}
+                      {revealFeedback.buybackUsed ? `${t('reveal.buybackUsed')} ` : ''}
                       {revealFeedback.livesDelta !== 0
-                        ? ` · ${revealFeedback.livesDelta} lives`
+                        ? ` · ${t('reveal.lives', { delta: revealFeedback.livesDelta })}`
                         : ''}
                       {revealFeedback.coinsDelta !== 0
-                        ? ` · +${revealFeedback.coinsDelta} coins`
+                        ? ` · ${t('reveal.coins', { delta: revealFeedback.coinsDelta })}`
                         : ''}
                     </span>
                   </div>
                 )}
 
+                {questionType === 'ordering' && !q.locked && (
+                  <OrderingInput
+                    key={q.question.id}
+                    choices={isBlackout ? q.question.choices.map(() => '???') : q.question.choices}
+                    selected={selectedAnswer}
+                    disabled={answerLocked || isBlackout}
+                    onSubmit={submitAnswer}
+                  />
+                )}
+                {questionType === 'free_text' && !q.locked && (
+                  <FreeTextInput
+                    key={q.question.id}
+                    selected={selectedAnswer}
+                    disabled={answerLocked || isBlackout}
+                    onSubmit={submitAnswer}
+                  />
+                )}
+                {(questionType === 'ordering' || questionType === 'free_text') &&
+                  q.locked &&
+                  revealedAnswer && (
+                    <div className="mt-3 space-y-1 rounded-xl border-2 border-green-500 bg-green-50 px-4 py-3 text-sm font-medium text-green-800">
+                      <div>✅ {describeAnswer(q.question, revealedAnswer)}</div>
+                      {revealFeedback?.yourAnswer && !revealFeedback.correct && (
+                        <div className="text-red-700">
+                          {t('question.youSaid', {
+                            answer: describeAnswer(q.question, revealFeedback.yourAnswer),
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                 <div className="mt-3 grid grid-cols-1 gap-2 sm:grid-cols-2">
-                  {q.question.choices.map((choice, i) => {
+                  {(questionType === 'ordering' || questionType === 'free_text'
+                    ? []
+                    : q.question.choices
+                  ).map((choice, i) => {
                     const displayChoice = isBlackout ? '???' : choice;
                     const isRemoved = removedIndexes?.includes(i);
-                    const isSelected = selectedAnswer === i;
-                    const showReveal = q.locked && typeof revealedCorrectIndex === 'number';
-                    const isCorrect = showReveal && i === revealedCorrectIndex;
-                    const yourIdx = revealFeedback?.yourAnswerIndex ?? selectedAnswer;
-                    const isYourPick = yourIdx === i;
+                    const isSelected = includesChoice(selectedAnswer, i);
+                    const showReveal = q.locked && !!revealedAnswer;
+                    const isCorrect = showReveal && includesChoice(revealedAnswer, i);
+                    const yourAnswer = revealFeedback?.yourAnswer ?? selectedAnswer;
+                    const isYourPick = includesChoice(yourAnswer, i);
                     const isWrongPick = showReveal && isYourPick && !isCorrect;
                     return (
                       <button
                         key={i}
                         type="button"
-                        disabled={
-                          isCountdown ||
-                          q.locked ||
-                          isBlackout ||
-                          timeUp ||
-                          !!me?.eliminated ||
-                          (!!me?.lockedIn && !canFinalSwap) ||
-                          !!isRemoved
-                        }
-                        onClick={() => submitAnswer(i)}
+                        disabled={answerLocked || isBlackout || !!isRemoved}
+                        onClick={() => submitAnswer(pick(i))}
                         className={`rounded-xl border-2 px-4 py-3 text-left text-sm font-medium transition-all ${
                           isRemoved
                             ? 'border-neutral-200 bg-neutral-100 text-neutral-400 line-through'
@@ -1232,7 +1306,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
                   <div className="mt-3 flex items-center justify-between gap-3 rounded-xl border bg-white p-3">
                     <div className="space-y-0.5">
                       <div className="text-xs font-semibold text-neutral-700">
-                        🔒 Locked in:{' '}
+                        {t('lockIn.count')}{' '}
                         <span className="tabular-nums">
                           {lockedInCount}/{activeCount}
                         </span>
@@ -1241,10 +1315,10 @@ export default function PlayRoomClient({ code }: { code: string }) {
                       {isAllInCommitted ? (
                         <div className="text-[11px] font-semibold text-red-700">
                           {me?.wagerSwapUsed
-                            ? '🔁 Final swap used'
+                            ? t('lockIn.swapUsed')
                             : me?.lockedIn
-                              ? '🔁 Final swap available: tap ONE answer to change once'
-                              : '🟥 ALL IN: lock in to unlock a final swap'}
+                              ? t('lockIn.swapAvailable')
+                              : t('lockIn.allInHint')}
                         </div>
                       ) : null}
                     </div>
@@ -1254,15 +1328,15 @@ export default function PlayRoomClient({ code }: { code: string }) {
                       disabled={timeUp || !!me?.lockedIn || selectedAnswer === null}
                       className="rounded-lg bg-blue-600 px-3 py-2 text-xs font-bold text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
                     >
-                      {me?.lockedIn ? '✅ Locked In' : '🔒 Lock In'}
+                      {me?.lockedIn ? t('lockIn.done') : t('lockIn.button')}
                     </button>
                   </div>
                 )}
 
                 {/* Active items — usable during question */}
-                {isQuestionPhase && activeItems.length > 0 && currentAct?.id !== 'wager_round' && (
+                {isQuestionPhase && activeItems.length > 0 && currentAct?.kind !== 'wager' && (
                   <div className="mt-3 flex flex-wrap gap-2 border-t border-amber-200 pt-3">
-                    <span className="self-center text-xs text-neutral-500">Use:</span>
+                    <span className="self-center text-xs text-neutral-500">{t('play.use')}</span>
                     {activeItems.map(([itemId, count]) => (
                       <button
                         key={itemId}
@@ -1271,7 +1345,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
                         onClick={() => handleUseItem(itemId)}
                         className="flex items-center gap-1.5 rounded-lg border border-amber-300 bg-white px-3 py-1.5 text-xs font-semibold transition-colors hover:bg-amber-50 disabled:cursor-not-allowed disabled:opacity-50"
                       >
-                        {ITEM_META[itemId].emoji} {ITEM_META[itemId].name}
+                        {ITEM_META[itemId].emoji} {t(`shop.${itemId}.name`)}
                         {count > 1 && ` ×${count}`}
                       </button>
                     ))}
@@ -1280,18 +1354,24 @@ export default function PlayRoomClient({ code }: { code: string }) {
 
                 <p className="mt-2 text-xs font-medium text-blue-700">
                   {isCountdown
-                    ? 'Read the question — answers open in a moment!'
+                    ? t('status.countdown')
                     : q.locked
-                      ? 'Answer revealed.'
+                      ? t('status.revealed')
                       : timeUp
-                        ? '\u23F1\uFE0F Time\u2019s up \u2014 waiting for the host to reveal\u2026'
+                        ? t('status.timeUp')
                         : me?.lockedIn
                           ? canFinalSwap
-                            ? '🔁 Final swap available — tap one answer to change once'
-                            : '🔒 Locked in \u2014 waiting for the host to reveal\u2026'
+                            ? t('status.finalSwap')
+                            : t('status.lockedIn')
                           : selectedAnswer === null
-                            ? 'Tap an answer to submit. You can change it until you lock in or time runs out.'
-                            : `Selected ${String.fromCharCode(65 + selectedAnswer)} \u2014 tap another option to change before you lock in or time runs out.`}
+                            ? questionType === 'multi_select'
+                              ? t('status.pickMulti')
+                              : questionType === 'ordering'
+                                ? t('status.pickOrder')
+                                : questionType === 'free_text'
+                                  ? t('status.pickText')
+                                  : t('status.pickOne')
+                            : t('status.selected', { answer: answerLabel(selectedAnswer) })}
                 </p>
               </>
             )}
@@ -1300,10 +1380,8 @@ export default function PlayRoomClient({ code }: { code: string }) {
         {/* ── Eliminated ── */}
         {me?.eliminated && (
           <section className="rounded-2xl border border-red-200 bg-red-50 p-5">
-            <h2 className="text-lg font-semibold text-red-800">💀 You&apos;re Eliminated</h2>
-            <p className="mt-1 text-sm text-red-700">
-              Buy back in with coins, or request a revive from the host.
-            </p>
+            <h2 className="text-lg font-semibold text-red-800">{t('eliminated.title')}</h2>
+            <p className="mt-1 text-sm text-red-700">{t('eliminated.body')}</p>
             <div className="mt-3 flex flex-wrap gap-2">
               {shopOpen && (
                 <button
@@ -1311,7 +1389,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
                   onClick={doBuyback}
                   className="rounded-xl bg-red-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-red-700"
                 >
-                  🪙 Buyback ({room?.config.buybackCostCoins} coins)
+                  {t('eliminated.buyback', { cost: room?.config.buybackCostCoins ?? 0 })}
                 </button>
               )}
               {canRequestRevive && (
@@ -1320,30 +1398,48 @@ export default function PlayRoomClient({ code }: { code: string }) {
                   onClick={requestRevive}
                   className="rounded-xl bg-emerald-600 px-4 py-2.5 text-sm font-semibold text-white hover:bg-emerald-700"
                 >
-                  🙏 Request Revive
+                  {t('eliminated.requestRevive')}
                 </button>
               )}
               {isBossAct && (
-                <p className="mt-1 text-xs text-neutral-500">
-                  Revive shrine is not available during the Boss Fight.
-                </p>
+                <p className="mt-1 text-xs text-neutral-500">{t('eliminated.noShrine')}</p>
               )}
             </div>
           </section>
         )}
+        {/* ── Late Join Overlay (until the next question brings them in) ── */}
+        {playerId && !me && (admission === 'pending' || admission === 'admitted') && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-6">
+            <div className="w-full max-w-sm rounded-2xl border-2 border-blue-300 bg-white p-8 text-center shadow-2xl">
+              <div className="text-5xl">{admission === 'admitted' ? '🎉' : '🚪'}</div>
+              <h2 className="mt-4 text-2xl font-bold">
+                {admission === 'admitted' ? t('join.admittedTitle') : t('join.waitingTitle')}
+              </h2>
+              <p className="mt-2 text-base text-neutral-600">
+                {admission === 'admitted' ? t('join.admittedBody') : t('join.waitingBody')}
+              </p>
+            </div>
+          </div>
+        )}
+        {/* ── Paused Overlay (answers wait until the host resumes) ── */}
+        {room?.paused && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-6">
+            <div className="w-full max-w-sm rounded-2xl border-2 border-neutral-300 bg-white p-8 text-center shadow-2xl">
+              <div className="text-5xl">⏸</div>
+              <h2 className="mt-4 text-2xl font-bold">{t('pause.title')}</h2>
+              <p className="mt-2 text-base text-neutral-600">{t('pause.body')}</p>
+            </div>
+          </div>
+        )}
         {/* ── Revive Pending Modal (blocks player screen until host decides) ── */}
         {reviveStatus === 'pending' && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-6">
             <div className="w-full max-w-sm rounded-2xl border-2 border-emerald-400 bg-white p-8 shadow-2xl">
               <div className="text-center">
                 <div className="text-5xl">🙏</div>
-                <h2 className="mt-4 text-2xl font-bold text-emerald-800">Revive Shrine</h2>
-                <p className="mt-3 text-base text-neutral-700">
-                  Your request has been sent to the host!
-                </p>
-                <p className="mt-2 text-sm text-neutral-500">
-                  Complete the forfeit and wait for the host&apos;s decision…
-                </p>
+                <h2 className="mt-4 text-2xl font-bold text-emerald-800">{t('revive.title')}</h2>
+                <p className="mt-3 text-base text-neutral-700">{t('revive.sent')}</p>
+                <p className="mt-2 text-sm text-neutral-500">{t('revive.forfeit')}</p>
                 <div className="mt-6 flex items-center justify-center gap-2">
                   <div className="h-2 w-2 animate-bounce rounded-full bg-emerald-500" />
                   <div
@@ -1365,10 +1461,10 @@ export default function PlayRoomClient({ code }: { code: string }) {
             <div className="w-full max-w-sm rounded-2xl border-2 border-green-400 bg-white p-8 shadow-2xl">
               <div className="text-center">
                 <div className="text-5xl">🎉</div>
-                <h2 className="mt-4 text-2xl font-bold text-green-800">You&apos;re Back!</h2>
-                <p className="mt-2 text-base text-neutral-700">
-                  The host approved your revive. Full health restored!
-                </p>
+                <h2 className="mt-4 text-2xl font-bold text-green-800">
+                  {t('revive.approvedTitle')}
+                </h2>
+                <p className="mt-2 text-base text-neutral-700">{t('revive.approvedBody')}</p>
               </div>
             </div>
           </div>
@@ -1378,10 +1474,10 @@ export default function PlayRoomClient({ code }: { code: string }) {
             <div className="w-full max-w-sm rounded-2xl border-2 border-red-400 bg-white p-8 shadow-2xl">
               <div className="text-center">
                 <div className="text-5xl">😔</div>
-                <h2 className="mt-4 text-2xl font-bold text-red-800">Request Declined</h2>
-                <p className="mt-2 text-base text-neutral-700">
-                  The host declined your revive. Better luck next time!
-                </p>
+                <h2 className="mt-4 text-2xl font-bold text-red-800">
+                  {t('revive.declinedTitle')}
+                </h2>
+                <p className="mt-2 text-base text-neutral-700">{t('revive.declinedBody')}</p>
               </div>
             </div>
           </div>
@@ -1389,13 +1485,13 @@ export default function PlayRoomClient({ code }: { code: string }) {
         {/* ── Shop ── */}
         {shopOpen && (
           <section className="rounded-2xl border border-purple-200 bg-purple-50 p-5">
-            <h2 className="text-lg font-semibold text-purple-800">🛒 Shop</h2>
+            <h2 className="text-lg font-semibold text-purple-800">{t('shop.title')}</h2>
             <p className="mt-1 text-xs text-purple-600">
-              Your coins: <span className="font-bold">{me?.coins ?? 0}</span>
+              {t('shop.yourCoins')} <span className="font-bold">{me?.coins ?? 0}</span>
             </p>
 
             <div className="mt-3 space-y-2">
-              {(room?.shop?.items ?? []).map((item) => (
+              {shopItems.map((item) => (
                 <div
                   key={item.id}
                   className="flex items-center justify-between rounded-xl border border-purple-200 bg-white px-4 py-3"
@@ -1412,7 +1508,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
                             : 'bg-orange-100 text-orange-700'
                         }`}
                       >
-                        {item.kind === 'passive' ? 'auto' : 'use'}
+                        {item.kind === 'passive' ? t('shop.auto') : t('shop.use')}
                       </span>
                     </div>
                     <div className="mt-0.5 text-xs text-neutral-500">{item.description}</div>
@@ -1426,7 +1522,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
                     onClick={() => buyItem(item.id)}
                     className="ml-3 rounded-lg bg-purple-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-purple-700 disabled:opacity-40"
                   >
-                    Buy
+                    {t('shop.buy')}
                   </button>
                 </div>
               ))}
@@ -1436,18 +1532,18 @@ export default function PlayRoomClient({ code }: { code: string }) {
         {/* ── Inventory (non-shop view) ── */}
         {!shopOpen && (passiveItems.length > 0 || activeItems.length > 0) && (
           <section className="rounded-2xl border p-5">
-            <h2 className="text-lg font-semibold">🎒 Inventory</h2>
+            <h2 className="text-lg font-semibold">{t('inventory.title')}</h2>
 
             {passiveItems.length > 0 && (
               <div className="mt-3">
-                <p className="mb-2 text-xs text-neutral-500">Passive (auto-trigger):</p>
+                <p className="mb-2 text-xs text-neutral-500">{t('inventory.passive')}</p>
                 <div className="flex flex-wrap gap-2">
                   {passiveItems.map(([itemId, count]) => (
                     <div
                       key={itemId}
                       className="flex items-center gap-1.5 rounded-lg border border-green-200 bg-green-50 px-3 py-1.5 text-xs font-medium text-green-800"
                     >
-                      {ITEM_META[itemId].emoji} {ITEM_META[itemId].name}
+                      {ITEM_META[itemId].emoji} {t(`shop.${itemId}.name`)}
                       {count > 1 && ` ×${count}`}
                     </div>
                   ))}
@@ -1457,14 +1553,14 @@ export default function PlayRoomClient({ code }: { code: string }) {
 
             {activeItems.length > 0 && (
               <div className="mt-3">
-                <p className="mb-2 text-xs text-neutral-500">Active (use during questions):</p>
+                <p className="mb-2 text-xs text-neutral-500">{t('inventory.active')}</p>
                 <div className="flex flex-wrap gap-2">
                   {activeItems.map(([itemId, count]) => (
                     <div
                       key={itemId}
                       className="flex items-center gap-1.5 rounded-lg border border-orange-200 bg-orange-50 px-3 py-1.5 text-xs font-medium text-orange-800"
                     >
-                      {ITEM_META[itemId].emoji} {ITEM_META[itemId].name}
+                      {ITEM_META[itemId].emoji} {t(`shop.${itemId}.name`)}
                       {count > 1 && ` ×${count}`}
                     </div>
                   ))}
@@ -1474,7 +1570,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
 
             {removedIndexes && (
               <p className="mt-2 text-xs text-neutral-600">
-                50/50 removed: {removedIndexes.map((i) => String.fromCharCode(65 + i)).join(', ')}
+                {t('inventory.removed', { letters: removedIndexes.map(choiceLetter).join(', ') })}
               </p>
             )}
           </section>
@@ -1490,7 +1586,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
 
             return (
               <section className="rounded-2xl border-2 border-amber-300 bg-linear-to-b from-amber-50 to-white p-6">
-                <h2 className="text-center text-2xl font-bold">🏆 Game Over!</h2>
+                <h2 className="text-center text-2xl font-bold">{t('common.gameOver')}</h2>
 
                 {/* Podium */}
                 <div className="mt-5 flex items-end justify-center gap-3">
@@ -1507,11 +1603,12 @@ export default function PlayRoomClient({ code }: { code: string }) {
                     >
                       <span className="text-2xl">{medals[i]}</span>
                       <span className="mt-1 text-sm font-bold">
+                        {p.avatar && `${p.avatar} `}
                         {p.name}
-                        {p.playerId === playerId && ' (you)'}
+                        {p.playerId === playerId && ` ${t('common.you')}`}
                       </span>
                       <span className="mt-0.5 text-lg font-black tabular-nums">{p.score}</span>
-                      <span className="text-xs text-neutral-500">points</span>
+                      <span className="text-xs text-neutral-500">{t('common.points')}</span>
                     </div>
                   ))}
                 </div>
@@ -1520,14 +1617,14 @@ export default function PlayRoomClient({ code }: { code: string }) {
                 {me && (
                   <div className="mt-5 rounded-xl border bg-white p-4 text-center">
                     <p className="text-sm font-semibold">
-                      You finished{' '}
-                      <span className="text-lg font-black text-blue-600">#{myRank + 1}</span> of{' '}
-                      {sorted.length}
+                      {t('results.youFinished')}{' '}
+                      <span className="text-lg font-black text-blue-600">#{myRank + 1}</span>{' '}
+                      {t('results.ofTotal', { total: sorted.length })}
                     </p>
                     <div className="mt-2 flex justify-center gap-4 text-sm">
-                      <span>⭐ {me.score} pts</span>
-                      <span>🪙 {me.coins} coins</span>
-                      <span>❤️ {me.lives} lives</span>
+                      <span>{t('results.score', { score: me.score })}</span>
+                      <span>{t('results.coins', { coins: me.coins })}</span>
+                      <span>{t('results.lives', { lives: me.lives })}</span>
                     </div>
                   </div>
                 )}
@@ -1536,7 +1633,7 @@ export default function PlayRoomClient({ code }: { code: string }) {
           })()}
         {/* ── Scoreboard ── */}
         <section className="rounded-2xl border p-5">
-          <h2 className="text-lg font-semibold">Scoreboard</h2>
+          <h2 className="text-lg font-semibold">{t('scoreboard.title')}</h2>
           <div className="mt-3 space-y-2">
             {[...(room?.players ?? [])]
               .sort((a, b) => b.score - a.score)
@@ -1550,17 +1647,18 @@ export default function PlayRoomClient({ code }: { code: string }) {
                   <div className="flex items-center gap-3">
                     <span className="w-5 text-sm font-bold text-neutral-400">{rank + 1}.</span>
                     <span className="text-sm font-medium">
+                      {p.avatar && `${p.avatar} `}
                       {p.name}
-                      {p.playerId === playerId && ' (you)'}
+                      {p.playerId === playerId && ` ${t('common.you')}`}
                     </span>
                     {p.eliminated && <span className="text-xs text-red-500">💀</span>}
                     {p.buffs?.doublePoints && (
-                      <span className="text-xs" title="Double Points">
+                      <span className="text-xs" title={t('shop.double_points.name')}>
                         ⭐
                       </span>
                     )}
                     {p.buffs?.shield && (
-                      <span className="text-xs" title="Shield">
+                      <span className="text-xs" title={t('shop.shield.name')}>
                         🛡️
                       </span>
                     )}
@@ -1576,9 +1674,9 @@ export default function PlayRoomClient({ code }: { code: string }) {
         </section>
         {/* ── Event Log ── */}
         <section className="rounded-2xl border p-5">
-          <h2 className="text-lg font-semibold">Event Log</h2>
+          <h2 className="text-lg font-semibold">{t('common.eventLog')}</h2>
           <div className="mt-2 max-h-36 overflow-y-auto rounded-lg bg-neutral-50 p-3 font-mono text-xs">
-            {log.length === 0 && <p className="text-neutral-400">No events yet…</p>}
+            {log.length === 0 && <p className="text-neutral-400">{t('common.noEvents')}</p>}
             {log.map((entry, i) => (
               <div key={i} className="py-0.5">
                 {entry}
@@ -0,0 +1,351 @@
+'use client';
+
+import { EntryShell } from '@/components/entry/EntryShell';
+import {
+  GlowCard,
+  GlowInput,
+  GradientTitle,
+  HintText,
+  InputLabel,
+  ShimmerButton,
+  SubtleLead,
+} from '@/components/entry/primitives';
+import { useI18n } from '@/components/i18n/LocalePicker';
+import {
+  callProfileApi,
+  setProfileToken,
+  useProfile,
+  type ProfileApiResult,
+} from '@/components/profile/useProfile';
+import { PROFILE_AVATARS } from '@/lib/gameConfig';
+import type { PublicProfile } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useEffect, useRef, useState } from 'react';
+
+const cleanPin = (raw: string) => raw.replace(/\D/g, '').slice(0, 8);
+
+/* ── Avatar picker ── */
+
+function AvatarPicker({ value, onChange }: { value: string; onChange: (avatar: string) => void }) {
+  return (
+    <div className="grid grid-cols-6 gap-2">
+      {PROFILE_AVATARS.map((a) => (
+        <button
+          key={a}
+          type="button"
+          onClick={() => onChange(a)}
+          className={cn(
+            'rounded-xl border py-2 text-2xl transition',
+            a === value ? 'border-violet-400 bg-violet-500/20' : 'border-white/10 bg-white/5'
+          )}
+        >
+          {a}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/* ── Signed out ── */
+
+function SignedOut() {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState(PROFILE_AVATARS[0]);
+  const [pin, setPin] = useState('');
+  const [loginName, setLoginName] = useState('');
+  const [loginPin, setLoginPin] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (call: Promise<ProfileApiResult>) => {
+    setBusy(true);
+    setError(null);
+    const res = await call;
+    setBusy(false);
+    if (res.ok && res.token) setProfileToken(res.token);
+    else setError(res.error ?? t('profile.failed'));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <h2 className="text-sm font-semibold text-white/80">{t('profile.createTitle')}</h2>
+        <div>
+          <InputLabel>{t('profile.name')}</InputLabel>
+          <GlowInput value={name} onChange={(e) => setName(e.target.value.slice(0, 20))} />
+        </div>
+        <div>
+          <InputLabel>{t('profile.avatar')}</InputLabel>
+          <AvatarPicker value={avatar} onChange={setAvatar} />
+        </div>
+        <div>
+          <InputLabel>{t('profile.pin')}</InputLabel>
+          <GlowInput
+            value={pin}
+            onChange={(e) => setPin(cleanPin(e.target.value))}
+            inputMode="numeric"
+            type="password"
+            autoComplete="new-password"
+          />
+          <HintText className="mt-2">{t('profile.pinHint')}</HintText>
+        </div>
+        <ShimmerButton
+          disabled={busy || !name.trim() || (pin.length > 0 && pin.length < 4)}
+          onClick={() =>
+            run(callProfileApi('POST', '/', undefined, { name, avatar, pin: pin || undefined }))
+          }
+        >
+          {t('profile.create')}
+        </ShimmerButton>
+      </div>
+
+      <div className="space-y-3 border-t border-white/10 pt-5">
+        <h2 className="text-sm font-semibold text-white/80">{t('profile.signInTitle')}</h2>
+        <div className="flex gap-2">
+          <GlowInput
+            value={loginName}
+            onChange={(e) => setLoginName(e.target.value.slice(0, 20))}
+            placeholder={t('profile.name')}
+            autoComplete="username"
+          />
+          <GlowInput
+            value={loginPin}
+            onChange={(e) => setLoginPin(cleanPin(e.target.value))}
+            placeholder="PIN"
+            inputMode="numeric"
+            type="password"
+            autoComplete="current-password"
+          />
+        </div>
+        <button
+          type="button"
+          disabled={busy || !loginName.trim() || loginPin.length < 4}
+          className="w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white/80 transition hover:bg-white/10 disabled:opacity-40"
+          onClick={() =>
+            run(callProfileApi('POST', '/login', undefined, { name: loginName, pin: loginPin }))
+          }
+        >
+          {t('profile.signIn')}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-rose-300/90">{error}</p>}
+    </div>
+  );
+}
+
+/* ── Signed in ── */
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5 p-3 text-center">
+      <div className="text-xl font-black text-white tabular-nums">{value}</div>
+      <div className="text-[11px] text-white/55">{label}</div>
+    </div>
+  );
+}
+
+function SignedIn({
+  token,
+  profile,
+  onChange,
+}: {
+  token: string;
+  profile: PublicProfile;
+  onChange: (profile: PublicProfile) => void;
+}) {
+  const { t } = useI18n();
+  const router = useRouter();
+  const [name, setName] = useState(profile.name);
+  const [avatar, setAvatar] = useState(profile.avatar);
+  const [pin, setPin] = useState('');
+  const [link, setLink] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { stats } = profile;
+
+  const update = async (patch: { name?: string; avatar?: string; pin?: string | null }) => {
+    setNotice(null);
+    setError(null);
+    const res = await callProfileApi('PATCH', '/me', token, patch);
+    if (res.ok && res.profile) {
+      onChange(res.profile);
+      setPin('');
+      setNotice(t('profile.saved'));
+    } else {
+      setError(res.error ?? t('profile.failed'));
+    }
+  };
+
+  const makeLink = async () => {
+    const res = await callProfileApi('POST', '/me/link', token);
+    if (res.ok && res.code) setLink(`${window.location.origin}/profile?link=${res.code}`);
+    else setError(res.error ?? t('profile.failed'));
+  };
+
+  const signOut = async () => {
+    await callProfileApi('POST', '/me/logout', token);
+    setProfileToken(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <span className="text-4xl">{profile.avatar}</span>
+        <span className="text-xl font-bold text-white">{profile.name}</span>
+      </div>
+
+      <div>
+        <InputLabel>{t('profile.stats')}</InputLabel>
+        <div className="grid grid-cols-3 gap-2">
+          <Stat label={t('profile.gamesPlayed')} value={stats.gamesPlayed} />
+          <Stat label={t('profile.wins')} value={stats.wins} />
+          <Stat label={t('profile.accuracy')} value={`${Math.round(profile.accuracy * 100)}%`} />
+          <Stat label={t('profile.bossesDefeated')} value={stats.bossesDefeated} />
+          <Stat label={t('profile.allInsWon')} value={stats.allInsWon} />
+        </div>
+        <p className="mt-3 text-xs text-white/60">
+          {t('profile.favouriteCategories')}:{' '}
+          {profile.favouriteCategories.length > 0
+            ? profile.favouriteCategories.join(', ')
+            : t('profile.noFavourites')}
+        </p>
+      </div>
+
+      <div className="space-y-3 border-t border-white/10 pt-5">
+        <div>
+          <InputLabel>{t('profile.name')}</InputLabel>
+          <GlowInput value={name} onChange={(e) => setName(e.target.value.slice(0, 20))} />
+        </div>
+        <div>
+          <InputLabel>{t('profile.avatar')}</InputLabel>
+          <AvatarPicker value={avatar} onChange={setAvatar} />
+        </div>
+        <div>
+          <InputLabel>{t('profile.newPin')}</InputLabel>
+          <GlowInput
+            value={pin}
+            onChange={(e) => setPin(cleanPin(e.target.value))}
+            inputMode="numeric"
+            type="password"
+            autoComplete="new-password"
+          />
+          <HintText className="mt-2">{t('profile.pinHint')}</HintText>
+        </div>
+        <div className="flex gap-2">
+          <ShimmerButton
+            disabled={!name.trim() || (pin.length > 0 && pin.length < 4)}
+            onClick={() => update({ name, avatar, pin: pin || undefined })}
+          >
+            {t('profile.save')}
+          </ShimmerButton>
+          {profile.hasPin && (
+            <button
+              type="button"
+              className="rounded-2xl border border-white/10 bg-white/5 px-4 text-sm text-white/70 hover:bg-white/10"
+              onClick={() => update({ pin: null })}
+            >
+              {t('profile.removePin')}
+            </button>
+          )}
+        </div>
+        {notice && <p className="text-sm text-emerald-300/90">{notice}</p>}
+        {error && <p className="text-sm text-rose-300/90">{error}</p>}
+      </div>
+
+      <div className="space-y-2 border-t border-white/10 pt-5">
+        <button
+          type="button"
+          className="w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white/80 transition hover:bg-white/10"
+          onClick={makeLink}
+        >
+          {t('profile.makeLink')}
+        </button>
+        {link && (
+          <div className="space-y-1">
+            <GlowInput readOnly value={link} onFocus={(e) => e.target.select()} />
+            <HintText>{t('profile.linkHint')}</HintText>
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <ShimmerButton onClick={() => router.push('/')}>{t('profile.play')}</ShimmerButton>
+        <button
+          type="button"
+          className="rounded-2xl border border-white/10 bg-white/5 px-4 text-sm text-white/70 hover:bg-white/10"
+          onClick={signOut}
+        >
+          {t('profile.signOut')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* ════════════════════════════════════════════════════════════════════
+   PROFILE CLIENT
+   ════════════════════════════════════════════════════════════════════ */
+
+/** Create or sign in to a profile (also via a magic link's `?link=`), and see its stats */
+export default function ProfileClient() {
+  const router = useRouter();
+  const params = useSearchParams();
+  const { t } = useI18n();
+  const { token, profile, setProfile } = useProfile();
+  const linkCode = params.get('link');
+  const linkRedeemed = useRef(false);
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!linkCode || linkRedeemed.current) return;
+    linkRedeemed.current = true;
+    callProfileApi('POST', '/link', undefined, { code: linkCode }).then((res) => {
+      if (res.ok && res.token) setProfileToken(res.token);
+      else setLinkError(res.error ?? t('profile.failed'));
+      router.replace('/profile');
+    });
+  }, [linkCode, router, t]);
+
+  return (
+    <EntryShell>
+      <GlowCard>
+        <GradientTitle>{t('profile.title')}</GradientTitle>
+        <SubtleLead>{t('profile.lead')}</SubtleLead>
+
+        <div className="mt-6">
+          {linkCode ? (
+            <div className="flex items-center gap-3 text-sm text-white/70">
+              <Loader2 className="animate-spin" size={18} />
+              {t('profile.linking')}
+            </div>
+          ) : profile === undefined ? (
+            <div className="flex items-center gap-3 text-sm text-white/70">
+              <Loader2 className="animate-spin" size={18} />
+              {t('profile.loading')}
+            </div>
+          ) : profile ? (
+            <SignedIn key={profile.id} token={token} profile={profile} onChange={setProfile} />
+          ) : (
+            <>
+              {linkError && <p className="mb-4 text-sm text-rose-300/90">{linkError}</p>}
+              <SignedOut />
+            </>
+          )}
+        </div>
+
+        <button
+          type="button"
+          className="mt-6 inline-flex w-full items-center justify-center gap-2 rounded-2xl border border-white/10 bg-white/4 px-4 py-3 text-sm text-white/80 transition hover:bg-white/6"
+          onClick={() => router.push('/')}
+        >
+          <ArrowLeft size={16} className="text-white/70" />
+          {t('common.back')}
+        </button>
+      </GlowCard>
+    </EntryShell>
+  );
+}
@@ -0,0 +1,19 @@
+import { Suspense } from 'react';
+import ProfileClient from './ProfileClient';
+
+export default function ProfilePage() {
+  return (
+    <Suspense
+      fallback={
+        <main className="flex min-h-screen items-center justify-center p-6">
+          <div className="w-full max-w-md space-y-3 rounded-2xl border p-6">
+            <h1 className="text-xl font-bold">Your profile</h1>
+            <p className="text-sm text-neutral-600">Loading…</p>
+          </div>
+        </main>
+      }
+    >
+      <ProfileClient />
+    </Suspense>
+  );
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import QRCode from 'qrcode';
+import { useEffect, useState } from 'react';
+
+/** A QR code for `url`, drawn as inline SVG (nothing leaves the LAN) */
+export default function JoinQr({ url, size = 280 }: { url: string; size?: number }) {
+  const [svg, setSvg] = useState<{ url: string; markup: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toString(url, { type: 'svg', margin: 1, errorCorrectionLevel: 'M' })
+      .then((markup) => {
+        if (!cancelled) setSvg({ url, markup });
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return (
+    <div
+      className="rounded-2xl bg-white p-3 [&>svg]:h-full [&>svg]:w-full"
+      style={{ width: size, height: size }}
+      // Generated by the qrcode package from our own URL
+      dangerouslySetInnerHTML={svg?.url === url ? { __html: svg.markup } : undefined}
+    />
+  );
+}
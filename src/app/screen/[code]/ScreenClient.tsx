@@ -0,0 +1,443 @@
+'use client';
+
+import QuestionMediaView from '@/components/game/QuestionMediaView';
+import LocalePicker, { useI18n } from '@/components/i18n/LocalePicker';
+import { localizeAct, localizeQuestion, pickTranslation } from '@/lib/i18n';
+import { choiceLetter, describeAnswer, includesChoice } from '@/lib/questionTypes';
+import { getSocket } from '@/lib/socket';
+import type { PublicPlayer, PublicRoomState, WagerSpotlightPayload } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { useEffect, useMemo, useState } from 'react';
+import JoinQr from './JoinQr';
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+const byScore = (players: PublicPlayer[]) => [...players].sort((a, b) => b.score - a.score);
+
+const playerLabel = (p: PublicPlayer) => (p.avatar ? `${p.avatar} ${p.name}` : p.name);
+
+/* ── Pieces ── */
+
+function BossBar({ hp, maxHp }: { hp: number; maxHp: number }) {
+  const { t } = useI18n();
+  return (
+    <div className="w-full max-w-xl">
+      <div className="mb-1 flex justify-between text-sm font-bold text-rose-200">
+        <span>🐉</span>
+        <span className="tabular-nums">{t('screen.bossHp', { hp, maxHp })}</span>
+      </div>
+      <div className="h-5 overflow-hidden rounded-full bg-white/10">
+        <div
+          className="h-full rounded-full bg-linear-to-r from-rose-500 to-orange-400 transition-all duration-700"
+          style={{ width: `${maxHp > 0 ? (hp / maxHp) * 100 : 0}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+function Spotlight({ spotlight }: { spotlight: WagerSpotlightPayload }) {
+  const { t } = useI18n();
+  return (
+    <div className="w-full max-w-4xl space-y-8 text-center">
+      <div className="text-lg font-black tracking-[0.3em] text-pink-300">
+        {t('spotlight.locked')}
+      </div>
+      <div className="grid grid-cols-3 gap-6">
+        {[
+          [t('spotlight.pot'), spotlight.totalWagered],
+          [t('spotlight.allIn'), spotlight.allInCount],
+          [t('spotlight.noBet'), spotlight.noBetCount],
+        ].map(([label, value]) => (
+          <div key={label} className="rounded-3xl bg-white/5 p-6">
+            <div className="text-sm font-semibold text-white/60">{label}</div>
+            <div className="text-6xl font-black tabular-nums">{value}</div>
+          </div>
+        ))}
+      </div>
+      {spotlight.topRisk.length > 0 ? (
+        <div className="space-y-3">
+          <div className="text-sm font-bold text-white/60">{t('spotlight.topRisk')}</div>
+          {spotlight.topRisk.map((e, idx) => (
+            <div
+              key={e.playerId}
+              className="animate-fade-in-up flex items-center justify-between rounded-3xl bg-white/5 px-8 py-5"
+              style={{ animationDelay: `${idx * 0.3}s`, opacity: 0 }}
+            >
+              <span className="text-3xl font-black">
+                #{idx + 1} {e.name}
+              </span>
+              <span className="text-xl text-white/70">
+                {t('spotlight.bet', { wager: e.wager, percent: Math.round(e.ratio * 100) })}
+              </span>
+              <span className="text-2xl font-black">{t(`tier.${e.tier}`)}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-2xl font-semibold text-white/70">{t('spotlight.nobody')}</div>
+      )}
+      <div className="text-white/50">{t('spotlight.nextUp')}</div>
+    </div>
+  );
+}
+
+function Leaderboard({ players, limit }: { players: PublicPlayer[]; limit: number }) {
+  const { t } = useI18n();
+  return (
+    <div className="w-full max-w-2xl space-y-2">
+      <div className="text-sm font-bold tracking-wider text-white/50 uppercase">
+        {t('screen.leaderboard')}
+      </div>
+      {byScore(players)
+        .slice(0, limit)
+        .map((p, rank) => (
+          <div
+            key={p.playerId}
+            className={cn(
+              'flex items-center justify-between rounded-2xl bg-white/5 px-6 py-3 text-2xl',
+              p.eliminated && 'opacity-50'
+            )}
+          >
+            <span className="font-semibold">
+              <span className="mr-3 text-white/40 tabular-nums">{rank + 1}.</span>
+              {playerLabel(p)}
+              {p.eliminated && ' 💀'}
+            </span>
+            <span className="font-black tabular-nums">{p.score}</span>
+          </div>
+        ))}
+    </div>
+  );
+}
+
+function Podium({ players }: { players: PublicPlayer[] }) {
+  const { t } = useI18n();
+  const sorted = byScore(players);
+  // Second, first, third — the winner stands in the middle
+  const order = [1, 0, 2].filter((i) => sorted[i]);
+  return (
+    <div className="flex w-full flex-col items-center gap-10">
+      <div className="text-5xl font-black">{t('screen.gameOver')}</div>
+      <div className="flex items-end justify-center gap-6">
+        {order.map((i) => (
+          <div
+            key={sorted[i].playerId}
+            className="animate-fade-in-up flex w-56 flex-col items-center"
+            style={{ animationDelay: `${(2 - i) * 0.6}s`, opacity: 0 }}
+          >
+            <span className="text-6xl">{MEDALS[i]}</span>
+            <span className="mt-2 text-center text-3xl font-black">{playerLabel(sorted[i])}</span>
+            <span className="text-2xl text-white/70 tabular-nums">{sorted[i].score}</span>
+            <div
+              className={cn(
+                'mt-3 w-full rounded-t-2xl',
+                i === 0
+                  ? 'h-48 bg-amber-400/80'
+                  : i === 1
+                    ? 'h-32 bg-slate-300/70'
+                    : 'h-24 bg-orange-400/70'
+              )}
+            />
+          </div>
+        ))}
+      </div>
+      {sorted.length > 3 && <Leaderboard players={sorted.slice(3)} limit={7} />}
+    </div>
+  );
+}
+
+/* ════════════════════════════════════════════════════════════════════
+   SCREEN CLIENT
+   ════════════════════════════════════════════════════════════════════ */
+
+/**
+ * The big screen for a TV or projector. It only ever watches the room
+ * (`room:watch`), so it sees exactly what every player sees — never the host's
+ * answers or pending revives.
+ */
+export default function ScreenClient({ code }: { code: string }) {
+  const roomCode = useMemo(() => (code ?? '').trim().toUpperCase(), [code]);
+  const { locale, t } = useI18n();
+  const [room, setRoom] = useState<PublicRoomState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [lanUrl, setLanUrl] = useState<string | null>(null);
+  const [origin, setOrigin] = useState('');
+
+  useEffect(() => {
+    if (!roomCode) return;
+    const s = getSocket();
+    const watch = () =>
+      s.emit('room:watch', { code: roomCode }, (ack) => {
+        if (!ack.ok) return setError(ack.error);
+        setError(null);
+        setRoom(ack.data.room);
+      });
+    const onRoom = (next: PublicRoomState) => setRoom(next);
+
+    if (s.connected) watch();
+    s.on('connect', watch);
+    s.on('room:state', onRoom);
+    return () => {
+      s.off('connect', watch);
+      s.off('room:state', onRoom);
+    };
+  }, [roomCode]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    setTimeout(() => setOrigin(window.location.origin), 0);
+    fetch('/api/lan')
+      .then((r) => r.json())
+      .then((d: { url: string | null }) => setLanUrl(d.url))
+      .catch(() => setLanUrl(null));
+  }, []);
+
+  if (!room) {
+    return (
+      <main className="flex min-h-screen items-center justify-center bg-neutral-950 text-white">
+        <p className="text-2xl text-white/70">
+          {error ?? t('screen.connecting', { code: roomCode })}
+        </p>
+      </main>
+    );
+  }
+
+  const phase = room.phase;
+  const act = room.currentAct && localizeAct(locale, room.currentAct);
+  const cq = room.currentQuestion;
+  const question = cq && localizeQuestion(cq.question, locale);
+  const active = room.players.filter((p) => !p.eliminated);
+  const joinUrl = `${lanUrl ?? origin}/play/${roomCode}`;
+
+  const isLive = (phase === 'question' || phase === 'boss') && !!cq && !cq.locked;
+  const endsAt = cq ? (cq.revealAt ?? cq.endsAt) : 0;
+  const secondsLeft = cq ? Math.max(0, Math.ceil((endsAt - now) / 1000)) : 0;
+  const timeFrac = cq
+    ? Math.max(0, Math.min(1, (endsAt - now) / Math.max(1, endsAt - cq.startedAt)))
+    : 0;
+
+  const wager = room.wager;
+  const wagerText = pickTranslation(wager?.translations, locale);
+
+  const main = (() => {
+    if (phase === 'lobby') {
+      return (
+        <div className="flex w-full items-center justify-center gap-16">
+          <div className="flex flex-col items-center gap-4">
+            <JoinQr url={joinUrl} />
+            <div className="text-2xl font-bold">{t('screen.scanToJoin')}</div>
+            <div className="font-mono text-white/60">{t('screen.orVisit', { url: joinUrl })}</div>
+          </div>
+          <div className="max-w-xl flex-1 space-y-6">
+            <div>
+              <div className="text-sm tracking-widest text-white/50 uppercase">
+                {t('common.code')}
+              </div>
+              <div className="font-mono text-8xl font-black tracking-[0.2em]">{roomCode}</div>
+            </div>
+            <div className="text-xl text-white/70">
+              {room.players.length > 0
+                ? t('screen.players', { count: room.players.length })
+                : t('screen.waitingForPlayers')}
+            </div>
+            <div className="flex flex-wrap gap-3">
+              {room.players.map((p) => (
+                <span
+                  key={p.playerId}
+                  className="animate-fade-in-scale rounded-full bg-white/10 px-5 py-2 text-2xl font-semibold"
+                >
+                  {playerLabel(p)}
+                </span>
+              ))}
+            </div>
+            <div className="text-white/50">{t('screen.waitingForHost')}</div>
+          </div>
+        </div>
+      );
+    }
+
+    if (phase === 'ended') return <Podium players={room.players} />;
+
+    if (room.paused) {
+      return (
+        <div className="flex flex-col items-center gap-4 text-center">
+          <div className="text-9xl">⏸</div>
+          <div className="text-6xl font-black">{t('pause.title')}</div>
+          <div className="text-2xl text-white/60">{t('pause.body')}</div>
+        </div>
+      );
+    }
+
+    if (phase === 'wager' && wager) {
+      if (wager.spotlight) return <Spotlight spotlight={wager.spotlight} />;
+      const category = wagerText?.category ?? wager.category;
+      const hint = wagerText?.hint ?? wager.hint;
+      return (
+        <div className="flex flex-col items-center gap-6 text-center">
+          <div className="text-5xl font-black">{t('wager.title')}</div>
+          <div className="text-8xl font-black tabular-nums">
+            {Math.max(0, Math.ceil((wager.endsAt - now) / 1000))}
+          </div>
+          <div className="text-2xl font-bold text-pink-300">{t(`wagerStage.${wager.stage}`)}</div>
+          {category && (
+            <div className="text-3xl">
+              {t('wager.category')} <b>{category}</b>
+            </div>
+          )}
+          {hint && (
+            <div className="text-2xl text-white/80">
+              {t('wager.hint')} {hint}
+            </div>
+          )}
+          <div className="text-xl text-white/60">
+            {t('screen.wagersIn', {
+              count: active.filter((p) => p.wagerSubmitted).length,
+              total: active.length,
+            })}{' '}
+            · {t('wager.totalWagered', { total: wager.totalWagered })}
+          </div>
+        </div>
+      );
+    }
+
+    if (phase === 'countdown' && cq) {
+      return (
+        <div className="flex flex-col items-center gap-4">
+          <div className="text-3xl text-white/70">{t('question.incoming')}</div>
+          <div className="text-[12rem] leading-none font-black tabular-nums">
+            {Math.max(0, Math.ceil(((cq.countdownEndsAt ?? cq.startedAt) - now) / 1000)) || '🚀'}
+          </div>
+        </div>
+      );
+    }
+
+    if (question && cq && (isLive || cq.locked)) {
+      const distribution = cq.distribution;
+      const revealed = cq.revealedAnswer;
+      const lockedIn = active.filter((p) => p.lockedIn).length;
+      return (
+        <div className="flex w-full max-w-5xl flex-col items-center gap-8">
+          <div className="text-center text-5xl leading-tight font-bold">{question.prompt}</div>
+          {question.media && (
+            <QuestionMediaView
+              media={question.media}
+              preloading={false}
+              playing={isLive}
+              startedAt={cq.startedAt}
+            />
+          )}
+
+          {question.type !== 'free_text' && (
+            <div className="grid w-full grid-cols-2 gap-4">
+              {question.choices.map((choice, i) => {
+                const count = distribution?.choiceCounts?.[i] ?? 0;
+                const share = distribution?.answered ? count / distribution.answered : 0;
+                const correct = includesChoice(revealed, i);
+                return (
+                  <div
+                    key={i}
+                    className={cn(
+                      'relative overflow-hidden rounded-2xl border-2 px-6 py-5 text-3xl font-semibold transition-all duration-700',
+                      !revealed && 'border-white/15 bg-white/5',
+                      revealed && correct && 'border-emerald-400 bg-emerald-500/20',
+                      revealed && !correct && 'border-white/10 bg-white/5 opacity-60'
+                    )}
+                  >
+                    {distribution?.choiceCounts && (
+                      <div
+                        className={cn(
+                          'absolute inset-y-0 left-0 transition-all duration-1000',
+                          correct ? 'bg-emerald-400/30' : 'bg-white/10'
+                        )}
+                        style={{ width: `${share * 100}%` }}
+                      />
+                    )}
+                    <div className="relative flex items-center justify-between gap-4">
+                      <span>
+                        <span className="mr-3 text-white/50">{choiceLetter(i)}</span>
+                        {choice}
+                      </span>
+                      {distribution?.choiceCounts && (
+                        <span className="font-black tabular-nums">{count}</span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {revealed && (question.type === 'free_text' || question.type === 'ordering') && (
+            <div className="rounded-2xl border-2 border-emerald-400 bg-emerald-500/20 px-8 py-5 text-4xl font-bold">
+              ✅ {describeAnswer(question, revealed)}
+            </div>
+          )}
+
+          {isLive ? (
+            <div className="w-full space-y-3">
+              <div className="h-4 overflow-hidden rounded-full bg-white/10">
+                <div
+                  className="h-full rounded-full bg-cyan-400 transition-all duration-300"
+                  style={{ width: `${timeFrac * 100}%` }}
+                />
+              </div>
+              <div className="flex justify-between text-3xl font-bold">
+                <span>{t('screen.lockedIn', { count: lockedIn, total: active.length })}</span>
+                <span className="tabular-nums">⏱️ {secondsLeft}s</span>
+              </div>
+            </div>
+          ) : (
+            distribution && (
+              <div className="text-3xl font-bold text-emerald-300">
+                {t('screen.answered', {
+                  count: distribution.correct,
+                  total: room.players.length,
+                })}
+              </div>
+            )
+          )}
+          {phase === 'shop' && (
+            <div className="text-2xl text-amber-300">{t('screen.shopOpen')}</div>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex w-full flex-col items-center gap-8">
+        {phase === 'shop' && <div className="text-3xl text-amber-300">{t('screen.shopOpen')}</div>}
+        <Leaderboard players={room.players} limit={10} />
+      </div>
+    );
+  })();
+
+  return (
+    <main className="flex min-h-screen flex-col bg-neutral-950 p-10 text-white">
+      <header className="flex items-center justify-between gap-6">
+        <div className="text-2xl font-bold">
+          {act ? `${act.emoji} ${act.name}` : 'Schooled Quest'}
+          {act && act.totalQuestions > 0 && (
+            <span className="ml-4 text-white/50 tabular-nums">
+              {t('play.questionProgress', {
+                number: act.questionNumber,
+                total: act.totalQuestions,
+              })}
+            </span>
+          )}
+        </div>
+        {room.boss && <BossBar hp={room.boss.hp} maxHp={room.boss.maxHp} />}
+        <div className="flex items-center gap-4">
+          <span className="font-mono text-2xl font-black tracking-widest">{roomCode}</span>
+          <LocalePicker dark />
+        </div>
+      </header>
+      <div className="flex flex-1 items-center justify-center py-10">{main}</div>
+    </main>
+  );
+}
@@ -0,0 +1,8 @@
+import ScreenClient from './ScreenClient';
+
+type Params = Promise<{ code: string }>;
+
+export default async function ScreenPage({ params }: { params: Params }) {
+  const { code } = await params;
+  return <ScreenClient code={code} />;
+}
@@ -133,9 +133,11 @@ export function CTAButton({
 export function ModeToggle({
   value,
   onChangeAction,
+  labels = { join: 'Join', host: 'Host' },
 }: {
   value: 'join' | 'host';
   onChangeAction: (v: 'join' | 'host') => void;
+  labels?: Record<'join' | 'host', string>;
 }) {
   const isJoin = value === 'join';
 
@@ -218,7 +220,7 @@ export function ModeToggle({
             transition: 'opacity 0.3s',
           }}
         >
-          Join
+          {labels.join}
         </span>
       </button>
 
@@ -265,7 +267,7 @@ export function ModeToggle({
             transition: 'opacity 0.3s',
           }}
         >
-          Host
+          {labels.host}
         </span>
       </button>
     </div>
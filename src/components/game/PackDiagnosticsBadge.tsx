@@ -0,0 +1,27 @@
+import type { PackSummary } from '@/lib/types';
+
+/** "⚠️ 2 errors · 3 warnings" for a pack the loader had complaints about (nothing otherwise) */
+export default function PackDiagnosticsBadge({
+  diagnostics,
+}: {
+  diagnostics: PackSummary['diagnostics'];
+}) {
+  const { errors, warnings } = diagnostics;
+  if (errors === 0 && warnings === 0) return null;
+
+  const parts = [
+    errors > 0 && `${errors} error${errors === 1 ? '' : 's'}`,
+    warnings > 0 && `${warnings} warning${warnings === 1 ? '' : 's'}`,
+  ].filter(Boolean);
+
+  return (
+    <span
+      className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-semibold ${
+        errors > 0 ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-800'
+      }`}
+      title={errors > 0 ? 'Some questions were skipped when this pack loaded' : undefined}
+    >
+      ⚠️ {parts.join(' · ')}
+    </span>
+  );
+}
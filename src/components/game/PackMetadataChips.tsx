@@ -0,0 +1,36 @@
+import { useI18n } from '@/components/i18n/LocalePicker';
+import type { PackSummary } from '@/lib/types';
+
+const chipClass = 'rounded-full bg-neutral-100 px-2 py-0.5 text-xs text-neutral-700';
+
+/** A pack's language, difficulty, rating, length, author and tags as small chips */
+export default function PackMetadataChips({
+  pack,
+  maxTags = 6,
+}: {
+  pack: Pick<PackSummary, 'metadata' | 'estimatedMinutes'>;
+  maxTags?: number;
+}) {
+  const { t } = useI18n();
+  const { author, tags, language, difficulty, rating, durationMinutes } = pack.metadata;
+  const hiddenTags = tags.length - maxTags;
+
+  return (
+    <span className="inline-flex flex-wrap items-center gap-1">
+      <span className={chipClass}>🌐 {language}</span>
+      {difficulty && <span className={chipClass}>{t(`difficulty.${difficulty}`)}</span>}
+      {rating && <span className={chipClass}>{t(`rating.${rating}`)}</span>}
+      <span className={chipClass} title={durationMinutes ? undefined : t('packs.estimated')}>
+        ⏱️ {durationMinutes ? '' : '~'}
+        {t('packs.minutes', { minutes: pack.estimatedMinutes })}
+      </span>
+      {author && <span className={chipClass}>✍️ {author}</span>}
+      {tags.slice(0, maxTags).map((tag) => (
+        <span key={tag} className="rounded-full bg-blue-50 px-2 py-0.5 text-xs text-blue-800">
+          #{tag}
+        </span>
+      ))}
+      {hiddenTags > 0 && <span className="text-xs text-neutral-500">+{hiddenTags}</span>}
+    </span>
+  );
+}
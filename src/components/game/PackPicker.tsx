@@ -0,0 +1,177 @@
+'use client';
+
+import PackDiagnosticsBadge from '@/components/game/PackDiagnosticsBadge';
+import PackMetadataChips from '@/components/game/PackMetadataChips';
+import { useI18n } from '@/components/i18n/LocalePicker';
+import { CONTENT_RATINGS, matchesPackFilter } from '@/lib/packFilter';
+import type { ContentRating, PackFilter, PackSummary } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { useEffect, useState } from 'react';
+
+const DURATION_LIMITS = [15, 30, 45, 60];
+
+/** The loaded packs from `GET /api/packs` (null while loading, [] if the server can't be reached) */
+export function usePackList(): PackSummary[] | null {
+  const [packs, setPacks] = useState<PackSummary[] | null>(null);
+  useEffect(() => {
+    fetch('/api/packs')
+      .then((res) => res.json())
+      .then((data: { packs: PackSummary[] }) => setPacks(data.packs))
+      .catch(() => setPacks([]));
+  }, []);
+  return packs;
+}
+
+/** Acts a pack has no questions for — `act:start` fails on them with "No questions available" */
+export function emptyActs(pack: PackSummary) {
+  return pack.acts.filter((a) => (pack.questionCounts[a.id] ?? 0) === 0);
+}
+
+type Props = {
+  packs: PackSummary[];
+  selectedId: string | undefined;
+  onSelect: (packId: string) => void;
+  /** On the dark entry screens */
+  dark?: boolean;
+  disabled?: boolean;
+};
+
+/**
+ * Choose a question pack: search and narrow by language, rating and length,
+ * with each pack's metadata, loader diagnostics and questions per act.
+ */
+export default function PackPicker({ packs, selectedId, onSelect, dark, disabled }: Props) {
+  const { t } = useI18n();
+  const [filter, setFilter] = useState<PackFilter>({});
+  const languages = Array.from(new Set(packs.map((p) => p.metadata.language))).sort();
+  const shown = packs.filter((p) => matchesPackFilter(p, filter) || p.id === selectedId);
+
+  const fieldClass = cn(
+    'rounded-lg border px-2 py-1 text-sm',
+    dark && 'border-white/15 bg-white/5 text-white placeholder:text-white/40'
+  );
+  const update = (patch: PackFilter) => setFilter((f) => ({ ...f, ...patch }));
+
+  return (
+    <div className="space-y-3">
+      {packs.length > 3 && (
+        <div className="flex flex-wrap gap-2">
+          <input
+            className={cn(fieldClass, 'min-w-0 flex-1')}
+            placeholder={t('packs.search')}
+            value={filter.search ?? ''}
+            onChange={(e) => update({ search: e.target.value || undefined })}
+          />
+          {languages.length > 1 && (
+            <select
+              className={fieldClass}
+              value={filter.language ?? ''}
+              onChange={(e) => update({ language: e.target.value || undefined })}
+            >
+              <option value="">{t('packs.anyLanguage')}</option>
+              {languages.map((l) => (
+                <option key={l} value={l}>
+                  {l}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            className={fieldClass}
+            value={filter.rating ?? ''}
+            onChange={(e) =>
+              update({ rating: (e.target.value || undefined) as ContentRating | undefined })
+            }
+          >
+            <option value="">{t('packs.anyRating')}</option>
+            {CONTENT_RATINGS.map((r) => (
+              <option key={r} value={r}>
+                {t('packs.upTo', { rating: t(`rating.${r}`) })}
+              </option>
+            ))}
+          </select>
+          <select
+            className={fieldClass}
+            value={filter.maxMinutes ?? ''}
+            onChange={(e) =>
+              update({ maxMinutes: e.target.value ? Number(e.target.value) : undefined })
+            }
+          >
+            <option value="">{t('packs.anyLength')}</option>
+            {DURATION_LIMITS.map((m) => (
+              <option key={m} value={m}>
+                {t('packs.maxMinutes', { minutes: m })}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <ul className="max-h-[50vh] space-y-2 overflow-y-auto">
+        {shown.length === 0 && (
+          <li className={cn('text-sm', dark ? 'text-white/60' : 'text-neutral-500')}>
+            {t('packs.noMatch')}
+          </li>
+        )}
+        {shown.map((p) => {
+          const selected = p.id === selectedId;
+          const empty = emptyActs(p);
+          return (
+            <li key={p.id}>
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => onSelect(p.id)}
+                className={cn(
+                  'w-full space-y-1.5 rounded-xl border p-3 text-left transition disabled:opacity-60',
+                  dark
+                    ? selected
+                      ? 'border-violet-400 bg-violet-500/15 text-white'
+                      : 'border-white/10 bg-white/5 text-white/90 hover:bg-white/10'
+                    : selected
+                      ? 'border-blue-400 bg-blue-50 ring-2 ring-blue-200'
+                      : 'bg-white hover:bg-neutral-50'
+                )}
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold">{p.name}</span>
+                  <span className={cn('text-xs', dark ? 'text-white/60' : 'text-neutral-500')}>
+                    {t('packs.questionCount', { count: p.totalQuestions })}
+                  </span>
+                  <PackDiagnosticsBadge diagnostics={p.diagnostics} />
+                </div>
+                {p.description && (
+                  <p className={cn('text-xs', dark ? 'text-white/60' : 'text-neutral-600')}>
+                    {p.description}
+                  </p>
+                )}
+                <PackMetadataChips pack={p} maxTags={4} />
+                <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-xs tabular-nums">
+                  {p.acts.map((a) => (
+                    <span
+                      key={a.id}
+                      className={
+                        p.questionCounts[a.id]
+                          ? dark
+                            ? 'text-white/70'
+                            : 'text-neutral-600'
+                          : 'font-semibold text-amber-500'
+                      }
+                    >
+                      {a.emoji} {a.name} ×{p.questionCounts[a.id] ?? 0}
+                    </span>
+                  ))}
+                </div>
+                {empty.length > 0 && (
+                  <p className="text-xs font-semibold text-amber-500">
+                    {t('packs.unplayable', { acts: empty.map((a) => a.name).join(', ') })}
+                  </p>
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
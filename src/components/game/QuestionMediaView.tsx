@@ -0,0 +1,104 @@
+'use client';
+
+import type { QuestionMedia } from '@/lib/types';
+import Image from 'next/image';
+import { useEffect, useRef, useState } from 'react';
+
+type Props = {
+  media: QuestionMedia;
+  /** Countdown: load the file but keep it out of sight */
+  preloading: boolean;
+  /** Answering is open — audio plays from wherever the clip should be by now */
+  playing: boolean;
+  /** When answering opened (server time) */
+  startedAt: number;
+};
+
+function AudioClip({ media, preloading, playing, startedAt }: Props) {
+  const ref = useRef<HTMLAudioElement>(null);
+  const [blocked, setBlocked] = useState(false);
+  const start = media.start ?? 0;
+
+  // Cue the clip during the countdown so it can start the moment answering opens
+  useEffect(() => {
+    const audio = ref.current;
+    if (!audio || !preloading) return;
+    audio.pause();
+    audio.currentTime = start;
+  }, [preloading, start]);
+
+  // Start in sync with everyone else (a late join / reconnect skips ahead); stop when answering closes
+  useEffect(() => {
+    const audio = ref.current;
+    if (!audio) return;
+    if (!playing) {
+      audio.pause();
+      return;
+    }
+    const at = start + Math.max(0, (Date.now() - startedAt) / 1000);
+    if (media.end !== undefined && at >= media.end) return;
+    audio.currentTime = at;
+    audio.play().then(
+      () => setBlocked(false),
+      () => setBlocked(true) // autoplay refused until the user taps
+    );
+  }, [playing, startedAt, start, media.end]);
+
+  return (
+    <div className="flex items-center gap-2">
+      <audio
+        ref={ref}
+        src={media.url}
+        preload="auto"
+        controls={!playing}
+        className={playing ? 'hidden' : 'w-full'}
+        onTimeUpdate={(e) => {
+          const audio = e.currentTarget;
+          if (media.end !== undefined && audio.currentTime >= media.end) {
+            audio.pause();
+            audio.currentTime = start;
+          }
+        }}
+        aria-label={media.alt ?? 'Audio clip'}
+      />
+      {playing && (
+        <button
+          type="button"
+          className="w-full rounded-xl border-2 border-blue-300 bg-white px-3 py-2 text-sm font-semibold text-blue-800"
+          onClick={() => {
+            void ref.current?.play().then(() => setBlocked(false));
+          }}
+          disabled={!blocked}
+        >
+          {blocked ? '🔊 Tap to play the clip' : '🎵 Playing…'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * A question's image or audio clip. Mounted during the countdown so the file
+ * is already loaded (and the clip cued) when the question opens.
+ */
+export default function QuestionMediaView(props: Props) {
+  const { media, preloading } = props;
+
+  return (
+    <div className={preloading ? 'hidden' : 'mt-3'}>
+      {media.type === 'image' ? (
+        <Image
+          src={media.url}
+          alt={media.alt ?? ''}
+          width={640}
+          height={360}
+          loading="eager"
+          unoptimized
+          className="mx-auto h-auto max-h-64 w-auto rounded-xl border bg-white object-contain"
+        />
+      ) : (
+        <AudioClip {...props} />
+      )}
+    </div>
+  );
+}
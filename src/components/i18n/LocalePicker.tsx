@@ -0,0 +1,61 @@
+'use client';
+
+import { LOCALE_NAMES, LOCALES, matchLocale, translator, type Translator } from '@/lib/i18n';
+import type { Locale } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { useMemo, useSyncExternalStore } from 'react';
+
+const LS_LOCALE = 'sq_locale';
+const LOCAL_STORAGE_EVENT = 'sq:localstorage';
+
+function setLocale(locale: Locale) {
+  localStorage.setItem(LS_LOCALE, locale);
+  window.dispatchEvent(new Event(LOCAL_STORAGE_EVENT));
+}
+
+/** The chosen locale, else the browser's language if supported (English while rendering on the server) */
+function useLocale(): Locale {
+  return useSyncExternalStore(
+    (onStoreChange) => {
+      if (typeof window === 'undefined') return () => {};
+      window.addEventListener('storage', onStoreChange);
+      window.addEventListener(LOCAL_STORAGE_EVENT, onStoreChange);
+      return () => {
+        window.removeEventListener('storage', onStoreChange);
+        window.removeEventListener(LOCAL_STORAGE_EVENT, onStoreChange);
+      };
+    },
+    () => matchLocale(localStorage.getItem(LS_LOCALE) ?? navigator.language),
+    () => matchLocale(null)
+  );
+}
+
+/** This device's locale (shared by every screen and tab), a setter and its translator */
+export function useI18n(): { locale: Locale; setLocale: (locale: Locale) => void; t: Translator } {
+  const locale = useLocale();
+  const t = useMemo(() => translator(locale), [locale]);
+  return { locale, setLocale, t };
+}
+
+/** Language switcher — the choice is remembered on this device */
+export default function LocalePicker({ dark, className }: { dark?: boolean; className?: string }) {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <select
+      aria-label={t('common.language')}
+      className={cn(
+        'rounded-lg border px-2 py-1 text-xs',
+        dark && 'border-white/15 bg-white/5 text-white/80',
+        className
+      )}
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+    >
+      {LOCALES.map((l) => (
+        <option key={l} value={l} className={dark ? 'text-black' : undefined}>
+          🌐 {LOCALE_NAMES[l]}
+        </option>
+      ))}
+    </select>
+  );
+}
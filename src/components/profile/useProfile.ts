@@ -0,0 +1,94 @@
+'use client';
+
+import type { PublicProfile } from '@/lib/types';
+import { useEffect, useState, useSyncExternalStore } from 'react';
+
+const LS_PROFILE_TOKEN = 'sq_profile_token';
+const LOCAL_STORAGE_EVENT = 'sq:localstorage';
+
+/** Remember (or with null, forget) this device's profile sign-in token */
+export function setProfileToken(token: string | null) {
+  if (token) localStorage.setItem(LS_PROFILE_TOKEN, token);
+  else localStorage.removeItem(LS_PROFILE_TOKEN);
+  window.dispatchEvent(new Event(LOCAL_STORAGE_EVENT));
+}
+
+/** This device's profile token ('' when signed out) — `room:join` sends it as `profileToken` */
+export function useProfileToken(): string {
+  return useSyncExternalStore(
+    (onStoreChange) => {
+      if (typeof window === 'undefined') return () => {};
+      window.addEventListener('storage', onStoreChange);
+      window.addEventListener(LOCAL_STORAGE_EVENT, onStoreChange);
+      return () => {
+        window.removeEventListener('storage', onStoreChange);
+        window.removeEventListener(LOCAL_STORAGE_EVENT, onStoreChange);
+      };
+    },
+    () => localStorage.getItem(LS_PROFILE_TOKEN) ?? '',
+    () => ''
+  );
+}
+
+/* ── API ── */
+
+export type ProfileApiResult = {
+  ok: boolean;
+  error?: string;
+  profile?: PublicProfile;
+  token?: string;
+  code?: string;
+  expiresAt?: number;
+};
+
+/** Call the profile endpoints (see profileAccounts); network failures come back as `{ ok: false }` */
+export async function callProfileApi(
+  method: string,
+  url: string,
+  token?: string,
+  body?: unknown
+): Promise<ProfileApiResult> {
+  try {
+    const res = await fetch(`/api/profiles${url}`, {
+      method,
+      headers: {
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    return (await res.json()) as ProfileApiResult;
+  } catch {
+    return { ok: false };
+  }
+}
+
+/**
+ * The signed-in profile: undefined while loading, null when signed out.
+ * A token the server no longer knows is forgotten.
+ */
+export function useProfile(): {
+  token: string;
+  profile: PublicProfile | null | undefined;
+  setProfile: (profile: PublicProfile) => void;
+} {
+  const token = useProfileToken();
+  const [loaded, setLoaded] = useState<{ token: string; profile: PublicProfile | null }>();
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    callProfileApi('GET', '/me', token).then((res) => {
+      if (cancelled) return;
+      // Keep a token through network failures; drop one the server rejected
+      if (!res.ok && res.error) setProfileToken(null);
+      setLoaded({ token, profile: res.profile ?? null });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const profile = !token ? null : loaded?.token === token ? loaded.profile : undefined;
+  return { token, profile, setProfile: (p) => setLoaded({ token, profile: p }) };
+}
@@ -0,0 +1,69 @@
+/**
+ * Clock
+ *
+ * Everything time-based in the game engine (timestamps, countdowns, the wager
+ * redline timeline) goes through a Clock, so a headless game — or a test — can
+ * swap in a manual one and fast-forward through a whole match in milliseconds.
+ */
+
+export type TimerHandle = { readonly __brand: 'TimerHandle' };
+
+export type Clock = {
+  now(): number;
+  setTimeout(fn: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+};
+
+/** Wall-clock time and real Node timers */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms) as unknown as TimerHandle,
+  clearTimeout: (handle) => clearTimeout(handle as unknown as ReturnType<typeof setTimeout>),
+};
+
+export type ManualClock = Clock & {
+  /** Move time forward, firing every timer that comes due (in order) */
+  advance(ms: number): void;
+  /** Number of timers still waiting to fire */
+  pendingTimers(): number;
+};
+
+/** A clock that only moves when told to */
+export function createManualClock(startAt = Date.now()): ManualClock {
+  let now = startAt;
+  let nextId = 1;
+  const timers = new Map<number, { at: number; fn: () => void }>();
+
+  const nextDue = (until: number) => {
+    let due: [number, { at: number; fn: () => void }] | undefined;
+    for (const entry of timers) {
+      if (entry[1].at > until) continue;
+      // Earliest first; ties fire in the order they were scheduled
+      if (!due || entry[1].at < due[1].at) due = entry;
+    }
+    return due;
+  };
+
+  return {
+    now: () => now,
+    setTimeout(fn, ms) {
+      const id = nextId++;
+      timers.set(id, { at: now + Math.max(0, ms), fn });
+      return id as unknown as TimerHandle;
+    },
+    clearTimeout(handle) {
+      timers.delete(handle as unknown as number);
+    },
+    advance(ms) {
+      const target = now + Math.max(0, ms);
+      for (let due = nextDue(target); due; due = nextDue(target)) {
+        const [id, timer] = due;
+        timers.delete(id);
+        now = timer.at;
+        timer.fn();
+      }
+      now = target;
+    },
+    pendingTimers: () => timers.size,
+  };
+}
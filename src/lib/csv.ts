@@ -0,0 +1,65 @@
+/**
+ * CSV / TSV
+ *
+ * Reading and writing delimited text for pack import / export and game results.
+ */
+
+/** RFC 4180 records: quoted fields may hold the delimiter, newlines and "" */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c !== '"') field += c;
+      else if (text[i + 1] === '"') field += text[++i];
+      else quoted = false;
+    } else if (c === '"' && field === '') {
+      quoted = true;
+    } else if (c === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+export type Cell = string | number | boolean | null | undefined;
+
+/** Spreadsheet apps run cells starting with these as formulas */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Rows as delimited text (CRLF line ends). Cells are quoted when they need it;
+ * `escapeFormulas` prefixes text that would run as a formula with `'` — use it
+ * for anything players typed.
+ */
+export function formatDelimited(
+  rows: Cell[][],
+  delimiter = ',',
+  { escapeFormulas = false } = {}
+): string {
+  const format = (cell: Cell) => {
+    if (cell === null || cell === undefined) return '';
+    let text = String(cell);
+    if (escapeFormulas && typeof cell === 'string' && FORMULA_START.test(text)) text = `'${text}`;
+    const quote = text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+    return quote ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map((row) => row.map(format).join(delimiter)).join('\r\n') + '\r\n';
+}
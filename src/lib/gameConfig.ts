@@ -0,0 +1,164 @@
+/**
+ * Game Config
+ *
+ * The built-in "classic" ruleset and the shop catalogue. Packs without a
+ * ruleset of their own are played with the classic acts; the question loader
+ * validates custom rulesets against the shop catalogue.
+ */
+
+import type { ActConfig, Ruleset, ShopItem } from '@/lib/types';
+
+/* ── Acts ── */
+
+const CLASSIC_ACTS: ActConfig[] = [
+  {
+    id: 'homeroom',
+    name: 'Homeroom',
+    emoji: '🏫',
+    description: 'Warm up! No hearts at risk. Build your score and earn starter gold.',
+    kind: 'standard',
+    questionDurationMs: 22_000, // 20-25s range, we pick 22s
+    heartsAtRisk: false,
+    heartsOnlyOnHard: false,
+    coinRewardBase: 50, // generous starter coins
+    scoreMultiplier: 1.0,
+    // Act 1: only basic active items — let players learn the ropes
+    availableShopItems: ['fifty_fifty', 'freeze_time', 'double_points'],
+    speedBonusMax: 20, // small bonus — warm-up, keep it chill
+  },
+  {
+    id: 'pop_quiz',
+    name: 'Pop Quiz',
+    emoji: '📝',
+    description: 'Things heat up. Hard questions cost hearts!',
+    kind: 'standard',
+    questionDurationMs: 27_000,
+    heartsAtRisk: false, // base is safe
+    heartsOnlyOnHard: true, // only hard questions cost hearts
+    coinRewardBase: 40,
+    scoreMultiplier: 1.0,
+    // Act 2: introduce Shield + Buyback now that hearts can be lost on hard Qs
+    availableShopItems: ['fifty_fifty', 'freeze_time', 'double_points', 'shield', 'buyback_token'],
+    speedBonusMax: 30,
+  },
+  {
+    id: 'field_trip',
+    name: 'Field Trip',
+    emoji: '🎒',
+    description: 'Wrong answers cost hearts. Buyback becomes your best friend.',
+    kind: 'standard',
+    questionDurationMs: 30_000,
+    heartsAtRisk: true,
+    heartsOnlyOnHard: false,
+    coinRewardBase: 35,
+    scoreMultiplier: 1.5,
+    // Act 3: everything available
+    availableShopItems: ['fifty_fifty', 'freeze_time', 'double_points', 'shield', 'buyback_token'],
+    speedBonusMax: 40,
+  },
+  {
+    id: 'wager_round',
+    name: 'High Stakes',
+    emoji: '🎰',
+    description:
+      'Everyone still alive can wager points. Get it right: win your wager. Get it wrong: lose it.',
+    kind: 'wager',
+    // High Stakes should feel dramatic: significantly more thinking time.
+    // Requested: ~1 minute or more for the High Stakes question.
+    questionDurationMs: 75_000,
+    // No hearts at risk — this round is about points
+    heartsAtRisk: false,
+    heartsOnlyOnHard: false,
+    // No coin rewards here — keep the focus on score swings
+    coinRewardBase: 0,
+    // Score multiplier does not apply — wager is handled specially
+    scoreMultiplier: 1.0,
+    // No shop items during High Stakes
+    availableShopItems: [],
+    speedBonusMax: 0,
+    // High Stakes is a single dramatic round before the boss
+    maxQuestions: 1,
+  },
+  {
+    id: 'boss_fight',
+    name: 'Boss Fight',
+    emoji: '🐉',
+    description: 'The final showdown. Escalating points, hearts on the line.',
+    kind: 'boss',
+    questionDurationMs: 30_000,
+    heartsAtRisk: true,
+    heartsOnlyOnHard: false,
+    coinRewardBase: 30,
+    scoreMultiplier: 2.0,
+    // Act 4: everything available
+    availableShopItems: ['fifty_fifty', 'freeze_time', 'double_points', 'shield', 'buyback_token'],
+    speedBonusMax: 60, // big reward for fast answers in the finale
+  },
+];
+
+export const DEFAULT_RULESET: Ruleset = {
+  id: 'classic',
+  name: 'Schooled Quest Classic',
+  acts: CLASSIC_ACTS,
+};
+
+/** The boss's HP in a new room (the host can change it) */
+export const DEFAULT_BOSS_HP = 6;
+
+/* ── Shop Items ── */
+
+export const SHOP_ITEMS: ShopItem[] = [
+  {
+    id: 'fifty_fifty',
+    name: '50/50',
+    cost: 80,
+    description: 'Remove 2 wrong answers during a question',
+    kind: 'active',
+  },
+  {
+    id: 'freeze_time',
+    name: 'Freeze Time',
+    cost: 70,
+    description: '+10 seconds on the current question',
+    kind: 'active',
+  },
+  {
+    id: 'double_points',
+    name: 'Double Points',
+    cost: 100,
+    description: 'Next correct answer scores 2×. Auto-triggers.',
+    kind: 'passive',
+  },
+  {
+    id: 'shield',
+    name: 'Shield',
+    cost: 100,
+    description: 'Negates next heart loss. Auto-triggers.',
+    kind: 'passive',
+  },
+  {
+    id: 'buyback_token',
+    name: 'Buyback Token',
+    cost: 120,
+    description: 'Auto-revives you with 1 life if eliminated.',
+    kind: 'passive',
+  },
+];
+
+/* ── Profiles ── */
+
+/** Avatars a profile can pick from */
+export const PROFILE_AVATARS = [
+  '🦊',
+  '🐼',
+  '🐸',
+  '🦉',
+  '🐙',
+  '🦄',
+  '🐯',
+  '🐧',
+  '🤖',
+  '👾',
+  '🧙',
+  '🦖',
+];
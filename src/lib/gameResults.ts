@@ -0,0 +1,85 @@
+/**
+ * Game Results
+ *
+ * The host's end-of-game export (`game:results`) as spreadsheets:
+ *   - answers    one row per player per question, in play order
+ *   - standings  the final leaderboard
+ *
+ * Player names and typed answers are escaped so a spreadsheet never runs them as formulas.
+ */
+
+import { type Cell, formatDelimited } from '@/lib/csv';
+import type { GameResultAnswer, GameResults } from '@/lib/types';
+
+/** Items that fired on a reveal, e.g. "shield, buyback" */
+function itemsUsed(a: GameResultAnswer): string {
+  return [
+    a.doublePointsUsed && 'double points',
+    a.shieldUsed && 'shield',
+    a.buybackUsed && 'buyback',
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+export function resultsAnswersCsv(results: GameResults): string {
+  const rows: Cell[][] = [
+    [
+      'question',
+      'act',
+      'category',
+      'prompt',
+      'correct_answer',
+      'player',
+      'answer',
+      'correct',
+      'lock_in_ms',
+      'score_delta',
+      'speed_bonus',
+      'wagered',
+      'coins_delta',
+      'lives_delta',
+      'items_used',
+      'eliminated',
+    ],
+  ];
+  results.questions.forEach((q, i) => {
+    for (const a of q.answers) {
+      rows.push([
+        i + 1,
+        q.actId,
+        q.category,
+        q.prompt,
+        q.correctAnswer,
+        a.name,
+        a.answer,
+        a.correct,
+        a.lockInMs,
+        a.scoreDelta,
+        a.speedBonus,
+        a.wagered,
+        a.coinsDelta,
+        a.livesDelta,
+        itemsUsed(a),
+        a.eliminated,
+      ]);
+    }
+  });
+  return formatDelimited(rows, ',', { escapeFormulas: true });
+}
+
+export function resultsStandingsCsv(results: GameResults): string {
+  const rows: Cell[][] = [
+    ['rank', 'player', 'score', 'correct_answers', 'coins', 'lives', 'eliminated'],
+    ...results.standings.map((s) => [
+      s.rank,
+      s.name,
+      s.score,
+      s.correctAnswers,
+      s.coins,
+      s.lives,
+      s.eliminated,
+    ]),
+  ];
+  return formatDelimited(rows, ',', { escapeFormulas: true });
+}
@@ -0,0 +1,3184 @@
+/**
+ * Game Server
+ *
+ * The Schooled Quest engine: room lifecycle, acts, questions, wagers, the shop,
+ * persistence and every Socket.IO handler. `server.ts` attaches it to the real
+ * HTTP server; tests attach it to a throwaway one with a manual clock, so a full
+ * game runs headless in milliseconds.
+ */
+
+import { DEFAULT_BOSS_HP, SHOP_ITEMS } from '@/lib/gameConfig';
+import { systemClock, type Clock, type TimerHandle } from '@/lib/clock';
+import { DEFAULT_LOCALE, pickTranslation, translate } from '@/lib/i18n';
+import { logger } from '@/lib/logger';
+import { CLIENT_EVENT_SCHEMAS } from '@/lib/payloadSchemas';
+import { addGameToStats, createProfileStore, type ProfileStore } from '@/lib/profileStore';
+import type { ClientEvent, ClientToServerEvents, ServerToClientEvents } from '@/lib/protocol';
+import {
+  getDefaultPackId,
+  getPack,
+  getPackQuestions,
+  getPackRevision,
+  getPackRuleset,
+  hasAnyPacks,
+  hasPackRevision,
+  prunePackRevisions,
+  toActInfo,
+} from '@/lib/questionLoader';
+import {
+  createQuestionHistory,
+  historyKey,
+  type QuestionHistoryStore,
+} from '@/lib/questionHistory';
+import { sampleMixed, shuffle } from '@/lib/questionSampling';
+import {
+  checkAnswerShape,
+  correctAnswerOf,
+  describeAnswer,
+  includesChoice,
+  isCorrectAnswer,
+  pickAnswer,
+} from '@/lib/questionTypes';
+import {
+  createRoomStore,
+  deserializeSnapshot,
+  serializeSnapshot,
+  type RoomStore,
+} from '@/lib/roomStore';
+import type {
+  Ack,
+  ActConfig,
+  ActId,
+  ActKind,
+  Admission,
+  AnswerDistribution,
+  AutopilotAction,
+  AutopilotError,
+  BossState,
+  GameResultQuestion,
+  GameResults,
+  GameStanding,
+  HostRoomState,
+  JoinRequest,
+  Locale,
+  PackMixEntry,
+  Phase,
+  PlayerAnswer,
+  PlayerRevealPayload,
+  PublicPlayer,
+  PublicQuestion,
+  PublicRoomState,
+  Question,
+  ReviveRequest,
+  RoomConfig,
+  Ruleset,
+  RunPlanStep,
+  ShopItem,
+  ShopItemId,
+  TimelineStep,
+  WagerSpotlightEntry,
+  WagerSpotlightPayload,
+  WagerStage,
+  WagerTier,
+} from '@/lib/types';
+import type { Schema } from '@/lib/validation';
+import { customAlphabet, nanoid } from 'nanoid';
+import type { Server } from 'socket.io';
+
+/* ────────────────────── Types ────────────────────── */
+
+export type GameServer = Server<ClientToServerEvents, ServerToClientEvents>;
+
+/** Server-side player: the public shape plus the socket we last saw them on */
+type Player = PublicPlayer & {
+  socketId: string;
+  /** Secret from `room:join` that `room:resume` needs — unlike the playerId, never broadcast */
+  sessionToken: string;
+  /** All-in wagers won this game, for the player's profile stats */
+  allInsWon?: number;
+};
+
+/** A late joiner waiting on the host: the player they'll become, once let in */
+type PendingJoin = JoinRequest & {
+  playerId: string;
+  sessionToken: string;
+  socketId: string;
+  connected: boolean;
+  locale: Locale;
+  profileId?: string;
+};
+
+type CurrentQuestion = {
+  questionId: string;
+  /** When the countdown ends and the question timer starts */
+  countdownEndsAt?: number;
+  startedAt: number;
+  endsAt: number;
+  /** If set, choices are hidden/disabled until this timestamp (wager_round twist) */
+  blackoutUntil?: number;
+  answersByPlayerId: Map<string, PlayerAnswer>;
+  /** Timestamp when each player locked in (used for speed bonus calculation) */
+  lockinTimeByPlayerId: Map<string, number>;
+  freezeBonus: Map<string, number>;
+  locked: boolean;
+  forcedRevealAt?: number;
+};
+
+type ActState = {
+  actId: ActId;
+  config: ActConfig;
+  questions: Question[];
+  questionIndex: number;
+};
+
+type WagerState = {
+  questionId: string;
+  startedAt: number;
+  endsAt: number;
+  stage: WagerStage;
+  locked: boolean;
+  wagersByPlayerId: Map<string, number>;
+  /** Per-player 50/50 perk (generated once when wagers lock) */
+  removedIndexesByPlayerId: Map<string, number[]>;
+  /** The spotlight computed when wagers locked */
+  spotlight?: WagerSpotlightPayload;
+  /** Timers for the redline timeline */
+  stageTimers?: {
+    category?: TimerHandle;
+    hint?: TimerHandle;
+    redline?: TimerHandle;
+    closing?: TimerHandle;
+    lock?: TimerHandle;
+    postLock?: TimerHandle;
+  };
+};
+
+type Room = {
+  code: string;
+  createdAt: number;
+  lastActivityAt: number;
+  hostKey: string;
+  hostSocketId: string | null;
+  phase: Phase;
+  config: RoomConfig;
+  packId: string;
+  /** The pack revision this room plays (see questionLoader), fixed when the room is created */
+  packRevision?: string;
+  /** Other packs feeding some acts (set in the lobby) */
+  packMix: PackMixEntry[];
+  /** The revision of each mixed-in pack, pinned when the mix was set */
+  packMixRevisions: Record<string, string>;
+  /** The acts this room plays, fixed when the room is created */
+  ruleset: Ruleset;
+  /** The host's run plan: which acts to play, in what order, with how many questions */
+  plan: RunPlanStep[];
+  /** Whether the host has set the plan by hand — otherwise it follows the pack and settings */
+  planEdited?: boolean;
+  /** Index of the current plan step (-1 in the lobby) */
+  planIndex: number;
+  /** Questions already dealt to an act this game, so a repeated act gets fresh ones */
+  dealtQuestionIds: string[];
+  playersById: Map<string, Player>;
+  socketToPlayerId: Map<string, string>;
+
+  /** The current act state — null only during lobby */
+  actState: ActState | null;
+
+  /** Wager mini-round state (used only during a wager act) */
+  wagerState?: WagerState;
+
+  /** Legacy fields kept for boss mode compatibility */
+  questionDeck: Question[];
+  questionIndex: number;
+  currentQuestion?: CurrentQuestion;
+  shopOpen: boolean;
+  boss?: BossState;
+  /** Active revive request awaiting host decision */
+  pendingRevive?: ReviveRequest;
+  /** Late joiners the host hasn't let in yet, or has admitted for the next question */
+  pendingJoins: PendingJoin[];
+  /** When the host paused the game — its timers stand still until `game:resume` */
+  pausedAt?: number;
+  /** Timer handle for the countdown→question transition */
+  countdownTimer?: TimerHandle;
+  /** The transition autopilot has scheduled (`key` identifies the state it was planned for) */
+  autopilotStep?: { action: AutopilotAction; at: number; key: string; timer: TimerHandle };
+  /** Why autopilot last switched itself off, until the host turns it back on */
+  autopilotError?: AutopilotError;
+  /** Every revealed question and how each player did, for the end-of-game export */
+  results: GameResultQuestion[];
+  /** Set once the players' profiles have been given this game's stats */
+  profileStatsRecorded?: boolean;
+};
+
+export type GameServerOptions = {
+  /** Time source for timestamps and timers (defaults to the system clock) */
+  clock?: Clock;
+  /** Where room snapshots are persisted (defaults to `createRoomStore()`) */
+  store?: RoomStore;
+  /** Which questions each room / group has seen (defaults to `createQuestionHistory()`) */
+  history?: QuestionHistoryStore;
+  /** Player profiles that `room:join` signs in with (defaults to `createProfileStore()`) */
+  profiles?: ProfileStore;
+  /** Per-socket event rate limit, or `false` to disable (e.g. for tests) */
+  rateLimit?: { windowMs: number; maxEvents: number } | false;
+};
+
+export type GameServerHandle = {
+  /** Rehydrate persisted rooms (call once, before accepting connections) */
+  restoreRooms(): number;
+  /** Remove idle / ended rooms */
+  cleanupRooms(): void;
+  /** Write pending room snapshots, question history and profiles synchronously (call before exiting) */
+  flush(): void;
+  /** Summary of live rooms for the debug endpoint */
+  debugSummary(): {
+    roomCount: number;
+    socketMappings: number;
+    rooms: {
+      code: string;
+      phase: Phase;
+      players: number;
+      connected: number;
+      idleMs: number;
+      act: ActId | null;
+    }[];
+  };
+};
+
+/* ────────────────────── Config ────────────────────── */
+
+const makeCode = customAlphabet('ABCDEFGHJKMNPQRSTUVWXYZ23456789', 5);
+
+const DEFAULT_CONFIG: RoomConfig = {
+  maxLives: 3,
+  questionDurationMs: 25_000, // fallback, acts override this
+  countdownMs: 3_000, // 3-2-1 countdown before each question
+  startingCoins: 150,
+  buybackCostCoins: 200,
+  bossHp: DEFAULT_BOSS_HP,
+  questionsPerAct: 0, // every question the pack has
+  sampling: 'random',
+  historyGroup: '',
+  preferUnseen: false,
+  autopilot: false,
+  autopilotDwellMs: 8_000,
+  autopilotShopMs: 20_000,
+};
+
+/** Seats in a room */
+const MAX_PLAYERS = 30;
+/** Late joiners waiting on the host at once — a queue of their own, so it can't fill the seats */
+const MAX_PENDING_JOINS = 5;
+
+/** Room fields that only make sense in this process (timer handles) — never persisted */
+const TRANSIENT_ROOM_KEYS: ReadonlySet<string> = new Set([
+  'countdownTimer',
+  'stageTimers',
+  'autopilotStep',
+]);
+
+/** How long a room can be idle before it's cleaned up (ms) */
+export const ROOM_IDLE_TIMEOUT_MS = 2 * 60 * 60 * 1000; // 2 hours
+const DEFAULT_RATE_LIMIT = { windowMs: 1_000, maxEvents: 20 }; // max events per 1s window
+
+/** Requested: ~1 minute to choose wager. */
+const WAGER_DURATION_MS = 60_000;
+
+/** Redline timeline beats (ms after the wager window opens) */
+const WAGER_CATEGORY_OFFSET_MS = 15_000; // 45s left
+const WAGER_HINT_OFFSET_MS = 30_000; // 30s left
+const WAGER_REDLINE_OFFSET_MS = 45_000; // 15s left (NO DECREASES)
+const WAGER_CLOSING_OFFSET_MS = 55_000; // 5s left (siren)
+
+/* ────────────────────── Question Bank (per act) ────────────────────── */
+
+/** Most packs one act can mix */
+const MAX_MIX_SOURCES = 5;
+
+/** Where an act's questions come from: one pack, or its pack mix entries */
+type ActSource = { packId: string; weight: number; questions: Question[] };
+
+/** The revision of `packId` the room is pinned to */
+function pinnedRevision(room: Room, packId: string): string | undefined {
+  return packId === room.packId ? room.packRevision : room.packMixRevisions[packId];
+}
+
+/**
+ * Every act's question sources, at the pack revisions the room is pinned to —
+ * reloading packs never changes a game in progress. Question IDs are unique per
+ * pack, but two packs can still produce the same one ("a_b" + "c" and "a" +
+ * "b_c"): the later question gets `@<packId>` appended, so dealing never mixes them up.
+ */
+function getActSources(room: Room): Map<ActId, ActSource[]> {
+  const owners = new Map<string, string>(); // question ID → pack it came from
+  const claim = (q: Question, packId: string): Question => {
+    const owner = owners.get(q.id);
+    if (owner === undefined || owner === packId) {
+      owners.set(q.id, packId);
+      return q;
+    }
+    const id = `${q.id}@${packId}`;
+    owners.set(id, packId);
+    return { ...q, id };
+  };
+
+  const sources = new Map<ActId, ActSource[]>();
+  for (const { id: actId } of room.ruleset.acts) {
+    const entries = room.packMix.filter((e) => e.actId === actId);
+    const picked = entries.length > 0 ? entries : [{ actId, packId: room.packId, weight: 1 }];
+    sources.set(
+      actId,
+      picked.map((e: PackMixEntry) => ({
+        packId: e.packId,
+        weight: e.weight,
+        questions: getPackQuestions(
+          e.packId,
+          e.fromActId ?? actId,
+          pinnedRevision(room, e.packId)
+        ).map((q) => claim(q, e.packId)),
+      }))
+    );
+  }
+  return sources;
+}
+
+/**
+ * Get questions for an act from the room's question pack (or its pack mix).
+ * Falls back to empty array if pack or act not found.
+ */
+function getActQuestions(room: Room, actId: ActId): Question[] {
+  return (getActSources(room).get(actId) ?? []).flatMap((s) => s.questions);
+}
+
+/* ────────────────────── Helpers ────────────────────── */
+
+function toPublicPlayer(p: Player): PublicPlayer {
+  const inv = p.inventory ?? {};
+
+  return {
+    playerId: p.playerId,
+    name: p.name,
+    isHost: p.isHost,
+    connected: p.connected,
+    joinedAt: p.joinedAt,
+    locale: p.locale,
+    profileId: p.profileId,
+    avatar: p.avatar,
+
+    lives: p.lives,
+    score: p.score,
+    coins: p.coins,
+    eliminated: p.eliminated,
+
+    lockedIn: p.lockedIn,
+
+    inventory: inv,
+
+    wager: p.wager,
+    wagerSubmitted: p.wagerSubmitted,
+    wagerSwapUsed: p.wagerSwapUsed,
+
+    buffs: {
+      doublePoints: (inv.double_points ?? 0) > 0,
+      shield: (inv.shield ?? 0) > 0,
+    },
+  };
+}
+
+function getCurrentQuestion(room: Room): Question | undefined {
+  if (!room.currentQuestion) return undefined;
+
+  // First check act questions
+  if (room.actState) {
+    return room.actState.questions.find((q) => q.id === room.currentQuestion?.questionId);
+  }
+
+  // Fallback to legacy deck
+  return room.questionDeck.find((q) => q.id === room.currentQuestion?.questionId);
+}
+
+function activePlayersForQuestion(room: Room): Player[] {
+  return Array.from(room.playersById.values()).filter((p) => p.connected && !p.eliminated);
+}
+
+function toPublicQuestion(q: Question): PublicQuestion {
+  return {
+    id: q.id,
+    category: q.category,
+    prompt: q.prompt,
+    media: q.media,
+    hint: q.hint,
+    type: q.type,
+    choices: 'choices' in q ? q.choices : [],
+    value: q.value,
+    hard: q.hard,
+    // The extra hint is a wager perk, sent only to the players who earn it
+    translations: q.translations
+      ? Object.fromEntries(
+          Object.entries(q.translations).map(([tag, t]) => [
+            tag,
+            { prompt: t.prompt, category: t.category, choices: t.choices, hint: t.hint },
+          ])
+        )
+      : undefined,
+  };
+}
+
+/** Get the effective timer duration for the current question */
+function getQuestionDurationMs(room: Room): number {
+  if (room.actState) {
+    return room.actState.config.questionDurationMs;
+  }
+  return room.config.questionDurationMs;
+}
+
+/** Check whether the current question costs hearts when answered wrong */
+function doesQuestionCostHearts(room: Room, question: Question): boolean {
+  if (!room.actState) return true; // legacy behavior: always costs hearts
+
+  const act = room.actState.config;
+
+  // Act says no hearts at risk at all
+  if (!act.heartsAtRisk && !act.heartsOnlyOnHard) return false;
+
+  // Act says only hard questions cost hearts
+  if (act.heartsOnlyOnHard) return !!question.hard;
+
+  // Act says all wrong answers cost hearts
+  return act.heartsAtRisk;
+}
+
+function getActRemainingQuestions(room: Room): number {
+  if (room.actState) {
+    return Math.max(0, room.actState.questions.length - room.actState.questionIndex);
+  }
+  return Math.max(0, room.questionDeck.length - room.questionIndex);
+}
+
+/** Get the shop items available for the current act (progressive unlock) */
+function getShopItemsForAct(room: Room): ShopItem[] {
+  if (!room.actState) return SHOP_ITEMS; // fallback: all items
+  const allowed = room.actState.config.availableShopItems;
+  return SHOP_ITEMS.filter((item) => allowed.includes(item.id));
+}
+
+function getActConfig(room: Room, actId: ActId): ActConfig | undefined {
+  return room.ruleset.acts.find((a) => a.id === actId);
+}
+
+/** Act-kind checks for the current act (wager rules, boss rules) */
+function isActKind(room: Room, kind: ActKind): boolean {
+  return room.actState?.config.kind === kind;
+}
+
+/* ── Run plan ── */
+
+/**
+ * Every act of the ruleset in order, each with the room's questions-per-act
+ * setting (0 = all of them), capped by what the pack has and the act's maxQuestions
+ */
+function buildDefaultPlan(room: Room): RunPlanStep[] {
+  return scalePlan(
+    room,
+    room.ruleset.acts.map((act) => ({ actId: act.id, questionCount: 0 }))
+  );
+}
+
+/**
+ * The same steps with the questions-per-act setting's question counts, capped by
+ * the act's maxQuestions and what the pack has left (a repeated act shares its
+ * questions). Steps left with nothing to play are dropped.
+ */
+function scalePlan(room: Room, plan: RunPlanStep[]): RunPlanStep[] {
+  const perAct = room.config.questionsPerAct || Infinity;
+  const used = new Map<ActId, number>();
+  return plan
+    .map((step) => {
+      const act = getActConfig(room, step.actId);
+      const left = getActQuestions(room, step.actId).length - (used.get(step.actId) ?? 0);
+      const questionCount = Math.max(0, Math.min(left, act?.maxQuestions ?? left, perAct));
+      used.set(step.actId, (used.get(step.actId) ?? 0) + questionCount);
+      return { ...step, questionCount };
+    })
+    .filter((step) => step.questionCount > 0);
+}
+
+/** Throws if a pack mix names unknown acts or packs, or lists a source twice */
+function validatePackMix(room: Room, mix: PackMixEntry[]) {
+  const seen = new Set<string>();
+  for (const entry of mix) {
+    const act = getActConfig(room, entry.actId);
+    if (!act) throw new Error(`Unknown act "${entry.actId}".`);
+    const pack = getPack(entry.packId);
+    if (!pack) throw new Error(`Unknown question pack "${entry.packId}".`);
+
+    const fromActId = entry.fromActId ?? entry.actId;
+    if (!pack.ruleset.acts.some((a) => a.id === fromActId)) {
+      throw new Error(
+        `"${pack.name}" has no act "${fromActId}" — choose which of its acts to use.`
+      );
+    }
+    const key = `${entry.actId}:${entry.packId}:${fromActId}`;
+    if (seen.has(key)) throw new Error(`"${pack.name}" is in the mix for ${act.name} twice.`);
+    seen.add(key);
+    if (mix.filter((e) => e.actId === entry.actId).length > MAX_MIX_SOURCES) {
+      throw new Error(`${act.name} can mix at most ${MAX_MIX_SOURCES} packs.`);
+    }
+  }
+}
+
+/** Throws if a plan can't be played with the room's ruleset and pack */
+function validateRunPlan(room: Room, plan: RunPlanStep[]) {
+  if (plan.length === 0) throw new Error('The run plan needs at least one act.');
+
+  const used = new Map<ActId, number>();
+  plan.forEach((step, i) => {
+    const act = getActConfig(room, step.actId);
+    if (!act) throw new Error(`Unknown act "${step.actId}".`);
+    if (act.kind === 'boss' && i !== plan.length - 1) {
+      throw new Error(`${act.name} ends the game, so it must be the last step.`);
+    }
+    if (act.maxQuestions !== undefined && step.questionCount > act.maxQuestions) {
+      throw new Error(`${act.name} plays at most ${act.maxQuestions} question(s).`);
+    }
+
+    // Repeated acts share the act's questions — no repeats within a game
+    const total = (used.get(act.id) ?? 0) + step.questionCount;
+    const available = getActQuestions(room, act.id).length;
+    if (total > available) {
+      throw new Error(`${act.name} only has ${available} question(s) (the plan uses ${total}).`);
+    }
+    used.set(act.id, total);
+  });
+}
+
+/** Whether the current step's questions are all played and the host is between acts */
+function isCurrentStepDone(room: Room): boolean {
+  if (room.phase === 'ended' || room.phase === 'intermission') return true;
+  return room.phase === 'shop' && isActFinished(room);
+}
+
+function getTimeline(room: Room): TimelineStep[] {
+  return room.plan.map((step, i) => {
+    const act = getActConfig(room, step.actId);
+    const done = i < room.planIndex || (i === room.planIndex && isCurrentStepDone(room));
+    return {
+      ...step,
+      name: act?.name ?? step.actId,
+      emoji: act?.emoji ?? '❓',
+      kind: act?.kind ?? 'standard',
+      status: done ? 'done' : i === room.planIndex ? 'current' : 'upcoming',
+    };
+  });
+}
+
+function getAvailableActs(room: Room): ActId[] {
+  // Only show next-act options during intermission (after finishing an act's questions)
+  if (!room.actState) {
+    // In lobby, the only option is the first step (handled by game:start)
+    return [];
+  }
+
+  // Only show act transitions during intermission
+  if (room.phase !== 'intermission') return [];
+
+  const next = room.plan[room.planIndex + 1];
+  return next ? [next.actId] : [];
+}
+
+function roomToHost(room: Room, seen: ReadonlySet<string>): HostRoomState {
+  const q = getCurrentQuestion(room);
+  const sources = getActSources(room);
+  const wagerQ =
+    room.wagerState && room.actState
+      ? room.actState.questions.find((qq) => qq.id === room.wagerState?.questionId)
+      : undefined;
+  return {
+    code: room.code,
+    phase: room.phase,
+    hostKey: room.hostKey,
+    pack: { id: room.packId, name: getPack(room.packId, room.packRevision)?.name ?? room.packId },
+    currentAnswer: q ? correctAnswerOf(q) : undefined,
+    correctChoice: q ? describeAnswer(toPublicQuestion(q), correctAnswerOf(q)) : undefined,
+    questionDebug: q,
+    currentAct: room.actState
+      ? {
+          id: room.actState.actId,
+          name: room.actState.config.name,
+          emoji: room.actState.config.emoji,
+          questionNumber: room.actState.questionIndex,
+          totalQuestions: room.actState.questions.length,
+          heartsAtRisk: room.actState.config.heartsAtRisk || room.actState.config.heartsOnlyOnHard,
+        }
+      : undefined,
+    acts: room.ruleset.acts.map((a) => {
+      const questions = (sources.get(a.id) ?? []).flatMap((src) => src.questions);
+      return {
+        ...toActInfo(a),
+        questionsAvailable: questions.length,
+        questionsSeen: questions.filter((q) => seen.has(q.id)).length,
+        maxQuestions: a.maxQuestions,
+      };
+    }),
+    timeline: getTimeline(room),
+    packMix: room.packMix,
+    availableActs: getAvailableActs(room),
+    wager:
+      room.wagerState && wagerQ
+        ? (() => {
+            const stage = room.wagerState!.stage;
+            const idx = wagerStageIndex(stage);
+            return {
+              open: room.phase === 'wager' && !room.wagerState!.locked,
+              endsAt: room.wagerState!.endsAt,
+              locked: room.wagerState!.locked,
+              stage,
+              noDecreases: idx >= 3,
+              category: wagerQ.category,
+              hint: wagerQ.hint,
+              totalWagered: Array.from(room.wagerState!.wagersByPlayerId.values()).reduce(
+                (sum, v) => sum + v,
+                0
+              ),
+            };
+          })()
+        : undefined,
+    pendingRevive: room.pendingRevive,
+    joinRequests: room.pendingJoins.map((j) => ({
+      requestId: j.requestId,
+      name: j.name,
+      avatar: j.avatar,
+      requestedAt: j.requestedAt,
+      admitted: j.admitted,
+    })),
+    medianScore: medianScore(room),
+    autopilotError: room.autopilotError,
+  };
+}
+
+/** Seated players, plus late joiners the host has admitted for the next question */
+function seatsTaken(room: Room): number {
+  return room.playersById.size + room.pendingJoins.filter((j) => j.admitted).length;
+}
+
+/** The players' median score (0 before anyone has joined) */
+function medianScore(room: Room): number {
+  const scores = Array.from(room.playersById.values(), (p) => p.score).sort((a, b) => a - b);
+  if (scores.length === 0) return 0;
+  const mid = Math.floor(scores.length / 2);
+  return scores.length % 2 ? scores[mid] : Math.round((scores[mid - 1] + scores[mid]) / 2);
+}
+
+function requireHost(room: Room, hostKey: string) {
+  if (!hostKey || hostKey !== room.hostKey) throw new Error('Not authorized (hostKey).');
+}
+
+/** The player this socket joined or resumed as (a playerId in the payload is never trusted) */
+function requireSocketPlayer(room: Room, socketId: string): Player {
+  const playerId = room.socketToPlayerId.get(socketId);
+  const p = playerId ? room.playersById.get(playerId) : undefined;
+  if (!p) throw new Error('Join the room first.');
+  return p;
+}
+
+function nextQuestion(room: Room): Question | null {
+  if (room.actState) {
+    if (room.actState.questionIndex >= room.actState.questions.length) return null;
+    const q = room.actState.questions[room.actState.questionIndex];
+    room.actState.questionIndex += 1;
+    return q;
+  }
+
+  // Legacy fallback
+  if (room.questionIndex >= room.questionDeck.length) return null;
+  const q = room.questionDeck[room.questionIndex];
+  room.questionIndex += 1;
+  return q;
+}
+
+function wagerStageIndex(stage: WagerStage): number {
+  switch (stage) {
+    case 'blind':
+      return 0;
+    case 'category':
+      return 1;
+    case 'hint':
+      return 2;
+    case 'redline':
+      return 3;
+    case 'closing':
+      return 4;
+    case 'locked':
+      return 5;
+    default:
+      return 0;
+  }
+}
+
+function computeWagerTier(
+  score: number,
+  wager: number
+): { tier: WagerTier; ratio: number; index: number } {
+  const s = Math.max(0, Math.floor(score));
+  const w = Math.max(0, Math.floor(wager));
+  if (s <= 0 || w <= 0) return { tier: 'SAFE', ratio: 0, index: 0 };
+  const ratioRaw = w / s;
+  const ratio = Math.max(0, Math.min(1, ratioRaw));
+
+  if (w >= s) return { tier: 'ALL_IN', ratio: 1, index: 4 };
+  if (ratio >= 0.8) return { tier: 'INSANE', ratio, index: 3 };
+  if (ratio >= 0.5) return { tier: 'HIGH_ROLLER', ratio, index: 2 };
+  if (ratio >= 0.25) return { tier: 'BOLD', ratio, index: 1 };
+  return { tier: 'SAFE', ratio, index: 0 };
+}
+
+/**
+ * Pick an act's questions (per the room's sampling, and questions outside `seen`
+ * first when given), leaving out any the room has already dealt
+ */
+function drawActQuestions(
+  room: Room,
+  actId: ActId,
+  questionCount: number,
+  seen?: ReadonlySet<string>
+): Question[] {
+  const dealt = new Set(room.dealtQuestionIds);
+  const pools = (getActSources(room).get(actId) ?? []).map((s) => ({
+    weight: s.weight,
+    questions: s.questions.filter((q) => !dealt.has(q.id)),
+  }));
+  return sampleMixed(pools, questionCount, room.config.sampling, seen);
+}
+
+/** Start a new act with the questions drawn for it and reset act-level state */
+function startAct(room: Room, config: ActConfig, questions: Question[]) {
+  const actId = config.id;
+  room.dealtQuestionIds.push(...questions.map((q) => q.id));
+
+  room.actState = {
+    actId,
+    config,
+    questions,
+    questionIndex: 0,
+  };
+
+  room.currentQuestion = undefined;
+  room.shopOpen = false;
+
+  logger.info(
+    `  ${config.emoji} Act started: ${config.name} (${questions.length} questions, ${room.config.sampling}) in room ${room.code}`
+  );
+}
+
+function armPassiveBuff(p: Player, itemId: ShopItemId) {
+  if (itemId === 'double_points') p.buffs.doublePoints = true;
+  if (itemId === 'shield') p.buffs.shield = true;
+}
+
+/**
+ * Core scoring + passive item auto-trigger logic.
+ * Now act-aware: respects heartsAtRisk / heartsOnlyOnHard rules.
+ */
+function revealAndScore(room: Room): Map<string, PlayerRevealPayload> {
+  const q = getCurrentQuestion(room);
+  if (!q || !room.currentQuestion) return new Map();
+
+  room.currentQuestion.locked = true;
+  room.phase = 'reveal';
+
+  const isWagerRound = isActKind(room, 'wager');
+  const heartsAtRisk = isWagerRound ? false : doesQuestionCostHearts(room, q);
+  const actConfig = room.actState?.config;
+  const scoreMultiplier = actConfig?.scoreMultiplier ?? 1.0;
+  const coinRewardBase = actConfig?.coinRewardBase ?? Math.floor(q.value / 2);
+  const speedBonusMax = actConfig?.speedBonusMax ?? 0;
+  const questionDurationMs = actConfig?.questionDurationMs ?? room.config.questionDurationMs;
+
+  const results = new Map<string, PlayerRevealPayload>();
+
+  for (const p of room.playersById.values()) {
+    const beforeScore = p.score;
+    const beforeCoins = p.coins;
+    const beforeLives = p.lives;
+    const wasEliminated = p.eliminated;
+
+    const ans = room.currentQuestion.answersByPlayerId.get(p.playerId) ?? null;
+    const correct = !!ans && isCorrectAnswer(q, ans);
+
+    let shieldUsed = false;
+    let doublePointsUsed = false;
+    let buybackUsed = false;
+    let speedBonus = 0;
+
+    if (!wasEliminated) {
+      // ───────────────── Wager Round Scoring ─────────────────
+      if (isWagerRound && room.wagerState) {
+        const rawWager = room.wagerState.wagersByPlayerId.get(p.playerId) ?? 0;
+        const wager = Math.max(0, Math.min(Math.floor(rawWager), beforeScore));
+        const scoreDelta = correct ? wager : -wager;
+        p.score = Math.max(0, p.score + scoreDelta);
+        if (correct && computeWagerTier(beforeScore, wager).tier === 'ALL_IN') {
+          p.allInsWon = (p.allInsWon ?? 0) + 1;
+        }
+
+        results.set(p.playerId, {
+          questionId: q.id,
+          correctAnswer: correctAnswerOf(q),
+          yourAnswer: ans,
+          correct,
+          scoreDelta: p.score - beforeScore,
+          coinsDelta: 0,
+          livesDelta: 0,
+          eliminated: p.eliminated,
+          heartsAtRisk: false,
+          wagered: wager || undefined,
+        });
+        continue;
+      }
+
+      if (correct) {
+        // ── Speed Bonus (only if locked in) ──
+        const lockinTime = room.currentQuestion.lockinTimeByPlayerId.get(p.playerId);
+        if (lockinTime && speedBonusMax > 0) {
+          const elapsed = lockinTime - room.currentQuestion.startedAt;
+          const fractionRemaining = Math.max(0, 1 - elapsed / questionDurationMs);
+          speedBonus = Math.floor(speedBonusMax * fractionRemaining);
+        }
+
+        // ── Double Points (passive auto-trigger) ──
+        let multiplier = 1;
+        if (p.buffs.doublePoints) {
+          multiplier = 2;
+          doublePointsUsed = true;
+          p.buffs.doublePoints = false;
+          const count = p.inventory['double_points'] || 0;
+          if (count > 0) p.inventory['double_points'] = count - 1;
+          logger.info(`  🌟 ${p.name}: double points consumed`);
+        }
+
+        const scoreDelta = Math.floor(q.value * scoreMultiplier * multiplier) + speedBonus;
+        p.score += scoreDelta;
+        p.coins += coinRewardBase;
+
+        if (room.boss) {
+          room.boss.hp = Math.max(0, room.boss.hp - 1);
+        }
+      } else {
+        // ── Heart Loss Logic (act-aware) ──
+        if (heartsAtRisk) {
+          // Shield check
+          if (p.buffs.shield) {
+            shieldUsed = true;
+            p.buffs.shield = false;
+            const count = p.inventory['shield'] || 0;
+            if (count > 0) p.inventory['shield'] = count - 1;
+            logger.info(`  🛡️ ${p.name}: shield absorbed the hit`);
+          } else {
+            p.lives -= 1;
+            if (p.lives <= 0) {
+              p.lives = 0;
+
+              // Buyback Token check
+              const tokenCount = p.inventory['buyback_token'] || 0;
+              if (tokenCount > 0) {
+                buybackUsed = true;
+                p.inventory['buyback_token'] = tokenCount - 1;
+                p.lives = 1;
+                p.eliminated = false;
+                logger.info(`  🪙 ${p.name}: buyback token auto-revived`);
+              } else {
+                p.eliminated = true;
+                logger.info(`  💀 ${p.name}: eliminated`);
+              }
+            }
+          }
+        }
+        // If hearts NOT at risk: no heart loss at all (Act 1 behavior)
+      }
+    }
+
+    results.set(p.playerId, {
+      questionId: q.id,
+      correctAnswer: correctAnswerOf(q),
+      yourAnswer: ans,
+      correct,
+      scoreDelta: p.score - beforeScore,
+      coinsDelta: p.coins - beforeCoins,
+      livesDelta: p.lives - beforeLives,
+      eliminated: p.eliminated,
+      shieldUsed: shieldUsed || undefined,
+      doublePointsUsed: doublePointsUsed || undefined,
+      buybackUsed: buybackUsed || undefined,
+      heartsAtRisk,
+      speedBonus: speedBonus || undefined,
+    });
+  }
+
+  return results;
+}
+
+/** Log a reveal's outcome for every player (see `GameResults`) */
+function recordResults(room: Room, q: Question, results: Map<string, PlayerRevealPayload>) {
+  const current = room.currentQuestion;
+  if (!current) return;
+  const publicQ = toPublicQuestion(q);
+
+  room.results.push({
+    questionId: q.id,
+    actId: room.actState?.actId ?? '',
+    type: q.type,
+    category: q.category,
+    prompt: q.prompt,
+    correctAnswer: describeAnswer(publicQ, correctAnswerOf(q)),
+    startedAt: current.startedAt,
+    answers: Array.from(results, ([playerId, r]) => {
+      const lockedInAt = current.lockinTimeByPlayerId.get(playerId);
+      return {
+        playerId,
+        name: room.playersById.get(playerId)?.name ?? '?',
+        answer: r.yourAnswer ? describeAnswer(publicQ, r.yourAnswer) : null,
+        lockInMs: lockedInAt !== undefined ? lockedInAt - current.startedAt : undefined,
+        correct: r.correct,
+        scoreDelta: r.scoreDelta,
+        coinsDelta: r.coinsDelta,
+        livesDelta: r.livesDelta,
+        eliminated: r.eliminated,
+        heartsAtRisk: r.heartsAtRisk,
+        speedBonus: r.speedBonus,
+        wagered: r.wagered,
+        shieldUsed: r.shieldUsed,
+        doublePointsUsed: r.doublePointsUsed,
+        buybackUsed: r.buybackUsed,
+      };
+    }),
+  });
+}
+
+/** Final standings, best score first — tied scores share a rank */
+function getStandings(room: Room): GameStanding[] {
+  const players = Array.from(room.playersById.values()).sort((a, b) => b.score - a.score);
+  return players.map((p) => ({
+    rank: players.findIndex((other) => other.score === p.score) + 1,
+    playerId: p.playerId,
+    name: p.name,
+    score: p.score,
+    coins: p.coins,
+    lives: p.lives,
+    eliminated: p.eliminated,
+    correctAnswers: room.results.filter((r) =>
+      r.answers.some((a) => a.playerId === p.playerId && a.correct)
+    ).length,
+  }));
+}
+
+/** Tally the current question's answers (only ever sent once it's revealed) */
+function answerDistribution(room: Room, q: Question): AnswerDistribution {
+  const answers = Array.from(room.currentQuestion?.answersByPlayerId.values() ?? []);
+  const hasChoices = q.type !== 'ordering' && q.type !== 'free_text';
+  return {
+    answered: answers.length,
+    correct: answers.filter((a) => isCorrectAnswer(q, a)).length,
+    choiceCounts: hasChoices
+      ? q.choices.map((_, i) => answers.filter((a) => includesChoice(a, i)).length)
+      : undefined,
+  };
+}
+
+function openShop(room: Room, open: boolean) {
+  room.shopOpen = open;
+  room.phase = open ? 'shop' : 'reveal';
+}
+
+function maybeEnd(room: Room) {
+  const alive = Array.from(room.playersById.values()).filter((p) => !p.eliminated);
+  if (alive.length === 0) room.phase = 'ended';
+  if (room.boss && room.boss.hp <= 0) room.phase = 'ended';
+}
+
+/** Check if the current act is finished (all questions answered) */
+function isActFinished(room: Room): boolean {
+  if (!room.actState) return true;
+  return room.actState.questionIndex >= room.actState.questions.length;
+}
+
+/* ────────────────────── Engine ────────────────────── */
+
+/**
+ * Attach the game engine to a Socket.IO server: registers middleware + handlers
+ * and owns all room state for that server.
+ */
+export function attachGameServer(
+  io: GameServer,
+  options: GameServerOptions = {}
+): GameServerHandle {
+  const clock = options.clock ?? systemClock;
+  const roomStore = options.store ?? createRoomStore();
+  const questionHistory = options.history ?? createQuestionHistory();
+  const profiles = options.profiles ?? createProfileStore();
+  const rateLimit = options.rateLimit ?? DEFAULT_RATE_LIMIT;
+
+  const rooms = new Map<string, Room>();
+
+  /**
+   * Reverse lookup: socketId → room code.
+   * Avoids iterating all rooms on every disconnect.
+   */
+  const socketToRoomCode = new Map<string, string>();
+
+  /** Update room's last activity timestamp */
+  function touchRoom(room: Room) {
+    room.lastActivityAt = clock.now();
+  }
+
+  /** Remove a room and clean up all related socket mappings */
+  function destroyRoom(code: string) {
+    const room = rooms.get(code);
+    if (!room) return;
+
+    // Clear pending countdown timer
+    if (room.countdownTimer) {
+      clock.clearTimeout(room.countdownTimer);
+      room.countdownTimer = undefined;
+    }
+    cancelAutopilot(room);
+
+    // Clear wager timers
+    if (room.wagerState?.stageTimers) {
+      for (const key of Object.keys(room.wagerState.stageTimers) as (keyof NonNullable<
+        WagerState['stageTimers']
+      >)[]) {
+        const t = room.wagerState.stageTimers[key];
+        if (t) clock.clearTimeout(t);
+      }
+      room.wagerState.stageTimers = {};
+    }
+
+    // Clean up reverse lookup for all sockets in this room
+    for (const socketId of room.socketToPlayerId.keys()) {
+      socketToRoomCode.delete(socketId);
+    }
+    if (room.hostSocketId) {
+      socketToRoomCode.delete(room.hostSocketId);
+    }
+
+    rooms.delete(code);
+    roomStore.delete(code);
+    // A named group's history outlives the room; the room's own doesn't
+    questionHistory.clear(historyKey(code, ''));
+    logger.info({ code, playerCount: room.playersById.size }, 'room destroyed (cleanup)');
+  }
+
+  /** Periodic sweep: remove idle/ended rooms */
+  function cleanupRooms() {
+    const now = clock.now();
+    let cleaned = 0;
+    for (const [code, room] of rooms) {
+      const idle = now - room.lastActivityAt;
+
+      // Remove ended rooms after 10 minutes
+      if (room.phase === 'ended' && idle > 10 * 60 * 1000) {
+        destroyRoom(code);
+        cleaned++;
+        continue;
+      }
+
+      // Remove rooms idle for too long
+      if (idle > ROOM_IDLE_TIMEOUT_MS) {
+        destroyRoom(code);
+        cleaned++;
+        continue;
+      }
+
+      // Remove rooms where everyone disconnected and nobody came back in 15 min
+      const anyoneConnected =
+        room.hostSocketId !== null ||
+        Array.from(room.playersById.values()).some((p) => p.connected);
+      if (!anyoneConnected && idle > 15 * 60 * 1000) {
+        destroyRoom(code);
+        cleaned++;
+        continue;
+      }
+    }
+    if (cleaned > 0) {
+      logger.info({ cleaned, remaining: rooms.size }, 'room cleanup sweep');
+    }
+
+    // Old pack revisions only live as long as a room still plays them
+    const pinned = Array.from(rooms.values()).flatMap((r) => [
+      ...(r.packRevision ? [{ packId: r.packId, revision: r.packRevision }] : []),
+      ...Object.entries(r.packMixRevisions).map(([packId, revision]) => ({ packId, revision })),
+    ]);
+    const dropped = prunePackRevisions(pinned);
+    if (dropped > 0) logger.info({ dropped }, 'pruned old question pack revisions');
+  }
+
+  function computeRevealAt(room: Room): number {
+    if (!room.currentQuestion) return 0;
+    const baseEndsAt = room.currentQuestion.endsAt;
+    if (room.currentQuestion.forcedRevealAt) return room.currentQuestion.forcedRevealAt;
+
+    let maxEndsAt = baseEndsAt;
+    const active = activePlayersForQuestion(room);
+    for (const p of active) {
+      const bonus = room.currentQuestion.freezeBonus.get(p.playerId) || 0;
+      maxEndsAt = Math.max(maxEndsAt, baseEndsAt + bonus);
+    }
+    return maxEndsAt;
+  }
+
+  /**
+   * A player counts as "done" for a question if they either:
+   * - Explicitly locked in, OR
+   * - Their personal timer has expired (base + any freeze bonus)
+   *
+   * This matters when some players have freeze_time bonus:
+   * Player A (no bonus) times out → they're "done"
+   * Player B (freeze bonus) still has time → NOT done yet
+   * → We should NOT force-close until Player B also finishes.
+   */
+  function isPlayerDoneForQuestion(p: Player, room: Room): boolean {
+    if (p.lockedIn) return true;
+    if (!room.currentQuestion) return true;
+
+    const bonusMs = room.currentQuestion.freezeBonus.get(p.playerId) || 0;
+    const playerEndsAt = room.currentQuestion.endsAt + bonusMs;
+    return clock.now() >= playerEndsAt;
+  }
+
+  function allActivePlayersDone(room: Room): boolean {
+    const active = activePlayersForQuestion(room);
+    if (active.length === 0) return false;
+    return active.every((p) => isPlayerDoneForQuestion(p, room));
+  }
+
+  function maybeForceCloseIfAllLocked(room: Room) {
+    if (!room.currentQuestion) return;
+    if (room.currentQuestion.locked) return;
+    if (room.phase !== 'question' && room.phase !== 'boss') return;
+    if (room.currentQuestion.forcedRevealAt) return;
+    if (room.pausedAt !== undefined) return;
+
+    if (allActivePlayersDone(room)) {
+      room.currentQuestion.forcedRevealAt = clock.now();
+      logger.info(`  🔒 All active players done — question ended early in room ${room.code}`);
+    }
+  }
+
+  function roomToPublic(room: Room): PublicRoomState {
+    const players = Array.from(room.playersById.values())
+      .map(toPublicPlayer)
+      .sort((a, b) => a.joinedAt - b.joinedAt);
+
+    const q = getCurrentQuestion(room);
+    const wagerQ =
+      room.wagerState && room.actState
+        ? room.actState.questions.find((qq) => qq.id === room.wagerState?.questionId)
+        : undefined;
+
+    const actInfo = room.actState
+      ? {
+          id: room.actState.actId,
+          name: room.actState.config.name,
+          emoji: room.actState.config.emoji,
+          description: room.actState.config.description,
+          kind: room.actState.config.kind,
+          heartsAtRisk: room.actState.config.heartsAtRisk || room.actState.config.heartsOnlyOnHard,
+          questionNumber: room.actState.questionIndex,
+          totalQuestions: room.actState.questions.length,
+          speedBonusMax: room.actState.config.speedBonusMax,
+        }
+      : undefined;
+
+    return {
+      code: room.code,
+      createdAt: room.createdAt,
+      phase: room.phase,
+      config: room.config,
+      players,
+      currentQuestion:
+        q && room.currentQuestion
+          ? {
+              question: toPublicQuestion(q),
+              countdownEndsAt: room.currentQuestion.countdownEndsAt,
+              startedAt: room.currentQuestion.startedAt,
+              endsAt: room.currentQuestion.endsAt,
+              locked: room.currentQuestion.locked,
+              revealAt: computeRevealAt(room),
+              blackoutUntil: room.currentQuestion.blackoutUntil,
+              revealedAnswer: room.currentQuestion.locked ? correctAnswerOf(q) : undefined,
+              distribution: room.currentQuestion.locked ? answerDistribution(room, q) : undefined,
+            }
+          : undefined,
+      wager:
+        room.wagerState && wagerQ
+          ? (() => {
+              const stage = room.wagerState!.stage;
+              const idx = wagerStageIndex(stage);
+              return {
+                open: room.phase === 'wager' && !room.wagerState!.locked,
+                endsAt: room.wagerState!.endsAt,
+                locked: room.wagerState!.locked,
+                stage,
+                noDecreases: idx >= 3,
+                category: idx >= 1 ? wagerQ.category : undefined,
+                hint: idx >= 2 ? wagerQ.hint : undefined,
+                translations:
+                  idx >= 1 && wagerQ.translations
+                    ? Object.fromEntries(
+                        Object.entries(wagerQ.translations).map(([tag, t]) => [
+                          tag,
+                          { category: t.category, hint: idx >= 2 ? t.hint : undefined },
+                        ])
+                      )
+                    : undefined,
+                totalWagered: Array.from(room.wagerState!.wagersByPlayerId.values()).reduce(
+                  (sum, v) => sum + v,
+                  0
+                ),
+                spotlight: room.phase === 'wager' ? room.wagerState!.spotlight : undefined,
+              };
+            })()
+          : undefined,
+      shop: {
+        open: room.shopOpen,
+        items: getShopItemsForAct(room),
+      },
+      boss: room.boss,
+      remainingQuestions: getActRemainingQuestions(room),
+      currentAct: actInfo,
+      paused: room.pausedAt !== undefined,
+      autopilot: room.autopilotStep && {
+        action: room.autopilotStep.action,
+        at: room.autopilotStep.at,
+      },
+    };
+  }
+
+  function broadcastRoom(io: GameServer, room: Room) {
+    touchRoom(room);
+    armAutopilot(room, io);
+    if (room.phase === 'ended' && !room.profileStatsRecorded) recordProfileStats(room);
+    io.to(room.code).emit('room:state', roomToPublic(room));
+    if (room.hostSocketId) {
+      io.to(room.hostSocketId).emit(
+        'host:state',
+        roomToHost(room, questionHistory.seen(roomHistoryKey(room)))
+      );
+    }
+    persistRoom(room);
+  }
+
+  /** Add the ended game to the lifetime stats of every player who joined with a profile */
+  function recordProfileStats(room: Room) {
+    room.profileStatsRecorded = true;
+    const standings = getStandings(room);
+
+    for (const p of room.playersById.values()) {
+      const profile = p.profileId ? profiles.get(p.profileId) : undefined;
+      if (!profile) continue;
+
+      const answers = room.results.flatMap((r) =>
+        r.answers
+          .filter((a) => a.playerId === p.playerId && a.answer !== null)
+          .map((a) => ({ ...a, category: r.category }))
+      );
+      const correct = answers.filter((a) => a.correct);
+      profiles.save({
+        ...profile,
+        stats: addGameToStats(profile.stats, {
+          won: standings.find((s) => s.playerId === p.playerId)?.rank === 1,
+          questionsAnswered: answers.length,
+          correctAnswers: correct.length,
+          correctCategories: correct.map((a) => a.category),
+          bossDefeated: !!room.boss && room.boss.hp <= 0 && !p.eliminated,
+          allInsWon: p.allInsWon ?? 0,
+        }),
+      });
+    }
+    logger.info({ code: room.code }, 'Profile stats recorded');
+  }
+
+  /** Snapshot a room to the store (timers are dropped and re-armed on restore) */
+  function persistRoom(room: Room) {
+    roomStore.save(room.code, serializeSnapshot(room, TRANSIENT_ROOM_KEYS));
+  }
+
+  /**
+   * Rehydrate persisted rooms after a restart.
+   * Sockets are gone, so everyone starts disconnected and reattaches via `room:resume`
+   * with their existing hostKey / playerId. Countdown and wager timers are re-armed
+   * from the absolute timestamps stored on the room; autopilot re-plans from the
+   * room's state (a dwell starts over).
+   */
+  function restoreRooms(io: GameServer): number {
+    let restored = 0;
+
+    for (const { code, json } of roomStore.loadAll()) {
+      try {
+        const room = deserializeSnapshot<Room>(json);
+        if (!room || room.code !== code || !(room.playersById instanceof Map)) {
+          throw new Error('Malformed room snapshot');
+        }
+
+        room.lastActivityAt = clock.now();
+        room.hostSocketId = null;
+        room.socketToPlayerId = new Map();
+        room.countdownTimer = undefined;
+        // Snapshots from before rulesets / run plans / newer config fields existed
+        room.config = { ...DEFAULT_CONFIG, ...room.config };
+        room.ruleset ??= getPackRuleset(room.packId);
+        room.packMix ??= [];
+        room.packMixRevisions ??= {};
+        // Only the current revision of each pack survives a restart
+        for (const [packId, revision] of [
+          [room.packId, room.packRevision],
+          ...Object.entries(room.packMixRevisions),
+        ]) {
+          if (!packId || (revision && hasPackRevision(packId, revision))) continue;
+          if (revision) {
+            logger.warn(
+              { code, packId, revision },
+              'question pack changed while the server was down — room continues with the current revision'
+            );
+          }
+          const current = getPackRevision(packId);
+          if (packId === room.packId) room.packRevision = current;
+          else if (current) room.packMixRevisions[packId] = current;
+        }
+        room.dealtQuestionIds ??= [];
+        room.results ??= [];
+        room.pendingJoins ??= [];
+        for (const j of room.pendingJoins) j.connected = false;
+        room.plan ??= buildDefaultPlan(room);
+        room.planIndex ??= room.actState
+          ? room.plan.findIndex((step) => step.actId === room.actState!.actId)
+          : -1;
+        // ...and from before question types (multiple choice only, answers as bare indexes)
+        for (const q of [...(room.actState?.questions ?? []), ...room.questionDeck]) {
+          q.type ??= 'multiple_choice';
+        }
+        for (const [playerId, ans] of room.currentQuestion?.answersByPlayerId ?? []) {
+          if (typeof ans === 'number') {
+            room.currentQuestion!.answersByPlayerId.set(playerId, { answerIndex: ans });
+          }
+        }
+        for (const [playerId, p] of room.playersById) {
+          // Without a session token nobody can prove they're this player — leave them out
+          if (!p.sessionToken) {
+            room.playersById.delete(playerId);
+            logger.warn({ code, playerId }, 'restored player has no session token — dropped');
+            continue;
+          }
+          p.connected = false;
+          p.locale ??= DEFAULT_LOCALE;
+        }
+        if (room.wagerState) room.wagerState.stageTimers = {};
+
+        rooms.set(code, room);
+        armCountdownTimer(room, io);
+        armWagerTimers(room, io);
+        armAutopilot(room, io);
+        restored++;
+      } catch (e) {
+        logger.error(
+          { code, error: e instanceof Error ? e.message : String(e) },
+          'Failed to restore room — discarding snapshot'
+        );
+        roomStore.delete(code);
+      }
+    }
+
+    if (restored > 0) logger.info({ restored }, 'Rooms restored from store');
+    return restored;
+  }
+
+  function requireRoom(code: string): Room {
+    const room = rooms.get(code);
+    if (!room) throw new Error('Room not found.');
+    return room;
+  }
+
+  function roomHistoryKey(room: Room) {
+    return historyKey(room.code, room.config.historyGroup);
+  }
+
+  function startQuestion(
+    room: Room,
+    q: Question,
+    io: GameServer,
+    opts?: { durationOverrideMs?: number; blackoutUntil?: number }
+  ) {
+    admitLateJoiners(room);
+    const now = clock.now();
+    const durationMs = opts?.durationOverrideMs ?? getQuestionDurationMs(room);
+    const countdownMs = room.config.countdownMs;
+    const countdownEndsAt = now + countdownMs;
+
+    // Reset per-question flags
+    for (const p of room.playersById.values()) {
+      p.lockedIn = false;
+    }
+
+    // Phase starts as countdown — question timer begins after countdown
+    room.phase = 'countdown';
+    room.currentQuestion = {
+      questionId: q.id,
+      countdownEndsAt,
+      startedAt: countdownEndsAt, // timer starts when countdown ends
+      endsAt: countdownEndsAt + durationMs,
+      blackoutUntil: opts?.blackoutUntil,
+      answersByPlayerId: new Map(),
+      lockinTimeByPlayerId: new Map(),
+      freezeBonus: new Map(),
+      locked: false,
+      forcedRevealAt: undefined,
+    };
+    questionHistory.record(roomHistoryKey(room), [q.id]);
+
+    armCountdownTimer(room, io);
+  }
+
+  /**
+   * Start a run plan step: its act and first question (or wager window). Boss
+   * acts also get fresh boss state so the room enters the 'boss' phase.
+   */
+  function beginPlanStep(room: Room, index: number, io: GameServer) {
+    const step = room.plan[index];
+    const act = step && getActConfig(room, step.actId);
+    if (!act) throw new Error('The run plan has no more acts.');
+
+    // Deal before touching the room, so a step that can't start leaves it as it was
+    const seen = room.config.preferUnseen ? questionHistory.seen(roomHistoryKey(room)) : undefined;
+    const questions = drawActQuestions(room, act.id, step.questionCount, seen);
+    if (questions.length === 0) throw new Error(`No questions available for ${act.name}.`);
+
+    room.planIndex = index;
+    startAct(room, act, questions);
+
+    if (act.kind === 'boss') {
+      room.boss = {
+        hp: room.config.bossHp,
+        maxHp: room.config.bossHp,
+        questionIds: room.actState!.questions.map((qq) => qq.id),
+        startedAt: clock.now(),
+      };
+    } else {
+      room.boss = undefined;
+    }
+
+    // Auto-start the first question
+    const q = nextQuestion(room)!;
+    if (act.kind === 'wager') {
+      startWager(room, q, io);
+    } else {
+      startQuestion(room, q, io);
+    }
+  }
+
+  /** Auto-transition to question/boss phase when the current countdown ends */
+  function armCountdownTimer(room: Room, io: GameServer) {
+    if (room.countdownTimer) {
+      clock.clearTimeout(room.countdownTimer);
+      room.countdownTimer = undefined;
+    }
+
+    const cq = room.currentQuestion;
+    if (room.phase !== 'countdown' || !cq || room.pausedAt !== undefined) return;
+
+    const questionId = cq.questionId;
+    const delayMs = Math.max(0, (cq.countdownEndsAt ?? cq.startedAt) - clock.now());
+
+    room.countdownTimer = clock.setTimeout(() => {
+      room.countdownTimer = undefined;
+      // Guard: only transition if still in countdown for this question
+      if (room.phase !== 'countdown') return;
+      if (room.currentQuestion?.questionId !== questionId) return;
+
+      room.phase = room.boss ? 'boss' : 'question';
+      broadcastRoom(io, room);
+      logger.info(`  ▶ Countdown finished — question live in room ${room.code}`);
+    }, delayMs);
+  }
+
+  function clearWagerTimers(room: Room) {
+    const st = room.wagerState?.stageTimers;
+    if (!st) return;
+    for (const key of Object.keys(st) as (keyof NonNullable<WagerState['stageTimers']>)[]) {
+      const t = st[key];
+      if (t) clock.clearTimeout(t);
+    }
+    room.wagerState!.stageTimers = {};
+  }
+
+  function sendWagerPerksIfNeeded(room: Room, p: Player, io: GameServer) {
+    if (!isActKind(room, 'wager')) return;
+    const ws = room.wagerState;
+    if (!ws) return;
+    const q = room.actState?.questions.find((qq) => qq.id === ws.questionId);
+    if (!q) return;
+
+    // Extra hint unlocks at REDLINE for Bold+
+    if (room.phase === 'wager' && wagerStageIndex(ws.stage) >= 3 && !p.eliminated) {
+      const w = ws.wagersByPlayerId.get(p.playerId) ?? p.wager ?? 0;
+      const tier = computeWagerTier(p.score, w);
+      if (tier.index >= 1) {
+        const text =
+          pickTranslation(q.translations, p.locale)?.extraHint ??
+          q.extraHint ??
+          translate(p.locale, 'wager.defaultExtraHint');
+        io.to(p.socketId).emit('wager:extra_hint', { text });
+      }
+    }
+
+    // 50/50 perk for High Roller+ (generated when wagers lock)
+    if (room.currentQuestion && room.currentQuestion.questionId === ws.questionId) {
+      const removed = ws.removedIndexesByPlayerId.get(p.playerId);
+      if (removed && removed.length > 0) {
+        io.to(p.socketId).emit('wager:fifty_fifty', { removedIndexes: removed });
+      }
+    }
+  }
+
+  function startWager(room: Room, q: Question, io: GameServer) {
+    admitLateJoiners(room);
+    const now = clock.now();
+
+    // Reset per-player wager state
+    for (const p of room.playersById.values()) {
+      p.wager = undefined;
+      p.wagerSubmitted = false;
+      p.wagerSwapUsed = undefined;
+    }
+
+    // Clear any old wager timers
+    if (room.wagerState?.stageTimers) clearWagerTimers(room);
+
+    room.phase = 'wager';
+    room.currentQuestion = undefined;
+    room.shopOpen = false;
+
+    room.wagerState = {
+      questionId: q.id,
+      startedAt: now,
+      endsAt: now + WAGER_DURATION_MS,
+      stage: 'blind',
+      locked: false,
+      wagersByPlayerId: new Map(),
+      removedIndexesByPlayerId: new Map(),
+      stageTimers: {},
+    };
+
+    armWagerTimers(room, io);
+
+    logger.info({ code: room.code }, '🎰 wager phase started (redline)');
+  }
+
+  /**
+   * (Re)arm the redline timeline from the wager window's start time.
+   * Only stages that haven't been reached yet get a timer, so this is safe to call
+   * after a restart — overdue beats fire immediately, in order.
+   */
+  function armWagerTimers(room: Room, io: GameServer) {
+    const ws = room.wagerState;
+    if (!ws || ws.locked || room.pausedAt !== undefined) return;
+
+    clearWagerTimers(room);
+    ws.stageTimers = {};
+
+    const questionId = ws.questionId;
+    const stageIdx = wagerStageIndex(ws.stage);
+    const delayUntil = (offsetMs: number) => Math.max(0, ws.startedAt + offsetMs - clock.now());
+    const isStillOpen = () =>
+      !!room.wagerState && room.wagerState.questionId === questionId && !room.wagerState.locked;
+
+    if (stageIdx < 1) {
+      ws.stageTimers.category = clock.setTimeout(() => {
+        if (!isStillOpen()) return;
+        room.wagerState!.stage = 'category';
+        broadcastRoom(io, room);
+      }, delayUntil(WAGER_CATEGORY_OFFSET_MS));
+    }
+
+    if (stageIdx < 2) {
+      ws.stageTimers.hint = clock.setTimeout(() => {
+        if (!isStillOpen()) return;
+        room.wagerState!.stage = 'hint';
+        broadcastRoom(io, room);
+      }, delayUntil(WAGER_HINT_OFFSET_MS));
+    }
+
+    if (stageIdx < 3) {
+      ws.stageTimers.redline = clock.setTimeout(() => {
+        if (!isStillOpen()) return;
+        room.wagerState!.stage = 'redline';
+
+        // Unlock extra hint for Bold+ immediately (private per player)
+        for (const p of room.playersById.values()) {
+          if (!p.connected || p.eliminated) continue;
+          sendWagerPerksIfNeeded(room, p, io);
+        }
+
+        broadcastRoom(io, room);
+      }, delayUntil(WAGER_REDLINE_OFFSET_MS));
+    }
+
+    if (stageIdx < 4) {
+      ws.stageTimers.closing = clock.setTimeout(() => {
+        if (!isStillOpen()) return;
+        room.wagerState!.stage = 'closing';
+        io.to(room.code).emit('wager:siren');
+        broadcastRoom(io, room);
+      }, delayUntil(WAGER_CLOSING_OFFSET_MS));
+    }
+
+    ws.stageTimers.lock = clock.setTimeout(
+      () => lockWagers(room, io),
+      delayUntil(WAGER_DURATION_MS)
+    );
+  }
+
+  function lockWagers(room: Room, io: GameServer) {
+    const ws = room.wagerState;
+    if (!ws) return;
+    if (ws.locked) return;
+    const q = room.actState?.questions.find((qq) => qq.id === ws.questionId);
+    if (!q) return;
+
+    ws.locked = true;
+    ws.stage = 'locked';
+
+    // Stop timeline timers
+    if (ws.stageTimers) {
+      for (const key of Object.keys(ws.stageTimers) as (keyof NonNullable<
+        WagerState['stageTimers']
+      >)[]) {
+        const t = ws.stageTimers[key];
+        if (t) clock.clearTimeout(t);
+      }
+      ws.stageTimers = {};
+    }
+
+    // Compute spotlight + perks
+    const alive = Array.from(room.playersById.values()).filter((p) => !p.eliminated);
+    const entries: WagerSpotlightEntry[] = [];
+    let totalWagered = 0;
+    let allInCount = 0;
+    let noBetCount = 0;
+
+    for (const p of alive) {
+      const beforeScore = Math.max(0, p.score);
+      const rawW = ws.wagersByPlayerId.get(p.playerId) ?? 0;
+      const wager = Math.max(0, Math.min(Math.floor(rawW), beforeScore));
+      totalWagered += wager;
+
+      if (wager <= 0) noBetCount++;
+
+      const tier = computeWagerTier(beforeScore, wager);
+      if (tier.tier === 'ALL_IN') allInCount++;
+
+      if (wager > 0) {
+        entries.push({
+          playerId: p.playerId,
+          name: p.name,
+          wager,
+          score: beforeScore,
+          ratio: tier.ratio,
+          tier: tier.tier,
+        });
+      }
+
+      // Reset swap for upcoming question
+      p.wagerSwapUsed = false;
+
+      // Pre-generate 50/50 perk for High Roller+ (stored so reconnects get same removal)
+      if (tier.index >= 2 && q.type === 'multiple_choice') {
+        const wrong = q.choices.map((_, idx) => idx).filter((idx) => idx !== q.answerIndex);
+        const removed = shuffle(wrong).slice(0, 2);
+        ws.removedIndexesByPlayerId.set(p.playerId, removed);
+      }
+    }
+
+    // Biggest bet / top risk takers
+    const sorted = [...entries].sort((a, b) => {
+      if (b.ratio !== a.ratio) return b.ratio - a.ratio;
+      return b.wager - a.wager;
+    });
+
+    const spotlight: WagerSpotlightPayload = {
+      totalWagered,
+      allInCount,
+      noBetCount,
+      biggest: sorted[0],
+      topRisk: sorted.slice(0, 3),
+    };
+
+    ws.spotlight = spotlight;
+    io.to(room.code).emit('wager:spotlight', spotlight);
+    broadcastRoom(io, room);
+
+    // ✅ Host-controlled: the spotlight stays up until the host triggers wager:spotlight_end
+    // (or autopilot does, after its dwell). The wager question starts when the spotlight ends.
+  }
+
+  /* ── Transitions (the host's events, or autopilot on a timer) ── */
+
+  /** Score the current question once every player is done, and tell each player how they did */
+  function revealQuestion(room: Room, io: GameServer) {
+    requireRunning(room);
+    if (!room.currentQuestion) throw new Error('No active question.');
+    if (room.phase !== 'question' && room.phase !== 'boss') {
+      throw new Error('Not in a revealable phase.');
+    }
+    if (room.currentQuestion.locked) throw new Error('Already revealed.');
+
+    const revealAt = computeRevealAt(room);
+    if (clock.now() < revealAt) throw new Error('Players are still answering.');
+    const results = revealAndScore(room);
+    recordResults(room, getCurrentQuestion(room)!, results);
+    maybeEnd(room);
+
+    // Private per-player feedback on reveal
+    for (const p of room.playersById.values()) {
+      const payload = results.get(p.playerId);
+      if (!payload) continue;
+      io.to(p.socketId).emit('player:reveal', payload);
+    }
+  }
+
+  /** Deal the act's next question (or wager) — or finish the act, or the game */
+  function advanceQuestion(room: Room, io: GameServer) {
+    requireRunning(room);
+    room.currentQuestion = undefined;
+    room.shopOpen = false;
+    // Clear wager state between questions
+    room.wagerState = undefined;
+    for (const p of room.playersById.values()) {
+      p.wager = undefined;
+      p.wagerSubmitted = false;
+      p.wagerSwapUsed = undefined;
+    }
+
+    if (room.boss && room.boss.hp <= 0) {
+      room.phase = 'ended';
+      return;
+    }
+
+    const q = nextQuestion(room);
+    if (!q) {
+      // Last step of the run plan finished — that's the game
+      if (room.actState && room.planIndex >= room.plan.length - 1) {
+        room.phase = 'ended';
+        logger.info(`  🏁 Run plan complete in room ${room.code}`);
+        return;
+      }
+      // Act is finished — go to intermission so host can open shop or start next act
+      if (room.actState) {
+        room.phase = 'intermission';
+        logger.info(`  🏁 Act "${room.actState.config.name}" finished in room ${room.code}`);
+        return;
+      }
+      room.phase = 'ended';
+      return;
+    }
+
+    if (isActKind(room, 'wager')) {
+      startWager(room, q, io);
+    } else {
+      startQuestion(room, q, io);
+    }
+  }
+
+  /**
+   * Start the run plan's next step, from the lobby or once the current act is over.
+   * `act` is the act the host picked, which has to be the one the plan says is next.
+   */
+  function startNextPlanStep(room: Room, io: GameServer, act?: ActConfig) {
+    requireRunning(room);
+    // Can only advance to next act from intermission (or shop during intermission)
+    if (room.actState) {
+      if (room.phase !== 'intermission' && room.phase !== 'shop') {
+        throw new Error('Finish the current act first before starting the next one.');
+      }
+    }
+
+    // The run plan decides what comes next
+    const nextIndex = room.planIndex + 1;
+    const next = room.plan[nextIndex];
+    if (!next) throw new Error('The run plan is complete.');
+    if (act && next.actId !== act.id) {
+      const nextName = getActConfig(room, next.actId)?.name ?? next.actId;
+      throw new Error(`Next up in the run plan is ${nextName}, not ${act.name}.`);
+    }
+
+    room.shopOpen = false;
+    beginPlanStep(room, nextIndex, io);
+  }
+
+  /** Take down the wager spotlight and start the wager question */
+  function endWagerSpotlight(room: Room, io: GameServer) {
+    requireRunning(room);
+    const ws = room.wagerState;
+    if (room.phase !== 'wager' || !ws) throw new Error('Not in wager spotlight.');
+    if (!ws.locked || ws.stage !== 'locked') throw new Error('Spotlight is not active.');
+    if (room.currentQuestion) throw new Error('Wager question already started.');
+
+    const q = room.actState?.questions.find((qq) => qq.id === ws.questionId);
+    if (!q) throw new Error('Wager question not found.');
+
+    // Start the wager question (on the act's own, longer timer)
+    startQuestion(room, q, io);
+
+    // Deliver per-player perks (50/50, extra hint if applicable) now that the question exists
+    for (const p of room.playersById.values()) {
+      if (!p.connected) continue;
+      sendWagerPerksIfNeeded(room, p, io);
+    }
+  }
+
+  /* ── Late joins ── */
+
+  /** Bring the late joiners the host has admitted into the game (at a question boundary) */
+  function admitLateJoiners(room: Room) {
+    const admitted = room.pendingJoins.filter((j) => j.admitted);
+    if (admitted.length === 0) return;
+    room.pendingJoins = room.pendingJoins.filter((j) => !j.admitted);
+
+    for (const j of admitted) {
+      const { lives, coins, score } = j.admitted!;
+      room.playersById.set(j.playerId, {
+        playerId: j.playerId,
+        socketId: j.socketId,
+        sessionToken: j.sessionToken,
+        name: j.name,
+        isHost: false,
+        connected: j.connected,
+        joinedAt: clock.now(),
+        locale: j.locale,
+        profileId: j.profileId,
+        avatar: j.avatar,
+        lives,
+        score,
+        coins,
+        eliminated: false,
+        inventory: {},
+        lockedIn: false,
+        buffs: { doublePoints: false, shield: false },
+      });
+      if (j.connected) room.socketToPlayerId.set(j.socketId, j.playerId);
+      logger.info(`  🚪 ${j.name} joined late in room ${room.code}`);
+    }
+  }
+
+  function requireJoinRequest(room: Room, requestId: string): PendingJoin {
+    const request = room.pendingJoins.find((j) => j.requestId === requestId);
+    if (!request) throw new Error('Join request not found.');
+    return request;
+  }
+
+  /* ── Pause ── */
+
+  function requireRunning(room: Room) {
+    if (room.pausedAt !== undefined) throw new Error('The game is paused.');
+  }
+
+  /** Stop the room's clock: its timers are cleared, and nobody can answer or move on */
+  function pauseGame(room: Room) {
+    if (room.phase === 'lobby' || room.phase === 'ended')
+      throw new Error('The game is not running.');
+    if (room.pausedAt !== undefined) throw new Error('The game is already paused.');
+
+    room.pausedAt = clock.now();
+    if (room.countdownTimer) {
+      clock.clearTimeout(room.countdownTimer);
+      room.countdownTimer = undefined;
+    }
+    clearWagerTimers(room);
+    cancelAutopilot(room);
+    logger.info({ code: room.code }, '⏸ game paused');
+  }
+
+  /**
+   * Start the clock again: every pending deadline moves on by the time spent
+   * paused (freeze bonuses are offsets from `endsAt`, so they move with it), and
+   * the countdown and wager timers are re-armed.
+   */
+  function resumeGame(room: Room, io: GameServer) {
+    if (room.pausedAt === undefined) throw new Error('The game is not paused.');
+    const pausedMs = clock.now() - room.pausedAt;
+    room.pausedAt = undefined;
+
+    const cq = room.currentQuestion;
+    if (cq && !cq.locked) {
+      if (cq.countdownEndsAt !== undefined) cq.countdownEndsAt += pausedMs;
+      cq.startedAt += pausedMs;
+      cq.endsAt += pausedMs;
+      if (cq.blackoutUntil !== undefined) cq.blackoutUntil += pausedMs;
+      if (cq.forcedRevealAt !== undefined) cq.forcedRevealAt += pausedMs;
+      // Lock-in times count from startedAt (speed bonus), so they keep their offset
+      for (const [playerId, at] of cq.lockinTimeByPlayerId) {
+        cq.lockinTimeByPlayerId.set(playerId, at + pausedMs);
+      }
+    }
+    const ws = room.wagerState;
+    if (ws && !ws.locked) {
+      ws.startedAt += pausedMs;
+      ws.endsAt += pausedMs;
+    }
+
+    armCountdownTimer(room, io);
+    armWagerTimers(room, io);
+    logger.info({ code: room.code, pausedMs }, '▶ game resumed');
+  }
+
+  /* ── Autopilot ── */
+
+  /**
+   * The transition autopilot makes from the room's current state, and when — or
+   * null to wait (the lobby, countdowns, open wagers and the end have nothing to
+   * drive). `key` names the state, so re-planning the same state keeps its timer.
+   */
+  function planAutopilot(room: Room): { action: AutopilotAction; at: number; key: string } | null {
+    if (!room.config.autopilot || room.pausedAt !== undefined) return null;
+    const dwellUntil = clock.now() + room.config.autopilotDwellMs;
+    const step = `${room.planIndex}:${room.actState?.questionIndex ?? 0}`;
+    const cq = room.currentQuestion;
+
+    switch (room.phase) {
+      case 'question':
+      case 'boss': {
+        if (!cq || cq.locked) return null;
+        // Freeze Time and everyone locking in move the reveal, so it's part of the key
+        const revealAt = computeRevealAt(room);
+        return { action: 'reveal', at: revealAt, key: `reveal:${cq.questionId}:${revealAt}` };
+      }
+      case 'reveal':
+        return { action: 'next', at: dwellUntil, key: `reveal:${step}` };
+      case 'wager': {
+        const ws = room.wagerState;
+        if (!ws?.locked || cq) return null;
+        return { action: 'spotlight_end', at: dwellUntil, key: `spotlight:${ws.questionId}` };
+      }
+      case 'intermission':
+        return {
+          action: room.config.autopilotShopMs > 0 ? 'shop' : 'act',
+          at: dwellUntil,
+          key: `intermission:${step}`,
+        };
+      case 'shop':
+        return {
+          action: isActFinished(room) ? 'act' : 'next',
+          at: clock.now() + (room.config.autopilotShopMs || room.config.autopilotDwellMs),
+          key: `shop:${step}`,
+        };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * (Re)schedule autopilot for the room's current state. Runs on every broadcast,
+   * so when the host makes a transition by hand, autopilot carries on from there.
+   */
+  function armAutopilot(room: Room, io: GameServer) {
+    const planned = planAutopilot(room);
+    if (planned && room.autopilotStep?.key === planned.key) return;
+
+    cancelAutopilot(room);
+    if (!planned) return;
+    const timer = clock.setTimeout(
+      () => runAutopilot(room, io, planned.key),
+      Math.max(0, planned.at - clock.now())
+    );
+    room.autopilotStep = { ...planned, timer };
+  }
+
+  function cancelAutopilot(room: Room) {
+    if (room.autopilotStep) clock.clearTimeout(room.autopilotStep.timer);
+    room.autopilotStep = undefined;
+  }
+
+  function runAutopilot(room: Room, io: GameServer, key: string) {
+    if (rooms.get(room.code) !== room || room.autopilotStep?.key !== key) return;
+    const { action } = room.autopilotStep;
+    room.autopilotStep = undefined;
+
+    try {
+      if (action === 'reveal') revealQuestion(room, io);
+      else if (action === 'next') advanceQuestion(room, io);
+      else if (action === 'shop') openShop(room, true);
+      else if (action === 'act') startNextPlanStep(room, io);
+      else endWagerSpotlight(room, io);
+      logger.info({ code: room.code, action }, 'autopilot');
+    } catch (e) {
+      // Retrying would fail the same way — hand the room back to the host, saying why
+      const message = e instanceof Error ? e.message : String(e);
+      room.config = { ...room.config, autopilot: false };
+      room.autopilotError = { action, message, at: clock.now() };
+      logger.warn(
+        { code: room.code, action, error: message },
+        'autopilot step failed — switched off'
+      );
+    }
+    broadcastRoom(io, room);
+  }
+
+  // ── Rate limiting middleware ──
+  // Uses wall-clock time on purpose: it guards the socket, not the game.
+  const socketEventCounts = new Map<string, { count: number; resetAt: number }>();
+
+  if (rateLimit) {
+    io.use((socket, next) => {
+      socket.onAny(() => {
+        const now = Date.now();
+        let entry = socketEventCounts.get(socket.id);
+        if (!entry || now >= entry.resetAt) {
+          entry = { count: 0, resetAt: now + rateLimit.windowMs };
+          socketEventCounts.set(socket.id, entry);
+        }
+        entry.count++;
+        if (entry.count > rateLimit.maxEvents) {
+          logger.warn({ socketId: socket.id }, 'rate limit exceeded — disconnecting');
+          socket.disconnect(true);
+        }
+      });
+      next();
+    });
+  }
+
+  io.on('connection', (socket) => {
+    logger.info({ socketId: socket.id }, 'socket connected');
+
+    socket.onAny((event) => {
+      logger.info('event', event, 'from', socket.id);
+    });
+
+    // ── Payload validation: every event is checked against its schema before any handler runs ──
+    socket.use((packet, next) => {
+      const [event, payload] = packet;
+      const ack = packet.findLast((arg: unknown) => typeof arg === 'function') as
+        | ((res: Ack<never>) => void)
+        | undefined;
+
+      const schema = CLIENT_EVENT_SCHEMAS[event as ClientEvent] as Schema<unknown> | undefined;
+      const result = schema
+        ? schema(payload, 'payload')
+        : { ok: false as const, error: 'Unknown event.' };
+
+      if (!result.ok) {
+        logger.warn(
+          { socketId: socket.id, event, error: result.error },
+          'rejected invalid payload'
+        );
+        ack?.({ ok: false, error: `Invalid request: ${result.error}`, code: 'INVALID_PAYLOAD' });
+        return;
+      }
+
+      // Handlers receive the normalized (trimmed) payload
+      packet[1] = result.value;
+      next();
+    });
+
+    // Clean up rate limit entry on disconnect
+    socket.on('disconnect', () => {
+      socketEventCounts.delete(socket.id);
+    });
+
+    /* ── Room: Create ── */
+    socket.on('room:create', (payload, ack) => {
+      try {
+        const hostName = (payload?.hostName || '').trim().slice(0, 20);
+        if (!hostName) return ack({ ok: false, error: 'Host name is required.' });
+
+        if (!hasAnyPacks()) return ack({ ok: false, error: 'No question packs loaded.' });
+
+        const packId = (payload?.packId || '').trim() || getDefaultPackId();
+        if (!packId) return ack({ ok: false, error: 'No question pack available.' });
+        if (!getPack(packId)) return ack({ ok: false, error: 'Unknown question pack.' });
+
+        let code = makeCode();
+        for (let i = 0; i < 10 && rooms.has(code); i++) code = makeCode();
+
+        const hostKey = nanoid(24);
+
+        const room: Room = {
+          code,
+          createdAt: clock.now(),
+          lastActivityAt: clock.now(),
+          hostKey,
+          hostSocketId: socket.id,
+          phase: 'lobby',
+          config: { ...DEFAULT_CONFIG },
+          packId,
+          packRevision: getPackRevision(packId),
+          packMix: [],
+          packMixRevisions: {},
+          ruleset: getPackRuleset(packId),
+          plan: [],
+          planIndex: -1,
+          dealtQuestionIds: [],
+          playersById: new Map(),
+          socketToPlayerId: new Map(),
+          actState: null,
+          questionDeck: [],
+          questionIndex: 0,
+          currentQuestion: undefined,
+          shopOpen: false,
+          boss: undefined,
+          pendingRevive: undefined,
+          pendingJoins: [],
+          results: [],
+        };
+
+        room.plan = buildDefaultPlan(room);
+
+        rooms.set(code, room);
+        socketToRoomCode.set(socket.id, code);
+        socket.join(code);
+        logger.info(`Room ${code} created by host "${hostName}" (pack: ${packId})`);
+
+        ack({ ok: true, data: { room: roomToPublic(room), hostKey } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Room: Join ── */
+    socket.on('room:join', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const profileToken = (payload?.profileToken || '').trim();
+        const profile = profileToken ? profiles.byToken(profileToken) : undefined;
+        if (profileToken && !profile) {
+          return ack({ ok: false, error: 'Profile not found — sign in again.' });
+        }
+        // A profile plays under its own name
+        const name = (profile?.name ?? payload?.name ?? '').trim().slice(0, 20);
+        if (!code) return ack({ ok: false, error: 'Room code is required.' });
+        if (!name) return ack({ ok: false, error: 'Name is required.' });
+
+        const room = requireRoom(code);
+
+        // ── Join guards ──
+        if (seatsTaken(room) >= MAX_PLAYERS) {
+          return ack({ ok: false, error: `Room is full (max ${MAX_PLAYERS} players).` });
+        }
+
+        if (room.phase === 'ended') return ack({ ok: false, error: 'The game is over.' });
+
+        // Late joiners count too, so nobody gets let in twice
+        const everyone = [...room.playersById.values(), ...room.pendingJoins];
+        if (profile && everyone.some((p) => p.profileId === profile.id)) {
+          return ack({ ok: false, error: 'Your profile is already in this room.' });
+        }
+
+        const nameLower = name.toLowerCase();
+        const nameTaken = everyone.some((p) => p.name.toLowerCase() === nameLower);
+        if (nameTaken) {
+          return ack({
+            ok: false,
+            error: `"${name}" is already taken. Choose a different name.`,
+          });
+        }
+
+        // Once the game is running, the host decides (see join:admit)
+        if (room.phase !== 'lobby') {
+          const asked = room.pendingJoins.some((j) => j.socketId === socket.id);
+          if (asked || room.socketToPlayerId.has(socket.id)) {
+            return ack({ ok: false, error: 'You are already in this room.' });
+          }
+          if (room.pendingJoins.length >= MAX_PENDING_JOINS) {
+            return ack({
+              ok: false,
+              error: 'Too many players are waiting to join — try again in a moment.',
+            });
+          }
+          const request: PendingJoin = {
+            requestId: nanoid(8),
+            playerId: nanoid(12),
+            sessionToken: nanoid(32),
+            socketId: socket.id,
+            connected: true,
+            name,
+            locale: payload.locale ?? DEFAULT_LOCALE,
+            profileId: profile?.id,
+            avatar: profile?.avatar,
+            requestedAt: clock.now(),
+          };
+          room.pendingJoins.push(request);
+          socketToRoomCode.set(socket.id, code);
+          socket.join(code);
+          logger.info(`  🚪 ${name} asked to join room ${room.code} late`);
+
+          ack({
+            ok: true,
+            data: {
+              room: roomToPublic(room),
+              playerId: request.playerId,
+              sessionToken: request.sessionToken,
+              pending: true,
+            },
+          });
+          broadcastRoom(io, room);
+          return;
+        }
+
+        const playerId = nanoid(12);
+        const p: Player = {
+          playerId,
+          socketId: socket.id,
+          sessionToken: nanoid(32),
+          name,
+          isHost: false,
+          connected: true,
+          joinedAt: clock.now(),
+          locale: payload.locale ?? DEFAULT_LOCALE,
+          profileId: profile?.id,
+          avatar: profile?.avatar,
+          lives: room.config.maxLives,
+          score: 0,
+          coins: room.config.startingCoins,
+          eliminated: false,
+          inventory: {},
+          lockedIn: false,
+          buffs: { doublePoints: false, shield: false },
+        };
+
+        room.playersById.set(playerId, p);
+        room.socketToPlayerId.set(socket.id, playerId);
+        socketToRoomCode.set(socket.id, code);
+        socket.join(code);
+        touchRoom(room);
+
+        ack({
+          ok: true,
+          data: { room: roomToPublic(room), playerId, sessionToken: p.sessionToken },
+        });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Room: Resume ── */
+    socket.on('room:resume', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const sessionToken = (payload?.sessionToken || '').trim();
+        const hostKey = (payload?.hostKey || '').trim();
+        if (!code) return ack({ ok: false, error: 'Room code is required.' });
+
+        const room = requireRoom(code);
+
+        if (hostKey) {
+          requireHost(room, hostKey);
+          room.hostSocketId = socket.id;
+          socketToRoomCode.set(socket.id, code);
+          socket.join(code);
+          touchRoom(room);
+          ack({ ok: true, data: { room: roomToPublic(room), isHost: true } });
+          broadcastRoom(io, room);
+          return;
+        }
+
+        if (!sessionToken) return ack({ ok: false, error: 'sessionToken is required.' });
+
+        const p = Array.from(room.playersById.values()).find(
+          (other) => other.sessionToken === sessionToken
+        );
+        const request = room.pendingJoins.find((j) => j.sessionToken === sessionToken);
+        if (!p && request) {
+          // Still waiting on the host
+          request.socketId = socket.id;
+          request.connected = true;
+          socketToRoomCode.set(socket.id, code);
+          socket.join(code);
+          ack({
+            ok: true,
+            data: {
+              room: roomToPublic(room),
+              isHost: false,
+              playerId: request.playerId,
+              pending: true,
+            },
+          });
+          return;
+        }
+        if (!p) return ack({ ok: false, error: 'Session not found — join the room again.' });
+        // The socket they were on before no longer speaks for them
+        for (const [socketId, playerId] of room.socketToPlayerId) {
+          if (playerId === p.playerId) room.socketToPlayerId.delete(socketId);
+        }
+        p.socketId = socket.id;
+        p.connected = true;
+        room.socketToPlayerId.set(socket.id, p.playerId);
+        socketToRoomCode.set(socket.id, code);
+        socket.join(code);
+        touchRoom(room);
+        sendWagerPerksIfNeeded(room, p, io);
+
+        ack({ ok: true, data: { room: roomToPublic(room), isHost: false, playerId: p.playerId } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Player: Locale ── */
+    socket.on('player:locale', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        const p = requireSocketPlayer(room, socket.id);
+
+        p.locale = payload.locale;
+        // A perk already earned is re-sent in the new language
+        sendWagerPerksIfNeeded(room, p, io);
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Room: Watch (spectators / pre-join) ── */
+    socket.on('room:watch', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        if (!code) return ack({ ok: false, error: 'Room code is required.' });
+        const room = requireRoom(code);
+        socket.join(code);
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Room: Leave ── */
+    socket.on('room:leave', (payload) => {
+      const code = (payload?.code || '').trim().toUpperCase();
+      const room = rooms.get(code);
+      if (!room) return;
+      const playerId = room.socketToPlayerId.get(socket.id);
+      if (playerId) {
+        const p = room.playersById.get(playerId);
+        if (p) p.connected = false;
+      }
+      room.socketToPlayerId.delete(socket.id);
+      // A late joiner who gives up waiting withdraws their request
+      room.pendingJoins = room.pendingJoins.filter((j) => j.socketId !== socket.id);
+      socketToRoomCode.delete(socket.id);
+      socket.leave(code);
+      maybeEnd(room);
+      broadcastRoom(io, room);
+    });
+
+    /* ── Game: Configure ── */
+    socket.on('game:configure', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+        room.config = { ...room.config, ...(payload?.config || {}) };
+        if (payload.config.autopilot) room.autopilotError = undefined;
+        for (const p of room.playersById.values()) {
+          if (p.lives > room.config.maxLives) p.lives = room.config.maxLives;
+        }
+        // A new questions-per-act setting rescales the run plan's steps (until the game starts)
+        if (payload.config.questionsPerAct !== undefined && room.phase === 'lobby') {
+          room.plan = room.planEdited ? scalePlan(room, room.plan) : buildDefaultPlan(room);
+        }
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Game: Plan (host builds the run plan in the lobby) ── */
+    socket.on('game:plan', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+
+        if (room.phase !== 'lobby') throw new Error('The run plan is locked once the game starts.');
+        validateRunPlan(room, payload.plan);
+        room.plan = payload.plan;
+        room.planEdited = true;
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Game: Pack (host switches the question pack in the lobby) ── */
+    socket.on('game:pack', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+
+        if (room.phase !== 'lobby')
+          throw new Error('The question pack is locked once the game starts.');
+        const packId = payload.packId.trim();
+        if (!getPack(packId)) throw new Error('Unknown question pack.');
+
+        // A different pack may bring different acts, so the plan and mix start over
+        room.packId = packId;
+        room.packRevision = getPackRevision(packId);
+        room.packMix = [];
+        room.packMixRevisions = {};
+        room.ruleset = getPackRuleset(packId);
+        room.plan = buildDefaultPlan(room);
+        room.planEdited = false;
+        logger.info({ code, packId, revision: room.packRevision }, 'question pack switched');
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Game: Mix (host draws acts' questions from several packs, in the lobby) ── */
+    socket.on('game:mix', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+
+        if (room.phase !== 'lobby') throw new Error('The pack mix is locked once the game starts.');
+        validatePackMix(room, payload.mix);
+        room.packMix = payload.mix;
+        room.packMixRevisions = {};
+        for (const { packId } of payload.mix) {
+          const revision = getPackRevision(packId);
+          if (packId !== room.packId && revision) room.packMixRevisions[packId] = revision;
+        }
+        // The acts stay the same, so the host's plan stays too — as long as the
+        // mix still has the questions it needs
+        let planReset = false;
+        if (room.planEdited) {
+          try {
+            validateRunPlan(room, room.plan);
+          } catch {
+            planReset = true;
+          }
+        }
+        if (!room.planEdited || planReset) {
+          room.plan = buildDefaultPlan(room);
+          room.planEdited = false;
+        }
+        logger.info({ code, entries: payload.mix.length, planReset }, 'pack mix set');
+
+        ack({ ok: true, data: { room: roomToPublic(room), planReset } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── History: Clear (host forgets which questions the room / group has seen) ── */
+    socket.on('history:clear', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+
+        questionHistory.clear(roomHistoryKey(room));
+        logger.info({ code, key: roomHistoryKey(room) }, 'question history cleared');
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Act: Start ──
+     * Host starts the next act of the run plan. This deals that act's questions and begins
+     * the first one. Can be used from lobby (the first step) or from intermission/shop.
+     */
+    socket.on('act:start', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+        const act = getActConfig(room, payload?.actId);
+
+        if (!act) throw new Error('Invalid act.');
+        startNextPlanStep(room, io, act);
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Game: Start (legacy — starts the run plan's first step by default) ── */
+    socket.on('game:start', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+        requireRunning(room);
+
+        room.shopOpen = false;
+
+        // If no act is active, start the first step of the run plan
+        if (!room.actState) {
+          beginPlanStep(room, 0, io);
+        } else {
+          const q = nextQuestion(room);
+          if (!q) throw new Error('No questions available.');
+          startQuestion(room, q, io);
+        }
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Game: Pause / Resume ── */
+    socket.on('game:pause', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+        pauseGame(room);
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    socket.on('game:resume', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+        resumeGame(room, io);
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Wager: Set (players place/change wager) ── */
+    socket.on('wager:set', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        const p = requireSocketPlayer(room, socket.id);
+        requireRunning(room);
+        const amount = payload.amount;
+
+        if (room.phase !== 'wager' || !room.wagerState || room.wagerState.locked) {
+          throw new Error('Wagers are not open.');
+        }
+        if (clock.now() > room.wagerState.endsAt) throw new Error('Wager time is up.');
+        if (p.eliminated) throw new Error('You are eliminated.');
+
+        let wager = amount > 0 ? Math.min(Math.floor(amount), Math.max(0, p.score)) : 0;
+
+        // REDLINE: once we hit redline/closing, wagers can only increase or hold.
+        const prev = room.wagerState.wagersByPlayerId.get(p.playerId) ?? 0;
+        if (wagerStageIndex(room.wagerState.stage) >= 3 && wager < prev) {
+          wager = prev;
+        }
+
+        room.wagerState.wagersByPlayerId.set(p.playerId, wager);
+        p.wager = wager;
+        p.wagerSubmitted = true;
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Wager: Lock (host can lock wagers early) ── */
+    socket.on('wager:lock', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+        requireRunning(room);
+
+        if (room.phase !== 'wager' || !room.wagerState) throw new Error('Not in wager phase.');
+        lockWagers(room, io);
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+    /* ── Wager: Spotlight End (host controls when the spotlight finishes) ── */
+    socket.on('wager:spotlight_end', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+        endWagerSpotlight(room, io);
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Question: Reveal ── */
+    socket.on('question:reveal', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+        revealQuestion(room, io);
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Game: Results (host downloads what happened, once the game is over) ── */
+    socket.on('game:results', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+        if (room.phase !== 'ended') throw new Error('Results are ready once the game has ended.');
+
+        const results: GameResults = {
+          code: room.code,
+          packId: room.packId,
+          packName: getPack(room.packId, room.packRevision)?.name ?? room.packId,
+          exportedAt: clock.now(),
+          questions: room.results,
+          standings: getStandings(room),
+        };
+        ack({ ok: true, data: { results } });
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Question: Next ── */
+    socket.on('question:next', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+        advanceQuestion(room, io);
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Shop: Open / Close ── */
+    socket.on('shop:open', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+        requireRunning(room);
+        const open = !!payload?.open;
+
+        if (
+          open &&
+          room.phase !== 'reveal' &&
+          room.phase !== 'shop' &&
+          room.phase !== 'intermission'
+        ) {
+          throw new Error(
+            'Shop can only be opened after revealing an answer or during intermission.'
+          );
+        }
+
+        openShop(room, open);
+        // If we were in intermission and closing the shop, go back to intermission
+        if (!open && room.actState && isActFinished(room)) {
+          room.phase = 'intermission';
+        }
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Shop: Buy ── */
+    socket.on('shop:buy', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        const p = requireSocketPlayer(room, socket.id);
+        requireRunning(room);
+        const itemId = payload?.itemId;
+
+        if (!room.shopOpen) throw new Error('Shop is closed.');
+
+        const item = SHOP_ITEMS.find((i) => i.id === itemId);
+        if (!item) throw new Error('Invalid item.');
+
+        // Check item is available in the current act
+        const availableItems = getShopItemsForAct(room);
+        if (!availableItems.find((i) => i.id === itemId)) {
+          throw new Error(`${item.name} is not available in this act.`);
+        }
+
+        if (p.coins < item.cost) throw new Error('Not enough coins.');
+
+        p.coins -= item.cost;
+        p.inventory[item.id] = (p.inventory[item.id] || 0) + 1;
+
+        if (item.kind === 'passive') {
+          armPassiveBuff(p, item.id);
+        }
+
+        logger.info(`  ${p.name} bought ${item.name} (${item.kind})`);
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Item: Use (active items only) ── */
+    socket.on('item:use', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        const p = requireSocketPlayer(room, socket.id);
+        requireRunning(room);
+        const itemId = payload?.itemId;
+
+        const item = SHOP_ITEMS.find((i) => i.id === itemId);
+        if (!item) throw new Error('Invalid item.');
+        if (item.kind !== 'active')
+          throw new Error(`${item.name} is passive — it triggers automatically.`);
+
+        const count = p.inventory[itemId] || 0;
+        if (count <= 0) throw new Error('You do not own this item.');
+
+        if (room.phase !== 'question' && room.phase !== 'boss') {
+          throw new Error('Active items can only be used during a question.');
+        }
+
+        if (isActKind(room, 'wager')) {
+          throw new Error(`No items during ${room.actState!.config.name}.`);
+        }
+
+        const q = getCurrentQuestion(room);
+        if (!q || !room.currentQuestion) throw new Error('No active question.');
+
+        if (room.currentQuestion.locked) throw new Error('Question is locked.');
+        if (p.eliminated) throw new Error('You are eliminated.');
+        const isWagerRound = isActKind(room, 'wager');
+        const ws = room.wagerState;
+        const rawWager = ws ? (ws.wagersByPlayerId.get(p.playerId) ?? p.wager ?? 0) : 0;
+        const tier = computeWagerTier(p.score, rawWager);
+        const canFinalSwap =
+          isWagerRound && tier.tier === 'ALL_IN' && p.lockedIn && !p.wagerSwapUsed;
+        if (p.lockedIn && !canFinalSwap) throw new Error('Answer locked in.');
+
+        const bonusMs = room.currentQuestion.freezeBonus.get(p.playerId) || 0;
+        const playerEndsAt = room.currentQuestion.endsAt + bonusMs;
+        const revealAt = computeRevealAt(room);
+        const effectiveEndsAt = Math.min(playerEndsAt, revealAt);
+        if (clock.now() > effectiveEndsAt) throw new Error('Time is up.');
+
+        if (itemId === 'fifty_fifty') {
+          if (q.type !== 'multiple_choice') {
+            throw new Error('50/50 only works on multiple-choice questions.');
+          }
+          p.inventory[itemId] = count - 1;
+          const wrong = q.choices.map((_, idx) => idx).filter((idx) => idx !== q.answerIndex);
+          const removed = shuffle(wrong).slice(0, 2);
+          logger.info(`  ✂️ ${p.name} used 50/50, removed indexes: ${removed}`);
+
+          ack({ ok: true, data: { itemId, room: roomToPublic(room), removedIndexes: removed } });
+          broadcastRoom(io, room);
+          return;
+        }
+
+        if (itemId === 'freeze_time') {
+          p.inventory[itemId] = count - 1;
+          const bonusMs = 10_000;
+          const existing = room.currentQuestion.freezeBonus.get(p.playerId) || 0;
+          room.currentQuestion.freezeBonus.set(p.playerId, existing + bonusMs);
+          logger.info(`  ⏱️ ${p.name} used Freeze Time (+${bonusMs / 1000}s)`);
+
+          ack({ ok: true, data: { itemId, room: roomToPublic(room), bonusMs } });
+          broadcastRoom(io, room);
+          return;
+        }
+
+        throw new Error('Unhandled active item.');
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Player: Answer ── */
+    socket.on('player:answer', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        const p = requireSocketPlayer(room, socket.id);
+        requireRunning(room);
+        const answer = pickAnswer(payload);
+
+        if (!room.currentQuestion) throw new Error('No active question.');
+        if (room.phase !== 'question' && room.phase !== 'boss') {
+          throw new Error('Not accepting answers right now.');
+        }
+        if (room.currentQuestion.locked) throw new Error('Question is locked.');
+        if (p.eliminated) throw new Error('You are eliminated.');
+        const isWagerRound = isActKind(room, 'wager');
+        const ws = room.wagerState;
+        const rawWager = ws ? (ws.wagersByPlayerId.get(p.playerId) ?? p.wager ?? 0) : 0;
+        const tier = computeWagerTier(p.score, rawWager);
+        const canFinalSwap =
+          isWagerRound && tier.tier === 'ALL_IN' && p.lockedIn && !p.wagerSwapUsed;
+        if (p.lockedIn && !canFinalSwap) throw new Error('Answer locked in.');
+
+        const q = getCurrentQuestion(room);
+        if (!q) throw new Error('Question not found.');
+        const bonusMs = room.currentQuestion.freezeBonus.get(p.playerId) || 0;
+        const playerEndsAt = room.currentQuestion.endsAt + bonusMs;
+        const revealAt = computeRevealAt(room);
+        const effectiveEndsAt = Math.min(playerEndsAt, revealAt);
+        if (clock.now() > effectiveEndsAt) throw new Error('Time is up.');
+
+        const shapeError = checkAnswerShape(q, answer);
+        if (shapeError) throw new Error(shapeError);
+
+        room.currentQuestion.answersByPlayerId.set(p.playerId, answer);
+
+        // High Stakes perk: ALL IN gets one final swap after lock-in
+        if (canFinalSwap) {
+          p.wagerSwapUsed = true;
+          logger.info(`  🔁 ${p.name} used Final Swap (${room.code})`);
+        }
+
+        ack({ ok: true, data: { accepted: true } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Player: Lock In ── */
+    socket.on('player:lockin', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        const p = requireSocketPlayer(room, socket.id);
+        requireRunning(room);
+
+        if (!room.currentQuestion) throw new Error('No active question.');
+        if (room.phase !== 'question' && room.phase !== 'boss') {
+          throw new Error('Not accepting lock-ins right now.');
+        }
+        if (room.currentQuestion.locked) throw new Error('Question is locked.');
+        if (p.eliminated) throw new Error('You are eliminated.');
+
+        const q = getCurrentQuestion(room);
+        if (!q) throw new Error('Question not found.');
+
+        const bonusMs = room.currentQuestion.freezeBonus.get(p.playerId) || 0;
+        const playerEndsAt = room.currentQuestion.endsAt + bonusMs;
+        const revealAt = computeRevealAt(room);
+        const effectiveEndsAt = Math.min(playerEndsAt, revealAt);
+        if (clock.now() > effectiveEndsAt) throw new Error('Time is up.');
+
+        if (!room.currentQuestion.answersByPlayerId.has(p.playerId)) {
+          throw new Error('Pick an answer before locking in.');
+        }
+
+        p.lockedIn = true;
+        room.currentQuestion.lockinTimeByPlayerId.set(p.playerId, clock.now());
+        logger.info(`  🔒 ${p.name} locked in (${room.code})`);
+
+        maybeForceCloseIfAllLocked(room);
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Player: Buyback (manual coin buyback) ── */
+    socket.on('player:buyback', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        const p = requireSocketPlayer(room, socket.id);
+        requireRunning(room);
+
+        if (!p.eliminated) throw new Error('You are not eliminated.');
+        if (p.coins < room.config.buybackCostCoins)
+          throw new Error('Not enough coins for buyback.');
+
+        p.coins -= room.config.buybackCostCoins;
+        p.eliminated = false;
+        p.lives = 1;
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Boss: Start ── */
+    socket.on('boss:start', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+        requireRunning(room);
+
+        // Only when the boss is the next step of the run plan
+        const nextIndex = room.planIndex + 1;
+        const next = room.plan[nextIndex];
+        if (!next || getActConfig(room, next.actId)?.kind !== 'boss') {
+          throw new Error('The boss is not next in the run plan.');
+        }
+        beginPlanStep(room, nextIndex, io);
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Revive: Request (player asks to be revived) ── */
+    socket.on('revive:request', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        const p = requireSocketPlayer(room, socket.id);
+        requireRunning(room);
+
+        if (!p.eliminated) throw new Error('You are not eliminated.');
+
+        // Cannot request during active question or boss round
+        if (room.phase === 'question' || room.phase === 'boss') {
+          throw new Error('Cannot request a revive during an active question.');
+        }
+
+        // Cannot request during the boss act at all
+        if (isActKind(room, 'boss')) {
+          throw new Error(
+            `Revive shrine is not available during the ${room.actState!.config.name}.`
+          );
+        }
+
+        // Only one pending revive at a time
+        if (room.pendingRevive) {
+          throw new Error('Another revive request is already pending.');
+        }
+
+        room.pendingRevive = {
+          playerId: p.playerId,
+          playerName: p.name,
+          requestedAt: clock.now(),
+        };
+
+        logger.info(`  🙏 ${p.name} requested a revive in room ${room.code}`);
+
+        ack({ ok: true, data: { pending: true } });
+
+        // Notify the requesting player that their request is pending
+        io.to(p.socketId).emit('revive:pending', { playerName: p.name });
+
+        // Notify host with full state update (includes pendingRevive)
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Revive: Approve (host approves revive) ── */
+    socket.on('revive:approve', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+        requireRunning(room);
+
+        if (!room.pendingRevive) throw new Error('No pending revive request.');
+
+        const p = room.playersById.get(room.pendingRevive.playerId);
+        if (!p) throw new Error('Player not found.');
+
+        // Revive to full health
+        p.eliminated = false;
+        p.lives = room.config.maxLives;
+
+        const playerName = room.pendingRevive.playerName;
+        room.pendingRevive = undefined;
+
+        logger.info(`  ✅ Host approved revive for ${playerName} in room ${room.code}`);
+
+        // Notify the revived player
+        io.to(p.socketId).emit('revive:result', { approved: true, playerName });
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Revive: Decline (host declines revive) ── */
+    socket.on('revive:decline', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+
+        if (!room.pendingRevive) throw new Error('No pending revive request.');
+
+        const p = room.playersById.get(room.pendingRevive.playerId);
+        const playerName = room.pendingRevive.playerName;
+        room.pendingRevive = undefined;
+
+        logger.info(`  ❌ Host declined revive for ${playerName} in room ${room.code}`);
+
+        // Notify the declined player
+        if (p) {
+          io.to(p.socketId).emit('revive:result', { approved: false, playerName });
+        }
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Join: Admit (host lets a late joiner in, from the next question) ── */
+    socket.on('join:admit', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+        const request = requireJoinRequest(room, payload.requestId);
+        if (request.admitted) throw new Error(`${request.name} is already admitted.`);
+        if (seatsTaken(room) >= MAX_PLAYERS) {
+          throw new Error(`Room is full (max ${MAX_PLAYERS} players).`);
+        }
+
+        const admission: Admission = {
+          lives: Math.min(payload.lives, room.config.maxLives),
+          coins: payload.coins,
+          score: payload.score,
+        };
+        request.admitted = admission;
+        logger.info({ code: room.code, name: request.name, ...admission }, 'late join admitted');
+        io.to(request.socketId).emit('join:result', { approved: true });
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Join: Decline ── */
+    socket.on('join:decline', (payload, ack) => {
+      try {
+        const code = (payload?.code || '').trim().toUpperCase();
+        const room = requireRoom(code);
+        requireHost(room, (payload?.hostKey || '').trim());
+        const request = requireJoinRequest(room, payload.requestId);
+
+        room.pendingJoins = room.pendingJoins.filter((j) => j !== request);
+        io.to(request.socketId).emit('join:result', { approved: false });
+        io.in(request.socketId).socketsLeave(room.code);
+        socketToRoomCode.delete(request.socketId);
+        logger.info(`  ❌ Host declined ${request.name}'s late join in room ${room.code}`);
+
+        ack({ ok: true, data: { room: roomToPublic(room) } });
+        broadcastRoom(io, room);
+      } catch (e) {
+        ack({ ok: false, error: e instanceof Error ? e.message : 'Unknown error' });
+      }
+    });
+
+    /* ── Disconnect ── */
+    socket.on('disconnect', () => {
+      const code = socketToRoomCode.get(socket.id);
+      socketToRoomCode.delete(socket.id);
+
+      if (!code) return;
+      const room = rooms.get(code);
+      if (!room) return;
+
+      if (room.hostSocketId === socket.id) {
+        room.hostSocketId = null;
+        logger.info(`Host disconnected from room ${room.code}`);
+      }
+
+      const playerId = room.socketToPlayerId.get(socket.id);
+      if (playerId) {
+        room.socketToPlayerId.delete(socket.id);
+        const p = room.playersById.get(playerId);
+        // Unless they've already resumed on another socket
+        if (p && p.socketId === socket.id) p.connected = false;
+      }
+      const request = room.pendingJoins.find((j) => j.socketId === socket.id);
+      if (request) request.connected = false;
+
+      maybeForceCloseIfAllLocked(room);
+      broadcastRoom(io, room);
+      maybeEnd(room);
+    });
+  });
+
+  return {
+    restoreRooms: () => restoreRooms(io),
+    cleanupRooms,
+    flush: () => {
+      roomStore.flush();
+      questionHistory.flush();
+      profiles.flush();
+    },
+    debugSummary: () => ({
+      roomCount: rooms.size,
+      socketMappings: socketToRoomCode.size,
+      rooms: Array.from(rooms.values()).map((r) => ({
+        code: r.code,
+        phase: r.phase,
+        players: r.playersById.size,
+        connected: Array.from(r.playersById.values()).filter((p) => p.connected).length,
+        idleMs: clock.now() - r.lastActivityAt,
+        act: r.actState?.actId ?? null,
+      })),
+    }),
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * I18n
+ *
+ * Translating the UI (see messages.ts) and the text the server sends for
+ * display: the classic acts, the shop items and — when a pack carries
+ * translations — the questions themselves. Each player picks a locale; the
+ * room state stays the same for everyone and every screen localizes it.
+ * Shared with the browser, so no Node imports.
+ */
+
+import { DEFAULT_RULESET, SHOP_ITEMS } from '@/lib/gameConfig';
+import { MESSAGES, type MessageKey } from '@/lib/messages';
+import { TRUE_FALSE_CHOICES } from '@/lib/questionTypes';
+import type { Locale, PublicQuestion, ShopItem } from '@/lib/types';
+
+export type { MessageKey } from '@/lib/messages';
+
+export const LOCALES: Locale[] = ['en', 'es'];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** Each locale's name in its own language, for pickers */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+};
+
+export type MessageVars = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, vars?: MessageVars) => string;
+
+/** The supported locale for a language tag ("es-MX" → "es"), or the default */
+export function matchLocale(tag: string | null | undefined): Locale {
+  const language = (tag ?? '').toLowerCase().split('-')[0];
+  return LOCALES.find((l) => l === language) ?? DEFAULT_LOCALE;
+}
+
+/** `key` in `locale` with its `{placeholders}` filled in (unknown ones are left as is) */
+export function translate(locale: Locale, key: MessageKey, vars: MessageVars = {}): string {
+  const template = MESSAGES[locale]?.[key] ?? MESSAGES[DEFAULT_LOCALE][key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in vars ? String(vars[name]) : match
+  );
+}
+
+export function translator(locale: Locale): Translator {
+  return (key, vars) => translate(locale, key, vars);
+}
+
+/* ── Server-sent text ── */
+
+const CLASSIC_ACTS = new Map(DEFAULT_RULESET.acts.map((a) => [a.id, a]));
+const CLASSIC_ITEMS = new Map(SHOP_ITEMS.map((i) => [i.id, i]));
+
+/**
+ * An act with its name and description in `locale`. Only the classic acts'
+ * built-in text is translated — a custom ruleset's (or one that renames a
+ * classic act) is shown as its author wrote it.
+ */
+export function localizeAct<A extends { id: string; name: string; description?: string }>(
+  locale: Locale,
+  act: A
+): A {
+  const classic = CLASSIC_ACTS.get(act.id);
+  if (!classic) return act;
+  const key = (field: 'name' | 'description') => `act.${act.id}.${field}` as MessageKey;
+  return {
+    ...act,
+    name: act.name === classic.name ? translate(locale, key('name')) : act.name,
+    ...(act.description === classic.description
+      ? { description: translate(locale, key('description')) }
+      : {}),
+  };
+}
+
+/** A shop item with its name and description in `locale` */
+export function localizeShopItem(locale: Locale, item: ShopItem): ShopItem {
+  const classic = CLASSIC_ITEMS.get(item.id);
+  if (!classic) return item;
+  const key = (field: 'name' | 'description') => `shop.${item.id}.${field}` as MessageKey;
+  return {
+    ...item,
+    name: item.name === classic.name ? translate(locale, key('name')) : item.name,
+    description:
+      item.description === classic.description
+        ? translate(locale, key('description'))
+        : item.description,
+  };
+}
+
+/* ── Pack translations ── */
+
+/**
+ * The entry of `translations` for `locale`: an exact language tag first,
+ * then the same language in another region ("es" ↔ "es-MX").
+ */
+export function pickTranslation<T>(
+  translations: Record<string, T> | undefined,
+  locale: string
+): T | undefined {
+  if (!translations) return undefined;
+  const tags = Object.keys(translations);
+  const want = locale.toLowerCase();
+  const language = want.split('-')[0];
+  const tag =
+    tags.find((t) => t.toLowerCase() === want) ??
+    tags.find((t) => t.toLowerCase() === language) ??
+    tags.find((t) => t.toLowerCase().split('-')[0] === language);
+  return tag ? translations[tag] : undefined;
+}
+
+/** A question as a player with `locale` sees it: its translation if the pack has one */
+export function localizeQuestion(question: PublicQuestion, locale: Locale): PublicQuestion {
+  const translation = pickTranslation(question.translations, locale);
+  const choices =
+    translation?.choices ??
+    (question.type === 'true_false' && question.choices.every((c, i) => c === TRUE_FALSE_CHOICES[i])
+      ? [translate(locale, 'choice.true'), translate(locale, 'choice.false')]
+      : question.choices);
+  if (!translation) return { ...question, choices };
+  return {
+    ...question,
+    prompt: translation.prompt,
+    category: translation.category ?? question.category,
+    hint: translation.hint ?? question.hint,
+    choices,
+  };
+}
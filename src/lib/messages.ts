@@ -0,0 +1,950 @@
+/**
+ * Message Catalogs
+ *
+ * Every UI string (and the display text of the classic acts and shop items),
+ * keyed by a dotted ID. English is the source: its keys define `MessageKey`,
+ * and every other catalog must translate all of them. `{name}` placeholders
+ * are filled in by `translate` (see i18n.ts).
+ */
+
+import type { Locale } from '@/lib/types';
+
+const EN = {
+  /* ── Shared ── */
+  'common.invalidRoom': 'Invalid room',
+  'common.code': 'Code',
+  'common.language': 'Language',
+  'common.points': 'points',
+  'common.pts': '{value} pts',
+  'common.you': '(you)',
+  'common.eventLog': 'Event Log',
+  'common.noEvents': 'No events yet…',
+  'common.gameOver': '🏆 Game Over!',
+  'common.heartsAtRisk': '❤️ Hearts at risk',
+  'common.heartsSafe': '🛡️ Hearts safe',
+  'common.back': 'Back',
+  'common.missingName': 'Missing name. Go back and enter a display name.',
+
+  'phase.lobby': 'lobby',
+  'phase.wager': 'wager',
+  'phase.countdown': 'countdown',
+  'phase.question': 'question',
+  'phase.reveal': 'reveal',
+  'phase.shop': 'shop',
+  'phase.intermission': 'intermission',
+  'phase.boss': 'boss',
+  'phase.ended': 'ended',
+
+  /* ── Classic acts (custom rulesets keep their own text) ── */
+  'act.homeroom.name': 'Homeroom',
+  'act.homeroom.description': 'Warm up! No hearts at risk. Build your score and earn starter gold.',
+  'act.pop_quiz.name': 'Pop Quiz',
+  'act.pop_quiz.description': 'Things heat up. Hard questions cost hearts!',
+  'act.field_trip.name': 'Field Trip',
+  'act.field_trip.description': 'Wrong answers cost hearts. Buyback becomes your best friend.',
+  'act.wager_round.name': 'High Stakes',
+  'act.wager_round.description':
+    'Everyone still alive can wager points. Get it right: win your wager. Get it wrong: lose it.',
+  'act.boss_fight.name': 'Boss Fight',
+  'act.boss_fight.description': 'The final showdown. Escalating points, hearts on the line.',
+
+  /* ── Shop items ── */
+  'shop.fifty_fifty.name': '50/50',
+  'shop.fifty_fifty.description': 'Remove 2 wrong answers during a question',
+  'shop.freeze_time.name': 'Freeze Time',
+  'shop.freeze_time.description': '+10 seconds on the current question',
+  'shop.double_points.name': 'Double Points',
+  'shop.double_points.description': 'Next correct answer scores 2×. Auto-triggers.',
+  'shop.shield.name': 'Shield',
+  'shop.shield.description': 'Negates next heart loss. Auto-triggers.',
+  'shop.buyback_token.name': 'Buyback Token',
+  'shop.buyback_token.description': 'Auto-revives you with 1 life if eliminated.',
+
+  /* ── Questions ── */
+  'questionType.multiple_choice': 'Multiple choice',
+  'questionType.true_false': 'True or false',
+  'questionType.multi_select': 'Pick all that apply',
+  'questionType.ordering': 'Put in order',
+  'questionType.free_text': 'Type the answer',
+  'choice.true': 'True',
+  'choice.false': 'False',
+
+  'question.boss': '🐉 Boss Question',
+  'question.getReady': '⏳ Get Ready!',
+  'question.title': '❓ Question',
+  'question.hard': '⚠️ HARD',
+  'question.incoming': 'Question incoming…',
+  'question.go': 'Go!',
+  'question.bonusTime': '⏱️ +{seconds}s bonus time!',
+  'question.timeUp': '⏱️ Time’s up',
+  'question.timeLeft': '⏱️ Time left',
+  'question.speedBonus': '⚡ Speed Bonus',
+  'question.extraHint': '🔥 Extra hint:',
+  'question.highRollerPerk': '✂️ High Roller perk active: 2 wrong answers removed',
+  'question.blackout': '🕶️ Blackout! Choices unlock in {seconds}s',
+  'question.youSaid': '❌ You said: {answer}',
+
+  'answer.moveUp': 'Move up',
+  'answer.moveDown': 'Move down',
+  'answer.orderSubmitted': '✓ Order submitted',
+  'answer.submitOrder': 'Submit this order',
+  'answer.placeholder': 'Type your answer',
+  'answer.sent': '✓ Sent',
+  'answer.submit': 'Submit',
+
+  'reveal.wagerWin': '🎰 WIN! +{amount} (bet doubled)',
+  'reveal.wagerLost': '💸 LOST -{amount}',
+  'reveal.noAnswer': '⏱️ No answer submitted',
+  'reveal.correct': '✅ Correct! +{points} pts',
+  'reveal.wrong': '❌ Wrong',
+  'reveal.speedBonus': '(⚡ +{bonus} speed bonus)',
+  'reveal.safeRound': '🛡️ No heart lost (safe round)',
+  'reveal.shieldUsed': '🛡️ Shield used',
+  'reveal.doublePointsUsed': '⭐ Double Points used',
+  'reveal.buybackUsed': '🪙 Buyback used',
+  'reveal.lives': '{delta} lives',
+  'reveal.coins': '+{delta} coins',
+
+  'lockIn.count': '🔒 Locked in:',
+  'lockIn.swapUsed': '🔁 Final swap used',
+  'lockIn.swapAvailable': '🔁 Final swap available: tap ONE answer to change once',
+  'lockIn.allInHint': '🟥 ALL IN: lock in to unlock a final swap',
+  'lockIn.done': '✅ Locked In',
+  'lockIn.button': '🔒 Lock In',
+
+  'status.countdown': 'Read the question — answers open in a moment!',
+  'status.revealed': 'Answer revealed.',
+  'status.timeUp': '⏱️ Time’s up — waiting for the host to reveal…',
+  'status.finalSwap': '🔁 Final swap available — tap one answer to change once',
+  'status.lockedIn': '🔒 Locked in — waiting for the host to reveal…',
+  'status.pickMulti':
+    'Tap every answer that applies. You can change them until you lock in or time runs out.',
+  'status.pickOrder':
+    'Put the answers in order and submit. You can resubmit until you lock in or time runs out.',
+  'status.pickText':
+    'Type your answer and submit. You can resubmit until you lock in or time runs out.',
+  'status.pickOne':
+    'Tap an answer to submit. You can change it until you lock in or time runs out.',
+  'status.selected': 'Selected {answer} — change it before you lock in or time runs out.',
+
+  /* ── High Stakes ── */
+  'wager.title': '🎰 High Stakes — Redline',
+  'wager.rules': 'Bet any amount of your points. Right = win your bet. Wrong = lose it.',
+  'wager.category': 'Category:',
+  'wager.hint': 'Hint:',
+  'wager.stage': 'Stage:',
+  'wager.noDecreases': '🚨 NO DECREASES',
+  'wager.lockedSpotlight': '🔒 Wagers locked — Spotlight in progress…',
+  'wager.eliminated': '💀 You’re eliminated — no wagering this round.',
+  'wager.yours': 'Your wager',
+  'wager.perkExtraHint': '🔥 Extra hint at REDLINE',
+  'wager.perkFiftyFifty': '✂️ Auto 50/50 (question)',
+  'wager.perkSwap': '🔁 Final swap (once)',
+  'wager.lockedButton': 'Wagers Locked',
+  'wager.update': 'Update Wager',
+  'wager.place': 'Place Wager',
+  'wager.available': 'You have {score} points available.',
+  'wager.totalWagered': 'Total wagered by everyone: {total}',
+  'wager.defaultExtraHint': 'Trust your logic — eliminate what cannot be true.',
+
+  'wagerStage.blind': '???',
+  'wagerStage.category': 'Category',
+  'wagerStage.hint': 'Hint',
+  'wagerStage.redline': 'REDLINE',
+  'wagerStage.closing': 'Closing',
+  'wagerStage.locked': 'Locked',
+
+  'tier.ALL_IN': '🟥 ALL IN',
+  'tier.INSANE': '😈 INSANE',
+  'tier.HIGH_ROLLER': '🎲 HIGH ROLLER',
+  'tier.BOLD': '💪 BOLD',
+  'tier.SAFE': '🙂 SAFE',
+
+  'spotlight.title': '🎥 Spotlight',
+  'spotlight.titleHost': '🎥 Spotlight (Host)',
+  'spotlight.locked': 'HIGH STAKES LOCKED',
+  'spotlight.pot': 'POT',
+  'spotlight.allIn': 'ALL IN',
+  'spotlight.noBet': 'NO BET',
+  'spotlight.biggest': 'BIGGEST',
+  'spotlight.topRisk': 'Top risk takers',
+  'spotlight.bet': 'Bet {wager} ({percent}%)',
+  'spotlight.nobody': 'No one placed a bet… coward meta 😅',
+  'spotlight.waiting': 'Waiting for the host to start the High Stakes question…',
+  'spotlight.nextUp': 'Next up: the High Stakes question…',
+
+  /* ── Player screen ── */
+  'play.player': 'Player',
+  'play.room': 'Room',
+  'play.eliminatedBadge': '💀 ELIMINATED',
+  'play.doublePointsArmed': '⭐ Double Points armed',
+  'play.shieldArmed': '🛡️ Shield armed',
+  'play.buybackReady': '🪙 Buyback Token ready',
+  'play.questionProgress': 'Q{number}/{total}',
+  'play.intermission': '🎬 Intermission',
+  'play.intermissionBody':
+    '{act} is complete! Take a breather — the host will start the next act soon.',
+  'play.shopIsOpen': '🛒 The shop is open!',
+  'play.join': 'Join',
+  'play.yourName': 'Your name',
+  'play.joiningAs': 'Joining as {name}…',
+  'play.nameRequired': 'Name is required.',
+  'play.use': 'Use:',
+
+  'eliminated.title': '💀 You’re Eliminated',
+  'eliminated.body': 'Buy back in with coins, or request a revive from the host.',
+  'eliminated.buyback': '🪙 Buyback ({cost} coins)',
+  'eliminated.requestRevive': '🙏 Request Revive',
+  'eliminated.noShrine': 'Revive shrine is not available during the Boss Fight.',
+
+  'join.waitingTitle': 'Waiting for the host',
+  'join.waitingBody': 'The game has started — the host will let you in.',
+  'join.admittedTitle': 'You’re in!',
+  'join.admittedBody': 'You’ll join when the next question starts.',
+  'join.declined': 'The host didn’t let you in this time.',
+  'revive.title': 'Revive Shrine',
+  'revive.sent': 'Your request has been sent to the host!',
+  'revive.forfeit': 'Complete the forfeit and wait for the host’s decision…',
+  'revive.approvedTitle': 'You’re Back!',
+  'revive.approvedBody': 'The host approved your revive. Full health restored!',
+  'revive.declinedTitle': 'Request Declined',
+  'revive.declinedBody': 'The host declined your revive. Better luck next time!',
+
+  'shop.title': '🛒 Shop',
+  'shop.yourCoins': 'Your coins:',
+  'shop.auto': 'auto',
+  'shop.use': 'use',
+  'shop.buy': 'Buy',
+
+  'inventory.title': '🎒 Inventory',
+  'inventory.passive': 'Passive (auto-trigger):',
+  'inventory.active': 'Active (use during questions):',
+  'inventory.removed': '50/50 removed: {letters}',
+
+  'results.youFinished': 'You finished',
+  'results.ofTotal': 'of {total}',
+  'results.score': '⭐ {score} pts',
+  'results.coins': '🪙 {coins} coins',
+  'results.lives': '❤️ {lives} lives',
+  'scoreboard.title': 'Scoreboard',
+
+  'log.resumed': '✅ Resumed',
+  'log.joined': '✅ Joined as "{name}"',
+  'log.selected': '✅ Selected: {answer}',
+  'log.lockedIn': '🔒 Locked in!',
+  'log.bought': '✅ Bought {item}',
+  'log.used': '✅ Used {item}',
+  'log.boughtBack': '✅ Bought back in!',
+  'log.reviveRequested': '🙏 Revive requested — waiting for host…',
+  'log.failed': '❌ {action}: {error}',
+  'log.planReset': '↺ The run plan no longer fit the pack mix and was reset',
+  'log.done': '✅ {action}',
+  'log.error': '❌ {error}',
+  'action.lockIn': 'Lock in',
+  'action.wager': 'Wager',
+  'action.buy': 'Buy',
+  'action.use': 'Use',
+  'action.revive': 'Revive',
+
+  /* ── Entry screens ── */
+  'entry.pillLan': 'LAN-friendly',
+  'entry.pillParty': 'Party-ready',
+  'entry.pillPowerUps': 'Power-ups',
+  'entry.pillBosses': 'Boss fights',
+  'entry.lead': 'Pick a name, then host a lobby or join with a room code.',
+  'entry.displayName': 'Display Name',
+  'entry.namePlaceholder': 'e.g. PixelWizard',
+  'entry.nameOk': '✓ Looks good',
+  'entry.nameLength': '2–18 characters',
+  'entry.roomCode': 'Room Code',
+  'entry.codeOk': '✓ Ready',
+  'entry.codeLength': 'At least 4 characters',
+  'entry.modeJoin': 'Join',
+  'entry.modeHost': 'Host',
+  'entry.createLobby': 'Create Lobby',
+  'entry.joinLobby': 'Join Lobby',
+  'entry.press': 'Press',
+  'entry.toContinue': 'to continue',
+  'entry.mobile': 'Works great on mobile',
+  'entry.playingAs': 'Playing as your profile',
+  'entry.profile': 'Profile & stats',
+  'entry.createProfile': 'Keep your stats with a profile →',
+
+  'joinPage.title': 'Join a room',
+  'joinPage.lead': 'Enter the room code and you’ll land in the lobby.',
+  'joinPage.roomCode': 'ROOM CODE',
+  'joinPage.ready': 'Ready.',
+  'joinPage.codeLength': 'Enter at least 4 characters.',
+  'joinPage.join': 'Join →',
+
+  'hostCreate.creating': 'Creating lobby…',
+  'hostCreate.title': 'Pick a question pack',
+  'hostCreate.creatingLead': 'Generating a room code and opening the host dashboard.',
+  'hostCreate.lead': 'You can still switch packs in the lobby, until the game starts.',
+  'hostCreate.backToStart': 'Back to start',
+  'hostCreate.talking': 'Talking to the server…',
+  'hostCreate.loading': 'Loading question packs…',
+  'hostCreate.noPacks':
+    'No question packs loaded — add one in data/question-packs/ or the pack editor.',
+  'hostCreate.create': 'Create lobby →',
+
+  /* ── Profiles ── */
+  'profile.title': 'Your profile',
+  'profile.lead': 'Keep your name, avatar and lifetime stats from game to game.',
+  'profile.createTitle': 'Create a profile',
+  'profile.name': 'Name',
+  'profile.avatar': 'Avatar',
+  'profile.pin': 'PIN (optional)',
+  'profile.pinHint': '4–8 digits — lets you sign in on another device with your name.',
+  'profile.create': 'Create profile →',
+  'profile.signInTitle': 'Already have one? Sign in with your PIN',
+  'profile.signIn': 'Sign in',
+  'profile.linking': 'Signing in with your link…',
+  'profile.loading': 'Loading your profile…',
+  'profile.save': 'Save',
+  'profile.saved': 'Saved.',
+  'profile.newPin': 'New PIN',
+  'profile.removePin': 'Remove PIN',
+  'profile.stats': 'Lifetime stats',
+  'profile.gamesPlayed': 'Games played',
+  'profile.wins': 'Wins',
+  'profile.accuracy': 'Accuracy',
+  'profile.bossesDefeated': 'Bosses defeated',
+  'profile.allInsWon': 'All-ins won',
+  'profile.favouriteCategories': 'Favourite categories',
+  'profile.noFavourites': 'Answer a few questions to find out.',
+  'profile.makeLink': 'Sign in on another device',
+  'profile.linkHint': 'Open this link on the other device within 15 minutes. It works once.',
+  'profile.signOut': 'Sign out',
+  'profile.play': 'Play →',
+  'profile.failed': 'Couldn’t reach the server.',
+
+  /* ── Packs ── */
+  'packs.search': 'Search packs, tags, authors…',
+  'packs.anyLanguage': 'Any language',
+  'packs.anyRating': 'Any rating',
+  'packs.upTo': 'Up to {rating}',
+  'packs.anyLength': 'Any length',
+  'packs.maxMinutes': '≤ {minutes} min',
+  'packs.noMatch': 'No pack matches — try fewer filters.',
+  'packs.questionCount': '{count} questions',
+  'packs.unplayable': '⚠️ No questions for {acts} — can’t be played',
+  'packs.leftOut': '⚠️ No questions for {acts} — left out of the run plan',
+  'packs.change': 'Change pack',
+  'packs.done': 'Done',
+  'packs.minutes': '{minutes} min',
+  'packs.estimated': 'Estimated from the questions and timers',
+  'difficulty.easy': '🟢 Easy',
+  'difficulty.medium': '🟡 Medium',
+  'difficulty.hard': '🔴 Hard',
+  'difficulty.mixed': '🎲 Mixed',
+  'rating.family': '👪 Family',
+  'rating.teen': '🧑 Teen',
+  'rating.mature': '🔞 Mature',
+
+  'mix.title': '🧪 Pack Mix',
+  'mix.lead': 'Draw an act’s questions from several packs. Weights set each pack’s share.',
+  'mix.open': 'Mix packs',
+  'mix.hide': 'Hide',
+  'mix.addPack': '＋ Pack',
+  'mix.weight': 'Weight',
+  'mix.save': 'Save mix',
+  'mix.clear': 'Clear',
+
+  /* ── Run plan ── */
+  'plan.title': 'Run Plan',
+  'plan.edit': '✏️ Edit plan',
+  'plan.editLead':
+    'Skip, repeat or reorder acts. A repeated act gets fresh questions, so its steps share the act’s question pool.',
+  'plan.actOption': '{emoji} {name} ({count} questions)',
+  'plan.questions': 'Questions',
+  'plan.remove': 'Remove',
+  'plan.addAct': '＋ Add act',
+  'plan.cancel': 'Cancel',
+  'plan.save': 'Save plan',
+  'plan.perAct': 'Questions per act',
+  'plan.all': 'All',
+  'plan.sampling': 'Sampling',
+  'plan.preferUnseen': 'Prefer unseen questions',
+  'plan.historyGroup': 'History group',
+  'plan.thisRoomOnly': 'This room only',
+  'plan.seen': '{seen}/{total} seen',
+  'plan.reset': 'Reset',
+  'sampling.random': 'Random',
+  'sampling.sequential': 'Pack order',
+  'sampling.balanced': 'Balanced categories',
+  'sampling.ramped': 'Easy → hard',
+
+  /* ── Paused ── */
+  'pause.title': 'Paused',
+  'pause.body': 'The host paused the game — the clock is stopped.',
+
+  /* ── Presenter screen ── */
+  'screen.scanToJoin': 'Scan to join',
+  'screen.orVisit': 'or open {url}',
+  'screen.players': '{count} players',
+  'screen.waitingForPlayers': 'Waiting for players…',
+  'screen.waitingForHost': 'The host will start the game soon',
+  'screen.lockedIn': '🔒 {count}/{total} locked in',
+  'screen.answered': '{count}/{total} correct',
+  'screen.wagersIn': '{count}/{total} wagers in',
+  'screen.bossHp': 'Boss HP {hp}/{maxHp}',
+  'screen.shopOpen': '🛒 Shop open — spend your coins on your phone',
+  'screen.leaderboard': 'Leaderboard',
+  'screen.gameOver': '🏁 Game over',
+  'screen.connecting': 'Connecting to room {code}…',
+
+  /* ── Host dashboard ── */
+  'host.dashboard': 'Host Dashboard',
+  'host.roomOf': '{name}’s Room',
+  'host.room': 'Host Room',
+  'host.lan': 'LAN',
+  'host.presenterScreen': '📺 Presenter screen',
+  'host.phase': 'Phase: {phase}',
+  'host.questionsLeft': 'Questions left: {count}',
+  'host.progress': 'Progress: {number}/{total}',
+  'host.noHostKey': '❌ No hostKey',
+  'host.resumed': '✅ Resumed into room',
+  'host.startWager': 'Start High Stakes Question',
+  'host.spotlightStays': 'Spotlight will stay up until you press Start.',
+  'host.reviveRequest': '{name} is requesting to be revived!',
+  'host.reviveForfeit': 'Have them complete the real-world forfeit. Then approve or decline.',
+  'host.approve': 'Approve',
+  'host.decline': 'Decline',
+  'host.approveRevive': 'Approve Revive',
+  'host.declineRevive': 'Decline Revive',
+  'host.gameFlow': 'Game Flow',
+  'host.flowHint':
+    'Start Act → Questions → Reveal → (Shop) → Next Question → … → Intermission → Next Act',
+  'host.startGame': 'Start Game',
+  'host.nextQuestion': 'Next Question',
+  'host.reveal': 'Reveal Answer',
+  'host.openShop': 'Open Shop',
+  'host.closeShop': 'Close Shop',
+  'host.lockWagers': 'Lock Wagers',
+  'host.startBoss': 'Start Boss',
+  'host.startAct': 'Start {act}',
+  'host.actComplete': '🎬 {act} complete! Start next act:',
+  'host.shopTip': '💡 You can also open the Shop first, then start the next act.',
+  'host.pause': 'Pause',
+  'host.resume': 'Resume',
+  'host.pausedBanner': '⏸ Paused — timers are frozen until you resume.',
+  'host.admit': 'Admit Player',
+  'host.declineJoin': 'Decline Player',
+  'join.title': '🚪 Waiting to join ({count})',
+  'join.hint': 'Admitted players join when the next question starts.',
+  'join.score': 'Score',
+  'join.admittedNext': 'Admitted — joins at the next question',
+  'autopilot.title': 'Autopilot',
+  'autopilot.hint': 'Runs the game on timers — you can still click any step sooner.',
+  'autopilot.dwell': 'Linger (s)',
+  'autopilot.shop': 'Shop between acts (s)',
+  'autopilot.next': 'Next: {action} in {seconds}s',
+  'autopilot.waiting': 'Waiting for the timer…',
+  'autopilot.failed':
+    'Autopilot switched itself off at “{action}”: {message} Take that step by hand, or switch it back on.',
+  'autopilot.action.reveal': 'reveal',
+  'autopilot.action.next': 'next question',
+  'autopilot.action.shop': 'open shop',
+  'autopilot.action.act': 'next act',
+  'autopilot.action.spotlight_end': 'end spotlight',
+  'host.switchPack': 'Switch Pack',
+  'host.saveMix': 'Save Pack Mix',
+  'host.savePlan': 'Save Run Plan',
+  'host.updateSettings': 'Update Settings',
+  'host.resetHistory': 'Reset Question History',
+  'host.currentQuestion': '❓ Current Question',
+  'host.hardAtRisk': '⚠️ HARD — hearts at risk',
+  'host.countdown': 'Countdown…',
+  'host.revealIn': '⏱️ Reveal in',
+  'host.allLocked': '· All locked!',
+  'host.locked': 'Locked',
+  'host.open': 'Open',
+  'host.totalWagered': '· Total wagered: {total}',
+  'host.bossFight': '🐉 Boss Fight',
+  'host.hp': 'HP: {hp} / {max}',
+  'host.players': 'Players ({count})',
+  'host.noPlayers': 'No players yet. Share the code or LAN URL.',
+  'host.doublePoints': 'Double Points armed',
+  'host.shield': 'Shield armed',
+  'host.buyback': 'Has buyback token',
+  'host.downloadResults': '⬇️ Download results:',
+  'host.downloadAnswers': 'Answers (CSV)',
+  'host.downloadStandings': 'Standings (CSV)',
+  'host.downloadAll': 'Everything (JSON)',
+};
+
+export type MessageKey = keyof typeof EN;
+
+const ES: Record<MessageKey, string> = {
+  /* ── Shared ── */
+  'common.invalidRoom': 'Sala no válida',
+  'common.code': 'Código',
+  'common.language': 'Idioma',
+  'common.points': 'puntos',
+  'common.pts': '{value} pts',
+  'common.you': '(tú)',
+  'common.eventLog': 'Registro de eventos',
+  'common.noEvents': 'Todavía no hay eventos…',
+  'common.gameOver': '🏆 ¡Fin del juego!',
+  'common.heartsAtRisk': '❤️ Corazones en juego',
+  'common.heartsSafe': '🛡️ Corazones a salvo',
+  'common.back': 'Volver',
+  'common.missingName': 'Falta el nombre. Vuelve atrás y escribe un nombre visible.',
+
+  'phase.lobby': 'sala de espera',
+  'phase.wager': 'apuesta',
+  'phase.countdown': 'cuenta atrás',
+  'phase.question': 'pregunta',
+  'phase.reveal': 'respuesta',
+  'phase.shop': 'tienda',
+  'phase.intermission': 'intermedio',
+  'phase.boss': 'jefe',
+  'phase.ended': 'terminado',
+
+  /* ── Classic acts ── */
+  'act.homeroom.name': 'Tutoría',
+  'act.homeroom.description':
+    '¡A calentar! Sin corazones en juego. Suma puntos y gana tu oro inicial.',
+  'act.pop_quiz.name': 'Examen sorpresa',
+  'act.pop_quiz.description': 'La cosa se calienta. ¡Las preguntas difíciles cuestan corazones!',
+  'act.field_trip.name': 'Excursión',
+  'act.field_trip.description':
+    'Las respuestas incorrectas cuestan corazones. La recompra será tu mejor amiga.',
+  'act.wager_round.name': 'Alto riesgo',
+  'act.wager_round.description':
+    'Quien siga vivo puede apostar puntos. Si aciertas, ganas tu apuesta. Si fallas, la pierdes.',
+  'act.boss_fight.name': 'Combate final',
+  'act.boss_fight.description':
+    'El enfrentamiento final. Puntos cada vez mayores y corazones en juego.',
+
+  /* ── Shop items ── */
+  'shop.fifty_fifty.name': '50/50',
+  'shop.fifty_fifty.description': 'Elimina 2 respuestas incorrectas durante una pregunta',
+  'shop.freeze_time.name': 'Congelar tiempo',
+  'shop.freeze_time.description': '+10 segundos en la pregunta actual',
+  'shop.double_points.name': 'Puntos dobles',
+  'shop.double_points.description': 'Tu próxima respuesta correcta vale el doble. Se activa sola.',
+  'shop.shield.name': 'Escudo',
+  'shop.shield.description': 'Evita la próxima pérdida de corazón. Se activa solo.',
+  'shop.buyback_token.name': 'Ficha de recompra',
+  'shop.buyback_token.description': 'Te revive con 1 vida si te eliminan.',
+
+  /* ── Questions ── */
+  'questionType.multiple_choice': 'Opción múltiple',
+  'questionType.true_false': 'Verdadero o falso',
+  'questionType.multi_select': 'Elige todas las correctas',
+  'questionType.ordering': 'Ordena',
+  'questionType.free_text': 'Escribe la respuesta',
+  'choice.true': 'Verdadero',
+  'choice.false': 'Falso',
+
+  'question.boss': '🐉 Pregunta del jefe',
+  'question.getReady': '⏳ ¡Prepárate!',
+  'question.title': '❓ Pregunta',
+  'question.hard': '⚠️ DIFÍCIL',
+  'question.incoming': 'Llega la pregunta…',
+  'question.go': '¡Ya!',
+  'question.bonusTime': '⏱️ ¡+{seconds} s de tiempo extra!',
+  'question.timeUp': '⏱️ Se acabó el tiempo',
+  'question.timeLeft': '⏱️ Tiempo restante',
+  'question.speedBonus': '⚡ Bonus de velocidad',
+  'question.extraHint': '🔥 Pista extra:',
+  'question.highRollerPerk': '✂️ Ventaja de gran apostador: 2 respuestas incorrectas eliminadas',
+  'question.blackout': '🕶️ ¡Apagón! Las opciones se desbloquean en {seconds} s',
+  'question.youSaid': '❌ Dijiste: {answer}',
+
+  'answer.moveUp': 'Subir',
+  'answer.moveDown': 'Bajar',
+  'answer.orderSubmitted': '✓ Orden enviado',
+  'answer.submitOrder': 'Enviar este orden',
+  'answer.placeholder': 'Escribe tu respuesta',
+  'answer.sent': '✓ Enviada',
+  'answer.submit': 'Enviar',
+
+  'reveal.wagerWin': '🎰 ¡GANAS! +{amount} (apuesta doblada)',
+  'reveal.wagerLost': '💸 PIERDES -{amount}',
+  'reveal.noAnswer': '⏱️ No enviaste respuesta',
+  'reveal.correct': '✅ ¡Correcto! +{points} pts',
+  'reveal.wrong': '❌ Incorrecto',
+  'reveal.speedBonus': '(⚡ +{bonus} de bonus de velocidad)',
+  'reveal.safeRound': '🛡️ No pierdes corazón (ronda segura)',
+  'reveal.shieldUsed': '🛡️ Escudo usado',
+  'reveal.doublePointsUsed': '⭐ Puntos dobles usados',
+  'reveal.buybackUsed': '🪙 Recompra usada',
+  'reveal.lives': '{delta} vidas',
+  'reveal.coins': '+{delta} monedas',
+
+  'lockIn.count': '🔒 Confirmados:',
+  'lockIn.swapUsed': '🔁 Cambio final usado',
+  'lockIn.swapAvailable': '🔁 Cambio final disponible: toca UNA respuesta para cambiarla una vez',
+  'lockIn.allInHint': '🟥 A TODO: confirma para desbloquear un cambio final',
+  'lockIn.done': '✅ Confirmado',
+  'lockIn.button': '🔒 Confirmar',
+
+  'status.countdown': 'Lee la pregunta: ¡las respuestas se abren enseguida!',
+  'status.revealed': 'Respuesta revelada.',
+  'status.timeUp': '⏱️ Se acabó el tiempo; esperando a que el anfitrión revele…',
+  'status.finalSwap': '🔁 Cambio final disponible: toca una respuesta para cambiarla una vez',
+  'status.lockedIn': '🔒 Confirmado; esperando a que el anfitrión revele…',
+  'status.pickMulti':
+    'Toca todas las respuestas correctas. Puedes cambiarlas hasta confirmar o hasta que se acabe el tiempo.',
+  'status.pickOrder':
+    'Ordena las respuestas y envía. Puedes reenviar hasta confirmar o hasta que se acabe el tiempo.',
+  'status.pickText':
+    'Escribe tu respuesta y envía. Puedes reenviar hasta confirmar o hasta que se acabe el tiempo.',
+  'status.pickOne':
+    'Toca una respuesta para enviarla. Puedes cambiarla hasta confirmar o hasta que se acabe el tiempo.',
+  'status.selected': 'Elegiste {answer}; cámbiala antes de confirmar o de que se acabe el tiempo.',
+
+  /* ── High Stakes ── */
+  'wager.title': '🎰 Alto riesgo — Línea roja',
+  'wager.rules':
+    'Apuesta la cantidad de puntos que quieras. Si aciertas, ganas tu apuesta. Si fallas, la pierdes.',
+  'wager.category': 'Categoría:',
+  'wager.hint': 'Pista:',
+  'wager.stage': 'Fase:',
+  'wager.noDecreases': '🚨 SIN BAJADAS',
+  'wager.lockedSpotlight': '🔒 Apuestas cerradas — foco en marcha…',
+  'wager.eliminated': '💀 Estás eliminado: esta ronda no puedes apostar.',
+  'wager.yours': 'Tu apuesta',
+  'wager.perkExtraHint': '🔥 Pista extra en LÍNEA ROJA',
+  'wager.perkFiftyFifty': '✂️ 50/50 automático (pregunta)',
+  'wager.perkSwap': '🔁 Cambio final (una vez)',
+  'wager.lockedButton': 'Apuestas cerradas',
+  'wager.update': 'Actualizar apuesta',
+  'wager.place': 'Apostar',
+  'wager.available': 'Tienes {score} puntos disponibles.',
+  'wager.totalWagered': 'Total apostado entre todos: {total}',
+  'wager.defaultExtraHint': 'Confía en tu lógica: descarta lo que no puede ser cierto.',
+
+  'wagerStage.blind': '???',
+  'wagerStage.category': 'Categoría',
+  'wagerStage.hint': 'Pista',
+  'wagerStage.redline': 'LÍNEA ROJA',
+  'wagerStage.closing': 'Cierre',
+  'wagerStage.locked': 'Cerrada',
+
+  'tier.ALL_IN': '🟥 A TODO',
+  'tier.INSANE': '😈 DEMENCIAL',
+  'tier.HIGH_ROLLER': '🎲 GRAN APOSTADOR',
+  'tier.BOLD': '💪 ATREVIDO',
+  'tier.SAFE': '🙂 PRUDENTE',
+
+  'spotlight.title': '🎥 Foco',
+  'spotlight.titleHost': '🎥 Foco (anfitrión)',
+  'spotlight.locked': 'ALTO RIESGO CERRADO',
+  'spotlight.pot': 'BOTE',
+  'spotlight.allIn': 'A TODO',
+  'spotlight.noBet': 'SIN APUESTA',
+  'spotlight.biggest': 'LA MAYOR',
+  'spotlight.topRisk': 'Los más arriesgados',
+  'spotlight.bet': 'Apuesta {wager} ({percent}%)',
+  'spotlight.nobody': 'Nadie apostó… ¡qué cobardía! 😅',
+  'spotlight.waiting': 'Esperando a que el anfitrión lance la pregunta de alto riesgo…',
+  'spotlight.nextUp': 'A continuación: la pregunta de alto riesgo…',
+
+  /* ── Player screen ── */
+  'play.player': 'Jugador',
+  'play.room': 'Sala',
+  'play.eliminatedBadge': '💀 ELIMINADO',
+  'play.doublePointsArmed': '⭐ Puntos dobles activos',
+  'play.shieldArmed': '🛡️ Escudo activo',
+  'play.buybackReady': '🪙 Ficha de recompra lista',
+  'play.questionProgress': 'P{number}/{total}',
+  'play.intermission': '🎬 Intermedio',
+  'play.intermissionBody':
+    '¡{act} ha terminado! Tómate un respiro: el anfitrión empezará el siguiente acto enseguida.',
+  'play.shopIsOpen': '🛒 ¡La tienda está abierta!',
+  'play.join': 'Unirse',
+  'play.yourName': 'Tu nombre',
+  'play.joiningAs': 'Uniéndote como {name}…',
+  'play.nameRequired': 'El nombre es obligatorio.',
+  'play.use': 'Usar:',
+
+  'eliminated.title': '💀 Estás eliminado',
+  'eliminated.body': 'Vuelve a entrar pagando con monedas o pide al anfitrión que te reviva.',
+  'eliminated.buyback': '🪙 Recompra ({cost} monedas)',
+  'eliminated.requestRevive': '🙏 Pedir revivir',
+  'eliminated.noShrine': 'El santuario de revivir no está disponible durante el combate final.',
+
+  'join.waitingTitle': 'Esperando al anfitrión',
+  'join.waitingBody': 'El juego ya empezó: el anfitrión te dejará entrar.',
+  'join.admittedTitle': '¡Estás dentro!',
+  'join.admittedBody': 'Entrarás cuando empiece la siguiente pregunta.',
+  'join.declined': 'El anfitrión no te dejó entrar esta vez.',
+  'revive.title': 'Santuario de revivir',
+  'revive.sent': '¡Tu petición se ha enviado al anfitrión!',
+  'revive.forfeit': 'Cumple la prenda y espera la decisión del anfitrión…',
+  'revive.approvedTitle': '¡Has vuelto!',
+  'revive.approvedBody': 'El anfitrión aprobó tu petición. ¡Salud restaurada!',
+  'revive.declinedTitle': 'Petición rechazada',
+  'revive.declinedBody': 'El anfitrión rechazó tu petición. ¡Más suerte la próxima vez!',
+
+  'shop.title': '🛒 Tienda',
+  'shop.yourCoins': 'Tus monedas:',
+  'shop.auto': 'auto',
+  'shop.use': 'usar',
+  'shop.buy': 'Comprar',
+
+  'inventory.title': '🎒 Inventario',
+  'inventory.passive': 'Pasivos (se activan solos):',
+  'inventory.active': 'Activos (úsalos durante las preguntas):',
+  'inventory.removed': '50/50 eliminó: {letters}',
+
+  'results.youFinished': 'Terminaste',
+  'results.ofTotal': 'de {total}',
+  'results.score': '⭐ {score} pts',
+  'results.coins': '🪙 {coins} monedas',
+  'results.lives': '❤️ {lives} vidas',
+  'scoreboard.title': 'Clasificación',
+
+  'log.resumed': '✅ Reconectado',
+  'log.joined': '✅ Te uniste como "{name}"',
+  'log.selected': '✅ Elegida: {answer}',
+  'log.lockedIn': '🔒 ¡Confirmado!',
+  'log.bought': '✅ Compraste {item}',
+  'log.used': '✅ Usaste {item}',
+  'log.boughtBack': '✅ ¡Has vuelto a entrar!',
+  'log.reviveRequested': '🙏 Petición de revivir enviada; esperando al anfitrión…',
+  'log.failed': '❌ {action}: {error}',
+  'log.planReset': '↺ El plan de la partida no cabía en la mezcla y se ha restablecido',
+  'log.done': '✅ {action}',
+  'log.error': '❌ {error}',
+  'action.lockIn': 'Confirmar',
+  'action.wager': 'Apuesta',
+  'action.buy': 'Compra',
+  'action.use': 'Uso',
+  'action.revive': 'Revivir',
+
+  /* ── Entry screens ── */
+  'entry.pillLan': 'Ideal para LAN',
+  'entry.pillParty': 'Listo para fiestas',
+  'entry.pillPowerUps': 'Potenciadores',
+  'entry.pillBosses': 'Combates finales',
+  'entry.lead': 'Elige un nombre y crea una sala o únete con un código.',
+  'entry.displayName': 'Nombre visible',
+  'entry.namePlaceholder': 'p. ej. PixelWizard',
+  'entry.nameOk': '✓ Perfecto',
+  'entry.nameLength': '2–18 caracteres',
+  'entry.roomCode': 'Código de sala',
+  'entry.codeOk': '✓ Listo',
+  'entry.codeLength': 'Al menos 4 caracteres',
+  'entry.modeJoin': 'Unirse',
+  'entry.modeHost': 'Anfitrión',
+  'entry.createLobby': 'Crear sala',
+  'entry.joinLobby': 'Unirse a la sala',
+  'entry.press': 'Pulsa',
+  'entry.toContinue': 'para continuar',
+  'entry.mobile': 'Funciona genial en el móvil',
+  'entry.playingAs': 'Juegas con tu perfil',
+  'entry.profile': 'Perfil y estadísticas',
+  'entry.createProfile': 'Guarda tus estadísticas con un perfil →',
+
+  'joinPage.title': 'Unirse a una sala',
+  'joinPage.lead': 'Escribe el código de la sala y entrarás en la sala de espera.',
+  'joinPage.roomCode': 'CÓDIGO DE SALA',
+  'joinPage.ready': 'Listo.',
+  'joinPage.codeLength': 'Escribe al menos 4 caracteres.',
+  'joinPage.join': 'Unirse →',
+
+  'hostCreate.creating': 'Creando la sala…',
+  'hostCreate.title': 'Elige un paquete de preguntas',
+  'hostCreate.creatingLead': 'Generando un código de sala y abriendo el panel del anfitrión.',
+  'hostCreate.lead': 'Podrás cambiar de paquete en la sala de espera hasta que empiece el juego.',
+  'hostCreate.backToStart': 'Volver al inicio',
+  'hostCreate.talking': 'Conectando con el servidor…',
+  'hostCreate.loading': 'Cargando paquetes de preguntas…',
+  'hostCreate.noPacks':
+    'No hay paquetes de preguntas cargados: añade uno en data/question-packs/ o en el editor de paquetes.',
+  'hostCreate.create': 'Crear sala →',
+
+  /* ── Profiles ── */
+  'profile.title': 'Tu perfil',
+  'profile.lead': 'Conserva tu nombre, tu avatar y tus estadísticas de una partida a otra.',
+  'profile.createTitle': 'Crear un perfil',
+  'profile.name': 'Nombre',
+  'profile.avatar': 'Avatar',
+  'profile.pin': 'PIN (opcional)',
+  'profile.pinHint': '4–8 dígitos: te permite iniciar sesión en otro dispositivo con tu nombre.',
+  'profile.create': 'Crear perfil →',
+  'profile.signInTitle': '¿Ya tienes uno? Inicia sesión con tu PIN',
+  'profile.signIn': 'Iniciar sesión',
+  'profile.linking': 'Iniciando sesión con tu enlace…',
+  'profile.loading': 'Cargando tu perfil…',
+  'profile.save': 'Guardar',
+  'profile.saved': 'Guardado.',
+  'profile.newPin': 'Nuevo PIN',
+  'profile.removePin': 'Quitar PIN',
+  'profile.stats': 'Estadísticas totales',
+  'profile.gamesPlayed': 'Partidas jugadas',
+  'profile.wins': 'Victorias',
+  'profile.accuracy': 'Precisión',
+  'profile.bossesDefeated': 'Jefes derrotados',
+  'profile.allInsWon': 'Apuestas totales ganadas',
+  'profile.favouriteCategories': 'Categorías favoritas',
+  'profile.noFavourites': 'Responde unas preguntas para descubrirlo.',
+  'profile.makeLink': 'Iniciar sesión en otro dispositivo',
+  'profile.linkHint':
+    'Abre este enlace en el otro dispositivo antes de 15 minutos. Solo funciona una vez.',
+  'profile.signOut': 'Cerrar sesión',
+  'profile.play': 'Jugar →',
+  'profile.failed': 'No se pudo conectar con el servidor.',
+
+  /* ── Packs ── */
+  'packs.search': 'Busca paquetes, etiquetas, autores…',
+  'packs.anyLanguage': 'Cualquier idioma',
+  'packs.anyRating': 'Cualquier clasificación',
+  'packs.upTo': 'Hasta {rating}',
+  'packs.anyLength': 'Cualquier duración',
+  'packs.maxMinutes': '≤ {minutes} min',
+  'packs.noMatch': 'Ningún paquete coincide: prueba con menos filtros.',
+  'packs.questionCount': '{count} preguntas',
+  'packs.unplayable': '⚠️ No hay preguntas para {acts}: no se puede jugar',
+  'packs.leftOut': '⚠️ No hay preguntas para {acts}: queda fuera del plan',
+  'packs.change': 'Cambiar paquete',
+  'packs.done': 'Hecho',
+  'packs.minutes': '{minutes} min',
+  'packs.estimated': 'Estimado a partir de las preguntas y los temporizadores',
+  'difficulty.easy': '🟢 Fácil',
+  'difficulty.medium': '🟡 Media',
+  'difficulty.hard': '🔴 Difícil',
+  'difficulty.mixed': '🎲 Variada',
+  'rating.family': '👪 Familiar',
+  'rating.teen': '🧑 Adolescentes',
+  'rating.mature': '🔞 Adultos',
+
+  'mix.title': '🧪 Mezcla de paquetes',
+  'mix.lead':
+    'Saca las preguntas de un acto de varios paquetes. Los pesos fijan la parte de cada uno.',
+  'mix.open': 'Mezclar paquetes',
+  'mix.hide': 'Ocultar',
+  'mix.addPack': '＋ Paquete',
+  'mix.weight': 'Peso',
+  'mix.save': 'Guardar mezcla',
+  'mix.clear': 'Vaciar',
+
+  /* ── Run plan ── */
+  'plan.title': 'Plan de juego',
+  'plan.edit': '✏️ Editar plan',
+  'plan.editLead':
+    'Salta, repite o reordena actos. Un acto repetido recibe preguntas nuevas, así que sus pasos comparten las preguntas del acto.',
+  'plan.actOption': '{emoji} {name} ({count} preguntas)',
+  'plan.questions': 'Preguntas',
+  'plan.remove': 'Quitar',
+  'plan.addAct': '＋ Añadir acto',
+  'plan.cancel': 'Cancelar',
+  'plan.save': 'Guardar plan',
+  'plan.perAct': 'Preguntas por acto',
+  'plan.all': 'Todas',
+  'plan.sampling': 'Selección',
+  'plan.preferUnseen': 'Preferir preguntas no vistas',
+  'plan.historyGroup': 'Grupo de historial',
+  'plan.thisRoomOnly': 'Solo esta sala',
+  'plan.seen': '{seen}/{total} vistas',
+  'plan.reset': 'Reiniciar',
+  'sampling.random': 'Aleatoria',
+  'sampling.sequential': 'En el orden del paquete',
+  'sampling.balanced': 'Categorías equilibradas',
+  'sampling.ramped': 'De fácil a difícil',
+
+  /* ── Paused ── */
+  'pause.title': 'En pausa',
+  'pause.body': 'El anfitrión pausó el juego: el reloj está detenido.',
+
+  /* ── Presenter screen ── */
+  'screen.scanToJoin': 'Escanea para unirte',
+  'screen.orVisit': 'o abre {url}',
+  'screen.players': '{count} jugadores',
+  'screen.waitingForPlayers': 'Esperando jugadores…',
+  'screen.waitingForHost': 'El anfitrión empezará el juego enseguida',
+  'screen.lockedIn': '🔒 {count}/{total} confirmados',
+  'screen.answered': '{count}/{total} aciertos',
+  'screen.wagersIn': '{count}/{total} apuestas hechas',
+  'screen.bossHp': 'Vida del jefe {hp}/{maxHp}',
+  'screen.shopOpen': '🛒 Tienda abierta: gasta tus monedas en el móvil',
+  'screen.leaderboard': 'Clasificación',
+  'screen.gameOver': '🏁 Fin del juego',
+  'screen.connecting': 'Conectando con la sala {code}…',
+
+  /* ── Host dashboard ── */
+  'host.dashboard': 'Panel del anfitrión',
+  'host.roomOf': 'Sala de {name}',
+  'host.room': 'Sala del anfitrión',
+  'host.lan': 'LAN',
+  'host.presenterScreen': '📺 Pantalla para proyectar',
+  'host.phase': 'Fase: {phase}',
+  'host.questionsLeft': 'Preguntas restantes: {count}',
+  'host.progress': 'Progreso: {number}/{total}',
+  'host.noHostKey': '❌ Falta la clave de anfitrión',
+  'host.resumed': '✅ De vuelta en la sala',
+  'host.startWager': 'Lanzar la pregunta de alto riesgo',
+  'host.spotlightStays': 'El foco seguirá en pantalla hasta que pulses Lanzar.',
+  'host.reviveRequest': '¡{name} pide que lo revivan!',
+  'host.reviveForfeit': 'Haz que cumpla la prenda en la vida real. Luego aprueba o rechaza.',
+  'host.approve': 'Aprobar',
+  'host.decline': 'Rechazar',
+  'host.approveRevive': 'Aprobar revivir',
+  'host.declineRevive': 'Rechazar revivir',
+  'host.gameFlow': 'Desarrollo del juego',
+  'host.flowHint':
+    'Empezar acto → Preguntas → Revelar → (Tienda) → Siguiente pregunta → … → Intermedio → Siguiente acto',
+  'host.startGame': 'Empezar juego',
+  'host.nextQuestion': 'Siguiente pregunta',
+  'host.reveal': 'Revelar respuesta',
+  'host.openShop': 'Abrir tienda',
+  'host.closeShop': 'Cerrar tienda',
+  'host.lockWagers': 'Cerrar apuestas',
+  'host.startBoss': 'Empezar combate final',
+  'host.startAct': 'Empezar {act}',
+  'host.actComplete': '🎬 ¡{act} terminado! Empieza el siguiente acto:',
+  'host.shopTip': '💡 También puedes abrir la tienda antes de empezar el siguiente acto.',
+  'host.pause': 'Pausar',
+  'host.resume': 'Reanudar',
+  'host.pausedBanner': '⏸ En pausa: los temporizadores están congelados hasta que reanudes.',
+  'host.admit': 'Admitir jugador',
+  'host.declineJoin': 'Rechazar jugador',
+  'join.title': '🚪 Esperando para unirse ({count})',
+  'join.hint': 'Los jugadores admitidos entran cuando empieza la siguiente pregunta.',
+  'join.score': 'Puntos',
+  'join.admittedNext': 'Admitido: entra en la siguiente pregunta',
+  'autopilot.title': 'Piloto automático',
+  'autopilot.hint': 'Avanza el juego con temporizadores; aún puedes pulsar cualquier paso antes.',
+  'autopilot.dwell': 'Pausa (s)',
+  'autopilot.shop': 'Tienda entre actos (s)',
+  'autopilot.next': 'Siguiente: {action} en {seconds}s',
+  'autopilot.waiting': 'Esperando al temporizador…',
+  'autopilot.failed':
+    'El piloto automático se desactivó en «{action}»: {message} Da ese paso a mano o vuelve a activarlo.',
+  'autopilot.action.reveal': 'revelar',
+  'autopilot.action.next': 'siguiente pregunta',
+  'autopilot.action.shop': 'abrir tienda',
+  'autopilot.action.act': 'siguiente acto',
+  'autopilot.action.spotlight_end': 'terminar foco',
+  'host.switchPack': 'Cambiar paquete',
+  'host.saveMix': 'Guardar mezcla de paquetes',
+  'host.savePlan': 'Guardar plan de juego',
+  'host.updateSettings': 'Actualizar ajustes',
+  'host.resetHistory': 'Reiniciar historial de preguntas',
+  'host.currentQuestion': '❓ Pregunta actual',
+  'host.hardAtRisk': '⚠️ DIFÍCIL — corazones en juego',
+  'host.countdown': 'Cuenta atrás…',
+  'host.revealIn': '⏱️ Revelar en',
+  'host.allLocked': '· ¡Todos confirmados!',
+  'host.locked': 'Cerrada',
+  'host.open': 'Abierta',
+  'host.totalWagered': '· Total apostado: {total}',
+  'host.bossFight': '🐉 Combate final',
+  'host.hp': 'PV: {hp} / {max}',
+  'host.players': 'Jugadores ({count})',
+  'host.noPlayers': 'Todavía no hay jugadores. Comparte el código o la URL de la LAN.',
+  'host.doublePoints': 'Puntos dobles activos',
+  'host.shield': 'Escudo activo',
+  'host.buyback': 'Tiene ficha de recompra',
+  'host.downloadResults': '⬇️ Descargar resultados:',
+  'host.downloadAnswers': 'Respuestas (CSV)',
+  'host.downloadStandings': 'Clasificación (CSV)',
+  'host.downloadAll': 'Todo (JSON)',
+};
+
+export const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en: EN, es: ES };
@@ -0,0 +1,288 @@
+/**
+ * Pack Authoring
+ *
+ * REST endpoints behind the `/packs` editor, mounted at `/api/packs`:
+ *
+ *   GET    /api/packs/:id/source   the pack file as written (answers included)
+ *   GET    /api/packs/:id/export   download it: `?format=json` (default, ruleset included)
+ *                                  or `csv` — both import back with `/import`
+ *   POST   /api/packs/validate     check a pack without saving it
+ *   POST   /api/packs              create a pack (409 if the ID is taken)
+ *   PUT    /api/packs/:id          replace a pack
+ *   DELETE /api/packs/:id          delete a pack (and its `.ruleset.json`)
+ *   POST   /api/packs/import       convert an uploaded file (see `packImport.ts`) and save it
+ *
+ * The import body is the file itself. Query: `file` (its name — picks the format
+ * and default ID), `format` (csv, tsv, opentdb, kahoot, pack — overrides the guess),
+ * `id`, `name`, `act`, and `dryRun=1` to get the converted `source` back unsaved.
+ *
+ * Every route needs `Authorization: Bearer <token>`. The token comes from
+ * `PACK_EDITOR_TOKEN`; without it a random one is generated and logged at startup.
+ *
+ * A pack is only saved if it has no errors at all — a rejected save lists every
+ * diagnostic found (`{ ok: false, error, diagnostics }`), not just the first.
+ * Saved packs are live right away: the packs directory is reloaded after each write.
+ */
+
+import { logger } from '@/lib/logger';
+import { DEFAULT_RULESET } from '@/lib/gameConfig';
+import { countDiagnostics } from '@/lib/packDiagnostics';
+import { exportPackCsv } from '@/lib/packExport';
+import { detectImportFormat, IMPORT_FORMATS, importPack } from '@/lib/packImport';
+import type { ImportFormat, PackSource, PackValidation } from '@/lib/types';
+import {
+  getPack,
+  getPackFile,
+  getPacksDir,
+  loadQuestionPacks,
+  PACK_ID_RE,
+  validatePackSource,
+} from '@/lib/questionLoader';
+import crypto from 'crypto';
+import express, { type NextFunction, type Request, type Response, type Router } from 'express';
+import fs from 'fs';
+import path from 'path';
+
+/** Largest pack body (or imported file) accepted */
+const MAX_PACK_BYTES = '2mb';
+
+/* ── Token ── */
+
+/** The editor token: `PACK_EDITOR_TOKEN`, or a random one for this run (logged) */
+export function resolvePackEditorToken(): string {
+  const fromEnv = process.env.PACK_EDITOR_TOKEN?.trim();
+  if (fromEnv) return fromEnv;
+
+  const token = crypto.randomBytes(12).toString('base64url');
+  logger.warn({ token }, 'PACK_EDITOR_TOKEN not set — generated a pack editor token for this run');
+  return token;
+}
+
+function requireToken(token: string) {
+  const expected = Buffer.from(token);
+  return (req: Request, res: Response, next: NextFunction) => {
+    const given = Buffer.from(req.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '');
+    if (given.length === expected.length && crypto.timingSafeEqual(given, expected)) {
+      next();
+      return;
+    }
+    res.status(401).json({ ok: false, error: 'A valid pack editor token is required.' });
+  };
+}
+
+/* ── Files ── */
+
+/** Write via a temp file, so a crash mid-write never leaves a truncated pack */
+function writePackFile(file: string, source: unknown) {
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, `${JSON.stringify(source, null, 2)}\n`, 'utf-8');
+  fs.renameSync(tmp, file);
+}
+
+const fileIdOf = (file: string) => path.basename(file, '.json');
+
+/** The pack ID in a request body, or why it's unusable */
+function bodyPackId(body: unknown): string | { error: string } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { error: 'The pack must be a JSON object.' };
+  }
+  const { id } = body as { id?: unknown };
+  if (typeof id !== 'string' || !PACK_ID_RE.test(id)) {
+    return { error: '"id" must be 1-40 lowercase letters, digits, "_" or "-".' };
+  }
+  return id;
+}
+
+/**
+ * Validate `source` as `<fileId>.json`, then write it and reload every pack.
+ * Responds with the saved pack's summary, or every error if it isn't valid.
+ */
+function savePack(
+  res: Response,
+  source: unknown,
+  file: string,
+  status: number,
+  { diagnostics, summary }: PackValidation = validatePackSource(source, fileIdOf(file))
+) {
+  const { errors } = countDiagnostics(diagnostics);
+  if (errors > 0 || !summary) {
+    res.status(400).json({
+      ok: false,
+      error: `The pack has ${errors} error(s) — nothing was saved.`,
+      diagnostics,
+    });
+    return;
+  }
+
+  writePackFile(file, source);
+  loadQuestionPacks(getPacksDir());
+  logger.info({ packId: summary.id, file }, 'Question pack saved');
+  res.status(status).json({ ok: true, pack: summary, diagnostics });
+}
+
+/* ── Routes ── */
+
+export function createPackAuthoringRouter(token: string): Router {
+  const router = express.Router();
+  router.use(requireToken(token));
+
+  // Takes the raw file, so it goes before the JSON body parser
+  router.post('/import', express.text({ type: () => true, limit: MAX_PACK_BYTES }), (req, res) => {
+    const query = (key: string) =>
+      typeof req.query[key] === 'string' ? req.query[key] : undefined;
+    const text = typeof req.body === 'string' ? req.body : '';
+    const file = query('file') ?? 'import';
+    const format = (query('format') ?? detectImportFormat(file, text)) as ImportFormat | undefined;
+    if (!format || !IMPORT_FORMATS.includes(format)) {
+      res.status(400).json({
+        ok: false,
+        error: `Can't tell what kind of file this is — pass format=${IMPORT_FORMATS.join('|')}.`,
+        diagnostics: [],
+      });
+      return;
+    }
+
+    const imported = importPack(format, text, {
+      file,
+      id: query('id'),
+      name: query('name'),
+      act: query('act'),
+    });
+    const id = bodyPackId(imported.source);
+    if (typeof id !== 'string') {
+      res.status(400).json({ ok: false, error: id.error, diagnostics: imported.diagnostics });
+      return;
+    }
+    const { errors } = countDiagnostics(imported.diagnostics);
+    if (query('dryRun')) {
+      res.json({ ok: errors === 0, ...imported });
+      return;
+    }
+
+    const target = path.join(getPacksDir(), `${id}.json`);
+    if (getPack(id) || fs.existsSync(target)) {
+      res.status(409).json({ ok: false, error: `A pack called "${id}" already exists.` });
+      return;
+    }
+    fs.mkdirSync(getPacksDir(), { recursive: true });
+    savePack(res, imported.source, target, 201, imported);
+  });
+
+  router.use(express.json({ limit: MAX_PACK_BYTES }));
+
+  router.get('/:id/source', (req, res) => {
+    const file = getPackFile(req.params.id);
+    if (!file) {
+      res.status(404).json({ ok: false, error: 'Pack not found.' });
+      return;
+    }
+    res.json({ ok: true, source: JSON.parse(fs.readFileSync(file, 'utf-8')) });
+  });
+
+  router.get('/:id/export', (req, res) => {
+    const file = getPackFile(req.params.id);
+    if (!file) {
+      res.status(404).json({ ok: false, error: 'Pack not found.' });
+      return;
+    }
+    const source = JSON.parse(fs.readFileSync(file, 'utf-8')) as PackSource;
+    const id = req.params.id;
+
+    if (req.query.format === 'csv') {
+      const classic = new Set(DEFAULT_RULESET.acts.map((a) => a.id));
+      if (!Object.keys(source.questions ?? {}).every((act) => classic.has(act))) {
+        res.status(400).json({
+          ok: false,
+          error: "This pack has its own acts, which CSV files can't hold — export it as JSON.",
+        });
+        return;
+      }
+      res.attachment(`${id}.csv`).type('text/csv').send(exportPackCsv(source));
+      return;
+    }
+    if (req.query.format !== undefined && req.query.format !== 'json') {
+      res.status(400).json({ ok: false, error: 'format must be json or csv.' });
+      return;
+    }
+
+    // A self-contained copy: bring in a `.ruleset.json` kept next to the pack
+    const rulesetFile = path.join(path.dirname(file), `${fileIdOf(file)}.ruleset.json`);
+    if (source.ruleset === undefined && fs.existsSync(rulesetFile)) {
+      source.ruleset = JSON.parse(fs.readFileSync(rulesetFile, 'utf-8'));
+    }
+    res
+      .attachment(`${id}.json`)
+      .type('application/json')
+      .send(`${JSON.stringify(source, null, 2)}\n`);
+  });
+
+  router.post('/validate', (req, res) => {
+    const id = bodyPackId(req.body);
+    if (typeof id !== 'string') {
+      res.json({ ok: false, error: id.error, diagnostics: [] });
+      return;
+    }
+    const existing = getPackFile(id);
+    const result = validatePackSource(req.body, existing ? fileIdOf(existing) : id);
+    res.json({ ok: countDiagnostics(result.diagnostics).errors === 0, ...result });
+  });
+
+  router.post('/', (req, res) => {
+    const id = bodyPackId(req.body);
+    if (typeof id !== 'string') {
+      res.status(400).json({ ok: false, error: id.error, diagnostics: [] });
+      return;
+    }
+    const file = path.join(getPacksDir(), `${id}.json`);
+    if (getPack(id) || fs.existsSync(file)) {
+      res.status(409).json({ ok: false, error: `A pack called "${id}" already exists.` });
+      return;
+    }
+    fs.mkdirSync(getPacksDir(), { recursive: true });
+    savePack(res, req.body, file, 201);
+  });
+
+  router.put('/:id', (req, res) => {
+    const file = getPackFile(req.params.id);
+    if (!file) {
+      res.status(404).json({ ok: false, error: 'Pack not found.' });
+      return;
+    }
+    const id = bodyPackId(req.body);
+    if (typeof id !== 'string' || id !== req.params.id) {
+      const error =
+        typeof id === 'string' ? `"id" can't change (this pack is "${req.params.id}").` : id.error;
+      res.status(400).json({ ok: false, error, diagnostics: [] });
+      return;
+    }
+    savePack(res, req.body, file, 200);
+  });
+
+  router.delete('/:id', (req, res) => {
+    const file = getPackFile(req.params.id);
+    if (!file) {
+      res.status(404).json({ ok: false, error: 'Pack not found.' });
+      return;
+    }
+    fs.rmSync(file);
+    fs.rmSync(path.join(path.dirname(file), `${fileIdOf(file)}.ruleset.json`), { force: true });
+    loadQuestionPacks(getPacksDir());
+    logger.info({ packId: req.params.id, file }, 'Question pack deleted');
+    res.json({ ok: true });
+  });
+
+  // Malformed / oversized bodies, and anything that went wrong on disk
+  router.use((err: Error & { type?: string }, _req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) return next(err);
+    if (err.type === 'entity.too.large') {
+      res.status(413).json({ ok: false, error: `The pack is too large (max ${MAX_PACK_BYTES}).` });
+    } else if (err.type === 'entity.parse.failed') {
+      res.status(400).json({ ok: false, error: 'The pack is not valid JSON.' });
+    } else {
+      logger.error({ error: err.message }, 'Pack authoring request failed');
+      res.status(500).json({ ok: false, error: 'Something went wrong saving the pack.' });
+    }
+  });
+
+  return router;
+}
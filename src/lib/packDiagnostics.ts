@@ -0,0 +1,110 @@
+/**
+ * Pack Diagnostics
+ *
+ * Helpers for the problems the loader reports per pack, and the content checks
+ * behind its warnings — questions that load fine but probably aren't what the
+ * author meant:
+ *   - the same prompt twice in a pack
+ *   - the same choice twice in a question
+ *   - wager questions without a `hint` (players would bet blind)
+ *   - acts with too few questions for how they play
+ */
+
+import { DEFAULT_BOSS_HP } from '@/lib/gameConfig';
+import type { ActConfig, ActId, ActKind, PackDiagnostic, Question } from '@/lib/types';
+
+/** Fewest questions an act of each kind should have */
+const MIN_ACT_QUESTIONS: Record<ActKind, number> = {
+  standard: 2, // a lone question is over before anyone earns coins for the shop
+  wager: 1,
+  boss: DEFAULT_BOSS_HP, // one correct answer per boss HP for a solo player
+};
+
+/** How many questions `act` should have — never more than it plays */
+function minQuestions(act: ActConfig): number {
+  return Math.min(MIN_ACT_QUESTIONS[act.kind], act.maxQuestions ?? Infinity);
+}
+
+/** "default.json → homeroom[3]: "value" must be a positive number" */
+export function formatDiagnostic(d: PackDiagnostic): string {
+  const index = d.index !== undefined ? `[${d.index}]` : '';
+  const where = d.actId ? ` → ${d.actId}${index}` : '';
+  return `${d.file}${where}: ${d.message}`;
+}
+
+export function countDiagnostics(diagnostics: PackDiagnostic[]) {
+  const errors = diagnostics.filter((d) => d.severity === 'error').length;
+  return { errors, warnings: diagnostics.length - errors };
+}
+
+const sameText = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** A loaded question and where it sits in the file */
+export type IndexedQuestion = { index: number; question: Question };
+
+/** Warnings for a pack's loaded questions, act by act in ruleset order */
+export function findSuspiciousContent(
+  file: string,
+  acts: ActConfig[],
+  questions: Record<ActId, IndexedQuestion[]>
+): PackDiagnostic[] {
+  const warnings: PackDiagnostic[] = [];
+  const warn = (d: Omit<PackDiagnostic, 'file' | 'severity'>) =>
+    warnings.push({ file, severity: 'warning', ...d });
+
+  /** First place each prompt appeared */
+  const prompts = new Map<string, string>();
+
+  for (const act of acts) {
+    const actQuestions = questions[act.id] ?? [];
+    const min = minQuestions(act);
+
+    if (actQuestions.length === 0) {
+      warn({ actId: act.id, message: 'No questions — the act will be skipped' });
+    } else if (actQuestions.length < min) {
+      warn({
+        actId: act.id,
+        message: `Only ${actQuestions.length} question(s) — a ${act.kind} act needs at least ${min}`,
+      });
+    }
+
+    for (const { index, question: q } of actQuestions) {
+      const where = `${act.id}[${index}]`;
+
+      const prompt = sameText(q.prompt);
+      const first = prompts.get(prompt);
+      if (first) {
+        warn({ actId: act.id, index, field: 'prompt', message: `Same prompt as ${first}` });
+      } else {
+        prompts.set(prompt, where);
+      }
+
+      if ('choices' in q && q.type !== 'true_false') {
+        const seen = new Set<string>();
+        for (const choice of q.choices) {
+          const key = sameText(choice);
+          if (seen.has(key)) {
+            warn({
+              actId: act.id,
+              index,
+              field: 'choices',
+              message: `"${choice}" is listed twice`,
+            });
+          }
+          seen.add(key);
+        }
+      }
+
+      if (act.kind === 'wager' && !q.hint) {
+        warn({
+          actId: act.id,
+          index,
+          field: 'hint',
+          message: 'No hint — wager players bet before they see the question',
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
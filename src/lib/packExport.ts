@@ -0,0 +1,71 @@
+/**
+ * Pack Export
+ *
+ * A pack as a spreadsheet, in the columns `packImport.ts` reads — so an
+ * exported CSV imports back to the same questions. Answers are written as the
+ * right choices' text ("Paris", "Bat|Whale"), "true" / "false", or accepted
+ * answers ("6|six").
+ * Optional columns (tags, extra hint, media, id) are only included if some question uses them.
+ *
+ * Not in the CSV: the pack's own ruleset and pack-level fields (name, description, metadata).
+ * Use the JSON export for a complete copy.
+ */
+
+import { type Cell, formatDelimited } from '@/lib/csv';
+import type { PackSource, PackSourceQuestion } from '@/lib/types';
+
+const COLUMNS = ['act', 'type', 'category', 'prompt', 'choices', 'answer', 'value', 'hard', 'hint'];
+
+const OPTIONAL_COLUMNS: { column: string; cell: (q: PackSourceQuestion) => Cell }[] = [
+  { column: 'tags', cell: (q) => q.tags?.join('|') },
+  { column: 'extra_hint', cell: (q) => q.extraHint },
+  { column: 'media', cell: (q) => q.media?.src },
+  { column: 'media_type', cell: (q) => q.media?.type },
+  { column: 'media_alt', cell: (q) => q.media?.alt },
+  { column: 'media_start', cell: (q) => q.media?.start },
+  { column: 'media_end', cell: (q) => q.media?.end },
+  { column: 'id', cell: (q) => q.id },
+];
+
+function answerCell(q: PackSourceQuestion): Cell {
+  switch (q.type ?? 'multiple_choice') {
+    case 'true_false':
+      return q.answer === undefined ? '' : String(q.answer);
+    case 'free_text':
+      return q.answers?.join('|');
+    case 'ordering':
+      return '';
+    case 'multi_select':
+      return q.answerIndexes?.map((i) => q.choices?.[i]).join('|');
+    case 'multiple_choice':
+    default:
+      return q.answerIndex === undefined ? '' : q.choices?.[q.answerIndex];
+  }
+}
+
+/** Every question of a pack as CSV, one row each, acts in file order */
+export function exportPackCsv(source: PackSource, delimiter = ','): string {
+  const all = Object.values(source.questions).flat();
+  const optional = OPTIONAL_COLUMNS.filter(({ cell }) =>
+    all.some((q) => cell(q) !== undefined && cell(q) !== '')
+  );
+
+  const rows: Cell[][] = [[...COLUMNS, ...optional.map((o) => o.column)]];
+  for (const [actId, questions] of Object.entries(source.questions)) {
+    for (const q of questions) {
+      rows.push([
+        actId,
+        q.type && q.type !== 'multiple_choice' ? q.type : '',
+        q.category,
+        q.prompt,
+        q.type === 'true_false' || q.type === 'free_text' ? '' : q.choices?.join('|'),
+        answerCell(q),
+        q.value,
+        q.hard ? 'yes' : '',
+        q.hint,
+        ...optional.map(({ cell }) => cell(q)),
+      ]);
+    }
+  }
+  return formatDelimited(rows, delimiter);
+}
@@ -0,0 +1,88 @@
+/**
+ * Pack Filter
+ *
+ * Narrows a pack list down by metadata — "family-friendly, about 20 minutes,
+ * English". Used by `listPacks` (so also `GET /api/packs?…`) and by pickers
+ * that filter a list they already have. Shared with the browser, so no Node imports.
+ */
+
+import type { ContentRating, PackDifficulty, PackFilter, PackSummary } from '@/lib/types';
+
+export const PACK_DIFFICULTIES: PackDifficulty[] = ['easy', 'medium', 'hard', 'mixed'];
+
+/** Mildest first — a rating filter allows everything up to and including it */
+export const CONTENT_RATINGS: ContentRating[] = ['family', 'teen', 'mature'];
+
+export const LANGUAGE_RE = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+/** How tags are compared and stored: lower case, single hyphens instead of spaces */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/** "pt-br" and "PT-BR" are the same language; "en" also matches "en-GB" */
+function languageMatches(packLanguage: string, wanted: string): boolean {
+  const have = packLanguage.toLowerCase();
+  const want = wanted.toLowerCase();
+  return have === want || have.startsWith(`${want}-`);
+}
+
+export function matchesPackFilter(pack: PackSummary, filter: PackFilter): boolean {
+  const { metadata } = pack;
+  const tags = new Set([...metadata.tags, ...pack.questionTags]);
+
+  if (filter.tags?.some((t) => !tags.has(normalizeTag(t)))) return false;
+  if (filter.language && !languageMatches(metadata.language, filter.language)) return false;
+  if (filter.difficulty && metadata.difficulty !== filter.difficulty) return false;
+  if (
+    filter.rating &&
+    (!metadata.rating ||
+      CONTENT_RATINGS.indexOf(metadata.rating) > CONTENT_RATINGS.indexOf(filter.rating))
+  ) {
+    return false;
+  }
+  if (filter.maxMinutes !== undefined && pack.estimatedMinutes > filter.maxMinutes) return false;
+
+  const words = (filter.search ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length > 0) {
+    const haystack = [pack.name, pack.description, metadata.author ?? '', ...tags]
+      .join(' ')
+      .toLowerCase();
+    if (!words.every((w) => haystack.includes(w))) return false;
+  }
+  return true;
+}
+
+/** All values of a query-string parameter: `?tag=a&tag=b` and `?tag=a,b` both work */
+function queryValues(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((v): v is string => typeof v === 'string')
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * A filter from query-string parameters (`search`, `tag`, `language`,
+ * `difficulty`, `rating`, `maxMinutes`). Malformed values are ignored.
+ */
+export function parsePackFilter(query: Record<string, unknown>): PackFilter {
+  const one = (key: string) => queryValues(query[key])[0];
+  const filter: PackFilter = {};
+
+  const search = one('search');
+  if (search) filter.search = search;
+  const tags = queryValues(query.tag);
+  if (tags.length > 0) filter.tags = tags;
+  const language = one('language');
+  if (language && LANGUAGE_RE.test(language)) filter.language = language;
+  const difficulty = one('difficulty') as PackDifficulty | undefined;
+  if (difficulty && PACK_DIFFICULTIES.includes(difficulty)) filter.difficulty = difficulty;
+  const rating = one('rating') as ContentRating | undefined;
+  if (rating && CONTENT_RATINGS.includes(rating)) filter.rating = rating;
+  const maxMinutes = Number(one('maxMinutes'));
+  if (Number.isFinite(maxMinutes) && maxMinutes > 0) filter.maxMinutes = maxMinutes;
+
+  return filter;
+}
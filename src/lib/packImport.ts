@@ -0,0 +1,599 @@
+/**
+ * Pack Import
+ *
+ * Converts question sets written elsewhere into the pack format, then checks
+ * them with the loader like any hand-written pack:
+ *
+ *   csv / tsv   a spreadsheet export, one question per row (columns below)
+ *   opentdb     an Open Trivia DB API response — `{ results: [...] }`, default encoding
+ *   kahoot      a kahoot as JSON — `{ title, questions: [{ question, choices: [{ answer, correct }] }] }`
+ *   pack        a pack file, e.g. from `GET /api/packs/:id/export` — taken as is
+ *
+ * Spreadsheet columns (header row first, any order, case-insensitive):
+ *   act       act ID, e.g. "homeroom" (blank: spread over the acts, see below)
+ *   category  (default "General")
+ *   prompt
+ *   choices   separated by "|"
+ *   answer    the right choice: its text, letter (B) or number (2).
+ *             "A|C" for several right choices, "true" / "false" with no choices,
+ *             accepted answers separated by "|" for free text (no choices)
+ *   value     points (default 100)
+ *   hard      yes / true / 1
+ *   hint
+ *   type      optional — inferred from choices and answer. Ordering questions
+ *             need it ("ordering", choices listed in the right order).
+ *   tags      optional, separated by "|"
+ *   extra_hint, media (URL or media-folder file), media_type (image / audio),
+ *   media_alt, media_start, media_end — optional, as in the pack format
+ *   id        optional — the question's own ID key (see questionLoader)
+ *
+ * Questions without an act are dealt out over the classic acts in order, so
+ * the boss gets the last ones. Open Trivia DB questions are sorted easy → hard first.
+ * Diagnostics point at the row (or question number) each question came from.
+ */
+
+import { parseDelimited } from '@/lib/csv';
+import { DEFAULT_RULESET } from '@/lib/gameConfig';
+import { validatePackSource } from '@/lib/questionLoader';
+import { QUESTION_TYPES, TRUE_FALSE_CHOICES } from '@/lib/questionTypes';
+import type {
+  ActId,
+  ImportFormat,
+  PackDiagnostic,
+  PackSource,
+  PackSourceQuestion,
+  PackSummary,
+  QuestionType,
+} from '@/lib/types';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'tsv', 'opentdb', 'kahoot', 'pack'];
+
+const DEFAULT_VALUE = 100;
+const DEFAULT_CATEGORY = 'General';
+
+export type ImportOptions = {
+  /** Pack ID (default: from the file name) */
+  id?: string;
+  name?: string;
+  /** Put every question in this act instead of spreading them out (not for `pack`) */
+  act?: ActId;
+  /** Name of the imported file, for diagnostics and defaults */
+  file?: string;
+};
+
+export type PackImport = {
+  source: PackSource;
+  /** Conversion problems, then everything the loader found */
+  diagnostics: PackDiagnostic[];
+  /** Only if the pack is playable */
+  summary?: PackSummary;
+};
+
+/** A converted question and where it came from ("row 4", "question 2") */
+type Imported = {
+  question: PackSourceQuestion;
+  origin: string;
+  act?: ActId;
+  /** Sort key for spreading (lower plays earlier) */
+  rank?: number;
+};
+
+type Conversion = {
+  name?: string;
+  description?: string;
+  questions: Imported[];
+  problems: Omit<PackDiagnostic, 'file' | 'severity'>[];
+  warnings?: string[];
+};
+
+/* ── Text helpers ── */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  shy: '',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…',
+  ndash: '–',
+  mdash: '—',
+  deg: '°',
+  times: '×',
+  divide: '÷',
+  pi: 'π',
+  euro: '€',
+  pound: '£',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  aacute: 'á',
+  agrave: 'à',
+  auml: 'ä',
+  eacute: 'é',
+  egrave: 'è',
+  Eacute: 'É',
+  iacute: 'í',
+  oacute: 'ó',
+  ouml: 'ö',
+  Ouml: 'Ö',
+  uacute: 'ú',
+  uuml: 'ü',
+  Uuml: 'Ü',
+  ntilde: 'ñ',
+  ccedil: 'ç',
+  szlig: 'ß',
+};
+
+/** Decode the HTML entities Open Trivia DB and Kahoot put in their text */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return NAMED_ENTITIES[code] ?? entity;
+    const n =
+      code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+    return n > 0 && n <= 0x10ffff ? String.fromCodePoint(n) : entity;
+  });
+}
+
+/** Kahoot text is HTML — keep the words */
+const stripTags = (html: string) =>
+  decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]*>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const TRUTHY = new Set(['yes', 'y', 'true', 't', '1', 'x']);
+const FALSY = new Set(['no', 'n', 'false', 'f', '0']);
+
+const splitList = (text: string) =>
+  text
+    .split('|')
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+/** "My Quiz (final).csv" → "my-quiz-final" */
+export function packIdFromFileName(file: string): string {
+  return (
+    file
+      .replace(/^.*[\\/]/, '')
+      .replace(/\.[^.]*$/, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 40) || 'imported'
+  );
+}
+
+/* ── Format detection ── */
+
+/** The format of an uploaded file, from its extension or else its content */
+export function detectImportFormat(file: string, text: string): ImportFormat | undefined {
+  const ext = /\.([a-z]+)$/i.exec(file)?.[1]?.toLowerCase();
+  if (ext === 'csv') return 'csv';
+  if (ext === 'tsv' || ext === 'tab') return 'tsv';
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{')) {
+    try {
+      const raw = JSON.parse(trimmed) as Record<string, unknown>;
+      if (Array.isArray(raw.results)) return 'opentdb';
+      const kahoot = (raw.kahoot ?? raw) as Record<string, unknown>;
+      if (Array.isArray(kahoot.questions)) return 'kahoot';
+      if (typeof raw.questions === 'object' && raw.questions !== null) return 'pack';
+    } catch {
+      return undefined;
+    }
+    return undefined;
+  }
+  if (ext === 'json' || !trimmed) return undefined;
+  return trimmed.split('\n', 1)[0].includes('\t') ? 'tsv' : 'csv';
+}
+
+/* ── CSV / TSV ── */
+
+/** Header names people actually use for each column */
+const COLUMN_ALIASES: Record<string, string> = {
+  question: 'prompt',
+  options: 'choices',
+  correct: 'answer',
+  points: 'value',
+  extrahint: 'extra_hint',
+};
+
+const AUDIO_FILE_RE = /\.(mp3|ogg|oga|wav|m4a|aac|flac|opus)$/i;
+
+/** Which choice an answer names: its text, letter or number */
+function resolveChoice(answer: string, choices: string[]): number | undefined {
+  const text = choices.findIndex((c) => c.toLowerCase() === answer.toLowerCase());
+  if (text >= 0) return text;
+  if (/^[a-z]$/i.test(answer)) {
+    const letter = answer.toUpperCase().charCodeAt(0) - 65;
+    return letter < choices.length ? letter : undefined;
+  }
+  const n = Number(answer);
+  return Number.isInteger(n) && n >= 1 && n <= choices.length ? n - 1 : undefined;
+}
+
+function inferType(choices: string[], answer: string): QuestionType {
+  if (choices.length === 0) {
+    return /^(true|false)$/i.test(answer) ? 'true_false' : 'free_text';
+  }
+  return splitList(answer).length > 1 ? 'multi_select' : 'multiple_choice';
+}
+
+/** A row's answer fields, or what's wrong with them */
+function answerFields(
+  type: QuestionType,
+  choices: string[],
+  answer: string
+): Partial<PackSourceQuestion> | string {
+  switch (type) {
+    case 'true_false': {
+      const a = answer.toLowerCase();
+      if (TRUTHY.has(a)) return { answer: true };
+      if (FALSY.has(a)) return { answer: false };
+      return `answer "${answer}" should be true or false`;
+    }
+    case 'free_text':
+      return { answers: splitList(answer) };
+    case 'ordering':
+      return { choices };
+    case 'multi_select': {
+      const picked = splitList(answer).map((a) => [a, resolveChoice(a, choices)] as const);
+      const missing = picked.find(([, i]) => i === undefined);
+      if (missing) return `answer "${missing[0]}" isn't one of the choices`;
+      return { choices, answerIndexes: picked.map(([, i]) => i!) };
+    }
+    case 'multiple_choice':
+    default: {
+      if (!answer) return 'no answer (ordering questions need the type "ordering")';
+      const index = resolveChoice(answer.trim(), choices);
+      if (index === undefined) return `answer "${answer}" isn't one of the choices`;
+      return { choices, answerIndex: index };
+    }
+  }
+}
+
+function convertSpreadsheet(text: string, delimiter: string): Conversion {
+  const [header = [], ...rows] = parseDelimited(text.replace(/^\uFEFF/, ''), delimiter);
+  const columns = header.map((h) => {
+    const name = h.trim().toLowerCase().replace(/\s+/g, '_');
+    return COLUMN_ALIASES[name] ?? name;
+  });
+  const problems: Conversion['problems'] = [];
+  if (!columns.includes('prompt')) {
+    problems.push({ message: 'The first row must name the columns, including "prompt"' });
+    return { questions: [], problems };
+  }
+
+  const questions: Imported[] = [];
+  rows.forEach((fields, i) => {
+    if (fields.every((f) => !f.trim())) return;
+    const origin = `row ${i + 2}`; // the header is row 1
+    const cell = (column: string) => fields[columns.indexOf(column)]?.trim() ?? '';
+
+    const choices = splitList(cell('choices'));
+    const answer = cell('answer');
+    const type = (cell('type').toLowerCase() || inferType(choices, answer)) as QuestionType;
+    if (!QUESTION_TYPES.includes(type)) {
+      problems.push({ field: 'type', message: `${origin}: unknown type "${cell('type')}"` });
+      return;
+    }
+    const answers = answerFields(type, choices, answer);
+    if (typeof answers === 'string') {
+      problems.push({ field: 'answer', message: `${origin}: ${answers}` });
+      return;
+    }
+    const value = cell('value') ? Number(cell('value')) : DEFAULT_VALUE;
+    if (!Number.isFinite(value)) {
+      problems.push({
+        field: 'value',
+        message: `${origin}: value "${cell('value')}" isn't a number`,
+      });
+      return;
+    }
+
+    const src = cell('media');
+    const clip = (column: string) => (cell(column) ? Number(cell(column)) : undefined);
+    const media: PackSourceQuestion['media'] = src
+      ? {
+          type: (cell('media_type').toLowerCase() ||
+            (AUDIO_FILE_RE.test(src) ? 'audio' : 'image')) as 'image' | 'audio',
+          src,
+          ...(cell('media_alt') ? { alt: cell('media_alt') } : {}),
+          ...(clip('media_start') !== undefined ? { start: clip('media_start') } : {}),
+          ...(clip('media_end') !== undefined ? { end: clip('media_end') } : {}),
+        }
+      : undefined;
+
+    questions.push({
+      origin,
+      act: cell('act') || undefined,
+      question: {
+        ...(cell('id') ? { id: cell('id') } : {}),
+        ...(type === 'multiple_choice' ? {} : { type }),
+        category: cell('category') || DEFAULT_CATEGORY,
+        prompt: cell('prompt'),
+        ...(cell('hint') ? { hint: cell('hint') } : {}),
+        ...(cell('extra_hint') ? { extraHint: cell('extra_hint') } : {}),
+        ...answers,
+        value,
+        ...(TRUTHY.has(cell('hard').toLowerCase()) ? { hard: true } : {}),
+        ...(cell('tags') ? { tags: splitList(cell('tags')) } : {}),
+        ...(media ? { media } : {}),
+      },
+    });
+  });
+
+  return { questions, problems };
+}
+
+/* ── Open Trivia DB ── */
+
+type OpenTdbQuestion = {
+  type?: string;
+  difficulty?: string;
+  category?: string;
+  question?: string;
+  correct_answer?: string;
+  incorrect_answers?: string[];
+};
+
+const DIFFICULTY_VALUES: Record<string, number> = { easy: 100, medium: 200, hard: 300 };
+
+function convertOpenTdb(raw: { response_code?: number; results?: unknown[] }): Conversion {
+  const problems: Conversion['problems'] = [];
+  if (raw.response_code) {
+    problems.push({ message: `Open Trivia DB returned response_code ${raw.response_code}` });
+  }
+
+  const questions: Imported[] = [];
+  (raw.results ?? []).forEach((item, i) => {
+    const origin = `question ${i + 1}`;
+    const q = item as OpenTdbQuestion;
+    if (typeof q.question !== 'string' || typeof q.correct_answer !== 'string') {
+      problems.push({ message: `${origin}: missing "question" or "correct_answer"` });
+      return;
+    }
+    const difficulty = q.difficulty ?? 'medium';
+    const common = {
+      category: decodeEntities(q.category ?? ''),
+      prompt: decodeEntities(q.question),
+      value: DIFFICULTY_VALUES[difficulty] ?? DEFAULT_VALUE,
+      ...(difficulty === 'hard' ? { hard: true } : {}),
+    };
+    const rank = Object.keys(DIFFICULTY_VALUES).indexOf(difficulty);
+
+    if (q.type === 'boolean') {
+      questions.push({
+        origin,
+        rank,
+        question: { type: 'true_false', ...common, answer: q.correct_answer === 'True' },
+      });
+      return;
+    }
+    // Alphabetical, so the right answer isn't always in the same place
+    const correct = decodeEntities(q.correct_answer);
+    const choices = [correct, ...(q.incorrect_answers ?? []).map(decodeEntities)].sort((a, b) =>
+      a.localeCompare(b, undefined, { numeric: true })
+    );
+    questions.push({
+      origin,
+      rank,
+      question: { ...common, choices, answerIndex: choices.indexOf(correct) },
+    });
+  });
+
+  return { name: 'Open Trivia DB', questions, problems };
+}
+
+/* ── Kahoot ── */
+
+type KahootQuestion = {
+  type?: string;
+  question?: string;
+  pointsMultiplier?: number;
+  choices?: { answer?: string; correct?: boolean }[];
+  image?: string;
+  imageMetadata?: { altText?: string };
+};
+
+/** Kahoot slides that have no right answer */
+const UNSCORED_KAHOOT_TYPES = new Set([
+  'survey',
+  'content',
+  'poll',
+  'word_cloud',
+  'brainstorming',
+  'slider',
+]);
+
+function convertKahoot(raw: Record<string, unknown>): Conversion {
+  const kahoot = (raw.kahoot ?? raw) as {
+    title?: string;
+    description?: string;
+    questions?: unknown[];
+  };
+  const problems: Conversion['problems'] = [];
+  const warnings: string[] = [];
+  const category = kahoot.title ? stripTags(kahoot.title) : 'Kahoot';
+
+  const questions: Imported[] = [];
+  (kahoot.questions ?? []).forEach((item, i) => {
+    const origin = `question ${i + 1}`;
+    const q = item as KahootQuestion;
+    const kind = q.type ?? 'quiz';
+    if (UNSCORED_KAHOOT_TYPES.has(kind)) {
+      warnings.push(`${origin}: "${kind}" slides have no right answer — skipped`);
+      return;
+    }
+
+    const options = (q.choices ?? []).filter((c) => c.answer);
+    const choices = options.map((c) => stripTags(c.answer!));
+    const correct = options.flatMap((c, index) => (c.correct ? [index] : []));
+    const common = {
+      category,
+      prompt: stripTags(q.question ?? ''),
+      value: DEFAULT_VALUE * (q.pointsMultiplier || 1),
+      ...(q.pointsMultiplier === 2 ? { hard: true } : {}),
+      ...(q.image && /^https?:\/\//i.test(q.image)
+        ? { media: { type: 'image' as const, src: q.image, alt: q.imageMetadata?.altText } }
+        : {}),
+    };
+
+    let answers: Partial<PackSourceQuestion>;
+    if (kind === 'jumble') {
+      answers = { type: 'ordering', choices };
+    } else if (kind === 'open_ended') {
+      answers = { type: 'free_text', answers: choices };
+    } else if (
+      correct.length === 1 &&
+      choices.length === 2 &&
+      choices.every((c, index) => c.toLowerCase() === TRUE_FALSE_CHOICES[index].toLowerCase())
+    ) {
+      answers = { type: 'true_false', answer: correct[0] === 0 };
+    } else if (kind === 'multiple_select_quiz' || correct.length > 1) {
+      answers = { type: 'multi_select', choices, answerIndexes: correct };
+    } else if (kind === 'quiz') {
+      answers = { choices, answerIndex: correct[0] ?? -1 };
+    } else {
+      problems.push({ field: 'type', message: `${origin}: unsupported Kahoot type "${kind}"` });
+      return;
+    }
+    questions.push({ origin, question: { ...answers, ...common } as PackSourceQuestion });
+  });
+
+  return {
+    name: kahoot.title && stripTags(kahoot.title),
+    description: kahoot.description && stripTags(kahoot.description),
+    questions,
+    problems,
+    warnings,
+  };
+}
+
+/* ── Import ── */
+
+function convert(format: ImportFormat, text: string): Conversion {
+  if (format === 'csv') return convertSpreadsheet(text, ',');
+  if (format === 'tsv') return convertSpreadsheet(text, '\t');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return { questions: [], problems: [{ message: `Not valid JSON: ${message}` }] };
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { questions: [], problems: [{ message: 'Expected a JSON object' }] };
+  }
+  return format === 'opentdb' ? convertOpenTdb(raw) : convertKahoot(raw as Record<string, unknown>);
+}
+
+/** A pack file is already in the pack format — only `id` and `name` can change */
+function importPackFile(text: string, file: string, options: ImportOptions): PackImport {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return {
+      source: { id: options.id ?? packIdFromFileName(file), questions: {} },
+      diagnostics: [{ file, severity: 'error', message: `Not valid JSON: ${message}` }],
+    };
+  }
+  const given = (
+    typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? raw : {}
+  ) as Partial<PackSource>;
+  const source: PackSource = {
+    ...given,
+    id: options.id ?? (typeof given.id === 'string' ? given.id : packIdFromFileName(file)),
+    ...(options.name ? { name: options.name } : {}),
+    questions: given.questions ?? {},
+  };
+  const checked = validatePackSource(source, source.id);
+  return {
+    source,
+    diagnostics: checked.diagnostics.map((d) => ({ ...d, file })),
+    summary: checked.summary,
+  };
+}
+
+/**
+ * Convert `text` to a pack and check it as `<id>.json`. Nothing is written —
+ * save `source` like any other pack if there are no errors.
+ */
+export function importPack(
+  format: ImportFormat,
+  text: string,
+  options: ImportOptions = {}
+): PackImport {
+  const file = options.file ?? `import.${format}`;
+  if (format === 'pack') return importPackFile(text, file, options);
+
+  const id = options.id ?? packIdFromFileName(file);
+  const conversion = convert(format, text);
+  const diagnostics: PackDiagnostic[] = [
+    ...conversion.problems.map((p) => ({ file, severity: 'error' as const, ...p })),
+    ...(conversion.warnings ?? []).map((message) => ({
+      file,
+      severity: 'warning' as const,
+      message,
+    })),
+  ];
+
+  const actIds = DEFAULT_RULESET.acts.map((a) => a.id);
+  if (options.act && !actIds.includes(options.act)) {
+    diagnostics.push({
+      file,
+      severity: 'error',
+      message: `Unknown act "${options.act}" (acts: ${actIds.join(', ')})`,
+    });
+  }
+
+  // Place questions: their own act, the chosen one, or dealt out in order
+  const placed = Object.fromEntries(actIds.map((a) => [a, [] as Imported[]]));
+  const spread: Imported[] = [];
+  for (const q of conversion.questions) {
+    const act = q.act ?? options.act;
+    if (!act) spread.push(q);
+    else if (placed[act]) placed[act].push(q);
+    else {
+      diagnostics.push({
+        file,
+        severity: 'error',
+        field: 'act',
+        message: `${q.origin}: unknown act "${act}" (acts: ${actIds.join(', ')})`,
+      });
+    }
+  }
+  spread.sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0));
+  spread.forEach((q, i) => {
+    placed[actIds[Math.floor((i * actIds.length) / spread.length)]].push(q);
+  });
+
+  const source: PackSource = {
+    id,
+    name: options.name ?? conversion.name ?? id,
+    description: conversion.description || `Imported from ${file}`,
+    version: 1,
+    questions: Object.fromEntries(
+      Object.entries(placed).map(([act, qs]) => [act, qs.map((q) => q.question)])
+    ),
+  };
+
+  // The loader knows questions by act and index — say which row that was
+  const checked = validatePackSource(source, id);
+  for (const d of checked.diagnostics) {
+    const origin =
+      d.actId && d.index !== undefined ? placed[d.actId]?.[d.index]?.origin : undefined;
+    diagnostics.push(origin ? { ...d, file, message: `${d.message} (${origin})` } : { ...d, file });
+  }
+
+  return { source, diagnostics, summary: checked.summary };
+}
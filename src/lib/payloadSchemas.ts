@@ -0,0 +1,159 @@
+/**
+ * Socket Payload Schemas
+ *
+ * One runtime schema per client → server event, checked by the server before
+ * any handler runs. The map is typed against the protocol, so adding an event
+ * to `ClientToServerEvents` without a schema is a compile error.
+ */
+
+import { SHOP_ITEMS } from '@/lib/gameConfig';
+import { LOCALES } from '@/lib/i18n';
+import type { ClientEvent, EventPayload } from '@/lib/protocol';
+import { SAMPLING_STRATEGIES } from '@/lib/questionSampling';
+import type { RoomConfig } from '@/lib/types';
+import {
+  array,
+  boolean,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  union,
+  type Schema,
+} from '@/lib/validation';
+
+type NumericConfigKey = Exclude<
+  keyof RoomConfig,
+  'sampling' | 'historyGroup' | 'preferUnseen' | 'autopilot'
+>;
+
+/** Allowed range for every numeric RoomConfig field */
+export const ROOM_CONFIG_BOUNDS = {
+  maxLives: { min: 1, max: 10 },
+  questionDurationMs: { min: 5_000, max: 300_000 },
+  countdownMs: { min: 0, max: 10_000 },
+  startingCoins: { min: 0, max: 10_000 },
+  buybackCostCoins: { min: 0, max: 10_000 },
+  bossHp: { min: 1, max: 50 },
+  questionsPerAct: { min: 0, max: 500 },
+  autopilotDwellMs: { min: 2_000, max: 60_000 },
+  autopilotShopMs: { min: 0, max: 300_000 },
+} satisfies Record<NumericConfigKey, { min: number; max: number }>;
+
+/* ── Building blocks ── */
+
+const roomCode = string({ max: 10 });
+const hostKey = string({ max: 64 });
+// Player actions may still send their playerId, but the server goes by the socket
+const playerId = optional(string({ max: 64 }));
+const sessionToken = string({ max: 64 });
+const requestId = string({ max: 32 });
+const displayName = string({ max: 64 });
+const actId = string({ max: 40 }); // checked against the room's ruleset by the handler
+const shopItemId = oneOf(SHOP_ITEMS.map((i) => i.id));
+const locale = oneOf(LOCALES);
+const choiceIndex = number({ min: 0, max: 5, integer: true }); // questions have at most 6 choices
+
+const configField = (key: NumericConfigKey) =>
+  optional(number({ ...ROOM_CONFIG_BOUNDS[key], integer: true }));
+
+const roomConfigPatch = object({
+  maxLives: configField('maxLives'),
+  questionDurationMs: configField('questionDurationMs'),
+  countdownMs: configField('countdownMs'),
+  startingCoins: configField('startingCoins'),
+  buybackCostCoins: configField('buybackCostCoins'),
+  bossHp: configField('bossHp'),
+  questionsPerAct: configField('questionsPerAct'),
+  sampling: optional(oneOf(SAMPLING_STRATEGIES)),
+  historyGroup: optional(string({ max: 40 })),
+  preferUnseen: optional(boolean()),
+  autopilot: optional(boolean()),
+  autopilotDwellMs: configField('autopilotDwellMs'),
+  autopilotShopMs: configField('autopilotShopMs'),
+});
+
+const runPlan = array(
+  object({ actId, questionCount: number({ min: 1, max: 500, integer: true }) }),
+  { min: 1, max: 20 }
+);
+
+const packMix = array(
+  object({
+    actId,
+    packId: string({ max: 100 }),
+    fromActId: optional(actId),
+    weight: number({ min: 1, max: 100, integer: true }),
+  }),
+  { max: 60 }
+);
+
+const hostOnly = object({ code: roomCode, hostKey });
+const playerOnly = object({ code: roomCode, playerId });
+
+/* ── Per-event schemas ── */
+
+export const CLIENT_EVENT_SCHEMAS: { [E in ClientEvent]: Schema<EventPayload<E>> } = {
+  'room:create': object({ hostName: displayName, packId: optional(string({ max: 100 })) }),
+  'room:join': object({
+    code: roomCode,
+    name: optional(displayName),
+    profileToken: optional(string({ max: 64 })),
+    locale: optional(locale),
+  }),
+  'room:resume': object({
+    code: roomCode,
+    sessionToken: optional(sessionToken),
+    hostKey: optional(hostKey),
+  }),
+  'room:watch': object({ code: roomCode }),
+  'player:locale': object({ code: roomCode, playerId, locale }),
+  'room:leave': playerOnly,
+
+  'game:configure': object({ code: roomCode, hostKey, config: roomConfigPatch }),
+  'game:pack': object({ code: roomCode, hostKey, packId: string({ max: 100 }) }),
+  'game:mix': object({ code: roomCode, hostKey, mix: packMix }),
+  'game:plan': object({ code: roomCode, hostKey, plan: runPlan }),
+  'history:clear': hostOnly,
+  'game:results': hostOnly,
+  'game:start': hostOnly,
+  'game:pause': hostOnly,
+  'game:resume': hostOnly,
+  'act:start': object({ code: roomCode, hostKey, actId }),
+  'boss:start': hostOnly,
+
+  'question:reveal': hostOnly,
+  'question:next': hostOnly,
+  'shop:open': object({ code: roomCode, hostKey, open: boolean() }),
+
+  'wager:set': object({ code: roomCode, playerId, amount: number({ min: 0, max: 1_000_000_000 }) }),
+  'wager:lock': hostOnly,
+  'wager:spotlight_end': hostOnly,
+
+  'shop:buy': object({ code: roomCode, playerId, itemId: shopItemId }),
+  'item:use': object({ code: roomCode, playerId, itemId: shopItemId }),
+
+  'player:answer': union(
+    object({ code: roomCode, playerId, answerIndex: choiceIndex }),
+    object({ code: roomCode, playerId, answerIndexes: array(choiceIndex, { max: 6 }) }),
+    object({ code: roomCode, playerId, order: array(choiceIndex, { max: 6 }) }),
+    object({ code: roomCode, playerId, text: string({ max: 200 }) })
+  ),
+  'player:lockin': playerOnly,
+  'player:buyback': playerOnly,
+
+  'revive:request': playerOnly,
+  'revive:approve': hostOnly,
+  'revive:decline': hostOnly,
+
+  'join:admit': object({
+    code: roomCode,
+    hostKey,
+    requestId,
+    lives: number({ min: 1, max: ROOM_CONFIG_BOUNDS.maxLives.max, integer: true }),
+    coins: number({ min: 0, max: 1_000_000, integer: true }),
+    score: number({ min: 0, max: 1_000_000_000, integer: true }),
+  }),
+  'join:decline': object({ code: roomCode, hostKey, requestId }),
+};
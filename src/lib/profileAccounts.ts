@@ -0,0 +1,271 @@
+/**
+ * Profile Accounts
+ *
+ * REST endpoints behind `/profile`, mounted at `/api/profiles`:
+ *
+ *   POST   /api/profiles               create a profile `{ name, avatar, pin? }` (409 if the name is taken)
+ *   POST   /api/profiles/login         sign in on another device with `{ name, pin }`
+ *   POST   /api/profiles/link          sign in with a magic link's `{ code }` (single use)
+ *   GET    /api/profiles/me            the signed-in profile
+ *   PATCH  /api/profiles/me            change `{ name?, avatar?, pin? }` (`pin: null` removes it)
+ *   POST   /api/profiles/me/link       make a magic link code for another device
+ *   POST   /api/profiles/me/logout     forget this device's token
+ *   GET    /api/profiles/:id           anyone's public profile and stats
+ *
+ * Signing in returns a secret token; the `/me` routes need it as
+ * `Authorization: Bearer <token>`, and `room:join` takes it as `profileToken`.
+ * Each device gets its own token (the oldest are dropped past `MAX_DEVICES`).
+ * Wrong PINs lock a profile's PIN sign-in for a while after `MAX_PIN_ATTEMPTS`.
+ */
+
+import { type Clock, systemClock } from '@/lib/clock';
+import { PROFILE_AVATARS } from '@/lib/gameConfig';
+import { logger } from '@/lib/logger';
+import {
+  emptyProfileStats,
+  hashToken,
+  type Profile,
+  type ProfileStore,
+  toPublicProfile,
+} from '@/lib/profileStore';
+import crypto from 'crypto';
+import express, { type NextFunction, type Request, type Response, type Router } from 'express';
+import { nanoid } from 'nanoid';
+
+export const PROFILE_NAME_MAX = 20;
+
+const PIN_RE = /^\d{4,8}$/;
+
+/** Signed-in devices kept per profile */
+const MAX_DEVICES = 10;
+
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MS = 5 * 60 * 1000;
+
+/** How long a magic link works for */
+const LINK_TTL_MS = 15 * 60 * 1000;
+
+/* ── Secrets ── */
+
+function hashPin(pin: string): string {
+  const salt = crypto.randomBytes(16).toString('hex');
+  return `${salt}:${crypto.scryptSync(pin, salt, 32).toString('hex')}`;
+}
+
+function checkPin(pin: string, pinHash: string): boolean {
+  const [salt, hash] = pinHash.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const given = crypto.scryptSync(pin, salt, 32);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+/** A new sign-in token for `profile` (saved as a hash) */
+function issueToken(store: ProfileStore, profile: Profile): string {
+  const token = crypto.randomBytes(24).toString('base64url');
+  store.save({
+    ...profile,
+    tokenHashes: [...profile.tokenHashes, hashToken(token)].slice(-MAX_DEVICES),
+  });
+  return token;
+}
+
+const bearerToken = (req: Request) => req.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+
+/* ── Validation ── */
+
+type ProfilePatch = { name?: string; avatar?: string; pin?: string | null };
+
+/** The fields of a create / update body, or why they're unusable */
+function readProfileBody(body: unknown, creating: boolean): ProfilePatch | { error: string } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { error: 'The profile must be a JSON object.' };
+  }
+  const { name, avatar, pin } = body as Record<string, unknown>;
+  const patch: ProfilePatch = {};
+
+  if (name !== undefined || creating) {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > PROFILE_NAME_MAX) {
+      return { error: `"name" must be 1-${PROFILE_NAME_MAX} characters.` };
+    }
+    patch.name = trimmed;
+  }
+  if (avatar !== undefined || creating) {
+    if (typeof avatar !== 'string' || !PROFILE_AVATARS.includes(avatar)) {
+      return { error: `"avatar" must be one of ${PROFILE_AVATARS.join(' ')}` };
+    }
+    patch.avatar = avatar;
+  }
+  if (pin !== undefined) {
+    if (pin === null && !creating) patch.pin = null;
+    else if (typeof pin === 'string' && PIN_RE.test(pin)) patch.pin = pin;
+    else return { error: '"pin" must be 4-8 digits.' };
+  }
+  return patch;
+}
+
+/* ── Routes ── */
+
+export function createProfileRouter(store: ProfileStore, clock: Clock = systemClock): Router {
+  const router = express.Router();
+  router.use(express.json({ limit: '16kb' }));
+
+  /** Magic link code → who it signs in as, until when */
+  const links = new Map<string, { profileId: string; expiresAt: number }>();
+  /** Profile ID → wrong PINs in a row, and when PIN sign-in opens again */
+  const pinFailures = new Map<string, { count: number; lockedUntil: number }>();
+
+  const nameTaken = (name: string, exceptId?: string) => {
+    const other = store.byName(name);
+    return !!other && other.id !== exceptId;
+  };
+
+  /** The profile signed in by the request's token (responds 401 if there isn't one) */
+  const signedIn = (req: Request, res: Response): Profile | undefined => {
+    const profile = bearerToken(req) ? store.byToken(bearerToken(req)) : undefined;
+    if (!profile) res.status(401).json({ ok: false, error: 'Sign in to your profile first.' });
+    return profile;
+  };
+
+  const signIn = (res: Response, profile: Profile, status = 200) => {
+    const token = issueToken(store, profile);
+    res.status(status).json({ ok: true, profile: toPublicProfile(profile), token });
+  };
+
+  router.post('/', (req, res) => {
+    const body = readProfileBody(req.body, true);
+    if ('error' in body) {
+      res.status(400).json({ ok: false, error: body.error });
+      return;
+    }
+    const name = body.name!;
+    if (nameTaken(name)) {
+      res.status(409).json({
+        ok: false,
+        error: `"${name}" is taken — pick another name, or sign in with its PIN.`,
+      });
+      return;
+    }
+    const profile: Profile = {
+      id: nanoid(12),
+      name,
+      avatar: body.avatar!,
+      createdAt: clock.now(),
+      tokenHashes: [],
+      pinHash: body.pin ? hashPin(body.pin) : undefined,
+      stats: emptyProfileStats(),
+    };
+    logger.info({ profileId: profile.id, name }, 'Profile created');
+    signIn(res, profile, 201);
+  });
+
+  router.post('/login', (req, res) => {
+    const { name, pin } = (req.body ?? {}) as Record<string, unknown>;
+    const profile = typeof name === 'string' ? store.byName(name) : undefined;
+    const failures = profile && pinFailures.get(profile.id);
+    if (failures && clock.now() < failures.lockedUntil) {
+      res
+        .status(429)
+        .json({ ok: false, error: 'Too many wrong PINs — try again in a few minutes.' });
+      return;
+    }
+    if (!profile?.pinHash || typeof pin !== 'string' || !checkPin(pin, profile.pinHash)) {
+      if (profile) {
+        const count = (failures?.count ?? 0) + 1;
+        pinFailures.set(profile.id, {
+          count: count >= MAX_PIN_ATTEMPTS ? 0 : count,
+          lockedUntil: count >= MAX_PIN_ATTEMPTS ? clock.now() + PIN_LOCKOUT_MS : 0,
+        });
+      }
+      res.status(401).json({ ok: false, error: 'Wrong name or PIN.' });
+      return;
+    }
+    pinFailures.delete(profile.id);
+    signIn(res, profile);
+  });
+
+  router.post('/link', (req, res) => {
+    const { code } = (req.body ?? {}) as Record<string, unknown>;
+    if (typeof code !== 'string') {
+      res.status(400).json({ ok: false, error: '"code" is required.' });
+      return;
+    }
+    const link = links.get(code);
+    links.delete(code);
+    const profile = link && clock.now() < link.expiresAt ? store.get(link.profileId) : undefined;
+    if (!profile) {
+      res.status(400).json({ ok: false, error: 'This link has expired or was already used.' });
+      return;
+    }
+    signIn(res, profile);
+  });
+
+  router.get('/me', (req, res) => {
+    const profile = signedIn(req, res);
+    if (profile) res.json({ ok: true, profile: toPublicProfile(profile) });
+  });
+
+  router.patch('/me', (req, res) => {
+    const profile = signedIn(req, res);
+    if (!profile) return;
+    const body = readProfileBody(req.body, false);
+    if ('error' in body) {
+      res.status(400).json({ ok: false, error: body.error });
+      return;
+    }
+    if (body.name && nameTaken(body.name, profile.id)) {
+      res.status(409).json({ ok: false, error: `"${body.name}" is taken — pick another name.` });
+      return;
+    }
+    const updated: Profile = {
+      ...profile,
+      name: body.name ?? profile.name,
+      avatar: body.avatar ?? profile.avatar,
+      pinHash: body.pin === undefined ? profile.pinHash : body.pin ? hashPin(body.pin) : undefined,
+    };
+    store.save(updated);
+    res.json({ ok: true, profile: toPublicProfile(updated) });
+  });
+
+  router.post('/me/link', (req, res) => {
+    const profile = signedIn(req, res);
+    if (!profile) return;
+    // Drop expired codes so the map can't grow without bound
+    for (const [code, link] of links) if (link.expiresAt <= clock.now()) links.delete(code);
+
+    const code = crypto.randomBytes(9).toString('base64url');
+    const expiresAt = clock.now() + LINK_TTL_MS;
+    links.set(code, { profileId: profile.id, expiresAt });
+    res.json({ ok: true, code, expiresAt });
+  });
+
+  router.post('/me/logout', (req, res) => {
+    const profile = signedIn(req, res);
+    if (!profile) return;
+    const hash = hashToken(bearerToken(req));
+    store.save({ ...profile, tokenHashes: profile.tokenHashes.filter((h) => h !== hash) });
+    res.json({ ok: true });
+  });
+
+  router.get('/:id', (req, res) => {
+    const profile = store.get(req.params.id);
+    if (!profile) {
+      res.status(404).json({ ok: false, error: 'Profile not found.' });
+      return;
+    }
+    res.json({ ok: true, profile: toPublicProfile(profile) });
+  });
+
+  // Malformed bodies, and anything else that went wrong
+  router.use((err: Error & { type?: string }, _req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) return next(err);
+    if (err.type === 'entity.parse.failed' || err.type === 'entity.too.large') {
+      res.status(400).json({ ok: false, error: 'The request body is not valid JSON.' });
+    } else {
+      logger.error({ error: err.message }, 'Profile request failed');
+      res.status(500).json({ ok: false, error: 'Something went wrong with the profile.' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,213 @@
+/**
+ * Profile Store
+ *
+ * Persistent player profiles: a name and avatar that can join any room, with
+ * lifetime stats added at the end of every game. A profile is signed into with
+ * a secret token kept on the player's devices (see profileAccounts); only
+ * hashes of tokens and PINs are stored.
+ *
+ * Stores are pluggable:
+ *   - "file"   (default) — one JSON file, `data/profiles.json`
+ *   - "memory" — lives as long as the process, for tests / throwaway servers
+ *
+ * Select with `PROFILES=file|memory`; override the path with `PROFILES_FILE`.
+ */
+
+import { logger } from '@/lib/logger';
+import type { ProfileStats, PublicProfile } from '@/lib/types';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/* ── Types ── */
+
+export type Profile = {
+  id: string;
+  name: string;
+  avatar: string;
+  createdAt: number;
+  /** sha256 of each device's sign-in token, oldest first */
+  tokenHashes: string[];
+  /** `salt:hash` (scrypt) of the optional PIN */
+  pinHash?: string;
+  stats: ProfileStats;
+};
+
+export type ProfileStore = {
+  get(id: string): Profile | undefined;
+  /** The profile a sign-in token belongs to */
+  byToken(token: string): Profile | undefined;
+  /** Names are unique, ignoring case */
+  byName(name: string): Profile | undefined;
+  /** Insert or replace a profile. May be written lazily. */
+  save(profile: Profile): void;
+  /** Write pending changes synchronously (called on shutdown) */
+  flush(): void;
+};
+
+/** One game's outcome for a profile (see `addGameToStats`) */
+export type ProfileGame = {
+  won: boolean;
+  questionsAnswered: number;
+  correctAnswers: number;
+  /** Category of every question answered correctly */
+  correctCategories: string[];
+  bossDefeated: boolean;
+  allInsWon: number;
+};
+
+const FAVOURITE_CATEGORIES = 3;
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function emptyProfileStats(): ProfileStats {
+  return {
+    gamesPlayed: 0,
+    wins: 0,
+    questionsAnswered: 0,
+    correctAnswers: 0,
+    categoryCorrect: {},
+    bossesDefeated: 0,
+    allInsWon: 0,
+  };
+}
+
+export function addGameToStats(stats: ProfileStats, game: ProfileGame): ProfileStats {
+  const categoryCorrect = { ...stats.categoryCorrect };
+  for (const c of game.correctCategories) categoryCorrect[c] = (categoryCorrect[c] ?? 0) + 1;
+  return {
+    gamesPlayed: stats.gamesPlayed + 1,
+    wins: stats.wins + (game.won ? 1 : 0),
+    questionsAnswered: stats.questionsAnswered + game.questionsAnswered,
+    correctAnswers: stats.correctAnswers + game.correctAnswers,
+    categoryCorrect,
+    bossesDefeated: stats.bossesDefeated + (game.bossDefeated ? 1 : 0),
+    allInsWon: stats.allInsWon + game.allInsWon,
+  };
+}
+
+export function toPublicProfile(profile: Profile): PublicProfile {
+  const { stats } = profile;
+  return {
+    id: profile.id,
+    name: profile.name,
+    avatar: profile.avatar,
+    createdAt: profile.createdAt,
+    hasPin: !!profile.pinHash,
+    stats,
+    accuracy: stats.questionsAnswered ? stats.correctAnswers / stats.questionsAnswered : 0,
+    favouriteCategories: Object.entries(stats.categoryCorrect)
+      .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+      .slice(0, FAVOURITE_CATEGORIES)
+      .map(([category]) => category),
+  };
+}
+
+/* ── Memory store ── */
+
+/** In-memory profiles; `onChange` fires on every save */
+function createProfileMap(onChange: () => void) {
+  const profiles = new Map<string, Profile>();
+  const find = (match: (p: Profile) => boolean) => Array.from(profiles.values()).find(match);
+
+  return {
+    profiles,
+    get: (id: string) => profiles.get(id),
+    byToken(token: string) {
+      const hash = hashToken(token);
+      return find((p) => p.tokenHashes.includes(hash));
+    },
+    byName(name: string) {
+      const lower = name.trim().toLowerCase();
+      return find((p) => p.name.toLowerCase() === lower);
+    },
+    save(profile: Profile) {
+      profiles.set(profile.id, profile);
+      onChange();
+    },
+  };
+}
+
+export function createMemoryProfileStore(): ProfileStore {
+  const { get, byToken, byName, save } = createProfileMap(() => {});
+  return { get, byToken, byName, save, flush: () => {} };
+}
+
+/* ── File store ── */
+
+/** Coalesce a burst of saves (e.g. a whole room's stats at game end) into one write */
+const FILE_WRITE_DEBOUNCE_MS = 1_000;
+
+export function createFileProfileStore(file: string): ProfileStore {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const write = () => {
+    timer = undefined;
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      // Write to a temp file first so a crash mid-write never leaves truncated profiles
+      const tmp = `${file}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(Array.from(memory.profiles.values())), 'utf-8');
+      fs.renameSync(tmp, file);
+    } catch (e) {
+      logger.error(
+        { file, error: e instanceof Error ? e.message : String(e) },
+        'Failed to persist profiles'
+      );
+    }
+  };
+
+  const memory = createProfileMap(() => {
+    if (timer) return;
+    timer = setTimeout(write, FILE_WRITE_DEBOUNCE_MS);
+    // Don't keep the process alive just to write profiles
+    timer.unref?.();
+  });
+
+  try {
+    if (fs.existsSync(file)) {
+      const parsed: unknown = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      for (const p of Array.isArray(parsed) ? (parsed as Profile[]) : []) {
+        // Stats added in later versions start at zero
+        memory.profiles.set(p.id, { ...p, stats: { ...emptyProfileStats(), ...p.stats } });
+      }
+    }
+  } catch (e) {
+    logger.error(
+      { file, error: e instanceof Error ? e.message : String(e) },
+      'Failed to read profiles — starting fresh'
+    );
+  }
+
+  return {
+    get: memory.get,
+    byToken: memory.byToken,
+    byName: memory.byName,
+    save: memory.save,
+    flush() {
+      if (!timer) return;
+      clearTimeout(timer);
+      write();
+    },
+  };
+}
+
+/** Build the store selected by `PROFILES` (defaults to the file store). */
+export function createProfileStore(): ProfileStore {
+  const kind = (process.env.PROFILES || 'file').trim().toLowerCase();
+
+  if (kind === 'memory') {
+    logger.info('Profiles: memory (forgotten on restart)');
+    return createMemoryProfileStore();
+  }
+
+  if (kind !== 'file') {
+    logger.warn({ kind }, 'Unknown PROFILES — falling back to file store');
+  }
+
+  const file = process.env.PROFILES_FILE || path.join(process.cwd(), 'data', 'profiles.json');
+  logger.info({ file }, 'Profiles: file');
+  return createFileProfileStore(file);
+}
@@ -0,0 +1,167 @@
+/**
+ * Socket Protocol
+ *
+ * The typed Socket.IO event map shared by the server, `getSocket()` and both
+ * clients. Every event's payload and ack type lives here, so changing e.g.
+ * `room:state` or `player:reveal` is checked at compile time on both ends.
+ */
+
+import type {
+  Ack,
+  ActId,
+  Admission,
+  GameResults,
+  HostRoomState,
+  ItemUseAckData,
+  Locale,
+  PackMixEntry,
+  PlayerAnswer,
+  PlayerRevealPayload,
+  PublicRoomState,
+  RoomConfig,
+  RunPlanStep,
+  ShopItemId,
+  WagerSpotlightPayload,
+} from '@/lib/types';
+
+export type AckCallback<T> = (res: Ack<T>) => void;
+
+/** Every host-only event carries the room code + the secret hostKey from `room:create` */
+export type HostPayload = { code: string; hostKey: string };
+
+/**
+ * Every player action carries the room code. The acting player is whoever this
+ * socket joined or resumed as; a `playerId` is still accepted but ignored.
+ */
+export type PlayerPayload = { code: string; playerId?: string };
+
+type RoomAck = AckCallback<{ room: PublicRoomState }>;
+
+/* ── Client → Server ── */
+
+export type ClientToServerEvents = {
+  'room:create': (
+    payload: { hostName: string; packId?: string },
+    ack: AckCallback<{ room: PublicRoomState; hostKey: string }>
+  ) => void;
+  'room:join': (
+    /** `name` is ignored when joining with a profile (see profileAccounts) */
+    payload: { code: string; name?: string; profileToken?: string; locale?: Locale },
+    /**
+     * `sessionToken` is the player's secret for `room:resume` — keep it, never show it.
+     * Once the game has started, the join waits for the host (`pending`) — see `join:admit`.
+     */
+    ack: AckCallback<{
+      room: PublicRoomState;
+      playerId: string;
+      sessionToken: string;
+      pending?: boolean;
+    }>
+  ) => void;
+  /** Reattach as the host (`hostKey`) or as a player (the `sessionToken` from `room:join`) */
+  'room:resume': (
+    payload: { code: string; sessionToken?: string; hostKey?: string },
+    ack: AckCallback<{
+      room: PublicRoomState;
+      isHost: boolean;
+      playerId?: string;
+      pending?: boolean;
+    }>
+  ) => void;
+  'room:watch': (payload: { code: string }, ack: RoomAck) => void;
+  /** Switch the player's language (their pack translations and server-sent text follow it) */
+  'player:locale': (payload: PlayerPayload & { locale: Locale }, ack: RoomAck) => void;
+  'room:leave': (payload: PlayerPayload) => void;
+
+  'game:configure': (payload: HostPayload & { config: Partial<RoomConfig> }, ack: RoomAck) => void;
+  /** Play a different question pack — resets the run plan (lobby only) */
+  'game:pack': (payload: HostPayload & { packId: string }, ack: RoomAck) => void;
+  /**
+   * Draw acts' questions from other packs too (lobby only). The host's run plan is
+   * kept unless the mix can't play it — then it's reset, and `planReset` says so.
+   */
+  'game:mix': (
+    payload: HostPayload & { mix: PackMixEntry[] },
+    ack: AckCallback<{ room: PublicRoomState; planReset: boolean }>
+  ) => void;
+  /** Replace the run plan (lobby only) */
+  'game:plan': (payload: HostPayload & { plan: RunPlanStep[] }, ack: RoomAck) => void;
+  /** Forget which questions the room (or its history group) has seen */
+  'history:clear': (payload: HostPayload, ack: RoomAck) => void;
+  'game:start': (payload: HostPayload, ack: RoomAck) => void;
+  /** Freeze the game's timers (answers and transitions wait until `game:resume`) */
+  'game:pause': (payload: HostPayload, ack: RoomAck) => void;
+  'game:resume': (payload: HostPayload, ack: RoomAck) => void;
+  /** Every question's answers and the final standings (once the game has ended) */
+  'game:results': (payload: HostPayload, ack: AckCallback<{ results: GameResults }>) => void;
+  'act:start': (payload: HostPayload & { actId: ActId }, ack: RoomAck) => void;
+  'boss:start': (payload: HostPayload, ack: RoomAck) => void;
+
+  'question:reveal': (payload: HostPayload, ack: RoomAck) => void;
+  'question:next': (payload: HostPayload, ack: RoomAck) => void;
+  'shop:open': (payload: HostPayload & { open: boolean }, ack: RoomAck) => void;
+
+  'wager:set': (payload: PlayerPayload & { amount: number }, ack: RoomAck) => void;
+  'wager:lock': (payload: HostPayload, ack: RoomAck) => void;
+  'wager:spotlight_end': (payload: HostPayload, ack: RoomAck) => void;
+
+  'shop:buy': (payload: PlayerPayload & { itemId: ShopItemId }, ack: RoomAck) => void;
+  'item:use': (
+    payload: PlayerPayload & { itemId: ShopItemId },
+    ack: AckCallback<ItemUseAckData>
+  ) => void;
+
+  /** The answer's shape depends on the question type (see `PlayerAnswer`) */
+  'player:answer': (
+    payload: PlayerPayload & PlayerAnswer,
+    ack: AckCallback<{ accepted: boolean }>
+  ) => void;
+  'player:lockin': (payload: PlayerPayload, ack: RoomAck) => void;
+  'player:buyback': (payload: PlayerPayload, ack: RoomAck) => void;
+
+  'revive:request': (payload: PlayerPayload, ack: AckCallback<{ pending: true }>) => void;
+  'revive:approve': (payload: HostPayload, ack: RoomAck) => void;
+  'revive:decline': (payload: HostPayload, ack: RoomAck) => void;
+
+  /** Let a late joiner in (they join at the next question) with these lives, coins and score */
+  'join:admit': (payload: HostPayload & { requestId: string } & Admission, ack: RoomAck) => void;
+  'join:decline': (payload: HostPayload & { requestId: string }, ack: RoomAck) => void;
+};
+
+/* ── Server → Client ── */
+
+export type ServerToClientEvents = {
+  /** Public room snapshot, broadcast to everyone in the room after every change */
+  'room:state': (room: PublicRoomState) => void;
+  /** Host-only snapshot (answers, pending revives), sent to the host socket */
+  'host:state': (state: HostRoomState) => void;
+  /** Private per-player feedback after a reveal */
+  'player:reveal': (payload: PlayerRevealPayload) => void;
+
+  'wager:extra_hint': (payload: { text: string }) => void;
+  'wager:fifty_fifty': (payload: { removedIndexes: number[] }) => void;
+  'wager:siren': () => void;
+  'wager:spotlight': (payload: WagerSpotlightPayload) => void;
+
+  'revive:pending': (payload: { playerName: string }) => void;
+  'revive:result': (payload: { approved: boolean; playerName: string }) => void;
+  /** The host's answer to a late join */
+  'join:result': (payload: { approved: boolean }) => void;
+};
+
+/* ── Helpers ── */
+
+export type ClientEvent = keyof ClientToServerEvents;
+
+export type EventPayload<E extends ClientEvent> = Parameters<ClientToServerEvents[E]>[0];
+
+/** Host-only events: host credentials in, fresh room state back */
+export type HostEvent = {
+  [E in ClientEvent]: EventPayload<E> extends HostPayload
+    ? Parameters<ClientToServerEvents[E]>[1] extends AckCallback<infer T>
+      ? T extends { room: PublicRoomState }
+        ? E
+        : never
+      : never
+    : never;
+}[ClientEvent];
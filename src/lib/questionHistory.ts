@@ -0,0 +1,144 @@
+/**
+ * Question History
+ *
+ * Remembers which question IDs have already been served, so a group that plays
+ * the same pack every week doesn't get last week's questions again. History is
+ * keyed by room (`room:ABCDE`) or, when the host names one, by group
+ * (`group:friday-quiz`), which survives across rooms.
+ *
+ * Stores are pluggable:
+ *   - "file"   (default) — one JSON file, `data/question-history.json`
+ *   - "memory" — lives as long as the process, for tests / throwaway servers
+ *
+ * Select with `QUESTION_HISTORY=file|memory`; override the path with `QUESTION_HISTORY_FILE`.
+ */
+
+import { logger } from '@/lib/logger';
+import fs from 'fs';
+import path from 'path';
+
+/* ── Types ── */
+
+export type QuestionHistoryStore = {
+  /** Question IDs already served under `key` */
+  seen(key: string): ReadonlySet<string>;
+  /** Mark questions as served under `key`. May be written lazily. */
+  record(key: string, questionIds: string[]): void;
+  /** Forget everything served under `key` */
+  clear(key: string): void;
+  /** Write pending changes synchronously (called on shutdown) */
+  flush(): void;
+};
+
+/** History key for a room: its group if the host named one, otherwise the room itself */
+export function historyKey(code: string, group: string): string {
+  const g = group.trim().toLowerCase();
+  return g ? `group:${g}` : `room:${code}`;
+}
+
+/* ── Memory store ── */
+
+/** In-memory history; `onChange` fires whenever a key gains or loses questions */
+function createHistoryMap(onChange: (key: string) => void) {
+  const history = new Map<string, Set<string>>();
+  const EMPTY: ReadonlySet<string> = new Set();
+
+  return {
+    history,
+    seen: (key: string): ReadonlySet<string> => history.get(key) ?? EMPTY,
+    record(key: string, questionIds: string[]) {
+      let ids = history.get(key);
+      if (!ids) history.set(key, (ids = new Set()));
+      const before = ids.size;
+      for (const id of questionIds) ids.add(id);
+      if (ids.size !== before) onChange(key);
+    },
+    clear(key: string) {
+      if (history.delete(key)) onChange(key);
+    },
+  };
+}
+
+export function createMemoryQuestionHistory(): QuestionHistoryStore {
+  const { seen, record, clear } = createHistoryMap(() => {});
+  return { seen, record, clear, flush: () => {} };
+}
+
+/* ── File store ── */
+
+/** Coalesce a burst of recorded questions into one write */
+const FILE_WRITE_DEBOUNCE_MS = 1_000;
+
+export function createFileQuestionHistory(file: string): QuestionHistoryStore {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const write = () => {
+    timer = undefined;
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      // Write to a temp file first so a crash mid-write never leaves truncated history
+      const tmp = `${file}.tmp`;
+      const json = Object.fromEntries(
+        Array.from(memory.history, ([key, ids]) => [key, Array.from(ids)])
+      );
+      fs.writeFileSync(tmp, JSON.stringify(json), 'utf-8');
+      fs.renameSync(tmp, file);
+    } catch (e) {
+      logger.error(
+        { file, error: e instanceof Error ? e.message : String(e) },
+        'Failed to persist question history'
+      );
+    }
+  };
+
+  const memory = createHistoryMap(() => {
+    if (timer) return;
+    timer = setTimeout(write, FILE_WRITE_DEBOUNCE_MS);
+    // Don't keep the process alive just to write history
+    timer.unref?.();
+  });
+
+  try {
+    if (fs.existsSync(file)) {
+      const parsed: unknown = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      for (const [key, ids] of Object.entries(parsed as Record<string, unknown>)) {
+        if (Array.isArray(ids)) memory.history.set(key, new Set(ids.map(String)));
+      }
+    }
+  } catch (e) {
+    logger.error(
+      { file, error: e instanceof Error ? e.message : String(e) },
+      'Failed to read question history — starting fresh'
+    );
+  }
+
+  return {
+    seen: memory.seen,
+    record: memory.record,
+    clear: memory.clear,
+    flush() {
+      if (!timer) return;
+      clearTimeout(timer);
+      write();
+    },
+  };
+}
+
+/** Build the store selected by `QUESTION_HISTORY` (defaults to the file store). */
+export function createQuestionHistory(): QuestionHistoryStore {
+  const kind = (process.env.QUESTION_HISTORY || 'file').trim().toLowerCase();
+
+  if (kind === 'memory') {
+    logger.info('Question history: memory (forgotten on restart)');
+    return createMemoryQuestionHistory();
+  }
+
+  if (kind !== 'file') {
+    logger.warn({ kind }, 'Unknown QUESTION_HISTORY — falling back to file store');
+  }
+
+  const file =
+    process.env.QUESTION_HISTORY_FILE || path.join(process.cwd(), 'data', 'question-history.json');
+  logger.info({ file }, 'Question history: file');
+  return createFileQuestionHistory(file);
+}
@@ -10,50 +10,144 @@
  *   "name": "My Pack",
  *   "description": "Optional description",
  *   "version": 1,
+ *   "author": "Optional", "tags": ["science"], "language": "en", "difficulty": "easy",
+ *   "rating": "family", "durationMinutes": 20,
  *   "questions": {
- *     "homeroom": [ { category, prompt, choices, answerIndex, value, hard? } ],
+ *     "homeroom": [ { id?, type?, category, prompt, choices, answerIndex, value, hard?, tags? } ],
  *     "pop_quiz": [...],
  *     "field_trip": [...],
  *     "wager_round": [...],
  *     "boss_fight": [...]
- *   }
+ *   },
+ *   "ruleset": { "id": "...", "name": "...", "acts": [ { id, name, kind?, ... } ] }
  * }
  *
  * - `id` is auto-derived from filename if not present in JSON.
- * - Questions get auto-assigned IDs like "packId_actId_0", "packId_actId_1", etc.
+ * - Questions get IDs like "packId_actId_<key>". The key is the question's own `id`
+ *   if it has one (letters, digits, "-" and "_", unique within its act), otherwise a
+ *   hash of its prompt — so adding, removing or moving questions never changes the
+ *   others' IDs, which question history is keyed by. Give a question an `id` to keep
+ *   its history through a rewording.
  * - Validation rejects packs with bad answerIndex, missing fields, etc.
+ * - `type` defaults to "multiple_choice". The answer fields depend on it:
+ *     multiple_choice  choices (2-6) + answerIndex
+ *     true_false       answer: true | false
+ *     multi_select     choices (2-6) + answerIndexes (every correct choice)
+ *     ordering         choices (2-6), listed in the correct order — players see them shuffled
+ *     free_text        answers: accepted answers (the first is shown at reveal)
+ * - `translations` is optional: { "es": { prompt, category?, choices?, hint?, extraHint?,
+ *   answers? } } — each player sees the question in their own language when the
+ *   pack has it. `choices` follow the authored order; `answers` (free text only)
+ *   are accepted alongside the original answers.
+ * - `media` is optional: { "type": "image" | "audio", "src", "alt"?, "start"?, "end"? }.
+ *   `src` is an http(s) URL or a file in the pack's media folder — a folder named
+ *   after the pack file (`my-pack.json` → `my-pack/`), served at `/media/<packId>/…`.
+ *   `start` / `end` (audio only) clip the file, in seconds.
+ * - The metadata fields are optional and only help hosts find a pack (see packFilter).
+ *   A bad value gets a warning and is ignored; it never costs questions.
+ *   `difficulty` is easy | medium | hard | mixed, `rating` family | teen | mature.
+ * - `ruleset` is optional: without it the pack is played with the classic acts.
+ *   It may also live next to the pack as `<file>.ruleset.json`. The keys of
+ *   `questions` are the ruleset's act IDs.
+ *
+ * Every loaded pack has a `revision` — a hash of its content. Rooms pin the
+ * revision they were created with, and reloading (by hand, after an edit, or
+ * from the directory watcher) keeps older revisions around until no room uses
+ * them, so a running game never sees questions change under it.
  */
 
+import { DEFAULT_RULESET, SHOP_ITEMS } from '@/lib/gameConfig';
 import { logger } from '@/lib/logger';
+import {
+  countDiagnostics,
+  findSuspiciousContent,
+  formatDiagnostic,
+  type IndexedQuestion,
+} from '@/lib/packDiagnostics';
+import {
+  CONTENT_RATINGS,
+  LANGUAGE_RE,
+  matchesPackFilter,
+  normalizeTag,
+  PACK_DIFFICULTIES,
+} from '@/lib/packFilter';
+import { shuffle } from '@/lib/questionSampling';
+import { normalizeFreeText, QUESTION_TYPES, TRUE_FALSE_CHOICES } from '@/lib/questionTypes';
+import type {
+  ActConfig,
+  ActId,
+  ActInfo,
+  ActKind,
+  ContentRating,
+  PackDiagnostic,
+  PackDifficulty,
+  PackFilter,
+  PackMetadata,
+  PackSummary,
+  PackValidation,
+  Question,
+  QuestionMedia,
+  QuestionTranslation,
+  QuestionType,
+  QuestionTypeFields,
+  Ruleset,
+} from '@/lib/types';
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 
 /* ── Types ── */
 
-const VALID_ACT_IDS = ['homeroom', 'pop_quiz', 'field_trip', 'wager_round', 'boss_fight'] as const;
-type ActId = (typeof VALID_ACT_IDS)[number];
-
-type Question = {
-  id: string;
-  category: string;
-  prompt: string;
-  hint?: string;
-  extraHint?: string;
-  choices: string[];
-  answerIndex: number;
-  value: number;
-  hard?: boolean;
-};
-
 type RawQuestion = {
+  id?: unknown;
+  type?: unknown;
   category?: unknown;
   prompt?: unknown;
   hint?: unknown;
   extraHint?: unknown;
   choices?: unknown;
   answerIndex?: unknown;
+  answerIndexes?: unknown;
+  answer?: unknown;
+  answers?: unknown;
   value?: unknown;
   hard?: unknown;
+  tags?: unknown;
+  media?: unknown;
+  translations?: unknown;
+};
+
+type RawTranslation = {
+  prompt?: unknown;
+  category?: unknown;
+  choices?: unknown;
+  hint?: unknown;
+  extraHint?: unknown;
+  answers?: unknown;
+};
+
+type RawMedia = {
+  type?: unknown;
+  src?: unknown;
+  alt?: unknown;
+  start?: unknown;
+  end?: unknown;
+};
+
+type RawAct = {
+  id?: unknown;
+  name?: unknown;
+  emoji?: unknown;
+  description?: unknown;
+  kind?: unknown;
+  questionDurationMs?: unknown;
+  heartsAtRisk?: unknown;
+  heartsOnlyOnHard?: unknown;
+  coinRewardBase?: unknown;
+  scoreMultiplier?: unknown;
+  availableShopItems?: unknown;
+  speedBonusMax?: unknown;
+  maxQuestions?: unknown;
 };
 
 type QuestionPack = {
@@ -61,222 +155,1072 @@ type QuestionPack = {
   name: string;
   description: string;
   version: number;
+  metadata: PackMetadata;
+  /** Hash of the pack's content — changes whenever a question or the ruleset does */
+  revision: string;
+  ruleset: Ruleset;
   questions: Record<ActId, Question[]>;
-};
-
-type PackSummary = {
-  id: string;
-  name: string;
-  description: string;
-  questionCounts: Record<ActId, number>;
-  totalQuestions: number;
+  /** File name in the packs directory */
+  file: string;
+  /** Where the pack's local media files live */
+  mediaDir: string;
+  /** What the loader found wrong with it (see packDiagnostics) */
+  diagnostics: PackDiagnostic[];
 };
 
 /* ── Validation ── */
 
-function validateQuestion(
-  raw: RawQuestion,
-  packId: string,
-  actId: string,
-  index: number
-): string | null {
-  const prefix = `Pack "${packId}" → ${actId}[${index}]`;
+/** A problem with one field of a question (or of the pack) */
+type Problem = { field?: string; message: string };
+
+/** What a question's own `id` may look like */
+const QUESTION_KEY_RE = /^[A-Za-z0-9_-]{1,40}$/;
 
+/** Every problem with a question — empty if it's valid */
+function validateQuestion(raw: RawQuestion, mediaDir: string): Problem[] {
+  const problems: Problem[] = [];
+  const problem = (field: string, message: string) => problems.push({ field, message });
+
+  if (raw.id !== undefined && (typeof raw.id !== 'string' || !QUESTION_KEY_RE.test(raw.id))) {
+    problem('id', '"id" must be 1-40 letters, digits, "-" or "_" if present');
+  }
   if (typeof raw.category !== 'string' || raw.category.trim().length === 0) {
-    return `${prefix}: "category" must be a non-empty string`;
+    problem('category', '"category" must be a non-empty string');
   }
   if (typeof raw.prompt !== 'string' || raw.prompt.trim().length === 0) {
-    return `${prefix}: "prompt" must be a non-empty string`;
+    problem('prompt', '"prompt" must be a non-empty string');
   }
   if (raw.hint !== undefined && (typeof raw.hint !== 'string' || raw.hint.trim().length === 0)) {
-    return `${prefix}: "hint" must be a non-empty string if present`;
+    problem('hint', '"hint" must be a non-empty string if present');
   }
   if (
     raw.extraHint !== undefined &&
     (typeof raw.extraHint !== 'string' || raw.extraHint.trim().length === 0)
   ) {
-    return `${prefix}: "extraHint" must be a non-empty string if present`;
+    problem('extraHint', '"extraHint" must be a non-empty string if present');
+  }
+  if (raw.type !== undefined && !QUESTION_TYPES.includes(raw.type as QuestionType)) {
+    problem('type', `"type" must be one of: ${QUESTION_TYPES.join(', ')}`);
+  } else {
+    const answerError = validateAnswerFields(raw, (raw.type as QuestionType) ?? 'multiple_choice');
+    if (answerError) problems.push(answerError);
+  }
+  if (typeof raw.value !== 'number' || raw.value <= 0) {
+    problem('value', '"value" must be a positive number');
   }
+  if (raw.hard !== undefined && typeof raw.hard !== 'boolean') {
+    problem('hard', '"hard" must be a boolean if present');
+  }
+  if (raw.tags !== undefined && !isTagList(raw.tags)) {
+    problem('tags', `"tags" must be an array of up to ${MAX_TAGS} short strings if present`);
+  }
+  if (raw.media !== undefined) {
+    const mediaError = validateMedia(raw.media, mediaDir);
+    if (mediaError) problems.push(mediaError);
+  }
+  if (raw.translations !== undefined) {
+    const translationError = validateTranslations(raw);
+    if (translationError) problems.push(translationError);
+  }
+
+  return problems;
+}
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+const isTagList = (v: unknown): v is string[] =>
+  Array.isArray(v) &&
+  v.length <= MAX_TAGS &&
+  v.every((t) => typeof t === 'string' && t.trim().length > 0 && t.length <= MAX_TAG_LENGTH);
+
+/** Normalised and without duplicates */
+const toTags = (tags: string[]) => Array.from(new Set(tags.map(normalizeTag)));
+
+function validateChoices(raw: RawQuestion): Problem | null {
   if (!Array.isArray(raw.choices) || raw.choices.length < 2 || raw.choices.length > 6) {
-    return `${prefix}: "choices" must be an array of 2-6 strings`;
+    return { field: 'choices', message: '"choices" must be an array of 2-6 strings' };
   }
   for (let i = 0; i < raw.choices.length; i++) {
     if (typeof raw.choices[i] !== 'string' || (raw.choices[i] as string).trim().length === 0) {
-      return `${prefix}: choices[${i}] must be a non-empty string`;
+      return { field: 'choices', message: `choices[${i}] must be a non-empty string` };
     }
   }
-  if (typeof raw.answerIndex !== 'number' || !Number.isInteger(raw.answerIndex)) {
-    return `${prefix}: "answerIndex" must be an integer`;
+  return null;
+}
+
+const isChoiceIndex = (value: unknown, choices: number) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < choices;
+
+/** The answer fields each question type needs (see the pack format above) */
+function validateAnswerFields(raw: RawQuestion, type: QuestionType): Problem | null {
+  switch (type) {
+    case 'multiple_choice': {
+      const err = validateChoices(raw);
+      if (err) return err;
+      if (typeof raw.answerIndex !== 'number' || !Number.isInteger(raw.answerIndex)) {
+        return { field: 'answerIndex', message: '"answerIndex" must be an integer' };
+      }
+      const count = (raw.choices as string[]).length;
+      if (!isChoiceIndex(raw.answerIndex, count)) {
+        return {
+          field: 'answerIndex',
+          message: `"answerIndex" ${raw.answerIndex} is out of bounds (${count} choices)`,
+        };
+      }
+      return null;
+    }
+    case 'true_false':
+      return typeof raw.answer === 'boolean'
+        ? null
+        : { field: 'answer', message: '"answer" must be true or false' };
+    case 'multi_select': {
+      const err = validateChoices(raw);
+      if (err) return err;
+      const count = (raw.choices as string[]).length;
+      if (
+        !Array.isArray(raw.answerIndexes) ||
+        raw.answerIndexes.length === 0 ||
+        !raw.answerIndexes.every((i) => isChoiceIndex(i, count)) ||
+        new Set(raw.answerIndexes).size !== raw.answerIndexes.length
+      ) {
+        return {
+          field: 'answerIndexes',
+          message: `"answerIndexes" must list each correct choice once (0-${count - 1})`,
+        };
+      }
+      return null;
+    }
+    case 'ordering':
+      return validateChoices(raw);
+    case 'free_text':
+      if (
+        !Array.isArray(raw.answers) ||
+        raw.answers.length === 0 ||
+        !raw.answers.every((a) => typeof a === 'string' && normalizeFreeText(a).length > 0)
+      ) {
+        return {
+          field: 'answers',
+          message: '"answers" must be a non-empty array of accepted answers',
+        };
+      }
+      return null;
   }
-  if (raw.answerIndex < 0 || raw.answerIndex >= (raw.choices as string[]).length) {
-    return `${prefix}: "answerIndex" ${raw.answerIndex} is out of bounds (${(raw.choices as string[]).length} choices)`;
+}
+
+/** Shuffle ordering choices for display, never leaving them in the correct order */
+function shuffleForOrdering(items: string[]): { choices: string[]; answerOrder: number[] } {
+  let order = items.map((_, i) => i);
+  for (let attempt = 0; attempt < 10 && order.every((i, pos) => i === pos); attempt++) {
+    order = shuffle(order);
   }
-  if (typeof raw.value !== 'number' || raw.value <= 0) {
-    return `${prefix}: "value" must be a positive number`;
+  if (order.every((i, pos) => i === pos)) order.reverse();
+
+  // order[displayIndex] = correct position; answerOrder lists display indexes first to last
+  const choices = order.map((i) => items[i]);
+  const answerOrder = items.map((_, pos) => order.indexOf(pos));
+  return { choices, answerOrder };
+}
+
+/** Build a validated raw question's type-specific fields */
+function toAnswerFields(raw: RawQuestion): QuestionTypeFields {
+  const choices = () => (raw.choices as string[]).map((c) => c.trim());
+
+  switch ((raw.type as QuestionType) ?? 'multiple_choice') {
+    case 'multiple_choice':
+      return {
+        type: 'multiple_choice',
+        choices: choices(),
+        answerIndex: raw.answerIndex as number,
+      };
+    case 'true_false':
+      return {
+        type: 'true_false',
+        choices: [...TRUE_FALSE_CHOICES],
+        answerIndex: raw.answer === true ? 0 : 1,
+      };
+    case 'multi_select':
+      return {
+        type: 'multi_select',
+        choices: choices(),
+        answerIndexes: raw.answerIndexes as number[],
+      };
+    case 'ordering':
+      return { type: 'ordering', ...shuffleForOrdering(choices()) };
+    case 'free_text':
+      return {
+        type: 'free_text',
+        acceptedAnswers: (raw.answers as string[]).map((a) => a.trim()),
+      };
   }
-  if (raw.hard !== undefined && typeof raw.hard !== 'boolean') {
-    return `${prefix}: "hard" must be a boolean if present`;
+}
+
+/* ── Translations ── */
+
+const MAX_TRANSLATIONS = 20;
+
+const isText = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+
+const isTextList = (v: unknown, length?: number): v is string[] =>
+  Array.isArray(v) &&
+  v.length > 0 &&
+  (length === undefined || v.length === length) &&
+  v.every(isText);
+
+/**
+ * `translations`: { "<language tag>": { prompt, category?, choices?, hint?,
+ * extraHint?, answers? } }. Translated `choices` must match the question's
+ * one for one (in the authored order); free-text questions take `answers`
+ * instead, which are accepted alongside the original ones.
+ */
+function validateTranslations(raw: RawQuestion): Problem | null {
+  const bad = (message: string): Problem => ({ field: 'translations', message });
+  const translations = raw.translations;
+  if (typeof translations !== 'object' || translations === null || Array.isArray(translations)) {
+    return bad('"translations" must be an object of language tag → translated question');
+  }
+  const entries = Object.entries(translations as Record<string, RawTranslation>);
+  if (entries.length > MAX_TRANSLATIONS) {
+    return bad(`"translations" can have at most ${MAX_TRANSLATIONS} languages`);
+  }
+
+  const type = (raw.type as QuestionType) ?? 'multiple_choice';
+  const choiceCount = type === 'true_false' ? 2 : (raw.choices as unknown[] | undefined)?.length;
+  for (const [tag, t] of entries) {
+    const label = `translations.${tag}`;
+    if (!LANGUAGE_RE.test(tag)) return bad(`"${tag}" is not a language tag like "es" or "pt-BR"`);
+    if (typeof t !== 'object' || t === null || Array.isArray(t)) {
+      return bad(`"${label}" must be an object`);
+    }
+    if (!isText(t.prompt)) return bad(`"${label}.prompt" must be a non-empty string`);
+    for (const field of ['category', 'hint', 'extraHint'] as const) {
+      if (t[field] !== undefined && !isText(t[field])) {
+        return bad(`"${label}.${field}" must be a non-empty string if present`);
+      }
+    }
+    if (type === 'free_text') {
+      if (t.choices !== undefined) return bad(`"${label}" can't have choices (free text)`);
+      if (t.answers !== undefined && !isTextList(t.answers)) {
+        return bad(`"${label}.answers" must be a non-empty array of accepted answers`);
+      }
+    } else {
+      if (t.answers !== undefined) return bad(`"${label}.answers" is only for free-text questions`);
+      if (t.choices !== undefined && !isTextList(t.choices, choiceCount)) {
+        return bad(`"${label}.choices" must be ${choiceCount} non-empty strings, like "choices"`);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * A validated question's translations, trimmed. Ordering choices are put in
+ * the same shuffled order as the question's own.
+ */
+function toTranslations(
+  raw: RawQuestion,
+  fields: QuestionTypeFields
+): Record<string, QuestionTranslation> | undefined {
+  if (!raw.translations) return undefined;
+  const optionalText = (v: unknown) => (isText(v) ? v.trim() : undefined);
+
+  return Object.fromEntries(
+    Object.entries(raw.translations as Record<string, RawTranslation>).map(([tag, t]) => {
+      let choices = isTextList(t.choices) ? t.choices.map((c) => c.trim()) : undefined;
+      if (choices && fields.type === 'ordering') {
+        const authored = choices;
+        choices = authored.map((_, shown) => authored[fields.answerOrder.indexOf(shown)]);
+      }
+      const translation: QuestionTranslation = {
+        prompt: (t.prompt as string).trim(),
+        category: optionalText(t.category),
+        choices,
+        hint: optionalText(t.hint),
+        extraHint: optionalText(t.extraHint),
+      };
+      return [tag, translation];
+    })
+  );
+}
+
+/** Free-text answers: the original accepted answers, then any new ones from translations */
+function withTranslatedAnswers(raw: RawQuestion, fields: QuestionTypeFields): QuestionTypeFields {
+  if (fields.type !== 'free_text' || !raw.translations) return fields;
+  const accepted = [...fields.acceptedAnswers];
+  const known = new Set(accepted.map(normalizeFreeText));
+  for (const t of Object.values(raw.translations as Record<string, RawTranslation>)) {
+    for (const answer of isTextList(t.answers) ? t.answers : []) {
+      const normalized = normalizeFreeText(answer);
+      if (!normalized || known.has(normalized)) continue;
+      known.add(normalized);
+      accepted.push(answer.trim());
+    }
+  }
+  return { ...fields, acceptedAnswers: accepted };
+}
+
+/* ── Media ── */
+
+/** URL prefix pack media files are served under */
+export const MEDIA_URL_PREFIX = '/media';
+
+const MEDIA_EXTENSIONS: Record<QuestionMedia['type'], string[]> = {
+  image: ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg', '.avif'],
+  audio: ['.mp3', '.ogg', '.oga', '.wav', '.m4a', '.aac', '.webm', '.flac'],
+};
+
+/** Longest accepted clip offset (seconds) */
+const MAX_MEDIA_OFFSET_S = 3_600;
+
+const isRemoteUrl = (src: string) => /^https?:\/\/\S+$/i.test(src);
+
+/** A relative path that stays inside the media folder: no absolute paths, `..` or dotfiles */
+const isSafeMediaPath = (src: string) =>
+  !src.includes('\\') && src.split('/').every((part) => part.length > 0 && !part.startsWith('.'));
+
+function validateMedia(raw: unknown, mediaDir: string): Problem | null {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { field: 'media', message: '"media" must be an object' };
+  }
+  const { type, src, alt, start, end } = raw as RawMedia;
+
+  if (type !== 'image' && type !== 'audio') {
+    return { field: 'media.type', message: '"media.type" must be "image" or "audio"' };
+  }
+  if (typeof src !== 'string' || src.trim().length === 0) {
+    return {
+      field: 'media.src',
+      message: '"media.src" must be a URL or a file in the pack\'s media folder',
+    };
+  }
+
+  const file = src.trim();
+  if (!isRemoteUrl(file)) {
+    if (!isSafeMediaPath(file)) {
+      return {
+        field: 'media.src',
+        message: `"media.src" "${file}" must be an http(s) URL or a relative path inside the media folder`,
+      };
+    }
+    const allowed = MEDIA_EXTENSIONS[type];
+    if (!allowed.includes(path.extname(file).toLowerCase())) {
+      return {
+        field: 'media.src',
+        message: `"media.src" must be an ${type} file (${allowed.join(', ')})`,
+      };
+    }
+    const filePath = path.join(mediaDir, file);
+    if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+      return {
+        field: 'media.src',
+        message: `media file "${file}" not found in the pack's media folder`,
+      };
+    }
+  }
+
+  if (alt !== undefined && typeof alt !== 'string') {
+    return { field: 'media.alt', message: '"media.alt" must be a string if present' };
+  }
+  if (type === 'image' && (start !== undefined || end !== undefined)) {
+    return { field: 'media.start', message: '"media.start" / "media.end" only apply to audio' };
+  }
+  if (start !== undefined && !isNumberIn(start, 0, MAX_MEDIA_OFFSET_S)) {
+    return {
+      field: 'media.start',
+      message: `"media.start" must be between 0 and ${MAX_MEDIA_OFFSET_S} seconds`,
+    };
+  }
+  if (
+    end !== undefined &&
+    (!isNumberIn(end, 0, MAX_MEDIA_OFFSET_S) ||
+      (end as number) <= ((start as number | undefined) ?? 0))
+  ) {
+    return { field: 'media.end', message: '"media.end" must be after "media.start"' };
+  }
+
+  return null; // valid
+}
+
+/** Build validated media; local files become URLs under `/media/<packId>/` */
+function toQuestionMedia(raw: RawMedia, packId: string): QuestionMedia {
+  const src = (raw.src as string).trim();
+  const alt = typeof raw.alt === 'string' ? raw.alt.trim() : '';
+
+  return {
+    type: raw.type as QuestionMedia['type'],
+    url: isRemoteUrl(src)
+      ? src
+      : `${MEDIA_URL_PREFIX}/${[packId, ...src.split('/')].map(encodeURIComponent).join('/')}`,
+    alt: alt || undefined,
+    start: raw.start as number | undefined,
+    end: raw.end as number | undefined,
+  };
+}
+
+const ACT_ID_RE = /^[a-z0-9_-]{1,40}$/;
+const ACT_KINDS: ActKind[] = ['standard', 'wager', 'boss'];
+const MAX_ACTS = 20;
+
+/** Values for act fields a custom ruleset leaves out */
+const ACT_DEFAULTS: Omit<ActConfig, 'id' | 'name'> = {
+  emoji: '🎯',
+  description: '',
+  kind: 'standard',
+  questionDurationMs: 25_000,
+  heartsAtRisk: false,
+  heartsOnlyOnHard: false,
+  coinRewardBase: 40,
+  scoreMultiplier: 1,
+  availableShopItems: [],
+  speedBonusMax: 0,
+};
+
+const isNumberIn = (v: unknown, min: number, max: number) =>
+  typeof v === 'number' && Number.isFinite(v) && v >= min && v <= max;
+
+function validateAct(raw: RawAct, label: string, index: number): string | null {
+  const prefix = `${label} → acts[${index}]`;
+
+  if (typeof raw !== 'object' || raw === null) return `${prefix}: must be an object`;
+  if (typeof raw.id !== 'string' || !ACT_ID_RE.test(raw.id)) {
+    return `${prefix}: "id" must be 1-40 lowercase letters, digits, "_" or "-"`;
+  }
+  if (typeof raw.name !== 'string' || raw.name.trim().length === 0) {
+    return `${prefix}: "name" must be a non-empty string`;
+  }
+  if (raw.emoji !== undefined && (typeof raw.emoji !== 'string' || !raw.emoji.trim())) {
+    return `${prefix}: "emoji" must be a non-empty string if present`;
+  }
+  if (raw.description !== undefined && typeof raw.description !== 'string') {
+    return `${prefix}: "description" must be a string if present`;
+  }
+  if (raw.kind !== undefined && !ACT_KINDS.includes(raw.kind as ActKind)) {
+    return `${prefix}: "kind" must be one of ${ACT_KINDS.join(', ')}`;
+  }
+  if (raw.questionDurationMs !== undefined && !isNumberIn(raw.questionDurationMs, 5_000, 300_000)) {
+    return `${prefix}: "questionDurationMs" must be between 5000 and 300000`;
+  }
+  for (const key of ['heartsAtRisk', 'heartsOnlyOnHard'] as const) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'boolean') {
+      return `${prefix}: "${key}" must be a boolean if present`;
+    }
+  }
+  if (raw.coinRewardBase !== undefined && !isNumberIn(raw.coinRewardBase, 0, 10_000)) {
+    return `${prefix}: "coinRewardBase" must be between 0 and 10000`;
+  }
+  if (raw.scoreMultiplier !== undefined && !isNumberIn(raw.scoreMultiplier, 0.1, 10)) {
+    return `${prefix}: "scoreMultiplier" must be between 0.1 and 10`;
+  }
+  if (raw.speedBonusMax !== undefined && !isNumberIn(raw.speedBonusMax, 0, 10_000)) {
+    return `${prefix}: "speedBonusMax" must be between 0 and 10000`;
+  }
+  if (
+    raw.maxQuestions !== undefined &&
+    (!Number.isInteger(raw.maxQuestions) || !isNumberIn(raw.maxQuestions, 1, 1_000))
+  ) {
+    return `${prefix}: "maxQuestions" must be a positive integer if present`;
+  }
+  if (raw.availableShopItems !== undefined) {
+    if (!Array.isArray(raw.availableShopItems)) {
+      return `${prefix}: "availableShopItems" must be an array of shop item IDs`;
+    }
+    for (const itemId of raw.availableShopItems) {
+      if (!SHOP_ITEMS.some((i) => i.id === itemId)) {
+        return `${prefix}: unknown shop item "${String(itemId)}"`;
+      }
+    }
+  }
+
+  return null; // valid
+}
+
+/** Validate a whole ruleset: every act, unique IDs, and the boss (if any) last */
+function validateRuleset(raw: unknown, label: string): string | null {
+  if (typeof raw !== 'object' || raw === null) return `${label}: ruleset must be an object`;
+  const { id, name, acts } = raw as { id?: unknown; name?: unknown; acts?: unknown };
+
+  if (id !== undefined && (typeof id !== 'string' || !id.trim())) {
+    return `${label}: ruleset "id" must be a non-empty string if present`;
+  }
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+    return `${label}: ruleset "name" must be a non-empty string if present`;
+  }
+  if (!Array.isArray(acts) || acts.length === 0 || acts.length > MAX_ACTS) {
+    return `${label}: "acts" must be an array of 1-${MAX_ACTS} acts`;
+  }
+
+  const seen = new Set<string>();
+  for (let i = 0; i < acts.length; i++) {
+    const err = validateAct(acts[i], label, i);
+    if (err) return err;
+
+    const act = acts[i] as RawAct;
+    if (seen.has(act.id as string)) return `${label}: duplicate act id "${act.id}"`;
+    seen.add(act.id as string);
+
+    if (act.kind === 'boss' && i !== acts.length - 1) {
+      return `${label}: the boss act "${act.id}" must be the last act`;
+    }
   }
 
   return null; // valid
 }
 
+function buildRuleset(raw: unknown, fallbackId: string, fallbackName: string): Ruleset {
+  const { id, name, acts } = raw as { id?: string; name?: string; acts: RawAct[] };
+  return {
+    id: id?.trim() || fallbackId,
+    name: name?.trim() || fallbackName,
+    acts: acts.map((a) => {
+      const d = ACT_DEFAULTS;
+      return {
+        id: a.id as string,
+        name: (a.name as string).trim(),
+        emoji: typeof a.emoji === 'string' ? a.emoji.trim() : d.emoji,
+        description: typeof a.description === 'string' ? a.description.trim() : d.description,
+        kind: (a.kind as ActKind | undefined) ?? d.kind,
+        questionDurationMs: (a.questionDurationMs as number | undefined) ?? d.questionDurationMs,
+        heartsAtRisk: (a.heartsAtRisk as boolean | undefined) ?? d.heartsAtRisk,
+        heartsOnlyOnHard: (a.heartsOnlyOnHard as boolean | undefined) ?? d.heartsOnlyOnHard,
+        coinRewardBase: (a.coinRewardBase as number | undefined) ?? d.coinRewardBase,
+        scoreMultiplier: (a.scoreMultiplier as number | undefined) ?? d.scoreMultiplier,
+        availableShopItems: [
+          ...((a.availableShopItems as ActConfig['availableShopItems'] | undefined) ??
+            d.availableShopItems),
+        ],
+        speedBonusMax: (a.speedBonusMax as number | undefined) ?? d.speedBonusMax,
+        maxQuestions: a.maxQuestions as number | undefined,
+      };
+    }),
+  };
+}
+
+/**
+ * Find a pack's ruleset: inline `ruleset`, else a sibling `<file>.ruleset.json`,
+ * else the classic one. Returns an error string if the custom ruleset is invalid.
+ */
+function resolveRuleset(
+  rawPack: { ruleset?: unknown },
+  dir: string,
+  fileId: string,
+  packId: string,
+  packName: string
+): Ruleset | string {
+  const label = `Pack "${packId}" ruleset`;
+
+  if (rawPack.ruleset !== undefined) {
+    const err = validateRuleset(rawPack.ruleset, label);
+    return err ?? buildRuleset(rawPack.ruleset, packId, packName);
+  }
+
+  const siblingPath = path.join(dir, `${fileId}.ruleset.json`);
+  if (fs.existsSync(siblingPath)) {
+    const raw = JSON.parse(fs.readFileSync(siblingPath, 'utf-8'));
+    const err = validateRuleset(raw, `${label} (${fileId}.ruleset.json)`);
+    return err ?? buildRuleset(raw, fileId, packName);
+  }
+
+  return DEFAULT_RULESET;
+}
+
+/* ── Metadata ── */
+
+const MAX_DURATION_MINUTES = 600;
+
+/** Time between questions on top of the timer: countdown, reveal, leaderboard (rough) */
+const QUESTION_OVERHEAD_MS = 20_000;
+
+/** A pack's metadata fields; `warn` hears about each one that's unusable */
+function readMetadata(
+  raw: Record<string, unknown>,
+  warn: (field: string, message: string) => void
+): PackMetadata {
+  const metadata: PackMetadata = { tags: [], language: 'en' };
+  const { author, tags, language, difficulty, rating, durationMinutes } = raw;
+
+  if (typeof author === 'string' && author.trim()) metadata.author = author.trim();
+  else if (author !== undefined) warn('author', '"author" must be a non-empty string');
+
+  if (isTagList(tags)) metadata.tags = toTags(tags);
+  else if (tags !== undefined) {
+    warn('tags', `"tags" must be an array of up to ${MAX_TAGS} short strings`);
+  }
+
+  if (typeof language === 'string' && LANGUAGE_RE.test(language)) metadata.language = language;
+  else if (language !== undefined) {
+    warn('language', '"language" must be a language tag like "en" or "pt-BR"');
+  }
+
+  if (PACK_DIFFICULTIES.includes(difficulty as PackDifficulty)) {
+    metadata.difficulty = difficulty as PackDifficulty;
+  } else if (difficulty !== undefined) {
+    warn('difficulty', `"difficulty" must be one of: ${PACK_DIFFICULTIES.join(', ')}`);
+  }
+
+  if (CONTENT_RATINGS.includes(rating as ContentRating)) {
+    metadata.rating = rating as ContentRating;
+  } else if (rating !== undefined) {
+    warn('rating', `"rating" must be one of: ${CONTENT_RATINGS.join(', ')}`);
+  }
+
+  if (isNumberIn(durationMinutes, 1, MAX_DURATION_MINUTES)) {
+    metadata.durationMinutes = durationMinutes as number;
+  } else if (durationMinutes !== undefined) {
+    warn('durationMinutes', `"durationMinutes" must be 1-${MAX_DURATION_MINUTES}`);
+  }
+
+  return metadata;
+}
+
+/** Roughly how long playing every act through takes, in whole minutes */
+function estimateMinutes(p: QuestionPack): number {
+  const ms = p.ruleset.acts.reduce((sum, act) => {
+    const count = Math.min(p.questions[act.id].length, act.maxQuestions ?? Infinity);
+    return sum + count * (act.questionDurationMs + QUESTION_OVERHEAD_MS);
+  }, 0);
+  return Math.max(1, Math.round(ms / 60_000));
+}
+
+/* ── Pack checking ── */
+
+export const PACK_ID_RE = /^[a-z0-9_-]{1,40}$/;
+
+/** A pack's `id`, defaulting to its file name */
+const packIdOf = (raw: unknown, fileId: string) => {
+  const id = (raw as { id?: unknown } | null)?.id;
+  return typeof id === 'string' && id.trim() ? id.trim() : fileId;
+};
+
+type PackCheck = {
+  /** Undefined if nothing in the pack is playable */
+  pack?: QuestionPack;
+  /** Everything found, the pack's own diagnostics included */
+  diagnostics: PackDiagnostic[];
+};
+
+/**
+ * Validate a parsed pack file (`<dir>/<fileId>.json`), collecting every
+ * problem instead of stopping at the first. Invalid questions are skipped;
+ * the pack itself is usable as long as one question survives.
+ */
+function checkPack(raw: unknown, dir: string, fileId: string): PackCheck {
+  const file = `${fileId}.json`;
+  const diagnostics: PackDiagnostic[] = [];
+  const error = (d: Omit<PackDiagnostic, 'file' | 'severity'>) =>
+    diagnostics.push({ file, severity: 'error', ...d });
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    error({ message: 'The pack must be a JSON object' });
+    return { diagnostics };
+  }
+  const rawPack = raw as Record<string, unknown>;
+
+  const packId = packIdOf(rawPack, fileId);
+  const packName = typeof rawPack.name === 'string' ? rawPack.name : packId;
+  const packDesc = typeof rawPack.description === 'string' ? rawPack.description : '';
+  const packVersion = typeof rawPack.version === 'number' ? rawPack.version : 1;
+  const metadata = readMetadata(rawPack, (field, message) =>
+    diagnostics.push({ file, field, severity: 'warning', message: `${message} — ignored` })
+  );
+  const mediaDir = path.join(dir, fileId);
+
+  const rawQuestionsByAct = rawPack.questions as Record<string, unknown> | undefined;
+  if (!rawQuestionsByAct || typeof rawQuestionsByAct !== 'object') {
+    error({ field: 'questions', message: 'Missing "questions" object' });
+    return { diagnostics };
+  }
+
+  let ruleset: Ruleset | string;
+  try {
+    ruleset = resolveRuleset(rawPack, dir, fileId, packId, packName);
+  } catch (e) {
+    ruleset = `Pack "${packId}" ruleset: ${e instanceof Error ? e.message : String(e)}`;
+  }
+  if (typeof ruleset === 'string') {
+    error({ field: 'ruleset', message: ruleset });
+    return { diagnostics };
+  }
+  const acts = ruleset.acts;
+
+  for (const key of Object.keys(rawQuestionsByAct)) {
+    if (!acts.some((a) => a.id === key)) {
+      diagnostics.push({
+        file,
+        actId: key,
+        severity: 'warning',
+        message: `"${key}" is not an act of this pack's ruleset — ignored`,
+      });
+    }
+  }
+
+  const loaded: Record<string, IndexedQuestion[]> = {};
+
+  for (const { id: actId } of acts) {
+    const rawQuestions = rawQuestionsByAct[actId];
+    loaded[actId] = [];
+    if (!rawQuestions) continue;
+
+    if (!Array.isArray(rawQuestions)) {
+      error({ actId, message: 'Not an array of questions — skipped act' });
+      continue;
+    }
+    const usedKeys = new Set<string>();
+
+    for (let index = 0; index < rawQuestions.length; index++) {
+      const q = rawQuestions[index] as RawQuestion;
+      const problems =
+        typeof q === 'object' && q !== null
+          ? validateQuestion(q, mediaDir)
+          : [{ message: 'Must be an object' }];
+      if (problems.length > 0) {
+        for (const p of problems) error({ actId, index, ...p });
+        continue;
+      }
+
+      let key = typeof q.id === 'string' ? q.id : promptKey(q.prompt as string);
+      if (typeof q.id === 'string' && usedKeys.has(key)) {
+        error({ actId, index, field: 'id', message: `"id" "${key}" is already used in this act` });
+        continue;
+      }
+      // The same prompt twice in an act: number the repeats
+      for (let n = 2; usedKeys.has(key); n++) key = `${promptKey(q.prompt as string)}-${n}`;
+      usedKeys.add(key);
+
+      const fields = toAnswerFields(q);
+      loaded[actId].push({
+        index,
+        question: {
+          id: `${packId}_${actId}_${key}`,
+          category: (q.category as string).trim(),
+          prompt: (q.prompt as string).trim(),
+          hint: typeof q.hint === 'string' && q.hint.trim().length > 0 ? q.hint.trim() : undefined,
+          extraHint:
+            typeof q.extraHint === 'string' && q.extraHint.trim().length > 0
+              ? q.extraHint.trim()
+              : undefined,
+          value: q.value as number,
+          hard: q.hard === true ? true : undefined,
+          tags: isTagList(q.tags) && q.tags.length > 0 ? toTags(q.tags) : undefined,
+          media: q.media ? toQuestionMedia(q.media as RawMedia, packId) : undefined,
+          translations: toTranslations(q, fields),
+          ...withTranslatedAnswers(q, fields),
+        },
+      });
+    }
+  }
+
+  const questions = Object.fromEntries(
+    acts.map((a) => [a.id, loaded[a.id].map(({ question }) => question)])
+  );
+  if (Object.values(questions).every((qs) => qs.length === 0)) {
+    error({ message: 'No valid questions — the pack was skipped' });
+    return { diagnostics };
+  }
+
+  diagnostics.push(...findSuspiciousContent(file, acts, loaded));
+
+  return {
+    pack: {
+      id: packId,
+      name: packName,
+      description: packDesc,
+      version: packVersion,
+      metadata,
+      revision: revisionOf(raw, ruleset),
+      ruleset,
+      questions,
+      file,
+      mediaDir,
+      diagnostics,
+    },
+    diagnostics,
+  };
+}
+
+/** Short hash of a question's prompt — its ID key when it has no `id` of its own */
+function promptKey(prompt: string): string {
+  return crypto.createHash('sha1').update(prompt.trim()).digest('hex').slice(0, 10);
+}
+
+/** Short content hash of a pack file and its resolved ruleset (formatting doesn't count) */
+function revisionOf(raw: unknown, ruleset: Ruleset): string {
+  return crypto
+    .createHash('sha1')
+    .update(JSON.stringify([raw, ruleset]))
+    .digest('hex')
+    .slice(0, 12);
+}
+
+/** Summary info for the host to choose from */
+function toPackSummary(p: QuestionPack): PackSummary {
+  const actIds = p.ruleset.acts.map((a) => a.id);
+  return {
+    id: p.id,
+    name: p.name,
+    description: p.description,
+    revision: p.revision,
+    metadata: p.metadata,
+    questionTags: Array.from(
+      new Set(Object.values(p.questions).flatMap((qs) => qs.flatMap((q) => q.tags ?? [])))
+    ).sort(),
+    estimatedMinutes: p.metadata.durationMinutes ?? estimateMinutes(p),
+    acts: p.ruleset.acts.map(toActInfo),
+    questionCounts: Object.fromEntries(actIds.map((a) => [a, p.questions[a].length])),
+    totalQuestions: actIds.reduce((sum, a) => sum + p.questions[a].length, 0),
+    diagnostics: countDiagnostics(p.diagnostics),
+  };
+}
+
 /* ── Loader ── */
 
 const PACKS_DIR = path.join(process.cwd(), 'data', 'question-packs');
 
-/** All loaded packs, keyed by pack ID */
+/** The directory packs were last loaded from */
+let packsDir = PACKS_DIR;
+
+/** All loaded packs, keyed by pack ID (the current revision of each) */
 const packs = new Map<string, QuestionPack>();
 
+/** Every revision loaded since the last prune, keyed by `packId@revision` — rooms play these */
+const revisions = new Map<string, QuestionPack>();
+
+const revisionKey = (packId: string, revision: string) => `${packId}@${revision}`;
+
+/** Diagnostics for every pack file, loaded or not, keyed by pack ID (or file name if unreadable) */
+const diagnosticsByPack = new Map<string, PackDiagnostic[]>();
+
+/** How long the watcher waits for a burst of file events to settle before reloading */
+const WATCH_DEBOUNCE_MS = 300;
+
+/** Swap a freshly loaded set of packs in, keeping the revisions rooms may still be playing */
+function publishPacks(
+  loaded: Map<string, QuestionPack>,
+  diagnostics: Map<string, PackDiagnostic[]>
+) {
+  packs.clear();
+  diagnosticsByPack.clear();
+  for (const [id, loadedPack] of loaded) {
+    // Unchanged content keeps the revision's first build, so rooms pinned to it
+    // don't see ordering choices reshuffled by someone else's edit
+    const pack = revisions.get(revisionKey(id, loadedPack.revision)) ?? loadedPack;
+    packs.set(id, pack);
+    revisions.set(revisionKey(id, pack.revision), pack);
+  }
+  for (const [id, d] of diagnostics) diagnosticsByPack.set(id, d);
+}
+
 /**
  * Load (or reload) all question packs from the data/question-packs/ directory.
  * Returns the number of packs loaded successfully.
+ *
+ * Safe while games are running: rooms keep the revision they were created with.
  */
-export function loadQuestionPacks(): number {
-  packs.clear();
+export function loadQuestionPacks(dir = PACKS_DIR): number {
+  const loadedPacks = new Map<string, QuestionPack>();
+  const loadedDiagnostics = new Map<string, PackDiagnostic[]>();
+  packsDir = dir;
 
-  if (!fs.existsSync(PACKS_DIR)) {
-    logger.warn({ dir: PACKS_DIR }, 'Question packs directory not found — no packs loaded');
+  if (!fs.existsSync(dir)) {
+    logger.warn({ dir }, 'Question packs directory not found — no packs loaded');
+    publishPacks(loadedPacks, loadedDiagnostics);
     return 0;
   }
 
-  const files = fs.readdirSync(PACKS_DIR).filter((f) => f.endsWith('.json'));
+  const files = fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith('.json') && !f.endsWith('.ruleset.json'));
   if (files.length === 0) {
-    logger.warn({ dir: PACKS_DIR }, 'No .json files found in question packs directory');
+    logger.warn({ dir }, 'No .json files found in question packs directory');
+    publishPacks(loadedPacks, loadedDiagnostics);
     return 0;
   }
 
-  let loaded = 0;
-
   for (const file of files) {
-    const filePath = path.join(PACKS_DIR, file);
     const fileId = path.basename(file, '.json');
-
+    let raw: unknown;
     try {
-      const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      raw = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      logger.error({ file, error: message }, 'Failed to parse question pack');
+      loadedDiagnostics.set(fileId, [
+        { file, severity: 'error', message: `Not valid JSON: ${message}` },
+      ]);
+      continue;
+    }
 
-      const packId = typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : fileId;
-      const packName = typeof raw.name === 'string' ? raw.name : packId;
-      const packDesc = typeof raw.description === 'string' ? raw.description : '';
-      const packVersion = typeof raw.version === 'number' ? raw.version : 1;
+    const { pack, diagnostics } = checkPack(raw, dir, fileId);
+    const { errors, warnings } = countDiagnostics(diagnostics);
+    for (const d of diagnostics) {
+      if (d.severity === 'error') logger.error({ file }, formatDiagnostic(d));
+    }
+    loadedDiagnostics.set(pack?.id ?? packIdOf(raw, fileId), diagnostics);
 
-      if (!raw.questions || typeof raw.questions !== 'object') {
-        logger.error({ file }, 'Pack missing "questions" object — skipped');
-        continue;
-      }
+    if (!pack) {
+      logger.error({ file }, 'Question pack skipped');
+      continue;
+    }
+    if (errors > 0 || warnings > 0) {
+      logger.warn(
+        { packId: pack.id, errors, warnings, valid: toPackSummary(pack).totalQuestions },
+        `Pack has diagnostics — see /api/packs/${pack.id}/diagnostics`
+      );
+    }
 
-      const questions: Record<string, Question[]> = {};
-      let totalErrors = 0;
-      let totalQuestions = 0;
-
-      for (const actId of VALID_ACT_IDS) {
-        const rawQuestions = raw.questions[actId];
-        if (!rawQuestions) {
-          questions[actId] = [];
-          continue;
-        }
-
-        if (!Array.isArray(rawQuestions)) {
-          logger.error(
-            { file, actId },
-            `Pack "${packId}" → "${actId}" is not an array — skipped act`
-          );
-          questions[actId] = [];
-          continue;
-        }
-
-        const validated: Question[] = [];
-
-        for (let i = 0; i < rawQuestions.length; i++) {
-          const err = validateQuestion(rawQuestions[i], packId, actId, i);
-          if (err) {
-            logger.error(err);
-            totalErrors++;
-            continue;
-          }
-
-          validated.push({
-            id: `${packId}_${actId}_${i}`,
-            category: (rawQuestions[i].category as string).trim(),
-            prompt: (rawQuestions[i].prompt as string).trim(),
-            hint:
-              typeof rawQuestions[i].hint === 'string' && rawQuestions[i].hint.trim().length > 0
-                ? (rawQuestions[i].hint as string).trim()
-                : undefined,
-            extraHint:
-              typeof rawQuestions[i].extraHint === 'string' &&
-              rawQuestions[i].extraHint.trim().length > 0
-                ? (rawQuestions[i].extraHint as string).trim()
-                : undefined,
-            choices: (rawQuestions[i].choices as string[]).map((c: string) => c.trim()),
-            answerIndex: rawQuestions[i].answerIndex as number,
-            value: rawQuestions[i].value as number,
-            hard: rawQuestions[i].hard === true ? true : undefined,
-          });
-        }
-
-        questions[actId] = validated;
-        totalQuestions += validated.length;
-      }
+    loadedPacks.set(pack.id, pack);
 
-      if (totalQuestions === 0) {
-        logger.error({ file, packId }, 'Pack has 0 valid questions after validation — skipped');
-        continue;
-      }
+    const previous = packs.get(pack.id)?.revision;
+    const { totalQuestions, questionCounts } = toPackSummary(pack);
+    const counts = Object.entries(questionCounts)
+      .map(([a, n]) => `${a}: ${n}`)
+      .join(', ');
+    logger.info(
+      { packId: pack.id, revision: pack.revision, totalQuestions, counts },
+      previous && previous !== pack.revision
+        ? `Question pack "${pack.name}" changed — new rooms get the new revision`
+        : `Loaded question pack "${pack.name}"`
+    );
+  }
 
-      if (totalErrors > 0) {
-        logger.warn(
-          { packId, errors: totalErrors, valid: totalQuestions },
-          'Pack loaded with validation errors'
-        );
-      }
+  publishPacks(loadedPacks, loadedDiagnostics);
+  logger.info(
+    { loaded: loadedPacks.size, total: files.length, dir },
+    'Question pack loading complete'
+  );
+  return loadedPacks.size;
+}
 
-      packs.set(packId, {
-        id: packId,
-        name: packName,
-        description: packDesc,
-        version: packVersion,
-        questions: questions as Record<ActId, Question[]>,
-      });
+/**
+ * Reload the packs whenever a pack file (or a ruleset next to one) in `dir`
+ * changes. Returns a function that stops watching.
+ */
+export function watchQuestionPacks(dir = packsDir, debounceMs = WATCH_DEBOUNCE_MS): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let watcher: fs.FSWatcher;
+  try {
+    watcher = fs.watch(dir, (_event, file) => {
+      // Half-written `.tmp` files (see packAuthoring) and media folders don't count
+      if (file && !file.endsWith('.json')) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        logger.info({ dir, file }, 'Question packs changed on disk — reloading');
+        loadQuestionPacks(dir);
+      }, debounceMs);
+    });
+  } catch (e) {
+    logger.warn(
+      { dir, error: e instanceof Error ? e.message : String(e) },
+      'Cannot watch the question packs directory — restart to pick up edits'
+    );
+    return () => {};
+  }
+  watcher.on('error', (e) =>
+    logger.warn({ dir, error: e.message }, 'Question pack watcher failed')
+  );
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
 
-      const counts = VALID_ACT_IDS.map((a) => `${a}: ${questions[a].length}`).join(', ');
-      logger.info({ packId, totalQuestions, counts }, `Loaded question pack "${packName}"`);
-      loaded++;
-    } catch (e) {
-      logger.error(
-        { file, error: e instanceof Error ? e.message : String(e) },
-        'Failed to parse question pack'
-      );
-    }
+/**
+ * Forget old pack revisions no room is playing any more. Current revisions are
+ * always kept. Returns how many were dropped.
+ */
+export function prunePackRevisions(inUse: { packId: string; revision: string }[]): number {
+  const keep = new Set(inUse.map((r) => revisionKey(r.packId, r.revision)));
+  let dropped = 0;
+  for (const [key, pack] of revisions) {
+    if (keep.has(key) || packs.get(pack.id)?.revision === pack.revision) continue;
+    revisions.delete(key);
+    dropped++;
   }
+  return dropped;
+}
 
-  logger.info({ loaded, total: files.length, dir: PACKS_DIR }, 'Question pack loading complete');
-  return loaded;
+/** The directory packs are loaded from (and the authoring API writes to) */
+export function getPacksDir(): string {
+  return packsDir;
 }
 
-/** Get a loaded pack by ID. Returns undefined if not found. */
-export function getPack(packId: string): QuestionPack | undefined {
-  return packs.get(packId);
+/**
+ * Check a pack as if it were saved as `<fileId>.json` in the packs directory,
+ * without loading it. Returns every error, plus the summary if it's playable.
+ */
+export function validatePackSource(raw: unknown, fileId: string): PackValidation {
+  const { pack, diagnostics } = checkPack(raw, packsDir, fileId);
+  return { diagnostics, summary: pack && toPackSummary(pack) };
 }
 
-/** Get questions for a specific act from a specific pack. */
-export function getPackQuestions(packId: string, actId: string): Question[] {
+/**
+ * What the loader found in a pack file — also for packs that failed to load.
+ * Undefined if no pack file has that ID.
+ */
+export function getPackDiagnostics(packId: string): PackDiagnostic[] | undefined {
+  return diagnosticsByPack.get(packId);
+}
+
+/** The file a loaded pack was read from. Undefined for unknown packs. */
+export function getPackFile(packId: string): string | undefined {
   const pack = packs.get(packId);
+  return pack && path.join(packsDir, pack.file);
+}
+
+/** A pack at `revision` if that's still loaded, otherwise its current revision */
+function resolvePack(packId: string, revision?: string): QuestionPack | undefined {
+  return (revision && revisions.get(revisionKey(packId, revision))) || packs.get(packId);
+}
+
+/**
+ * Get a loaded pack by ID — at a pinned revision if given. Returns undefined
+ * if not found.
+ */
+export function getPack(packId: string, revision?: string): QuestionPack | undefined {
+  return resolvePack(packId, revision);
+}
+
+/** The current revision of a pack. Undefined for unknown packs. */
+export function getPackRevision(packId: string): string | undefined {
+  return packs.get(packId)?.revision;
+}
+
+/** Whether a pack revision is still loaded (it isn't after a restart if the file changed) */
+export function hasPackRevision(packId: string, revision: string): boolean {
+  return revisions.has(revisionKey(packId, revision));
+}
+
+/** Get questions for a specific act from a specific pack (at a pinned revision if given). */
+export function getPackQuestions(packId: string, actId: ActId, revision?: string): Question[] {
+  const pack = resolvePack(packId, revision);
   if (!pack) return [];
-  return pack.questions[actId as ActId] ?? [];
+  return pack.questions[actId] ?? [];
 }
 
-/** List all available packs (summary info for the host to choose from). */
-export function listPacks(): PackSummary[] {
-  return Array.from(packs.values()).map((p) => ({
-    id: p.id,
-    name: p.name,
-    description: p.description,
-    questionCounts: Object.fromEntries(
-      VALID_ACT_IDS.map((a) => [a, p.questions[a].length])
-    ) as Record<ActId, number>,
-    totalQuestions: VALID_ACT_IDS.reduce((sum, a) => sum + p.questions[a].length, 0),
-  }));
+/** The folder a pack's local media files are served from. Undefined for unknown packs. */
+export function getPackMediaDir(packId: string): string | undefined {
+  return packs.get(packId)?.mediaDir;
+}
+
+/** The acts a pack is played with (the classic ruleset for unknown packs). */
+export function getPackRuleset(packId: string): Ruleset {
+  return packs.get(packId)?.ruleset ?? DEFAULT_RULESET;
+}
+
+export function toActInfo(act: ActConfig): ActInfo {
+  return {
+    id: act.id,
+    name: act.name,
+    emoji: act.emoji,
+    description: act.description,
+    kind: act.kind,
+  };
+}
+
+/** List all available packs (summary info for the host to choose from), optionally filtered. */
+export function listPacks(filter: PackFilter = {}): PackSummary[] {
+  return Array.from(packs.values())
+    .map(toPackSummary)
+    .filter((p) => matchesPackFilter(p, filter));
 }
 
 /** Get the default pack ID (first loaded, or 'default' if it exists). */
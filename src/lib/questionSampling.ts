@@ -0,0 +1,164 @@
+/**
+ * Question Sampling
+ *
+ * How an act picks its questions from the pack:
+ * - random: a shuffled sample (the default)
+ * - sequential: the first N in pack order
+ * - balanced: round-robin across categories, so no topic dominates
+ * - ramped: a random sample ordered easy → hard (non-hard first, then by value)
+ *
+ * With "prefer unseen" on, each strategy draws from questions the room's history
+ * hasn't seen first, topping up with seen ones only when the fresh pool runs dry.
+ *
+ * An act fed by several packs (a pack mix) samples each pack's pool for its
+ * weighted share of the questions, then orders the lot by the same strategy.
+ * With "prefer unseen", the shares are split over the packs' unseen questions
+ * first, so one pack's repeats only come in once every pack's fresh ones are dealt.
+ */
+
+import type { Question, SamplingStrategy } from '@/lib/types';
+
+export const SAMPLING_STRATEGIES = [
+  'random',
+  'sequential',
+  'balanced',
+  'ramped',
+] as const satisfies readonly SamplingStrategy[];
+
+export function shuffle<T>(arr: T[]): T[] {
+  const a = [...arr];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
+
+/** One question from each category in turn (categories and questions shuffled) */
+function interleaveByCategory(questions: Question[]): Question[] {
+  const byCategory = new Map<string, Question[]>();
+  for (const q of shuffle(questions)) {
+    const key = q.category.toLowerCase();
+    const group = byCategory.get(key);
+    if (group) group.push(q);
+    else byCategory.set(key, [q]);
+  }
+
+  const groups = Array.from(byCategory.values());
+  const out: Question[] = [];
+  for (let round = 0; out.length < questions.length; round++) {
+    for (const group of groups) {
+      if (round < group.length) out.push(group[round]);
+    }
+  }
+  return out;
+}
+
+const difficulty = (q: Question) => (q.hard ? 1 : 0) * 1_000_000 + q.value;
+const easyFirst = (a: Question, b: Question) => difficulty(a) - difficulty(b);
+
+/** Pick `count` questions (or all, if fewer) using `strategy` */
+export function sampleQuestions(
+  questions: Question[],
+  count: number,
+  strategy: SamplingStrategy
+): Question[] {
+  const n = Math.max(0, Math.min(count, questions.length));
+
+  switch (strategy) {
+    case 'sequential':
+      return questions.slice(0, n);
+    case 'balanced':
+      return interleaveByCategory(questions).slice(0, n);
+    case 'ramped':
+      return shuffle(questions).slice(0, n).sort(easyFirst);
+    case 'random':
+    default:
+      return shuffle(questions).slice(0, n);
+  }
+}
+
+/** `sampleQuestions`, drawing from questions not in `seen` before any that are */
+export function sampleUnseenFirst(
+  questions: Question[],
+  count: number,
+  strategy: SamplingStrategy,
+  seen: ReadonlySet<string>
+): Question[] {
+  const fresh = sampleQuestions(
+    questions.filter((q) => !seen.has(q.id)),
+    count,
+    strategy
+  );
+  if (fresh.length >= count) return fresh;
+
+  const stale = sampleQuestions(
+    questions.filter((q) => seen.has(q.id)),
+    count - fresh.length,
+    strategy
+  );
+  const picked = [...fresh, ...stale];
+  return strategy === 'ramped' ? picked.sort(easyFirst) : picked;
+}
+
+/**
+ * Split `count` over pools of `sizes` in proportion to `weights`, one at a time
+ * to whichever pool is furthest below its share. A pool that runs out leaves the
+ * rest to the others.
+ */
+export function apportion(sizes: number[], weights: number[], count: number): number[] {
+  const shares = sizes.map(() => 0);
+  const need = (i: number) => (shares[i] + 0.5) / weights[i];
+  for (let k = 0; k < count; k++) {
+    let best = -1;
+    for (let i = 0; i < sizes.length; i++) {
+      if (shares[i] < sizes[i] && weights[i] > 0 && (best < 0 || need(i) < need(best))) best = i;
+    }
+    if (best < 0) break;
+    shares[best]++;
+  }
+  return shares;
+}
+
+/** Pick `count` questions from weighted pools (see `apportion`), unseen first when `seen` is given */
+export function sampleMixed(
+  pools: { questions: Question[]; weight: number }[],
+  count: number,
+  strategy: SamplingStrategy,
+  seen?: ReadonlySet<string>
+): Question[] {
+  const sample = (questions: Question[], n: number) =>
+    seen
+      ? sampleUnseenFirst(questions, n, strategy, seen)
+      : sampleQuestions(questions, n, strategy);
+  if (pools.length === 1) return sample(pools[0].questions, count);
+
+  const weights = pools.map((p) => p.weight);
+  const split = (groups: Question[][], n: number) => {
+    const shares = apportion(
+      groups.map((g) => g.length),
+      weights,
+      n
+    );
+    return groups.flatMap((g, i) => sampleQuestions(g, shares[i], strategy));
+  };
+
+  let picked: Question[];
+  if (seen) {
+    const fresh = split(
+      pools.map((p) => p.questions.filter((q) => !seen.has(q.id))),
+      count
+    );
+    const stale = split(
+      pools.map((p) => p.questions.filter((q) => seen.has(q.id))),
+      count - fresh.length
+    );
+    picked = [...fresh, ...stale];
+  } else {
+    picked = split(
+      pools.map((p) => p.questions),
+      count
+    );
+  }
+  return strategy === 'sequential' ? picked : sampleQuestions(picked, picked.length, strategy);
+}
@@ -0,0 +1,143 @@
+/**
+ * Question Types
+ *
+ * Everything that depends on a question's `type`: what a valid answer looks
+ * like, how it's graded and how the correct answer is revealed.
+ *
+ * - multiple_choice / true_false: one choice (`answerIndex`)
+ * - multi_select: every correct choice and nothing else (`answerIndexes`)
+ * - ordering: every choice, first to last (`order`)
+ * - free_text: typed text matching any accepted answer (`text`), ignoring case,
+ *   accents, punctuation and a leading "the" / "a" / "an"
+ */
+
+import type { PlayerAnswer, PublicQuestion, Question, QuestionType } from '@/lib/types';
+
+export const QUESTION_TYPES = [
+  'multiple_choice',
+  'true_false',
+  'multi_select',
+  'ordering',
+  'free_text',
+] as const satisfies readonly QuestionType[];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: 'Multiple choice',
+  true_false: 'True or false',
+  multi_select: 'Pick all that apply',
+  ordering: 'Put in order',
+  free_text: 'Type the answer',
+};
+
+export const TRUE_FALSE_CHOICES = ['True', 'False'];
+
+export const choiceLetter = (index: number) => String.fromCharCode(65 + index);
+
+/* ── Free text ── */
+
+/** Anything but letters, digits and spaces (any script) */
+const NOT_WORD_CHAR = new RegExp('[^\\p{L}\\p{N}\\s]', 'gu');
+
+export function normalizeFreeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // accents
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(NOT_WORD_CHAR, ' ')
+    .replace(/^\s*(the|a|an)\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/* ── Answers ── */
+
+const isPermutation = (order: number[], n: number) =>
+  order.length === n && new Set(order).size === n && order.every((i) => i >= 0 && i < n);
+
+/** Why `answer` can't be an answer to `q` (wrong shape or out of range), or null if it can */
+export function checkAnswerShape(q: Question, answer: PlayerAnswer): string | null {
+  switch (q.type) {
+    case 'multiple_choice':
+    case 'true_false':
+      if (!('answerIndex' in answer)) return 'Pick one answer.';
+      return answer.answerIndex < q.choices.length ? null : 'Invalid answer.';
+    case 'multi_select':
+      if (!('answerIndexes' in answer)) return 'Pick all the answers that apply.';
+      if (answer.answerIndexes.length === 0) return 'Pick at least one answer.';
+      if (new Set(answer.answerIndexes).size !== answer.answerIndexes.length) {
+        return 'Each answer can only be picked once.';
+      }
+      return answer.answerIndexes.every((i) => i < q.choices.length) ? null : 'Invalid answer.';
+    case 'ordering':
+      if (!('order' in answer)) return 'Put the answers in order.';
+      return isPermutation(answer.order, q.choices.length) ? null : 'Order every answer once.';
+    case 'free_text':
+      if (!('text' in answer)) return 'Type an answer.';
+      return normalizeFreeText(answer.text) ? null : 'Type an answer.';
+  }
+}
+
+export function isCorrectAnswer(q: Question, answer: PlayerAnswer): boolean {
+  if (checkAnswerShape(q, answer)) return false;
+
+  switch (q.type) {
+    case 'multiple_choice':
+    case 'true_false':
+      return 'answerIndex' in answer && answer.answerIndex === q.answerIndex;
+    case 'multi_select': {
+      if (!('answerIndexes' in answer)) return false;
+      const picked = new Set(answer.answerIndexes);
+      return picked.size === q.answerIndexes.length && q.answerIndexes.every((i) => picked.has(i));
+    }
+    case 'ordering':
+      return 'order' in answer && answer.order.every((i, pos) => i === q.answerOrder[pos]);
+    case 'free_text': {
+      if (!('text' in answer)) return false;
+      const typed = normalizeFreeText(answer.text);
+      return q.acceptedAnswers.some((a) => normalizeFreeText(a) === typed);
+    }
+  }
+}
+
+/** Just the answer from a `player:answer` payload */
+export function pickAnswer(payload: PlayerAnswer): PlayerAnswer {
+  if ('answerIndex' in payload) return { answerIndex: payload.answerIndex };
+  if ('answerIndexes' in payload) return { answerIndexes: payload.answerIndexes };
+  if ('order' in payload) return { order: payload.order };
+  return { text: payload.text };
+}
+
+/** The correct answer, in the same shape a player submits */
+export function correctAnswerOf(q: Question): PlayerAnswer {
+  switch (q.type) {
+    case 'multiple_choice':
+    case 'true_false':
+      return { answerIndex: q.answerIndex };
+    case 'multi_select':
+      return { answerIndexes: [...q.answerIndexes].sort((a, b) => a - b) };
+    case 'ordering':
+      return { order: q.answerOrder };
+    case 'free_text':
+      return { text: q.acceptedAnswers[0] };
+  }
+}
+
+/** Whether choice `index` is (one of) the picks in `answer` — always false for orderings / text */
+export function includesChoice(answer: PlayerAnswer | null | undefined, index: number): boolean {
+  if (!answer) return false;
+  if ('answerIndex' in answer) return answer.answerIndex === index;
+  if ('answerIndexes' in answer) return answer.answerIndexes.includes(index);
+  return false;
+}
+
+/** An answer in words: "Paris", "Mars, Venus", "Mercury → Venus → Earth" or the typed text */
+export function describeAnswer(q: Pick<PublicQuestion, 'choices'>, answer: PlayerAnswer): string {
+  if ('answerIndex' in answer)
+    return q.choices[answer.answerIndex] ?? choiceLetter(answer.answerIndex);
+  if ('answerIndexes' in answer)
+    return answer.answerIndexes.map((i) => q.choices[i] ?? choiceLetter(i)).join(', ');
+  if ('order' in answer)
+    return answer.order.map((i) => q.choices[i] ?? choiceLetter(i)).join(' → ');
+  return answer.text;
+}
@@ -0,0 +1,186 @@
+/**
+ * Room Store
+ *
+ * Persists room snapshots so a server restart (or a `tsx watch` reload) doesn't
+ * wipe live games. The server hands us a serialized room after every broadcast;
+ * on startup it reads them all back and rehydrates its in-memory `rooms` Map.
+ *
+ * Stores are pluggable:
+ *   - "file"   (default) — one JSON file per room in `data/rooms/`
+ *   - "memory" — keeps nothing, for tests / throwaway servers
+ *
+ * Select with `ROOM_STORE=file|memory`; override the directory with `ROOM_STORE_DIR`.
+ *
+ * Snapshots are plain JSON. `Map`s are encoded as `{ "$map": [[key, value], ...] }`
+ * so nested lookups (players, answers, wagers) survive the round trip, and any
+ * keys listed as transient (timer handles, socket bookkeeping) are dropped.
+ */
+
+import { logger } from '@/lib/logger';
+import fs from 'fs';
+import path from 'path';
+
+/* ── Types ── */
+
+export type StoredRoom = {
+  code: string;
+  /** Serialized room, as produced by `serializeSnapshot` */
+  json: string;
+};
+
+export type RoomStore = {
+  /** Read every persisted room (called once on startup) */
+  loadAll(): StoredRoom[];
+  /** Persist (or overwrite) a room snapshot. May be written lazily. */
+  save(code: string, json: string): void;
+  /** Forget a room (destroyed / cleaned up) */
+  delete(code: string): void;
+  /** Write any pending snapshots synchronously (called on shutdown) */
+  flush(): void;
+};
+
+/* ── Serialization ── */
+
+type EncodedMap = { $map: [unknown, unknown][] };
+
+function isEncodedMap(value: unknown): value is EncodedMap {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as Partial<EncodedMap>).$map)
+  );
+}
+
+/** Stringify a snapshot, encoding `Map`s and skipping transient keys. */
+export function serializeSnapshot(value: unknown, transientKeys: ReadonlySet<string>): string {
+  return JSON.stringify(value, (key, v) => {
+    if (transientKeys.has(key)) return undefined;
+    if (v instanceof Map) return { $map: Array.from(v.entries()) } satisfies EncodedMap;
+    return v;
+  });
+}
+
+/** Parse a snapshot produced by `serializeSnapshot`, restoring `Map`s. */
+export function deserializeSnapshot<T>(json: string): T {
+  return JSON.parse(json, (_key, v) => (isEncodedMap(v) ? new Map(v.$map) : v)) as T;
+}
+
+/* ── Memory store ── */
+
+export function createMemoryRoomStore(): RoomStore {
+  return {
+    loadAll: () => [],
+    save: () => {},
+    delete: () => {},
+    flush: () => {},
+  };
+}
+
+/* ── File store ── */
+
+/** Coalesce bursts of broadcasts (e.g. everyone locking in) into one write */
+const FILE_WRITE_DEBOUNCE_MS = 250;
+
+const ROOM_CODE_RE = /^[A-Z0-9]+$/;
+
+export function createFileRoomStore(dir: string): RoomStore {
+  const pending = new Map<string, { json: string; timer: ReturnType<typeof setTimeout> }>();
+
+  const fileFor = (code: string) => path.join(dir, `${code}.json`);
+
+  const ensureDir = () => {
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  };
+
+  const write = (code: string, json: string) => {
+    try {
+      ensureDir();
+      // Write to a temp file first so a crash mid-write never leaves a truncated snapshot
+      const tmp = `${fileFor(code)}.tmp`;
+      fs.writeFileSync(tmp, json, 'utf-8');
+      fs.renameSync(tmp, fileFor(code));
+    } catch (e) {
+      logger.error(
+        { code, error: e instanceof Error ? e.message : String(e) },
+        'Failed to persist room snapshot'
+      );
+    }
+  };
+
+  return {
+    loadAll() {
+      if (!fs.existsSync(dir)) return [];
+
+      const stored: StoredRoom[] = [];
+      for (const file of fs.readdirSync(dir).filter((f) => f.endsWith('.json'))) {
+        const code = path.basename(file, '.json');
+        if (!ROOM_CODE_RE.test(code)) continue;
+        try {
+          stored.push({ code, json: fs.readFileSync(path.join(dir, file), 'utf-8') });
+        } catch (e) {
+          logger.error(
+            { file, error: e instanceof Error ? e.message : String(e) },
+            'Failed to read room snapshot'
+          );
+        }
+      }
+      return stored;
+    },
+
+    save(code, json) {
+      const existing = pending.get(code);
+      if (existing) clearTimeout(existing.timer);
+
+      const timer = setTimeout(() => {
+        pending.delete(code);
+        write(code, json);
+      }, FILE_WRITE_DEBOUNCE_MS);
+      // Don't keep the process alive just to write a snapshot
+      timer.unref?.();
+
+      pending.set(code, { json, timer });
+    },
+
+    delete(code) {
+      const existing = pending.get(code);
+      if (existing) {
+        clearTimeout(existing.timer);
+        pending.delete(code);
+      }
+      try {
+        fs.rmSync(fileFor(code), { force: true });
+      } catch (e) {
+        logger.error(
+          { code, error: e instanceof Error ? e.message : String(e) },
+          'Failed to delete room snapshot'
+        );
+      }
+    },
+
+    flush() {
+      for (const [code, { json, timer }] of pending) {
+        clearTimeout(timer);
+        write(code, json);
+      }
+      pending.clear();
+    },
+  };
+}
+
+/** Build the store selected by `ROOM_STORE` (defaults to the file store). */
+export function createRoomStore(): RoomStore {
+  const kind = (process.env.ROOM_STORE || 'file').trim().toLowerCase();
+
+  if (kind === 'memory') {
+    logger.info('Room store: memory (rooms are not persisted)');
+    return createMemoryRoomStore();
+  }
+
+  if (kind !== 'file') {
+    logger.warn({ kind }, 'Unknown ROOM_STORE — falling back to file store');
+  }
+
+  const dir = process.env.ROOM_STORE_DIR || path.join(process.cwd(), 'data', 'rooms');
+  logger.info({ dir }, 'Room store: file');
+  return createFileRoomStore(dir);
+}
@@ -1,9 +1,12 @@
 import { io, type Socket } from 'socket.io-client';
 import { logger } from './logger';
+import type { ClientToServerEvents, ServerToClientEvents } from './protocol';
 
-let socket: Socket | null = null;
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
-export function getSocket() {
+let socket: GameSocket | null = null;
+
+export function getSocket(): GameSocket {
   if (!socket) {
     socket = io(window.location.origin, {
       // Start with polling (works everywhere), then upgrade to websocket.
@@ -31,10 +34,11 @@ export function getSocket() {
     socket.on('disconnect', (reason) => {
       logger.warn({ reason }, 'socket disconnected');
     });
-    socket.on('reconnect', (attempt: number) => {
+    // Reconnect events are emitted by the Manager, not the socket
+    socket.io.on('reconnect', (attempt) => {
       logger.info({ attempt }, 'socket reconnected');
     });
-    socket.on('reconnect_attempt', (attempt: number) => {
+    socket.io.on('reconnect_attempt', (attempt) => {
       logger.info({ attempt }, 'socket reconnect attempt');
     });
   }
@@ -17,7 +17,16 @@ export type Phase =
   | 'intermission'
   | 'ended';
 
-export type ActId = 'homeroom' | 'pop_quiz' | 'field_trip' | 'wager_round' | 'boss_fight';
+/** Act IDs come from the room's ruleset (e.g. 'homeroom', 'boss_fight' in the classic one) */
+export type ActId = string;
+
+/**
+ * How an act plays:
+ * - standard: countdown → question → reveal
+ * - wager: a redline wager window before each question; score swings by the wager
+ * - boss: the final showdown — correct answers damage the boss (must be the last act)
+ */
+export type ActKind = 'standard' | 'wager' | 'boss';
 
 export type WagerStage = 'blind' | 'category' | 'hint' | 'redline' | 'closing' | 'locked';
 
@@ -45,6 +54,7 @@ export type ActConfig = {
   name: string;
   emoji: string;
   description: string;
+  kind: ActKind;
   /** Timer duration for questions in this act (ms) */
   questionDurationMs: number;
   /** Whether wrong answers cost hearts */
@@ -59,14 +69,92 @@ export type ActConfig = {
   availableShopItems: ShopItemId[];
   /** Max speed bonus points for an instant lock-in (scales linearly with time remaining) */
   speedBonusMax: number;
+  /** Cap on questions drawn for this act (e.g. High Stakes is a single question) */
+  maxQuestions?: number;
+};
+
+/** What clients need to label an act */
+export type ActInfo = Pick<ActConfig, 'id' | 'name' | 'emoji' | 'description' | 'kind'>;
+
+/** An ordered list of acts — the shape of a whole game. Packs may bring their own. */
+export type Ruleset = {
+  id: string;
+  name: string;
+  acts: ActConfig[];
+};
+
+/** One step of the host's run plan: an act and how many of its questions to play */
+export type RunPlanStep = {
+  actId: ActId;
+  questionCount: number;
+};
+
+/**
+ * One pack feeding an act of a mixed game. An act with entries draws only from
+ * them, `weight` being each one's share of its questions; other acts use the room's pack.
+ */
+export type PackMixEntry = {
+  actId: ActId;
+  packId: string;
+  /** Which of that pack's acts to take questions from (default: `actId`) */
+  fromActId?: ActId;
+  weight: number;
 };
 
-export type Player = {
+/** A run plan step as the host dashboard shows it */
+export type TimelineStep = RunPlanStep & {
+  name: string;
+  emoji: string;
+  kind: ActKind;
+  status: 'done' | 'current' | 'upcoming';
+};
+
+/** How an act picks its questions from the pack (see questionSampling.ts) */
+export type SamplingStrategy = 'random' | 'sequential' | 'balanced' | 'ramped';
+
+export type RoomConfig = {
+  maxLives: number;
+  questionDurationMs: number;
+  countdownMs: number;
+  startingCoins: number;
+  buybackCostCoins: number;
+  bossHp: number;
+  /** Default questions per act when building the run plan (0 = every question) */
+  questionsPerAct: number;
+  sampling: SamplingStrategy;
+  /** Share question history across rooms under this name ('' = this room only) */
+  historyGroup: string;
+  /** Deal questions the room/group hasn't seen before repeating any */
+  preferUnseen: boolean;
+  /** Run the game's transitions on timers (the host can still click them sooner) */
+  autopilot: boolean;
+  /** How long autopilot lingers on a reveal, spotlight or intermission */
+  autopilotDwellMs: number;
+  /** How long autopilot keeps the shop open between acts (0 = skip the shop) */
+  autopilotShopMs: number;
+};
+
+/** The transition autopilot makes next (the host event it stands in for) */
+export type AutopilotAction = 'reveal' | 'next' | 'shop' | 'act' | 'spotlight_end';
+
+/** An autopilot step that failed, which switched autopilot off */
+export type AutopilotError = { action: AutopilotAction; message: string; at: number };
+
+/** A UI language (see i18n.ts). Pack translations may use any language tag. */
+export type Locale = 'en' | 'es';
+
+/** A player as every client sees them (the server additionally tracks the socket). */
+export type PublicPlayer = {
   playerId: string;
   name: string;
   isHost: boolean;
   connected: boolean;
   joinedAt: number;
+  /** The language the player's screen is in — also picks pack translations for them */
+  locale: Locale;
+  /** The persistent profile they joined with, if any (see profileStore) */
+  profileId?: string;
+  avatar?: string;
 
   lives: number;
   score: number;
@@ -87,23 +175,88 @@ export type Player = {
 
   /** Passive buffs currently active — shown as indicators on the player's HUD */
   buffs: {
-    doublePoints?: boolean;
-    shield?: boolean;
+    doublePoints: boolean;
+    shield: boolean;
   };
 };
 
-export type PublicQuestion = {
+export type QuestionType =
+  | 'multiple_choice'
+  | 'true_false'
+  | 'multi_select'
+  | 'ordering'
+  | 'free_text';
+
+/** An image or audio clip shown with the prompt */
+export type QuestionMedia = {
+  type: 'image' | 'audio';
+  /** An http(s) URL, or `/media/<packId>/…` for a file shipped with the pack */
+  url: string;
+  /** Alt text (images) or a description of the clip (audio) */
+  alt?: string;
+  /** Audio only: where the clip starts and stops, in seconds into the file */
+  start?: number;
+  end?: number;
+};
+
+type QuestionCommon = {
   id: string;
   category: string;
   prompt: string;
+  media?: QuestionMedia;
   /** Optional hint (used by wager_round pre-bet screen) */
   hint?: string;
-  choices: string[];
+  /** Extra hint unlocked for Bold+ wagers at REDLINE */
+  extraHint?: string;
   value: number;
-  /** Whether this question is tagged as "hard" (affects heart loss in some acts) */
+  /** Whether this is a "hard" question — matters in acts with heartsOnlyOnHard */
   hard?: boolean;
+  /** Lower-case topic tags for finding packs (not sent to players) */
+  tags?: string[];
+  /** The question in other languages, by language tag ("es", "pt-BR") */
+  translations?: Record<string, QuestionTranslation>;
+};
+
+/**
+ * A question's text in another language. `choices` line up with the
+ * question's own (for ordering questions, in the same shuffled order).
+ * Translated free-text answers are merged into the accepted answers instead.
+ */
+export type QuestionTranslation = {
+  prompt: string;
+  category?: string;
+  choices?: string[];
+  hint?: string;
+  extraHint?: string;
+};
+
+/** The part of a question that depends on its type: choices and the answer */
+export type QuestionTypeFields =
+  | { type: 'multiple_choice' | 'true_false'; choices: string[]; answerIndex: number }
+  /** Pick all that apply — correct only if exactly these are picked */
+  | { type: 'multi_select'; choices: string[]; answerIndexes: number[] }
+  /** `choices` in display (shuffled) order; `answerOrder` lists their indexes first to last */
+  | { type: 'ordering'; choices: string[]; answerOrder: number[] }
+  /** Typed answer; matches any accepted answer (the first is the one revealed) */
+  | { type: 'free_text'; acceptedAnswers: string[] };
+
+/** A full question, including the answer. Never sent to players. */
+export type Question = QuestionCommon & QuestionTypeFields;
+
+/** A question as players see it: no answer, and `choices` is empty for free text */
+export type PublicQuestion = Omit<QuestionCommon, 'extraHint' | 'tags' | 'translations'> & {
+  type: QuestionType;
+  choices: string[];
+  translations?: Record<string, Omit<QuestionTranslation, 'extraHint'>>;
 };
 
+/** A player's answer (also how the correct answer is revealed); its shape follows the question type */
+export type PlayerAnswer =
+  | { answerIndex: number } // multiple_choice, true_false
+  | { answerIndexes: number[] } // multi_select
+  | { order: number[] } // ordering: choice indexes, first to last
+  | { text: string }; // free_text
+
 /**
  * Items are split into two categories:
  *
@@ -139,19 +292,20 @@ export type BossState = {
   startedAt: number;
 };
 
+/** How everyone answered a revealed question, for the big screen */
+export type AnswerDistribution = {
+  answered: number;
+  correct: number;
+  /** Players who picked each choice (choice questions only) */
+  choiceCounts?: number[];
+};
+
 export type PublicRoomState = {
   code: string;
   createdAt: number;
   phase: Phase;
-  config: {
-    maxLives: number;
-    questionDurationMs: number;
-    countdownMs: number;
-    startingCoins: number;
-    buybackCostCoins: number;
-    bossHp: number;
-  };
-  players: Player[];
+  config: RoomConfig;
+  players: PublicPlayer[];
   currentQuestion?: {
     question: PublicQuestion;
     /** When the countdown finishes and the question timer starts */
@@ -164,7 +318,9 @@ export type PublicRoomState = {
     blackoutUntil?: number;
     locked: boolean;
     /** Present only after host reveals. */
-    revealedAnswerIndex?: number;
+    revealedAnswer?: PlayerAnswer;
+    /** How the room answered — present only after host reveals */
+    distribution?: AnswerDistribution;
   };
 
   /** Wager mini-round (appears before the wager question countdown) */
@@ -179,7 +335,11 @@ export type PublicRoomState = {
     category?: string;
     /** Hint is revealed partway through the redline timeline */
     hint?: string;
+    /** The revealed category and hint in the question's other languages */
+    translations?: Record<string, { category?: string; hint?: string }>;
     totalWagered: number;
+    /** The locked-in bets, until the wager question starts (also sent as `wager:spotlight`) */
+    spotlight?: WagerSpotlightPayload;
   };
   shop?: {
     open: boolean;
@@ -194,11 +354,18 @@ export type PublicRoomState = {
     name: string;
     emoji: string;
     description: string;
+    kind: ActKind;
     heartsAtRisk: boolean;
     questionNumber: number;
     totalQuestions: number;
     speedBonusMax: number;
   };
+
+  /** The host paused the game: timers stand still and answers are turned away */
+  paused: boolean;
+
+  /** What autopilot does next and when (only while it's on and something is scheduled) */
+  autopilot?: { action: AutopilotAction; at: number };
 };
 
 export type ReviveRequest = {
@@ -207,13 +374,29 @@ export type ReviveRequest = {
   requestedAt: number;
 };
 
+/** What an admitted late joiner starts with */
+export type Admission = { lives: number; coins: number; score: number };
+
+/** Someone who asked to join after the game started, waiting on the host */
+export type JoinRequest = {
+  requestId: string;
+  name: string;
+  avatar?: string;
+  requestedAt: number;
+  /** Set once the host lets them in — they join when the next question starts */
+  admitted?: Admission;
+};
+
 export type HostRoomState = {
   code: string;
   phase: Phase;
   hostKey: string;
-  currentAnswerIndex?: number;
+  /** The question pack the room plays (switchable in the lobby) */
+  pack: { id: string; name: string };
+  currentAnswer?: PlayerAnswer;
+  /** The correct answer in words (e.g. "Mars, Venus" or "Paris") */
   correctChoice?: string;
-  questionDebug?: JsonValue;
+  questionDebug?: Question;
   /** Act info for host dashboard */
   currentAct?: {
     id: ActId;
@@ -223,7 +406,18 @@ export type HostRoomState = {
     totalQuestions: number;
     heartsAtRisk: boolean;
   };
-  /** Available acts the host can advance to */
+  /** Every act in the room's ruleset, in order, with how many questions the pack has for it */
+  acts: (ActInfo & {
+    questionsAvailable: number;
+    /** How many of those the room's history (room or group) has already seen */
+    questionsSeen: number;
+    maxQuestions?: number;
+  })[];
+  /** The run plan (editable in the lobby) and where the game is in it */
+  timeline: TimelineStep[];
+  /** Packs mixed into the room's acts (empty: every act plays the room's pack) */
+  packMix: PackMixEntry[];
+  /** Available acts the host can advance to (the next step of the run plan) */
   availableActs?: ActId[];
   /** Wager state (host view) */
   wager?: {
@@ -239,12 +433,18 @@ export type HostRoomState = {
   };
   /** If set, a player is requesting to be revived and host must approve/decline */
   pendingRevive?: ReviveRequest;
+  /** Late joiners, oldest first */
+  joinRequests: JoinRequest[];
+  /** The players' median score — a fair catch-up score for a late joiner */
+  medianScore: number;
+  /** Why autopilot switched itself off (cleared when the host turns it back on) */
+  autopilotError?: AutopilotError;
 };
 
 export type PlayerRevealPayload = {
   questionId: string;
-  correctAnswerIndex: number;
-  yourAnswerIndex: number | null;
+  correctAnswer: PlayerAnswer;
+  yourAnswer: PlayerAnswer | null;
   correct: boolean;
   scoreDelta: number;
   coinsDelta: number;
@@ -262,12 +462,206 @@ export type PlayerRevealPayload = {
   wagered?: number;
 };
 
-export type Ack<T> = { ok: true; data: T } | { ok: false; error: string };
+/** One player's outcome for a revealed question: their reveal deltas, plus what and when they answered */
+export type GameResultAnswer = Omit<
+  PlayerRevealPayload,
+  'questionId' | 'correctAnswer' | 'yourAnswer'
+> & {
+  playerId: string;
+  name: string;
+  /** Their answer in words (see `describeAnswer`), null if they didn't answer */
+  answer: string | null;
+  /** Ms from the question opening to their lock-in, if they locked in */
+  lockInMs?: number;
+};
+
+/** A revealed question and how every player did on it */
+export type GameResultQuestion = {
+  questionId: string;
+  actId: ActId;
+  type: QuestionType;
+  category: string;
+  prompt: string;
+  correctAnswer: string;
+  /** When the question opened (after its countdown) */
+  startedAt: number;
+  answers: GameResultAnswer[];
+};
+
+export type GameStanding = {
+  /** 1 = winner; tied scores share a rank */
+  rank: number;
+  playerId: string;
+  name: string;
+  score: number;
+  coins: number;
+  lives: number;
+  eliminated: boolean;
+  correctAnswers: number;
+};
+
+/** Everything that happened in a game — the host's end-of-game export */
+export type GameResults = {
+  code: string;
+  packId: string;
+  packName: string;
+  exportedAt: number;
+  questions: GameResultQuestion[];
+  standings: GameStanding[];
+};
+
+/** Lifetime totals for a profile, added to at the end of every game it plays */
+export type ProfileStats = {
+  gamesPlayed: number;
+  /** Games finished in first place (ties included) */
+  wins: number;
+  /** Questions answered, and how many of them correctly */
+  questionsAnswered: number;
+  correctAnswers: number;
+  /** Correct answers per category — the most are the profile's favourites */
+  categoryCorrect: Record<string, number>;
+  /** Boss fights won while still standing */
+  bossesDefeated: number;
+  /** High Stakes questions won with every point on the line */
+  allInsWon: number;
+};
+
+/** A profile as anyone may see it (no sign-in secrets) */
+export type PublicProfile = {
+  id: string;
+  name: string;
+  avatar: string;
+  createdAt: number;
+  /** Whether the profile can be signed into with a PIN */
+  hasPin: boolean;
+  stats: ProfileStats;
+  /** Correct answers / questions answered, 0–1 */
+  accuracy: number;
+  /** Top categories by correct answers */
+  favouriteCategories: string[];
+};
+
+export type ItemUseAckData =
+  | { itemId: 'fifty_fifty'; room: PublicRoomState; removedIndexes: number[] }
+  | { itemId: 'freeze_time'; room: PublicRoomState; bonusMs: number }
+  | { itemId: Exclude<ShopItemId, 'fifty_fifty' | 'freeze_time'>; room: PublicRoomState };
+
+/** Machine-readable failure reason, for errors clients may want to handle specially */
+export type AckErrorCode = 'INVALID_PAYLOAD';
+
+export type Ack<T> = { ok: true; data: T } | { ok: false; error: string; code?: AckErrorCode };
+
+export type PackDifficulty = 'easy' | 'medium' | 'hard' | 'mixed';
+
+/** Who a pack is suitable for, mildest first */
+export type ContentRating = 'family' | 'teen' | 'mature';
+
+/** What a pack says about itself, for finding the right one */
+export type PackMetadata = {
+  author?: string;
+  /** Lower-case topic tags, e.g. "science" or "90s" */
+  tags: string[];
+  /** BCP 47 language tag, e.g. "en" or "pt-BR" (default "en") */
+  language: string;
+  difficulty?: PackDifficulty;
+  rating?: ContentRating;
+  /** The author's estimate of a full game, in minutes */
+  durationMinutes?: number;
+};
 
 export type PackSummary = {
   id: string;
   name: string;
   description: string;
-  questionCounts: Record<string, number>;
+  /** Content hash of the loaded file — rooms keep playing the revision they were created with */
+  revision: string;
+  metadata: PackMetadata;
+  /** Every tag on the pack's questions */
+  questionTags: string[];
+  /** The author's `durationMinutes`, or a guess from the question count and timers */
+  estimatedMinutes: number;
+  /** The acts this pack is played with (its own ruleset, or the classic one) */
+  acts: ActInfo[];
+  questionCounts: Record<ActId, number>;
   totalQuestions: number;
+  /** How many problems the loader found (details: GET /api/packs/:id/diagnostics) */
+  diagnostics: { errors: number; warnings: number };
+};
+
+/**
+ * Something the loader found in a pack. Errors cost content (a question, an act
+ * or the whole pack was skipped); warnings load fine but are probably mistakes.
+ */
+export type PackDiagnostic = {
+  /** Pack file name */
+  file: string;
+  actId?: ActId;
+  /** Position of the question in the act's array in the file */
+  index?: number;
+  /** The offending field, e.g. "answerIndex" or "media.src" */
+  field?: string;
+  message: string;
+  severity: 'error' | 'warning';
+};
+
+/** A question as written in a pack file (see questionLoader for the format) */
+export type PackSourceQuestion = {
+  /** Keeps the question's ID — and the history keyed by it — through rewordings */
+  id?: string;
+  type?: QuestionType;
+  category: string;
+  prompt: string;
+  hint?: string;
+  extraHint?: string;
+  choices?: string[];
+  answerIndex?: number;
+  answerIndexes?: number[];
+  answer?: boolean;
+  answers?: string[];
+  value: number;
+  hard?: boolean;
+  tags?: string[];
+  media?: { type: QuestionMedia['type']; src: string; alt?: string; start?: number; end?: number };
+  /** `answers`: extra accepted answers for free-text questions */
+  translations?: Record<string, QuestionTranslation & { answers?: string[] }>;
+};
+
+/** A pack file as written — what the pack editor loads and saves */
+export type PackSource = {
+  id: string;
+  name?: string;
+  description?: string;
+  version?: number;
+  author?: string;
+  tags?: string[];
+  language?: string;
+  difficulty?: PackDifficulty;
+  rating?: ContentRating;
+  durationMinutes?: number;
+  questions: Record<ActId, PackSourceQuestion[]>;
+  ruleset?: unknown;
+};
+
+/** What `listPacks` / `GET /api/packs` can narrow the list down by (see packFilter.ts) */
+export type PackFilter = {
+  /** Words that must all appear in the name, description, author or a tag */
+  search?: string;
+  /** Tags the pack or one of its questions must all have */
+  tags?: string[];
+  /** "en" also matches "en-GB" */
+  language?: string;
+  difficulty?: PackDifficulty;
+  /** The strongest rating allowed — "teen" includes family packs */
+  rating?: ContentRating;
+  maxMinutes?: number;
+};
+
+/** File formats the pack importer reads */
+export type ImportFormat = 'csv' | 'tsv' | 'opentdb' | 'kahoot' | 'pack';
+
+/** Result of checking a pack with the authoring API */
+export type PackValidation = {
+  diagnostics: PackDiagnostic[];
+  /** Only if the pack is playable */
+  summary?: PackSummary;
 };
@@ -1,3 +1,14 @@
 export function cn(...classes: Array<string | undefined | null | false>) {
   return classes.filter(Boolean).join(' ');
 }
+
+/** Save text as a file from the browser */
+export function downloadFile(fileName: string, content: string | Blob, type = 'text/plain') {
+  const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,119 @@
+/**
+ * Payload Validation
+ *
+ * Tiny schema combinators for checking untrusted socket payloads at runtime.
+ * A schema takes an unknown value and either returns the (normalized) value or
+ * the first error, prefixed with the path of the offending field:
+ *
+ *   const schema = object({ code: string({ max: 10 }), amount: number({ min: 0 }) });
+ *   schema(payload, 'payload') → { ok: false, error: 'payload.amount must be ≥ 0' }
+ *
+ * Objects are strict: unknown keys are rejected so typos in a client don't
+ * silently do nothing.
+ */
+
+export type SchemaResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export type Schema<T> = (value: unknown, path: string) => SchemaResult<T>;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const ok = <T>(value: T): SchemaResult<T> => ({ ok: true, value });
+const fail = (error: string): SchemaResult<never> => ({ ok: false, error });
+
+/* ── Primitives ── */
+
+export function string(opts: { max: number; trim?: boolean }): Schema<string> {
+  return (value, path) => {
+    if (typeof value !== 'string') return fail(`${path} must be a string`);
+    const v = opts.trim === false ? value : value.trim();
+    if (v.length > opts.max) return fail(`${path} must be at most ${opts.max} characters`);
+    return ok(v);
+  };
+}
+
+export function number(
+  opts: { min?: number; max?: number; integer?: boolean } = {}
+): Schema<number> {
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return fail(`${path} must be a finite number`);
+    }
+    if (opts.integer && !Number.isInteger(value)) return fail(`${path} must be an integer`);
+    if (opts.min !== undefined && value < opts.min) return fail(`${path} must be ≥ ${opts.min}`);
+    if (opts.max !== undefined && value > opts.max) return fail(`${path} must be ≤ ${opts.max}`);
+    return ok(value);
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return (value, path) =>
+    typeof value === 'boolean' ? ok(value) : fail(`${path} must be a boolean`);
+}
+
+export function oneOf<const T extends readonly string[]>(values: T): Schema<T[number]> {
+  return (value, path) =>
+    typeof value === 'string' && values.includes(value)
+      ? ok(value as T[number])
+      : fail(`${path} must be one of: ${values.join(', ')}`);
+}
+
+/* ── Composites ── */
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined ? ok(undefined) : schema(value, path));
+}
+
+export function array<T>(item: Schema<T>, opts: { max: number; min?: number }): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) return fail(`${path} must be an array`);
+    if (value.length > opts.max) return fail(`${path} must have at most ${opts.max} items`);
+    if (opts.min !== undefined && value.length < opts.min) {
+      return fail(`${path} must have at least ${opts.min} items`);
+    }
+    const out: T[] = [];
+    for (let i = 0; i < value.length; i++) {
+      const res = item(value[i], `${path}[${i}]`);
+      if (!res.ok) return res;
+      out.push(res.value);
+    }
+    return ok(out);
+  };
+}
+
+export function object<S extends Record<string, Schema<unknown>>>(
+  shape: S
+): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(`${path} must be an object`);
+    }
+    const input = value as Record<string, unknown>;
+
+    for (const key of Object.keys(input)) {
+      if (!(key in shape)) return fail(`${path}.${key} is not a recognized field`);
+    }
+
+    const out: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const res = schema(input[key], `${path}.${key}`);
+      if (!res.ok) return res;
+      if (res.value !== undefined) out[key] = res.value;
+    }
+    return ok(out as { [K in keyof S]: Infer<S[K]> });
+  };
+}
+
+/** Accepts a value any of `schemas` accepts (the first match wins) */
+export function union<S extends Schema<unknown>[]>(...schemas: S): Schema<Infer<S[number]>> {
+  return (value, path) => {
+    const errors: string[] = [];
+    for (const schema of schemas) {
+      const res = schema(value, path);
+      if (res.ok) return res as SchemaResult<Infer<S[number]>>;
+      errors.push(res.error);
+    }
+    // Prefer the error from a shape whose fields were all recognized
+    return fail(errors.find((e) => !e.endsWith('is not a recognized field')) ?? errors[0]);
+  };
+}
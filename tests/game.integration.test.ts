@@ -0,0 +1,1608 @@
+import { createManualClock } from '@/lib/clock';
+import { emptyProfileStats, hashToken } from '@/lib/profileStore';
+import { createMemoryQuestionHistory } from '@/lib/questionHistory';
+import {
+  getPackMediaDir,
+  getPackQuestions,
+  listPacks,
+  loadQuestionPacks,
+  watchQuestionPacks,
+} from '@/lib/questionLoader';
+import { createFileRoomStore } from '@/lib/roomStore';
+import type { PlayerAnswer, PublicRoomState } from '@/lib/types';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  closeAll,
+  connectClient,
+  createLobby,
+  goLive,
+  startTestServer,
+  type Lobby,
+  type TestServer,
+} from './harness';
+
+let server: TestServer | undefined;
+let lobby: Lobby | undefined;
+
+afterEach(async () => {
+  if (lobby) closeAll(lobby);
+  await server?.close();
+  lobby = undefined;
+  server = undefined;
+});
+
+const host = (l: Lobby) => ({ code: l.code, hostKey: l.hostKey });
+
+/** Some wrong answer, given the right one */
+function wrongAnswer(answer: PlayerAnswer, choices: number): PlayerAnswer {
+  if ('answerIndex' in answer) return { answerIndex: (answer.answerIndex + 1) % choices };
+  if ('answerIndexes' in answer) {
+    const all = Array.from({ length: choices }, (_, i) => i);
+    return { answerIndexes: answer.answerIndexes.length === choices ? [0] : all };
+  }
+  if ('order' in answer) return { order: [...answer.order].reverse() };
+  return { text: 'definitely not it' };
+}
+
+/**
+ * Play the live-able question in `room`: every player answers (correctly unless
+ * `wrong` lists them) and locks in, then the host reveals.
+ */
+async function playQuestion(l: Lobby, room: PublicRoomState, wrong: string[] = []) {
+  const answer = await goLive(server!, l, room);
+  const choices = room.currentQuestion!.question.choices.length;
+
+  for (const { client, playerId } of l.players) {
+    const pick = wrong.includes(playerId) ? wrongAnswer(answer, choices) : answer;
+    await client.request('player:answer', { code: l.code, playerId, ...pick });
+    await client.request('player:lockin', { code: l.code, playerId });
+  }
+
+  const revealsBefore = l.players.map((p) => p.client.reveals.length);
+  const { room: revealed } = await l.host.request('question:reveal', host(l));
+  await Promise.all(
+    l.players.map((p, i) => p.client.waitFor((c) => c.reveals.length > revealsBefore[i]))
+  );
+  return revealed;
+}
+
+/** Play every remaining question of the current act; returns the intermission snapshot */
+async function playAct(l: Lobby, room: PublicRoomState, wrongOnFirst: string[] = []) {
+  let current = room;
+  let first = true;
+  while (current.phase === 'countdown') {
+    await playQuestion(l, current, first ? wrongOnFirst : []);
+    first = false;
+    ({ room: current } = await l.host.request('question:next', host(l)));
+  }
+  return current;
+}
+
+const lastReveal = (l: Lobby, i: number) => l.players[i].client.reveals.at(-1)!;
+const playerState = (room: PublicRoomState, playerId: string) =>
+  room.players.find((p) => p.playerId === playerId)!;
+
+describe('full game', () => {
+  it('plays all five acts from lobby to the boss kill', async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ada', 'Ben']);
+    const [ada, ben] = lobby.players;
+
+    await lobby.host.request('game:configure', { ...host(lobby), config: { bossHp: 2 } });
+
+    // Act 1 — Homeroom: no hearts at risk, coins for every correct answer
+    let { room } = await lobby.host.request('game:start', host(lobby));
+    expect(room.currentAct?.id).toBe('homeroom');
+    room = await playAct(lobby, room, [ben.playerId]);
+    expect(room.phase).toBe('intermission');
+    expect(playerState(room, ben.playerId).lives).toBe(3);
+    expect(playerState(room, ada.playerId).coins).toBeGreaterThan(
+      playerState(room, ben.playerId).coins
+    );
+
+    // Intermission shop: buy Double Points, which fires on the next correct answer
+    await lobby.host.request('shop:open', { ...host(lobby), open: true });
+    await ada.client.request('shop:buy', {
+      code: lobby.code,
+      playerId: ada.playerId,
+      itemId: 'double_points',
+    });
+    ({ room } = await lobby.host.request('shop:open', { ...host(lobby), open: false }));
+    expect(room.phase).toBe('intermission');
+    // The default run plan is every act of the ruleset, in order
+    expect(lobby.host.host?.availableActs).toEqual(['pop_quiz']);
+
+    // Act 2 — Pop Quiz
+    ({ room } = await lobby.host.request('act:start', { ...host(lobby), actId: 'pop_quiz' }));
+    await playQuestion(lobby, room);
+    expect(lastReveal(lobby, 0).doublePointsUsed).toBe(true);
+    ({ room } = await lobby.host.request('question:next', host(lobby)));
+    room = await playAct(lobby, room);
+
+    // Act 3 — Field Trip: every wrong answer costs a heart
+    ({ room } = await lobby.host.request('act:start', { ...host(lobby), actId: 'field_trip' }));
+    await playQuestion(lobby, room, [ben.playerId]);
+    expect(lastReveal(lobby, 1)).toMatchObject({ correct: false, livesDelta: -1 });
+    ({ room } = await lobby.host.request('question:next', host(lobby)));
+    room = await playAct(lobby, room);
+
+    // Act 4 — High Stakes: wagers open for a minute, then lock into the spotlight
+    ({ room } = await lobby.host.request('act:start', { ...host(lobby), actId: 'wager_round' }));
+    expect(room.phase).toBe('wager');
+    const benScore = playerState(room, ben.playerId).score;
+    await ada.client.request('wager:set', {
+      code: lobby.code,
+      playerId: ada.playerId,
+      amount: 100,
+    });
+    await ben.client.request('wager:set', {
+      code: lobby.code,
+      playerId: ben.playerId,
+      amount: 1_000_000,
+    });
+
+    server.clock.advance(60_000);
+    await lobby.host.waitFor((c) => c.host?.wager?.stage === 'locked');
+    expect(lobby.host.host?.wager?.totalWagered).toBe(100 + benScore);
+
+    ({ room } = await lobby.host.request('wager:spotlight_end', host(lobby)));
+    room = await playQuestion(lobby, room, [ben.playerId]);
+    expect(lastReveal(lobby, 0)).toMatchObject({ correct: true, wagered: 100, scoreDelta: 100 });
+    expect(playerState(room, ben.playerId).score).toBe(0);
+    ({ room } = await lobby.host.request('question:next', host(lobby)));
+    expect(room.phase).toBe('intermission');
+
+    // Act 5 — Boss Fight: every correct answer knocks off a point of HP
+    ({ room } = await lobby.host.request('act:start', { ...host(lobby), actId: 'boss_fight' }));
+    expect(room.boss).toMatchObject({ hp: 2, maxHp: 2 });
+    room = await playQuestion(lobby, room);
+    expect(room.boss?.hp).toBe(0);
+    expect(room.phase).toBe('ended');
+  });
+});
+
+describe('question timing', () => {
+  it('ends the question early once every active player has locked in', async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ada', 'Ben']);
+    const [ada, ben] = lobby.players;
+
+    const { room } = await lobby.host.request('game:start', host(lobby));
+    const answer = await goLive(server, lobby, room);
+
+    await ada.client.request('player:answer', {
+      code: lobby.code,
+      playerId: ada.playerId,
+      ...answer,
+    });
+    await ada.client.request('player:lockin', { code: lobby.code, playerId: ada.playerId });
+    await expect(lobby.host.request('question:reveal', host(lobby))).rejects.toThrow(
+      'Players are still answering.'
+    );
+
+    await ben.client.request('player:answer', {
+      code: lobby.code,
+      playerId: ben.playerId,
+      ...answer,
+    });
+    await ben.client.request('player:lockin', { code: lobby.code, playerId: ben.playerId });
+    const { room: revealed } = await lobby.host.request('question:reveal', host(lobby));
+    expect(revealed.phase).toBe('reveal');
+  });
+
+  it('keeps the question open for a player with Freeze Time', async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ada', 'Ben']);
+    const [ada, ben] = lobby.players;
+
+    let { room } = await lobby.host.request('game:start', host(lobby));
+    await playQuestion(lobby, room);
+    await lobby.host.request('shop:open', { ...host(lobby), open: true });
+    await ben.client.request('shop:buy', {
+      code: lobby.code,
+      playerId: ben.playerId,
+      itemId: 'freeze_time',
+    });
+    ({ room } = await lobby.host.request('question:next', host(lobby)));
+
+    const answer = await goLive(server, lobby, room);
+    const used = await ben.client.request('item:use', {
+      code: lobby.code,
+      playerId: ben.playerId,
+      itemId: 'freeze_time',
+    });
+    expect(used).toMatchObject({ itemId: 'freeze_time', bonusMs: 10_000 });
+
+    await ada.client.request('player:answer', {
+      code: lobby.code,
+      playerId: ada.playerId,
+      ...answer,
+    });
+    await ada.client.request('player:lockin', { code: lobby.code, playerId: ada.playerId });
+
+    // Base timer runs out, but Ben still has his bonus seconds
+    const cq = room.currentQuestion!;
+    server.clock.advance(cq.endsAt - cq.startedAt);
+    await expect(lobby.host.request('question:reveal', host(lobby))).rejects.toThrow(
+      'Players are still answering.'
+    );
+    await ben.client.request('player:answer', {
+      code: lobby.code,
+      playerId: ben.playerId,
+      ...answer,
+    });
+
+    server.clock.advance(10_000);
+    await lobby.host.request('question:reveal', host(lobby));
+    await ben.client.waitFor((c) => c.reveals.length === 2);
+    expect(lastReveal(lobby, 1).correct).toBe(true);
+    expect(lastReveal(lobby, 1).speedBonus).toBeUndefined();
+  });
+});
+
+describe('run plan', () => {
+  it('follows the host plan: skipped, repeated and reordered acts', async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ada']);
+
+    const plan = (steps: [string, number][]) =>
+      lobby!.host.request('game:plan', {
+        ...host(lobby!),
+        plan: steps.map(([actId, questionCount]) => ({ actId, questionCount })),
+      });
+
+    await expect(
+      plan([
+        ['boss_fight', 1],
+        ['homeroom', 1],
+      ])
+    ).rejects.toThrow('last step');
+    await expect(
+      plan([
+        ['field_trip', 4],
+        ['field_trip', 3],
+      ])
+    ).rejects.toThrow('only has 6 question(s) (the plan uses 7)');
+    await expect(plan([['wager_round', 2]])).rejects.toThrow('at most 1 question');
+
+    await plan([
+      ['homeroom', 1],
+      ['field_trip', 2],
+      ['field_trip', 2],
+      ['boss_fight', 1],
+    ]);
+    await lobby.host.waitFor((c) => c.host?.timeline.length === 4);
+
+    let { room } = await lobby.host.request('game:start', host(lobby));
+    expect(room.currentAct).toMatchObject({ id: 'homeroom', totalQuestions: 1 });
+    await expect(plan([['homeroom', 1]])).rejects.toThrow('locked');
+
+    room = await playAct(lobby, room);
+    expect(room.phase).toBe('intermission');
+    expect(lobby.host.host?.availableActs).toEqual(['field_trip']);
+    expect(lobby.host.host?.timeline.map((s) => s.status)).toEqual([
+      'done',
+      'upcoming',
+      'upcoming',
+      'upcoming',
+    ]);
+    await expect(
+      lobby.host.request('act:start', { ...host(lobby), actId: 'pop_quiz' })
+    ).rejects.toThrow('Next up in the run plan is Field Trip');
+
+    // Two Field Trips back to back, without repeating a question
+    const seen = new Set<string>();
+    for (let i = 0; i < 2; i++) {
+      ({ room } = await lobby.host.request('act:start', { ...host(lobby), actId: 'field_trip' }));
+      expect(room.currentAct?.totalQuestions).toBe(2);
+      while (room.phase === 'countdown') {
+        seen.add(room.currentQuestion!.question.id);
+        await playQuestion(lobby, room);
+        ({ room } = await lobby.host.request('question:next', host(lobby)));
+      }
+    }
+    expect(seen.size).toBe(4);
+
+    ({ room } = await lobby.host.request('boss:start', host(lobby)));
+    expect(lobby.host.host?.timeline.at(-1)?.status).toBe('current');
+    await playQuestion(lobby, room);
+
+    // The boss survives, but the plan is over
+    ({ room } = await lobby.host.request('question:next', host(lobby)));
+    expect(room.boss?.hp).toBeGreaterThan(0);
+    expect(room.phase).toBe('ended');
+  });
+
+  it('caps every act at the configured questions per act', async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ada']);
+
+    await lobby.host.request('game:configure', {
+      ...host(lobby),
+      config: { questionsPerAct: 2, sampling: 'balanced' },
+    });
+    await lobby.host.waitFor((c) => c.host?.timeline.every((s) => s.questionCount <= 2) ?? false);
+    expect(lobby.host.host?.timeline.map((s) => s.questionCount)).toEqual([2, 2, 2, 1, 2]);
+
+    const { room } = await lobby.host.request('game:start', host(lobby));
+    expect(room.config.sampling).toBe('balanced');
+    expect(room.currentAct).toMatchObject({ id: 'homeroom', totalQuestions: 2 });
+    expect(room.remainingQuestions).toBe(1);
+  });
+});
+
+describe('results export', () => {
+  it("records every player's answers and the final standings", async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ada', 'Ben']);
+    const [ada, ben] = lobby.players;
+
+    await lobby.host.request('game:plan', {
+      ...host(lobby),
+      plan: [{ actId: 'homeroom', questionCount: 2 }],
+    });
+    await lobby.host.waitFor((c) => c.host?.timeline.length === 1);
+    let { room } = await lobby.host.request('game:start', host(lobby));
+    await expect(lobby.host.request('game:results', host(lobby))).rejects.toThrow(
+      'once the game has ended'
+    );
+
+    room = await playAct(lobby, room, [ben.playerId]);
+    expect(room.phase).toBe('ended');
+
+    const { results } = await lobby.host.request('game:results', host(lobby));
+    expect(results.questions).toHaveLength(2);
+    const [first] = results.questions;
+    expect(first).toMatchObject({ actId: 'homeroom', correctAnswer: expect.any(String) });
+    expect(first.answers.map((a) => [a.name, a.correct])).toEqual([
+      ['Ada', true],
+      ['Ben', false],
+    ]);
+    expect(first.answers[0].answer).toBe(first.correctAnswer);
+    expect(first.answers[0].lockInMs).toBeGreaterThanOrEqual(0);
+    expect(first.answers[0].scoreDelta).toBe(ada.client.reveals[0].scoreDelta);
+
+    expect(results.standings.map((s) => [s.rank, s.name, s.correctAnswers])).toEqual([
+      [1, 'Ada', 2],
+      [2, 'Ben', 1],
+    ]);
+    expect(results.standings[0].score).toBe(playerState(room, ada.playerId).score);
+  });
+});
+
+describe('question history', () => {
+  it("deals a group's unseen questions first, across rooms", async () => {
+    server = await startTestServer();
+
+    const playPopQuiz = async (
+      l: Lobby,
+      config: { historyGroup: string; preferUnseen?: boolean }
+    ) => {
+      await l.host.request('game:configure', { ...host(l), config });
+      await l.host.request('game:plan', {
+        ...host(l),
+        plan: [{ actId: 'pop_quiz', questionCount: 4 }],
+      });
+      let { room } = await l.host.request('game:start', host(l));
+      const ids: string[] = [];
+      while (room.phase === 'countdown') {
+        ids.push(room.currentQuestion!.question.id);
+        await playQuestion(l, room);
+        ({ room } = await l.host.request('question:next', host(l)));
+      }
+      expect(room.phase).toBe('ended');
+      return ids;
+    };
+
+    // Last week: 4 of the pack's 7 pop quiz questions
+    const lastWeek = await createLobby(server, ['Ada']);
+    const seen = await playPopQuiz(lastWeek, { historyGroup: 'Friday Quiz' });
+    closeAll(lastWeek);
+
+    // This week: the 3 unseen ones first, then one repeat
+    lobby = await createLobby(server, ['Ada']);
+    await lobby.host.request('game:configure', {
+      ...host(lobby),
+      config: { historyGroup: 'friday quiz' },
+    });
+    await lobby.host.waitFor(
+      (c) => c.host?.acts.find((a) => a.id === 'pop_quiz')?.questionsSeen === 4
+    );
+    const dealt = await playPopQuiz(lobby, { historyGroup: 'friday quiz', preferUnseen: true });
+    expect(dealt.filter((id) => seen.includes(id))).toHaveLength(1);
+    expect(server.history.seen('group:friday quiz').size).toBe(7);
+
+    await lobby.host.request('history:clear', host(lobby));
+    expect(server.history.seen('group:friday quiz').size).toBe(0);
+  });
+});
+
+describe('rulesets', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  const question = (prompt: string) => ({
+    category: 'Test',
+    prompt,
+    choices: ['Yes', 'No'],
+    answerIndex: 0,
+    value: 100,
+  });
+
+  const writePack = (file: string, pack: object) =>
+    fs.writeFileSync(path.join(dir!, file), JSON.stringify(pack));
+
+  it("plays a pack's own acts in its own order", async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sq-packs-'));
+    writePack('speed.json', {
+      id: 'speed',
+      questions: {
+        warmup: [question('One?'), question('Two?')],
+        showdown: [question('Boss?')],
+      },
+      ruleset: {
+        name: 'Speed Run',
+        acts: [
+          { id: 'warmup', name: 'Warm-up', emoji: '🔥', questionDurationMs: 10_000 },
+          { id: 'showdown', name: 'Showdown', kind: 'boss', heartsAtRisk: true },
+        ],
+      },
+    });
+    // A sibling ruleset file whose boss act is not last gets the pack rejected
+    writePack('broken.json', { questions: { finale: [question('?')] } });
+    writePack('broken.ruleset.json', {
+      acts: [
+        { id: 'finale', name: 'Finale', kind: 'boss' },
+        { id: 'after', name: 'After' },
+      ],
+    });
+
+    server = await startTestServer({ packsDir: dir });
+    expect(listPacks().map((p) => p.id)).toEqual(['speed']);
+    expect(listPacks()[0].questionCounts).toEqual({ warmup: 2, showdown: 1 });
+
+    lobby = await createLobby(server, ['Ada']);
+    await lobby.host.request('game:configure', { ...host(lobby), config: { bossHp: 1 } });
+
+    let { room } = await lobby.host.request('game:start', host(lobby));
+    expect(room.currentAct).toMatchObject({ id: 'warmup', kind: 'standard', totalQuestions: 2 });
+    expect(room.currentQuestion!.endsAt - room.currentQuestion!.startedAt).toBe(10_000);
+    expect(lobby.host.host?.acts.map((a) => a.name)).toEqual(['Warm-up', 'Showdown']);
+
+    room = await playAct(lobby, room);
+    expect(lobby.host.host?.availableActs).toEqual(['showdown']);
+    await expect(
+      lobby.host.request('act:start', { ...host(lobby), actId: 'boss_fight' })
+    ).rejects.toThrow('Invalid act.');
+
+    ({ room } = await lobby.host.request('act:start', { ...host(lobby), actId: 'showdown' }));
+    expect(room.boss).toMatchObject({ hp: 1 });
+    room = await playQuestion(lobby, room);
+    expect(room.phase).toBe('ended');
+  });
+
+  it('switches the pack in the lobby until the game starts', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sq-packs-'));
+    writePack('default.json', { questions: { homeroom: [question('Classic?')] } });
+    writePack('speed.json', {
+      questions: { warmup: [question('One?'), question('Two?')] },
+      ruleset: { acts: [{ id: 'warmup', name: 'Warm-up' }] },
+    });
+    server = await startTestServer({ packsDir: dir });
+
+    const client = await connectClient(server);
+    await expect(
+      client.request('room:create', { hostName: 'Host', packId: 'nope' })
+    ).rejects.toThrow('Unknown question pack.');
+    client.close();
+
+    lobby = await createLobby(server, ['Ada']);
+    expect(lobby.host.host?.pack).toEqual({ id: 'default', name: 'default' });
+    await expect(
+      lobby.host.request('game:pack', { ...host(lobby), packId: 'nope' })
+    ).rejects.toThrow('Unknown question pack.');
+
+    await lobby.host.request('game:pack', { ...host(lobby), packId: 'speed' });
+    await lobby.host.waitFor((c) => c.host?.pack.id === 'speed');
+    expect(lobby.host.host?.timeline.map((t) => [t.actId, t.questionCount])).toEqual([
+      ['warmup', 2],
+    ]);
+
+    const { room } = await lobby.host.request('game:start', host(lobby));
+    expect(room.currentAct?.id).toBe('warmup');
+    await expect(
+      lobby.host.request('game:pack', { ...host(lobby), packId: 'default' })
+    ).rejects.toThrow('The question pack is locked once the game starts.');
+  });
+
+  it('mixes packs into an act, keeping colliding question IDs apart', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sq-packs-'));
+    // "p" + "q_r" and "p_q" + "r" both name their questions "p_q_r_<id>"
+    writePack('p.json', {
+      questions: {
+        q_r: [
+          { ...question('P one?'), id: 'one' },
+          { ...question('P two?'), id: 'two' },
+        ],
+      },
+      ruleset: { acts: [{ id: 'q_r', name: 'Mixed' }] },
+    });
+    writePack('p_q.json', {
+      questions: {
+        r: [
+          { ...question('Q one?'), id: 'one' },
+          { ...question('Q two?'), id: 'two' },
+        ],
+      },
+      ruleset: { acts: [{ id: 'r', name: 'Other' }] },
+    });
+    server = await startTestServer({ packsDir: dir });
+    lobby = await createLobby(server, ['Ada']);
+    await lobby.host.request('game:pack', { ...host(lobby), packId: 'p' });
+    await lobby.host.request('game:configure', {
+      ...host(lobby),
+      config: { sampling: 'sequential' },
+    });
+
+    await expect(
+      lobby.host.request('game:mix', {
+        ...host(lobby),
+        mix: [{ actId: 'q_r', packId: 'p_q', weight: 1 }],
+      })
+    ).rejects.toThrow('"p_q" has no act "q_r" — choose which of its acts to use.');
+
+    await lobby.host.request('game:mix', {
+      ...host(lobby),
+      mix: [
+        { actId: 'q_r', packId: 'p', weight: 1 },
+        { actId: 'q_r', packId: 'p_q', fromActId: 'r', weight: 1 },
+      ],
+    });
+    await lobby.host.waitFor((c) => c.host?.packMix.length === 2);
+    expect(lobby.host.host?.acts[0].questionsAvailable).toBe(4);
+
+    let { room } = await lobby.host.request('game:start', host(lobby));
+    const dealt: { id: string; prompt: string }[] = [];
+    for (let i = 0; i < 4; i++) {
+      const { id, prompt } = room.currentQuestion!.question;
+      dealt.push({ id, prompt });
+      room = await playQuestion(lobby, room);
+      if (i < 3) ({ room } = await lobby.host.request('question:next', host(lobby)));
+    }
+    // Sequential sampling keeps mix order: the room's pack first
+    expect(dealt.map((d) => d.prompt)).toEqual(['P one?', 'P two?', 'Q one?', 'Q two?']);
+    expect(dealt.map((d) => d.id)).toEqual([
+      'p_q_r_one',
+      'p_q_r_two',
+      'p_q_r_one@p_q',
+      'p_q_r_two@p_q',
+    ]);
+  });
+
+  it("deals every mixed pack's unseen questions before repeating any", async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sq-packs-'));
+    writePack('main.json', {
+      questions: { quiz: [question('Main one?')] },
+      ruleset: { acts: [{ id: 'quiz', name: 'Quiz' }] },
+    });
+    writePack('extra.json', {
+      questions: {
+        quiz: [question('Extra one?'), question('Extra two?'), question('Extra three?')],
+      },
+      ruleset: { acts: [{ id: 'quiz', name: 'Quiz' }] },
+    });
+    server = await startTestServer({ packsDir: dir });
+
+    const playMixedQuiz = async (l: Lobby, preferUnseen: boolean) => {
+      await l.host.request('game:pack', { ...host(l), packId: 'main' });
+      await l.host.request('game:configure', {
+        ...host(l),
+        config: { sampling: 'sequential', historyGroup: 'mix', preferUnseen },
+      });
+      await l.host.request('game:mix', {
+        ...host(l),
+        mix: [
+          { actId: 'quiz', packId: 'main', weight: 1 },
+          { actId: 'quiz', packId: 'extra', weight: 1 },
+        ],
+      });
+      await l.host.request('game:plan', {
+        ...host(l),
+        plan: [{ actId: 'quiz', questionCount: 2 }],
+      });
+      let { room } = await l.host.request('game:start', host(l));
+      const prompts: string[] = [];
+      while (room.phase === 'countdown') {
+        prompts.push(room.currentQuestion!.question.prompt);
+        await playQuestion(l, room);
+        ({ room } = await l.host.request('question:next', host(l)));
+      }
+      return prompts;
+    };
+
+    const first = await createLobby(server, ['Ada']);
+    expect(await playMixedQuiz(first, false)).toEqual(['Main one?', 'Extra one?']);
+    closeAll(first);
+
+    // The main pack has nothing fresh left, so the extra pack covers its share
+    lobby = await createLobby(server, ['Ada']);
+    expect(await playMixedQuiz(lobby, true)).toEqual(['Extra two?', 'Extra three?']);
+  });
+
+  it("keeps the host's run plan through mix and questions-per-act changes", async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sq-packs-'));
+    writePack('main.json', {
+      questions: { quiz: [question('Main one?')] },
+      ruleset: { acts: [{ id: 'quiz', name: 'Quiz' }] },
+    });
+    writePack('extra.json', {
+      questions: {
+        quiz: [question('Extra one?'), question('Extra two?'), question('Extra three?')],
+      },
+      ruleset: { acts: [{ id: 'quiz', name: 'Quiz' }] },
+    });
+    server = await startTestServer({ packsDir: dir });
+    lobby = await createLobby(server, ['Ada']);
+    await lobby.host.request('game:pack', { ...host(lobby), packId: 'main' });
+
+    const counts = () => lobby!.host.host?.timeline.map((s) => s.questionCount);
+    const setMix = (packIds: string[]) =>
+      lobby!.host.request('game:mix', {
+        ...host(lobby!),
+        mix: packIds.map((packId) => ({ actId: 'quiz', packId, weight: 1 })),
+      });
+
+    // Without a plan of the host's own, the mix's questions fill the default one
+    expect(await setMix(['main', 'extra'])).toMatchObject({ planReset: false });
+    await lobby.host.waitFor(() => counts()?.[0] === 4);
+
+    await lobby.host.request('game:plan', {
+      ...host(lobby),
+      plan: [
+        { actId: 'quiz', questionCount: 1 },
+        { actId: 'quiz', questionCount: 3 },
+      ],
+    });
+    expect(await setMix(['extra', 'main'])).toMatchObject({ planReset: false });
+    await lobby.host.waitFor((c) => c.host?.packMix[0].packId === 'extra');
+    expect(counts()).toEqual([1, 3]);
+
+    // A new questions-per-act setting rescales the steps, and the last runs short
+    await lobby.host.request('game:configure', {
+      ...host(lobby),
+      config: { questionsPerAct: 3 },
+    });
+    await lobby.host.waitFor(() => counts()?.[0] === 3);
+    expect(counts()).toEqual([3, 1]);
+
+    // Only the main pack's one question left: the plan can't be played, so it resets
+    expect(await setMix([])).toMatchObject({ planReset: true });
+    await lobby.host.waitFor((c) => c.host?.packMix.length === 0);
+    expect(counts()).toEqual([1]);
+  });
+});
+
+describe('pack reloads', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  const writeQuiz = (label: string) =>
+    fs.writeFileSync(
+      path.join(dir!, 'quiz.json'),
+      JSON.stringify({
+        id: 'quiz',
+        questions: {
+          first: [
+            {
+              category: 'T',
+              prompt: `${label} 1?`,
+              choices: ['Y', 'N'],
+              answerIndex: 0,
+              value: 100,
+            },
+          ],
+          second: [
+            {
+              category: 'T',
+              prompt: `${label} 2?`,
+              choices: ['Y', 'N'],
+              answerIndex: 0,
+              value: 100,
+            },
+          ],
+        },
+        ruleset: {
+          acts: [
+            { id: 'first', name: 'First' },
+            { id: 'second', name: 'Second' },
+          ],
+        },
+      })
+    );
+
+  it('keeps a running game on the revision it started with', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sq-packs-'));
+    writeQuiz('Old');
+    server = await startTestServer({ packsDir: dir });
+    const oldRevision = listPacks()[0].revision;
+
+    lobby = await createLobby(server, ['Ada']);
+    let { room } = await lobby.host.request('game:start', host(lobby));
+    expect(room.currentQuestion!.question.prompt).toBe('Old 1?');
+
+    writeQuiz('New');
+    loadQuestionPacks(dir);
+    expect(listPacks()[0].revision).not.toBe(oldRevision);
+
+    room = await playAct(lobby, room);
+    ({ room } = await lobby.host.request('act:start', { ...host(lobby), actId: 'second' }));
+    expect(room.currentQuestion!.question.prompt).toBe('Old 2?');
+
+    // Still pinned after a cleanup sweep, since the room is alive
+    server.game.cleanupRooms();
+    room = await playQuestion(lobby, room);
+    expect(lobby.players[0].client.reveals.at(-1)?.correct).toBe(true);
+
+    const other = await createLobby(server, ['Bea']);
+    const started = await other.host.request('game:start', host(other));
+    expect(started.room.currentQuestion!.question.prompt).toBe('New 1?');
+    closeAll(other);
+  });
+
+  it("keeps a revision's questions as they were when other packs change", async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sq-packs-'));
+    writeQuiz('Old');
+    fs.writeFileSync(
+      path.join(dir, 'order.json'),
+      JSON.stringify({
+        id: 'order',
+        questions: {
+          first: [
+            {
+              type: 'ordering',
+              category: 'T',
+              prompt: 'Smallest first',
+              choices: ['Ant', 'Mouse', 'Cat', 'Dog', 'Horse', 'Whale'],
+              value: 100,
+            },
+          ],
+        },
+        ruleset: { acts: [{ id: 'first', name: 'First' }] },
+      })
+    );
+    loadQuestionPacks(dir);
+    const revision = listPacks().find((p) => p.id === 'order')!.revision;
+    const [before] = getPackQuestions('order', 'first', revision);
+
+    writeQuiz('New');
+    loadQuestionPacks(dir);
+    const [after] = getPackQuestions('order', 'first', revision);
+    expect(after).toBe(before);
+    expect(getPackQuestions('order', 'first')[0]).toBe(before);
+  });
+
+  it('reloads when a pack file changes on disk', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sq-packs-'));
+    writeQuiz('Old');
+    loadQuestionPacks(dir);
+    const oldRevision = listPacks()[0].revision;
+    const stop = watchQuestionPacks(dir, 20);
+    try {
+      fs.writeFileSync(path.join(dir, 'notes.tmp'), 'ignored');
+      writeQuiz('New');
+      await expect.poll(() => listPacks()[0]?.revision, { timeout: 3_000 }).not.toBe(oldRevision);
+    } finally {
+      stop();
+    }
+  });
+});
+
+describe('question types', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('validates, accepts and scores every type', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sq-packs-'));
+    const base = { category: 'Test', value: 100 };
+    fs.writeFileSync(
+      path.join(dir, 'types.json'),
+      JSON.stringify({
+        id: 'types',
+        questions: {
+          homeroom: [
+            { ...base, prompt: 'Pick one', choices: ['A', 'B', 'C'], answerIndex: 2 },
+            { ...base, type: 'true_false', prompt: 'The sky is blue', answer: true },
+            {
+              ...base,
+              type: 'multi_select',
+              prompt: 'Primes',
+              choices: ['2', '4', '5', '9'],
+              answerIndexes: [0, 2],
+            },
+            {
+              ...base,
+              type: 'ordering',
+              prompt: 'Smallest first',
+              choices: ['Ant', 'Cat', 'Horse', 'Whale'],
+            },
+            {
+              ...base,
+              type: 'free_text',
+              prompt: 'Tallest tower in Paris',
+              answers: ['Eiffel Tower', 'La Tour Eiffel'],
+            },
+            // Invalid: skipped by the loader
+            { ...base, type: 'multi_select', prompt: '?', choices: ['A', 'B'], answerIndexes: [] },
+            { ...base, type: 'free_text', prompt: '?', answers: [] },
+          ],
+        },
+      })
+    );
+
+    server = await startTestServer({ packsDir: dir });
+    expect(listPacks()[0].questionCounts.homeroom).toBe(5);
+
+    lobby = await createLobby(server, ['Ada', 'Ben']);
+    const [ada, ben] = lobby.players;
+    await lobby.host.request('game:plan', {
+      ...host(lobby),
+      plan: [{ actId: 'homeroom', questionCount: 5 }],
+    });
+
+    let { room } = await lobby.host.request('game:start', host(lobby));
+    const seenTypes: string[] = [];
+    while (room.phase === 'countdown') {
+      const { question } = room.currentQuestion!;
+      seenTypes.push(question.type);
+      const answer = await goLive(server, lobby, room);
+
+      // Players never see the answer — ordering choices are shuffled, free text has none
+      if (question.type === 'ordering') {
+        expect('order' in answer && answer.order.some((i, pos) => i !== pos)).toBe(true);
+      }
+      if (question.type === 'free_text') expect(question.choices).toEqual([]);
+
+      const adaAnswer = question.type === 'free_text' ? { text: '  the EIFFEL tower! ' } : answer;
+      await ada.client.request('player:answer', {
+        code: lobby.code,
+        playerId: ada.playerId,
+        ...adaAnswer,
+      });
+      await ben.client.request('player:answer', {
+        code: lobby.code,
+        playerId: ben.playerId,
+        ...wrongAnswer(answer, question.choices.length),
+      });
+      // A shape that doesn't fit the question is turned away
+      await expect(
+        ben.client.request('player:answer', {
+          code: lobby.code,
+          playerId: ben.playerId,
+          ...('text' in answer ? { answerIndex: 0 } : { text: 'B' }),
+        })
+      ).rejects.toThrow();
+
+      for (const { client, playerId } of lobby.players) {
+        await client.request('player:lockin', { code: lobby.code, playerId });
+      }
+      await lobby.host.request('question:reveal', host(lobby));
+      await ben.client.waitFor((c) => c.reveals.length === seenTypes.length);
+      await ada.client.waitFor((c) => c.reveals.length === seenTypes.length);
+
+      expect(lastReveal(lobby, 0)).toMatchObject({ correct: true, correctAnswer: answer });
+      expect(lastReveal(lobby, 1).correct).toBe(false);
+      ({ room } = await lobby.host.request('question:next', host(lobby)));
+    }
+
+    expect(seenTypes.sort()).toEqual([
+      'free_text',
+      'multi_select',
+      'multiple_choice',
+      'ordering',
+      'true_false',
+    ]);
+    expect(playerState(room, ada.playerId).score).toBeGreaterThanOrEqual(500);
+    expect(playerState(room, ben.playerId).score).toBe(0);
+  });
+});
+
+describe('question media', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('validates media and sends it with the question', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sq-packs-'));
+    fs.mkdirSync(path.join(dir, 'media', 'logos'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'media', 'logos', 'fox logo.png'), 'png');
+    fs.writeFileSync(path.join(dir, 'media', '.secret.png'), 'png');
+
+    const base = { category: 'Test', prompt: 'What is this?', choices: ['A', 'B'], value: 100 };
+    fs.writeFileSync(
+      path.join(dir, 'media.json'),
+      JSON.stringify({
+        id: 'media',
+        questions: {
+          homeroom: [
+            { ...base, answerIndex: 0, media: { type: 'image', src: 'logos/fox logo.png' } },
+            // Invalid: skipped by the loader
+            { ...base, answerIndex: 0, media: { type: 'image', src: 'logos/missing.png' } },
+            { ...base, answerIndex: 0, media: { type: 'image', src: '../media.json' } },
+            { ...base, answerIndex: 0, media: { type: 'image', src: '.secret.png' } },
+            { ...base, answerIndex: 0, media: { type: 'audio', src: 'logos/fox logo.png' } },
+            { ...base, answerIndex: 0, media: { type: 'video', src: 'https://x.test/a.mp4' } },
+          ],
+          pop_quiz: [
+            {
+              ...base,
+              answerIndex: 1,
+              media: { type: 'audio', src: 'https://cdn.test/song.mp3', start: 30, end: 45 },
+            },
+            // Invalid: the clip ends before it starts; images can't be clipped
+            {
+              ...base,
+              answerIndex: 1,
+              media: { type: 'audio', src: 'https://cdn.test/song.mp3', start: 30, end: 10 },
+            },
+            {
+              ...base,
+              answerIndex: 1,
+              media: { type: 'image', src: 'https://cdn.test/a.png', start: 1 },
+            },
+          ],
+        },
+      })
+    );
+
+    server = await startTestServer({ packsDir: dir });
+    expect(listPacks()[0].questionCounts).toMatchObject({ homeroom: 1, pop_quiz: 1 });
+    expect(getPackMediaDir('media')).toBe(path.join(dir, 'media'));
+
+    lobby = await createLobby(server, ['Ada']);
+    await lobby.host.request('game:plan', {
+      ...host(lobby),
+      plan: [
+        { actId: 'homeroom', questionCount: 1 },
+        { actId: 'pop_quiz', questionCount: 1 },
+      ],
+    });
+
+    // Sent during the countdown, so clients can preload it
+    let { room } = await lobby.host.request('game:start', host(lobby));
+    expect(room.phase).toBe('countdown');
+    expect(room.currentQuestion!.question.media).toEqual({
+      type: 'image',
+      url: '/media/media/logos/fox%20logo.png',
+    });
+
+    room = await playAct(lobby, room);
+    ({ room } = await lobby.host.request('act:start', { ...host(lobby), actId: 'pop_quiz' }));
+    expect(room.currentQuestion!.question.media).toEqual({
+      type: 'audio',
+      url: 'https://cdn.test/song.mp3',
+      start: 30,
+      end: 45,
+    });
+  });
+});
+
+describe('persistence', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('restores a room into a fresh engine and lets players resume', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sq-rooms-'));
+    server = await startTestServer({ store: createFileRoomStore(dir) });
+    lobby = await createLobby(server, ['Ada']);
+    const [ada] = lobby.players;
+    const { room } = await lobby.host.request('game:start', host(lobby));
+    server.game.flush();
+
+    // "Restart": a new engine with its own clock, reading the same directory
+    const restartedAt = server.clock.now();
+    closeAll(lobby);
+    await server.close();
+    lobby = undefined;
+
+    server = await startTestServer({
+      store: createFileRoomStore(dir),
+      clock: createManualClock(restartedAt),
+    });
+    expect(server.game.restoreRooms()).toBe(1);
+
+    const client = await connectClient(server);
+    await expect(client.request('room:resume', { code: room.code })).rejects.toThrow(
+      'sessionToken is required'
+    );
+    const resumed = await client.request('room:resume', {
+      code: room.code,
+      sessionToken: ada.sessionToken,
+    });
+    expect(resumed).toMatchObject({ isHost: false, playerId: ada.playerId });
+    expect(resumed.room.currentQuestion?.question.id).toBe(room.currentQuestion?.question.id);
+
+    // The countdown timer was re-armed from the snapshot
+    server.clock.advance(room.config.countdownMs);
+    await client.waitFor((c) => c.room?.phase === 'question');
+    client.close();
+  });
+
+  it('drops restored players without a session token instead of handing out their seat', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sq-rooms-'));
+    server = await startTestServer({ store: createFileRoomStore(dir) });
+    lobby = await createLobby(server, ['Ada', 'Ben']);
+    const [ada, ben] = lobby.players;
+    const { code } = lobby;
+    await lobby.host.request('game:start', host(lobby));
+    server.game.flush();
+    closeAll(lobby);
+    lobby = undefined;
+
+    // Ben's token is missing from the snapshot
+    const file = path.join(dir, `${code}.json`);
+    const snapshot = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    for (const [playerId, p] of snapshot.playersById.$map) {
+      if (playerId === ben.playerId) delete p.sessionToken;
+    }
+    fs.writeFileSync(file, JSON.stringify(snapshot));
+
+    const restartedAt = server.clock.now();
+    await server.close();
+    server = await startTestServer({
+      store: createFileRoomStore(dir),
+      clock: createManualClock(restartedAt),
+    });
+    expect(server.game.restoreRooms()).toBe(1);
+
+    // Joining as Ben is a late join the host has to admit, not Ben's old seat
+    const client = await connectClient(server);
+    const joined = await client.request('room:join', { code, name: 'Ben' });
+    expect(joined.pending).toBe(true);
+    expect(joined.playerId).not.toBe(ben.playerId);
+    expect(joined.room.players.map((p) => p.playerId)).toEqual([ada.playerId]);
+    client.close();
+  });
+});
+
+describe('payload validation', () => {
+  it('turns away malformed payloads and unknown events before any handler runs', async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ada']);
+    const [ada] = lobby.players;
+    const { room: before } = await lobby.host.request('room:watch', { code: lobby.code });
+
+    for (const config of [{ countdownMs: -1 }, { maxLives: 'lol' }, { bossHp: 1e9 }]) {
+      const res = await lobby.host.send('game:configure', { ...host(lobby), config });
+      expect(res).toMatchObject({ ok: false, code: 'INVALID_PAYLOAD' });
+    }
+    const { room: after } = await lobby.host.request('room:watch', { code: lobby.code });
+    expect(after.config).toEqual(before.config);
+
+    // Player actions with values of the wrong type
+    await lobby.host.request('game:plan', {
+      ...host(lobby),
+      plan: [{ actId: 'wager_round', questionCount: 1 }],
+    });
+    await lobby.host.waitFor((c) => c.host?.timeline.length === 1);
+    await lobby.host.request('game:start', host(lobby));
+    expect(await ada.client.send('wager:set', { code: lobby.code, amount: 'all' })).toMatchObject({
+      ok: false,
+      code: 'INVALID_PAYLOAD',
+    });
+    expect(
+      await ada.client.send('player:answer', { code: lobby.code, answerIndex: 'B' })
+    ).toMatchObject({ ok: false, code: 'INVALID_PAYLOAD' });
+    expect(await ada.client.send('room:nuke', { code: lobby.code })).toEqual({
+      ok: false,
+      error: 'Invalid request: Unknown event.',
+      code: 'INVALID_PAYLOAD',
+    });
+    const { room } = await lobby.host.request('room:watch', { code: lobby.code });
+    expect(playerState(room, ada.playerId).wagerSubmitted).toBeFalsy();
+  });
+});
+
+describe('locales', () => {
+  it("stores each player's locale and lets them change it", async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ada']);
+    const [ada] = lobby.players;
+
+    const client = await connectClient(server);
+    const { playerId, room } = await client.request('room:join', {
+      code: lobby.code,
+      name: 'Bea',
+      locale: 'es',
+    });
+    expect(playerState(room, ada.playerId).locale).toBe('en');
+    expect(playerState(room, playerId).locale).toBe('es');
+
+    const changed = await client.request('player:locale', {
+      code: lobby.code,
+      playerId,
+      locale: 'en',
+    });
+    expect(playerState(changed.room, playerId).locale).toBe('en');
+    client.close();
+  });
+});
+
+describe('profiles', () => {
+  it('joins with a profile and adds the game to its lifetime stats', async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ben']);
+    const [ben] = lobby.players;
+    server.profiles.save({
+      id: 'ada-profile',
+      name: 'Ada',
+      avatar: '🦊',
+      createdAt: 0,
+      tokenHashes: [hashToken('ada-token')],
+      stats: emptyProfileStats(),
+    });
+
+    const client = await connectClient(server);
+    await expect(
+      client.request('room:join', { code: lobby.code, profileToken: 'nope' })
+    ).rejects.toThrow('Profile not found');
+    // The profile's own name wins over the one typed in
+    const { playerId, sessionToken, room } = await client.request('room:join', {
+      code: lobby.code,
+      name: 'Someone',
+      profileToken: 'ada-token',
+    });
+    expect(playerState(room, playerId)).toMatchObject({
+      name: 'Ada',
+      avatar: '🦊',
+      profileId: 'ada-profile',
+    });
+    const twin = await connectClient(server);
+    await expect(
+      twin.request('room:join', { code: lobby.code, profileToken: 'ada-token' })
+    ).rejects.toThrow('already in this room');
+    twin.close();
+    lobby.players.push({ client, playerId, sessionToken });
+
+    await lobby.host.request('game:plan', {
+      ...host(lobby),
+      plan: [{ actId: 'homeroom', questionCount: 2 }],
+    });
+    await lobby.host.waitFor((c) => c.host?.timeline.length === 1);
+    let { room: live } = await lobby.host.request('game:start', host(lobby));
+    live = await playAct(lobby, live, [ben.playerId]);
+    expect(live.phase).toBe('ended');
+
+    const profile = server.profiles.get('ada-profile')!;
+    expect(profile.stats).toMatchObject({
+      gamesPlayed: 1,
+      wins: 1,
+      questionsAnswered: 2,
+      correctAnswers: 2,
+      bossesDefeated: 0,
+      allInsWon: 0,
+    });
+    const categoryTotal = Object.values(profile.stats.categoryCorrect).reduce((a, b) => a + b, 0);
+    expect(categoryTotal).toBe(2);
+  });
+});
+
+describe('player sessions', () => {
+  it("acts as the socket's own player, whatever playerId is sent", async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ada', 'Ben']);
+    const [ada, ben] = lobby.players;
+    expect(JSON.stringify(ada.client.room)).not.toContain(ada.sessionToken);
+
+    // Ada tries to place Ben's wager
+    await lobby.host.request('game:plan', {
+      ...host(lobby),
+      plan: [{ actId: 'wager_round', questionCount: 1 }],
+    });
+    await lobby.host.waitFor((c) => c.host?.timeline.length === 1);
+    await lobby.host.request('game:start', host(lobby));
+    const { room } = await ada.client.request('wager:set', {
+      code: lobby.code,
+      playerId: ben.playerId,
+      amount: 0,
+    });
+    expect(playerState(room, ben.playerId).wagerSubmitted).toBeFalsy();
+    expect(playerState(room, ada.playerId).wagerSubmitted).toBe(true);
+
+    // A socket that never joined can't act at all, and a guessed token doesn't resume
+    const stranger = await connectClient(server);
+    await expect(
+      stranger.request('player:lockin', { code: lobby.code, playerId: ben.playerId })
+    ).rejects.toThrow('Join the room first');
+    await expect(
+      stranger.request('room:resume', { code: lobby.code, sessionToken: ben.playerId })
+    ).rejects.toThrow('Session not found');
+    stranger.close();
+  });
+
+  it('hands the player over to the socket that resumed, before the old one drops', async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ada']);
+    const [ada] = lobby.players;
+    await lobby.host.request('game:plan', {
+      ...host(lobby),
+      plan: [{ actId: 'wager_round', questionCount: 1 }],
+    });
+    await lobby.host.waitFor((c) => c.host?.timeline.length === 1);
+    await lobby.host.request('game:start', host(lobby));
+
+    const fresh = await connectClient(server);
+    await fresh.request('room:resume', { code: lobby.code, sessionToken: ada.sessionToken });
+    await expect(ada.client.request('wager:set', { code: lobby.code, amount: 0 })).rejects.toThrow(
+      'Join the room first'
+    );
+
+    // The old socket going away doesn't take the player offline
+    const before = lobby.host.room;
+    ada.client.close();
+    await lobby.host.waitFor((c) => c.room !== before);
+    expect(playerState(lobby.host.room!, ada.playerId).connected).toBe(true);
+    const { room } = await fresh.request('wager:set', { code: lobby.code, amount: 0 });
+    expect(playerState(room, ada.playerId).wagerSubmitted).toBe(true);
+    fresh.close();
+  });
+});
+
+describe('presenter screen', () => {
+  it('shows a watcher the answer distribution and spotlight, but no host state', async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ada', 'Ben']);
+    const [ada, ben] = lobby.players;
+    const screen = await connectClient(server);
+    await screen.request('room:watch', { code: lobby.code });
+
+    await lobby.host.request('game:plan', {
+      ...host(lobby),
+      plan: [
+        { actId: 'homeroom', questionCount: 1 },
+        { actId: 'wager_round', questionCount: 1 },
+      ],
+    });
+    await lobby.host.waitFor((c) => c.host?.timeline.length === 2);
+    const { room } = await lobby.host.request('game:start', host(lobby));
+    const answer = await goLive(server, lobby, room);
+    await ada.client.request('player:answer', { code: lobby.code, ...answer });
+    await screen.waitFor((c) => c.room?.phase === 'question');
+    expect(screen.room?.currentQuestion?.distribution).toBeUndefined();
+
+    // Ben never answers, so wait out the timer
+    server.clock.advance(screen.room!.currentQuestion!.revealAt - server.clock.now());
+    await lobby.host.request('question:reveal', host(lobby));
+    await screen.waitFor((c) => !!c.room?.currentQuestion?.distribution);
+    const { distribution, question } = screen.room!.currentQuestion!;
+    expect(distribution).toMatchObject({ answered: 1, correct: 1 });
+    if (question.type === 'multiple_choice' || question.type === 'true_false') {
+      expect(distribution?.choiceCounts?.reduce((a, b) => a + b, 0)).toBe(1);
+    }
+
+    // High Stakes: the spotlight stays in the room state once wagers lock
+    await lobby.host.request('question:next', host(lobby));
+    await lobby.host.request('act:start', { ...host(lobby), actId: 'wager_round' });
+    await ben.client.request('wager:set', { code: lobby.code, amount: 0 });
+    await lobby.host.request('wager:lock', host(lobby));
+    await screen.waitFor((c) => !!c.room?.wager?.spotlight);
+    expect(screen.room?.wager?.spotlight?.noBetCount).toBe(2);
+    expect(screen.host).toBeUndefined();
+    screen.close();
+  });
+});
+
+describe('autopilot', () => {
+  it('reveals, advances and runs the shop on timers until the host steps in', async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ada']);
+    const [ada] = lobby.players;
+    const { clock } = server;
+
+    await lobby.host.request('game:plan', {
+      ...host(lobby),
+      plan: [
+        { actId: 'homeroom', questionCount: 2 },
+        { actId: 'pop_quiz', questionCount: 1 },
+      ],
+    });
+    await lobby.host.request('game:configure', {
+      ...host(lobby),
+      config: { autopilot: true, autopilotDwellMs: 5_000, autopilotShopMs: 10_000 },
+    });
+
+    // Nobody answers, so the question is revealed when its time is up
+    const { room } = await lobby.host.request('game:start', host(lobby));
+    await goLive(server, lobby, room);
+    await lobby.host.waitFor((c) => c.room?.autopilot?.action === 'reveal');
+    const { revealAt } = lobby.host.room!.currentQuestion!;
+    expect(lobby.host.room?.autopilot?.at).toBe(revealAt);
+    clock.advance(revealAt - clock.now());
+    await ada.client.waitFor((c) => c.reveals.length === 1);
+
+    // ...dwells on the reveal, then deals the next question
+    await lobby.host.waitFor((c) => c.room?.autopilot?.action === 'next');
+    clock.advance(5_000);
+    await lobby.host.waitFor((c) => c.room?.phase === 'countdown');
+
+    // The host takes over: revealing and moving on by hand re-plans autopilot from there
+    const answer = await goLive(server, lobby, lobby.host.room!);
+    await ada.client.request('player:answer', { code: lobby.code, ...answer });
+    await ada.client.request('player:lockin', { code: lobby.code });
+    await lobby.host.request('question:reveal', host(lobby));
+    await lobby.host.request('question:next', host(lobby));
+    await lobby.host.waitFor(
+      (c) => c.room?.phase === 'intermission' && c.room.autopilot?.action === 'shop'
+    );
+
+    // Between acts: the shop opens after the dwell, then the next act starts
+    clock.advance(5_000);
+    await lobby.host.waitFor((c) => c.room?.phase === 'shop' && c.room.autopilot?.action === 'act');
+    clock.advance(10_000);
+    await lobby.host.waitFor((c) => c.room?.currentAct?.id === 'pop_quiz');
+    expect(lobby.host.room?.shop?.open).toBe(false);
+
+    // Switching autopilot off leaves the next transition to the host
+    await lobby.host.request('game:configure', { ...host(lobby), config: { autopilot: false } });
+    await lobby.host.waitFor((c) => c.room?.config.autopilot === false);
+    expect(lobby.host.room?.autopilot).toBeUndefined();
+    await goLive(server, lobby, lobby.host.room!);
+    clock.advance(60_000);
+    expect(server.game.debugSummary().rooms[0].phase).toBe('question');
+  });
+
+  it('tells the host why it switched itself off', async () => {
+    // A history store that fails once, as a disk or network hiccup would
+    const history = createMemoryQuestionHistory();
+    let failNext = false;
+    const seen = history.seen.bind(history);
+    history.seen = (key) => {
+      if (!failNext) return seen(key);
+      failNext = false;
+      throw new Error('History store is offline.');
+    };
+    server = await startTestServer({ history });
+    lobby = await createLobby(server, ['Ada']);
+    const { clock } = server;
+
+    await lobby.host.request('game:plan', {
+      ...host(lobby),
+      plan: [
+        { actId: 'homeroom', questionCount: 1 },
+        { actId: 'pop_quiz', questionCount: 1 },
+      ],
+    });
+    await lobby.host.request('game:configure', {
+      ...host(lobby),
+      config: { preferUnseen: true, autopilotDwellMs: 5_000, autopilotShopMs: 0 },
+    });
+    const { room } = await lobby.host.request('game:start', host(lobby));
+    await playQuestion(lobby, room);
+    await lobby.host.request('question:next', host(lobby));
+    await lobby.host.request('game:configure', { ...host(lobby), config: { autopilot: true } });
+    await lobby.host.waitFor((c) => c.room?.autopilot?.action === 'act');
+
+    // Starting the next act fails: autopilot hands the room back, saying why
+    failNext = true;
+    clock.advance(5_000);
+    await lobby.host.waitFor((c) => c.room?.config.autopilot === false);
+    // ...and the room stays where it was, with the next act still to come
+    expect(lobby.host.room?.phase).toBe('intermission');
+    expect(lobby.host.room?.currentAct?.id).toBe('homeroom');
+    expect(lobby.host.host?.availableActs).toEqual(['pop_quiz']);
+    expect(lobby.host.host?.autopilotError).toMatchObject({
+      action: 'act',
+      message: 'History store is offline.',
+    });
+
+    // Switching it back on clears the error and picks up where it stopped
+    await lobby.host.request('game:configure', { ...host(lobby), config: { autopilot: true } });
+    await lobby.host.waitFor((c) => c.room?.autopilot?.action === 'act');
+    expect(lobby.host.host?.autopilotError).toBeUndefined();
+    clock.advance(5_000);
+    await lobby.host.waitFor((c) => c.room?.currentAct?.id === 'pop_quiz');
+  });
+});
+
+describe('pause', () => {
+  it('freezes the question and wager timers until the host resumes', async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ada']);
+    const [ada] = lobby.players;
+    const { clock } = server;
+
+    await lobby.host.request('game:plan', {
+      ...host(lobby),
+      plan: [
+        { actId: 'homeroom', questionCount: 1 },
+        { actId: 'wager_round', questionCount: 1 },
+      ],
+    });
+    await expect(lobby.host.request('game:pause', host(lobby))).rejects.toThrow(
+      'The game is not running.'
+    );
+
+    // Paused mid-question: answers are turned away while the question's time stands still
+    let { room } = await lobby.host.request('game:start', host(lobby));
+    const answer = await goLive(server, lobby, room);
+    const { endsAt } = lobby.host.room!.currentQuestion!;
+    ({ room } = await lobby.host.request('game:pause', host(lobby)));
+    expect(room.paused).toBe(true);
+    await expect(
+      ada.client.request('player:answer', { code: lobby.code, ...answer })
+    ).rejects.toThrow('The game is paused.');
+    await expect(lobby.host.request('question:next', host(lobby))).rejects.toThrow('paused');
+
+    clock.advance(120_000);
+    ({ room } = await lobby.host.request('game:resume', host(lobby)));
+    expect(room.paused).toBe(false);
+    expect(room.currentQuestion?.endsAt).toBe(endsAt + 120_000);
+    await ada.client.request('player:answer', { code: lobby.code, ...answer });
+    await ada.client.request('player:lockin', { code: lobby.code });
+    await lobby.host.request('question:reveal', host(lobby));
+    await lobby.host.request('question:next', host(lobby));
+
+    // The redline timeline waits too
+    await lobby.host.request('act:start', { ...host(lobby), actId: 'wager_round' });
+    await lobby.host.request('game:pause', host(lobby));
+    clock.advance(120_000);
+    ({ room } = await lobby.host.request('game:resume', host(lobby)));
+    expect(room.wager).toMatchObject({ stage: 'blind', locked: false });
+    clock.advance(60_000);
+    await lobby.host.waitFor((c) => c.room?.wager?.stage === 'locked');
+  });
+
+  it('freezes the shop, buybacks and revives while paused', async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ada', 'Ben']);
+    const [ada, ben] = lobby.players;
+
+    await lobby.host.request('game:configure', { ...host(lobby), config: { maxLives: 1 } });
+    await lobby.host.request('game:plan', {
+      ...host(lobby),
+      plan: [
+        { actId: 'field_trip', questionCount: 1 },
+        { actId: 'pop_quiz', questionCount: 1 },
+      ],
+    });
+    const { room } = await lobby.host.request('game:start', host(lobby));
+    await playQuestion(lobby, room, [ben.playerId]);
+    await lobby.host.request('question:next', host(lobby));
+    await lobby.host.request('shop:open', { ...host(lobby), open: true });
+    await ben.client.request('revive:request', { code: lobby.code });
+    await lobby.host.request('game:pause', host(lobby));
+
+    await expect(lobby.host.request('shop:open', { ...host(lobby), open: false })).rejects.toThrow(
+      'The game is paused.'
+    );
+    await expect(
+      ada.client.request('shop:buy', { code: lobby.code, itemId: 'double_points' })
+    ).rejects.toThrow('The game is paused.');
+    await expect(ben.client.request('player:buyback', { code: lobby.code })).rejects.toThrow(
+      'The game is paused.'
+    );
+    await expect(ben.client.request('revive:request', { code: lobby.code })).rejects.toThrow(
+      'The game is paused.'
+    );
+    await expect(lobby.host.request('revive:approve', host(lobby))).rejects.toThrow(
+      'The game is paused.'
+    );
+
+    await lobby.host.request('game:resume', host(lobby));
+    const { room: revived } = await lobby.host.request('revive:approve', host(lobby));
+    expect(playerState(revived, ben.playerId)).toMatchObject({ eliminated: false, lives: 1 });
+  });
+});
+
+describe('late joins', () => {
+  it('waits for the host, then joins at the next question with a catch-up score', async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ada', 'Ben']);
+    const [, ben] = lobby.players;
+
+    const { room } = await lobby.host.request('game:start', host(lobby));
+    await playQuestion(lobby, room, [ben.playerId]);
+
+    const cy = await connectClient(server);
+    const dee = await connectClient(server);
+    const results: Record<string, boolean[]> = { cy: [], dee: [] };
+    cy.socket.on('join:result', ({ approved }) => results.cy.push(approved));
+    dee.socket.on('join:result', ({ approved }) => results.dee.push(approved));
+
+    const joined = await cy.request('room:join', { code: lobby.code, name: 'Cy' });
+    expect(joined.pending).toBe(true);
+    expect(joined.room.players.map((p) => p.name)).not.toContain('Cy');
+    await expect(dee.request('room:join', { code: lobby.code, name: 'cy' })).rejects.toThrow(
+      'already taken'
+    );
+    const declined = await dee.request('room:join', { code: lobby.code, name: 'Dee' });
+    await lobby.host.waitFor((c) => c.host?.joinRequests.length === 2);
+
+    // Ada scored and Ben didn't, so the median is halfway
+    const ada = playerState(lobby.host.room!, lobby.players[0].playerId);
+    expect(lobby.host.host?.medianScore).toBe(Math.round(ada.score / 2));
+
+    const [cyRequest, deeRequest] = lobby.host.host!.joinRequests;
+    await lobby.host.request('join:admit', {
+      ...host(lobby),
+      requestId: cyRequest.requestId,
+      lives: 2,
+      coins: 50,
+      score: lobby.host.host!.medianScore,
+    });
+    await lobby.host.request('join:decline', { ...host(lobby), requestId: deeRequest.requestId });
+    await cy.waitFor(() => results.cy.length === 1);
+    await dee.waitFor(() => results.dee.length === 1);
+    expect(results).toEqual({ cy: [true], dee: [false] });
+    await expect(
+      dee.request('room:resume', { code: lobby.code, sessionToken: declined.sessionToken })
+    ).rejects.toThrow('Session not found');
+
+    // Admitted, but still on the bench until the next question starts
+    await expect(cy.request('player:lockin', { code: lobby.code })).rejects.toThrow(
+      'Join the room first.'
+    );
+    const { room: next } = await lobby.host.request('question:next', host(lobby));
+    expect(playerState(next, joined.playerId)).toMatchObject({
+      name: 'Cy',
+      lives: 2,
+      coins: 50,
+      score: Math.round(ada.score / 2),
+    });
+    await lobby.host.waitFor((c) => c.host?.joinRequests.length === 0);
+
+    const answer = await goLive(server, lobby, next);
+    await cy.request('player:answer', { code: lobby.code, ...answer });
+    cy.close();
+    dee.close();
+  });
+
+  it('lets a socket ask once, and caps the queue apart from the seats', async () => {
+    server = await startTestServer();
+    lobby = await createLobby(server, ['Ada']);
+    await lobby.host.request('game:start', host(lobby));
+
+    const first = await connectClient(server);
+    await first.request('room:join', { code: lobby.code, name: 'Cy' });
+    await expect(first.request('room:join', { code: lobby.code, name: 'Dee' })).rejects.toThrow(
+      'already in this room'
+    );
+    await expect(
+      lobby.players[0].client.request('room:join', { code: lobby.code, name: 'Eve' })
+    ).rejects.toThrow('already in this room');
+
+    const others = await Promise.all(Array.from({ length: 5 }, () => connectClient(server!)));
+    for (const [i, client] of others.slice(0, 4).entries()) {
+      await client.request('room:join', { code: lobby.code, name: `Late ${i}` });
+    }
+    await expect(
+      others[4].request('room:join', { code: lobby.code, name: 'Late 4' })
+    ).rejects.toThrow('Too many players are waiting');
+    await lobby.host.waitFor((c) => c.host?.joinRequests.length === 5);
+    expect(lobby.host.room?.players).toHaveLength(1);
+
+    first.close();
+    for (const client of others) client.close();
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Test Harness
+ *
+ * Boots the game engine in-process on a throwaway HTTP server (random port,
+ * manual clock, in-memory store, question history and profiles) and connects real
+ * Socket.IO clients to it, so tests exercise the exact wire protocol the
+ * browser uses.
+ */
+
+import { createManualClock, type ManualClock } from '@/lib/clock';
+import { attachGameServer, type GameServer, type GameServerHandle } from '@/lib/gameServer';
+import type {
+  AckCallback,
+  ClientEvent,
+  ClientToServerEvents,
+  EventPayload,
+  ServerToClientEvents,
+} from '@/lib/protocol';
+import { createMemoryProfileStore, type ProfileStore } from '@/lib/profileStore';
+import { createMemoryQuestionHistory, type QuestionHistoryStore } from '@/lib/questionHistory';
+import { loadQuestionPacks } from '@/lib/questionLoader';
+import { createMemoryRoomStore, type RoomStore } from '@/lib/roomStore';
+import type { Ack, HostRoomState, PlayerRevealPayload, PublicRoomState } from '@/lib/types';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { Server } from 'socket.io';
+import { io as connect, type Socket } from 'socket.io-client';
+
+export type AckData<E extends ClientEvent> =
+  Parameters<ClientToServerEvents[E]>[1] extends AckCallback<infer T> ? T : never;
+
+export type TestServer = {
+  url: string;
+  clock: ManualClock;
+  store: RoomStore;
+  history: QuestionHistoryStore;
+  profiles: ProfileStore;
+  game: GameServerHandle;
+  close(): Promise<void>;
+};
+
+export type TestClient = {
+  socket: Socket<ServerToClientEvents, ClientToServerEvents>;
+  /** Latest snapshots pushed by the server */
+  room?: PublicRoomState;
+  host?: HostRoomState;
+  reveals: PlayerRevealPayload[];
+  /** Emit an event and resolve with the ack data (rejects on `{ ok: false }`) */
+  request<E extends ClientEvent>(event: E, payload: EventPayload<E>): Promise<AckData<E>>;
+  /** Emit anything — a malformed payload, an unknown event — and resolve with the raw ack */
+  send(event: string, payload: unknown): Promise<Ack<unknown>>;
+  /** Resolve once a pushed snapshot satisfies `predicate` */
+  waitFor(predicate: (c: TestClient) => boolean): Promise<void>;
+  close(): void;
+};
+
+/* ── Server ── */
+
+export async function startTestServer(
+  opts: {
+    clock?: ManualClock;
+    store?: RoomStore;
+    history?: QuestionHistoryStore;
+    profiles?: ProfileStore;
+    packsDir?: string;
+  } = {}
+): Promise<TestServer> {
+  loadQuestionPacks(opts.packsDir);
+
+  const clock = opts.clock ?? createManualClock(1_700_000_000_000);
+  const store = opts.store ?? createMemoryRoomStore();
+  const history = opts.history ?? createMemoryQuestionHistory();
+  const profiles = opts.profiles ?? createMemoryProfileStore();
+  const httpServer = createServer();
+  const io: GameServer = new Server(httpServer);
+  const game = attachGameServer(io, { clock, store, history, profiles, rateLimit: false });
+
+  await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    clock,
+    store,
+    history,
+    profiles,
+    game,
+    close: () =>
+      new Promise<void>((resolve) => {
+        io.close(() => resolve());
+      }),
+  };
+}
+
+/* ── Clients ── */
+
+export async function connectClient(server: TestServer): Promise<TestClient> {
+  const socket: TestClient['socket'] = connect(server.url, {
+    transports: ['websocket'],
+    forceNew: true,
+    reconnection: false,
+  });
+
+  const waiters = new Set<() => void>();
+  const notify = () => waiters.forEach((check) => check());
+
+  const client: TestClient = {
+    socket,
+    reveals: [],
+    request(event, payload) {
+      return new Promise((resolve, reject) => {
+        const ack: AckCallback<unknown> = (res) => {
+          if (res.ok) resolve(res.data as AckData<typeof event>);
+          else reject(new Error(`${event}: ${res.error}`));
+        };
+        (socket.emit as (...args: unknown[]) => void)(event, payload, ack);
+      });
+    },
+    send(event, payload) {
+      return new Promise((resolve) => {
+        (socket.emit as (...args: unknown[]) => void)(event, payload, resolve);
+      });
+    },
+    waitFor(predicate) {
+      return new Promise((resolve, reject) => {
+        if (predicate(client)) return resolve();
+        const timer = setTimeout(() => {
+          waiters.delete(check);
+          reject(new Error('Timed out waiting for server state'));
+        }, 5_000);
+        const check = () => {
+          if (!predicate(client)) return;
+          clearTimeout(timer);
+          waiters.delete(check);
+          resolve();
+        };
+        waiters.add(check);
+      });
+    },
+    close: () => socket.disconnect(),
+  };
+
+  socket.on('room:state', (room) => {
+    client.room = room;
+    notify();
+  });
+  socket.on('host:state', (state) => {
+    client.host = state;
+    notify();
+  });
+  socket.on('player:reveal', (payload) => {
+    client.reveals.push(payload);
+    notify();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    socket.once('connect', () => resolve());
+    socket.once('connect_error', reject);
+  });
+  return client;
+}
+
+/* ── Scenarios ── */
+
+export type Lobby = {
+  code: string;
+  hostKey: string;
+  host: TestClient;
+  players: { client: TestClient; playerId: string; sessionToken: string }[];
+};
+
+/** Create a room and join `names.length` players to it */
+export async function createLobby(server: TestServer, names: string[]): Promise<Lobby> {
+  const host = await connectClient(server);
+  const { room, hostKey } = await host.request('room:create', { hostName: 'Host' });
+
+  const players = [];
+  for (const name of names) {
+    const client = await connectClient(server);
+    const { playerId, sessionToken } = await client.request('room:join', {
+      code: room.code,
+      name,
+    });
+    players.push({ client, playerId, sessionToken });
+  }
+
+  return { code: room.code, hostKey, host, players };
+}
+
+/**
+ * Let the 3-2-1 countdown of the question in `room` (an ack snapshot) run out,
+ * wait until the host sees it live and return the correct answer.
+ */
+export async function goLive(server: TestServer, lobby: Lobby, room: PublicRoomState) {
+  const cq = room.currentQuestion;
+  if (!cq) throw new Error(`No question in phase ${room.phase}`);
+
+  server.clock.advance(Math.max(0, (cq.countdownEndsAt ?? cq.startedAt) - server.clock.now()));
+  await lobby.host.waitFor(
+    (c) =>
+      c.host?.questionDebug?.id === cq.question.id &&
+      (c.host.phase === 'question' || c.host.phase === 'boss')
+  );
+  return lobby.host.host!.currentAnswer!;
+}
+
+export function closeAll(lobby: Lobby) {
+  lobby.host.close();
+  for (const p of lobby.players) p.client.close();
+}
@@ -0,0 +1,96 @@
+import { DEFAULT_RULESET, SHOP_ITEMS } from '@/lib/gameConfig';
+import {
+  localizeAct,
+  localizeQuestion,
+  localizeShopItem,
+  matchLocale,
+  pickTranslation,
+  translate,
+  type MessageKey,
+} from '@/lib/i18n';
+import { MESSAGES } from '@/lib/messages';
+import type { PublicQuestion } from '@/lib/types';
+import { describe, expect, it } from 'vitest';
+
+describe('translate', () => {
+  it('fills placeholders and leaves unknown ones alone', () => {
+    expect(translate('en', 'common.pts', { value: 300 })).toBe('300 pts');
+    expect(translate('es', 'common.pts', { value: 300 })).toBe('300 pts');
+    expect(translate('en', 'host.hp', { hp: 5 })).toBe('HP: 5 / {max}');
+  });
+
+  it('has every message in every locale', () => {
+    for (const messages of Object.values(MESSAGES)) {
+      expect(Object.keys(messages).sort()).toEqual(Object.keys(MESSAGES.en).sort());
+    }
+  });
+
+  it('matches language tags to a supported locale', () => {
+    expect(matchLocale('es-MX')).toBe('es');
+    expect(matchLocale('EN-gb')).toBe('en');
+    expect(matchLocale('fr')).toBe('en');
+    expect(matchLocale(null)).toBe('en');
+  });
+});
+
+describe('server-sent text', () => {
+  it('translates the classic acts and shop items, but not custom text', () => {
+    const classic = DEFAULT_RULESET.acts[0];
+    expect(localizeAct('es', classic).name).toBe(
+      translate('es', `act.${classic.id}.name` as MessageKey)
+    );
+    expect(localizeAct('es', { ...classic, name: 'Warm-up' }).name).toBe('Warm-up');
+    expect(localizeAct('es', { id: 'custom', name: 'Custom' })).toEqual({
+      id: 'custom',
+      name: 'Custom',
+    });
+
+    const shield = SHOP_ITEMS.find((i) => i.id === 'shield')!;
+    expect(localizeShopItem('es', shield).name).toBe(translate('es', 'shop.shield.name'));
+    expect(localizeShopItem('en', shield)).toEqual(shield);
+  });
+});
+
+describe('pack translations', () => {
+  const question: PublicQuestion = {
+    id: 'q',
+    type: 'multiple_choice',
+    category: 'Animals',
+    prompt: 'Largest mammal?',
+    choices: ['Blue whale', 'Elephant'],
+    value: 100,
+    translations: {
+      'es-MX': { prompt: '¿El mamífero más grande?', choices: ['Ballena azul', 'Elefante'] },
+    },
+  };
+
+  it('picks the exact tag, then the bare language, then another region', () => {
+    const translations = { es: 'es', 'pt-BR': 'pt-BR', 'es-AR': 'es-AR' };
+    expect(pickTranslation(translations, 'es-AR')).toBe('es-AR');
+    expect(pickTranslation(translations, 'es-MX')).toBe('es');
+    expect(pickTranslation(translations, 'pt')).toBe('pt-BR');
+    expect(pickTranslation(translations, 'fr')).toBeUndefined();
+  });
+
+  it('shows a question in the player’s language, falling back to the original', () => {
+    expect(localizeQuestion(question, 'es')).toMatchObject({
+      prompt: '¿El mamífero más grande?',
+      category: 'Animals',
+      choices: ['Ballena azul', 'Elefante'],
+    });
+    expect(localizeQuestion(question, 'en')).toMatchObject({
+      prompt: 'Largest mammal?',
+      choices: ['Blue whale', 'Elephant'],
+    });
+
+    const trueFalse: PublicQuestion = {
+      ...question,
+      type: 'true_false',
+      choices: ['True', 'False'],
+    };
+    expect(localizeQuestion({ ...trueFalse, translations: undefined }, 'es').choices).toEqual([
+      translate('es', 'choice.true'),
+      translate('es', 'choice.false'),
+    ]);
+  });
+});
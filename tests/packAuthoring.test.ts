@@ -0,0 +1,370 @@
+import { createPackAuthoringRouter } from '@/lib/packAuthoring';
+import { parsePackFilter } from '@/lib/packFilter';
+import { getPackQuestions, listPacks, loadQuestionPacks } from '@/lib/questionLoader';
+import type { PackDiagnostic } from '@/lib/types';
+import express from 'express';
+import fs from 'fs';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+const TOKEN = 'test-token';
+
+let dir: string;
+let server: Server;
+let baseUrl: string;
+
+beforeEach(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sq-packs-'));
+  loadQuestionPacks(dir);
+
+  const app = express();
+  app.use('/api/packs', createPackAuthoringRouter(TOKEN));
+  server = app.listen(0, '127.0.0.1');
+  await new Promise<void>((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/packs`;
+});
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function call(method: string, url: string, body?: unknown, token = TOKEN) {
+  const res = await fetch(`${baseUrl}${url}`, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+const question = (prompt: string) => ({
+  category: 'Test',
+  prompt,
+  choices: ['A', 'B'],
+  answerIndex: 0,
+  value: 100,
+});
+
+const pack = (questions: unknown[]) => ({
+  id: 'quiz',
+  name: 'Quiz',
+  questions: { homeroom: questions },
+});
+
+describe('pack authoring API', () => {
+  it('requires the editor token', async () => {
+    expect((await call('POST', '/validate', pack([]), 'wrong')).status).toBe(401);
+    expect((await call('POST', '/validate', pack([]), '')).status).toBe(401);
+  });
+
+  it('reports every error and saves nothing until the pack is clean', async () => {
+    const bad = pack([
+      question('Fine'),
+      { ...question('Bad index'), answerIndex: 7 },
+      { ...question(''), value: -1 },
+    ]);
+
+    const errorsOf = (body: { diagnostics: PackDiagnostic[] }) =>
+      body.diagnostics
+        .filter((d) => d.severity === 'error')
+        .map(({ actId, index, field }) => ({ actId, index, field }));
+
+    const checked = await call('POST', '/validate', bad);
+    expect(checked.body.ok).toBe(false);
+    expect(errorsOf(checked.body)).toEqual([
+      { actId: 'homeroom', index: 1, field: 'answerIndex' },
+      { actId: 'homeroom', index: 2, field: 'prompt' },
+      { actId: 'homeroom', index: 2, field: 'value' },
+    ]);
+
+    const rejected = await call('POST', '', bad);
+    expect(rejected.status).toBe(400);
+    expect(errorsOf(rejected.body)).toHaveLength(3);
+    expect(fs.existsSync(path.join(dir, 'quiz.json'))).toBe(false);
+  });
+
+  it('warns about content that loads but looks wrong', async () => {
+    const checked = await call('POST', '/validate', {
+      id: 'quiz',
+      name: 'Quiz',
+      questions: {
+        homeroom: [question('Same?'), { ...question('same? '), choices: ['A', 'a'] }],
+        field_trip: [question('Lonely')],
+        wager_round: [question('Bet on this')],
+      },
+    });
+    expect(checked.body.ok).toBe(true);
+    expect(
+      checked.body.diagnostics.map((d: PackDiagnostic) => [d.severity, d.actId, d.index, d.field])
+    ).toEqual([
+      ['warning', 'homeroom', 1, 'prompt'],
+      ['warning', 'homeroom', 1, 'choices'],
+      ['warning', 'pop_quiz', undefined, undefined], // no questions
+      ['warning', 'field_trip', undefined, undefined], // too few
+      ['warning', 'wager_round', 0, 'hint'],
+      ['warning', 'boss_fight', undefined, undefined],
+    ]);
+  });
+
+  it("sizes the too-few-questions check to the pack's own acts", async () => {
+    const questions = {
+      warmup: [question('One'), question('Two')],
+      finale: [question('Three'), question('Four'), question('Five')],
+    };
+    const check = async (boss: Record<string, unknown>) => {
+      const { body } = await call('POST', '/validate', {
+        ...pack([]),
+        questions,
+        ruleset: {
+          acts: [
+            { id: 'warmup', name: 'Warm-up' },
+            { name: 'Finale', ...boss },
+          ],
+        },
+      });
+      return body.diagnostics.map((d: PackDiagnostic) => `${d.actId}: ${d.message}`);
+    };
+
+    expect(await check({ id: 'finale', kind: 'boss' })).toEqual([
+      'finale: Only 3 question(s) — a boss act needs at least 6',
+    ]);
+    // A boss that only ever plays three questions has all it needs
+    expect(await check({ id: 'finale', kind: 'boss', maxQuestions: 3 })).toEqual([]);
+  });
+
+  it('imports an uploaded spreadsheet', async () => {
+    const csv = 'act,prompt,choices,answer\nhomeroom,One?,A|B,A\nhomeroom,Two?,A|B,B\n';
+    const upload = (query: string) =>
+      fetch(`${baseUrl}/import?${query}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'text/csv' },
+        body: csv,
+      }).then(async (res) => ({ status: res.status, body: await res.json() }));
+
+    const preview = await upload('file=My%20Quiz.csv&dryRun=1');
+    expect(preview.body.ok).toBe(true);
+    expect(preview.body.source.id).toBe('my-quiz');
+    expect(fs.existsSync(path.join(dir, 'my-quiz.json'))).toBe(false);
+
+    expect((await upload('file=notes.txt&format=xml')).status).toBe(400);
+
+    const saved = await upload('file=My%20Quiz.csv&name=Imported');
+    expect(saved.status).toBe(201);
+    expect(saved.body.pack).toMatchObject({ id: 'my-quiz', name: 'Imported', totalQuestions: 2 });
+    expect(listPacks().map((p) => p.id)).toEqual(['my-quiz']);
+    expect((await upload('file=My%20Quiz.csv')).status).toBe(409);
+  });
+
+  it('exports packs as JSON and as CSV that imports back', async () => {
+    const source = pack([
+      { ...question('Pick one'), hint: 'Think', hard: true },
+      {
+        type: 'multi_select',
+        category: 'Test',
+        prompt: 'Pick both',
+        choices: ['A', 'B, C'],
+        answerIndexes: [0, 1],
+        value: 100,
+      },
+      {
+        id: 'truth',
+        type: 'true_false',
+        category: 'Test',
+        prompt: 'True?',
+        answer: false,
+        value: 50,
+      },
+      {
+        type: 'free_text',
+        category: 'Test',
+        prompt: '"Say" it',
+        answers: ['yes', 'yep'],
+        value: 100,
+      },
+      {
+        type: 'ordering',
+        category: 'Test',
+        prompt: 'Sort',
+        choices: ['1', '2', '3'],
+        value: 100,
+      },
+    ]);
+    await call('POST', '', source);
+
+    const download = async (format: string) => {
+      const res = await fetch(`${baseUrl}/quiz/export?format=${format}`, {
+        headers: { Authorization: `Bearer ${TOKEN}` },
+      });
+      return { status: res.status, type: res.headers.get('content-type'), text: await res.text() };
+    };
+
+    const json = await download('json');
+    expect(json.type).toContain('application/json');
+    expect(JSON.parse(json.text)).toEqual(source);
+
+    const csv = await download('csv');
+    expect(csv.type).toContain('text/csv');
+    const reimported = await fetch(`${baseUrl}/import?file=quiz.csv&dryRun=1`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${TOKEN}` },
+      body: csv.text,
+    }).then((res) => res.json());
+    expect(reimported.source.questions.homeroom).toEqual(source.questions.homeroom);
+
+    expect((await download('xml')).status).toBe(400);
+    expect((await call('GET', '/nope/export')).status).toBe(404);
+  });
+
+  it('creates, updates and deletes a pack', async () => {
+    const created = await call('POST', '', pack([question('One')]));
+    expect(created.status).toBe(201);
+    expect(created.body.pack).toMatchObject({ id: 'quiz', totalQuestions: 1 });
+    expect(listPacks().map((p) => p.id)).toEqual(['quiz']);
+    expect((await call('POST', '', pack([question('One')]))).status).toBe(409);
+
+    const source = await call('GET', '/quiz/source');
+    expect(source.body.source).toEqual(pack([question('One')]));
+
+    const renamed = await call('PUT', '/quiz', { ...pack([]), id: 'other' });
+    expect(renamed.status).toBe(400);
+
+    const updated = await call('PUT', '/quiz', pack([question('One'), question('Two')]));
+    expect(updated.status).toBe(200);
+    expect(listPacks()[0].totalQuestions).toBe(2);
+
+    expect((await call('DELETE', '/quiz')).status).toBe(200);
+    expect(listPacks()).toEqual([]);
+    expect(fs.existsSync(path.join(dir, 'quiz.json'))).toBe(false);
+    expect((await call('GET', '/quiz/source')).status).toBe(404);
+  });
+
+  it('keeps question IDs when other questions are added, removed or reworded', async () => {
+    await call('POST', '', pack([question('One'), { ...question('Two'), id: 'two' }]));
+    const [one, two] = getPackQuestions('quiz', 'homeroom');
+    expect(two.id).toBe('quiz_homeroom_two');
+
+    await call(
+      'PUT',
+      '/quiz',
+      pack([question('New'), { ...question('Two, reworded'), id: 'two' }, question('One')])
+    );
+    const ids = getPackQuestions('quiz', 'homeroom').map((q) => q.id);
+    expect(ids.slice(1)).toEqual([two.id, one.id]);
+    expect(new Set(ids).size).toBe(3);
+
+    const clash = await call('POST', '/validate', pack([question('One'), question('One')]));
+    expect(clash.body.summary.totalQuestions).toBe(2);
+    const taken = await call(
+      'POST',
+      '/validate',
+      pack([
+        { ...question('One'), id: 'x' },
+        { ...question('Two'), id: 'x' },
+      ])
+    );
+    expect(taken.body.diagnostics).toContainEqual(
+      expect.objectContaining({ field: 'id', message: '"id" "x" is already used in this act' })
+    );
+  });
+});
+
+describe('pack metadata', () => {
+  it('reads metadata, warns about bad values and filters on it', async () => {
+    await call('POST', '', {
+      ...pack([{ ...question('Stars?'), tags: ['Outer Space'] }, question('Two')]),
+      author: 'Ada',
+      tags: ['science', 'KIDS'],
+      language: 'en-GB',
+      difficulty: 'easy',
+      rating: 'family',
+      durationMinutes: 15,
+    });
+    const checked = await call('POST', '/validate', {
+      ...pack([question('One')]),
+      id: 'other',
+      rating: 'PG',
+      language: 'English',
+    });
+    const packWarnings = checked.body.diagnostics.filter((d: PackDiagnostic) => !d.actId);
+    expect(packWarnings.map((d: PackDiagnostic) => [d.severity, d.field])).toEqual([
+      ['warning', 'language'],
+      ['warning', 'rating'],
+    ]);
+    expect(checked.body.summary.metadata).toEqual({ tags: [], language: 'en' });
+    expect(checked.body.summary.estimatedMinutes).toBe(1);
+
+    expect(listPacks()[0]).toMatchObject({
+      metadata: { author: 'Ada', tags: ['science', 'kids'], language: 'en-GB', rating: 'family' },
+      questionTags: ['outer-space'],
+      estimatedMinutes: 15,
+    });
+
+    const found = (query: Record<string, unknown>) =>
+      listPacks(parsePackFilter(query)).map((p) => p.id);
+    expect(
+      found({ search: 'ada science', language: 'en', rating: 'teen', maxMinutes: '20' })
+    ).toEqual(['quiz']);
+    expect(found({ tag: 'outer space,kids' })).toEqual(['quiz']);
+    expect(found({ maxMinutes: '10' })).toEqual([]);
+    expect(found({ language: 'fr' })).toEqual([]);
+    expect(found({ difficulty: 'hard', rating: 'nonsense' })).toEqual([]);
+  });
+});
+
+describe('pack translations', () => {
+  it('validates translations and keeps them in step with the question', async () => {
+    const checked = await call('POST', '/validate', {
+      ...pack([
+        { ...question('Bad tag'), translations: { spanish: { prompt: 'Hola' } } },
+        { ...question('Wrong count'), translations: { es: { prompt: 'Hola', choices: ['A'] } } },
+        { ...question('Answers'), translations: { es: { prompt: 'Hola', answers: ['a'] } } },
+      ]),
+    });
+    expect(
+      checked.body.diagnostics
+        .filter((d: PackDiagnostic) => d.index !== undefined)
+        .map((d: PackDiagnostic) => [d.index, d.field])
+    ).toEqual([
+      [0, 'translations'],
+      [1, 'translations'],
+      [2, 'translations'],
+    ]);
+
+    await call('POST', '', {
+      ...pack([
+        {
+          ...question('Order these'),
+          type: 'ordering',
+          choices: ['One', 'Two', 'Three', 'Four'],
+          answerIndex: undefined,
+          translations: { es: { prompt: 'Ordena', choices: ['Uno', 'Dos', 'Tres', 'Cuatro'] } },
+        },
+        {
+          ...question('Capital of Spain?'),
+          type: 'free_text',
+          choices: undefined,
+          answerIndex: undefined,
+          answers: ['Madrid'],
+          translations: { es: { prompt: '¿Capital de España?', answers: ['madrid', 'Villa'] } },
+        },
+      ]),
+    });
+    const [ordering, freeText] = getPackQuestions('quiz', 'homeroom');
+    const spanish: Record<string, string> = {
+      One: 'Uno',
+      Two: 'Dos',
+      Three: 'Tres',
+      Four: 'Cuatro',
+    };
+    if (ordering.type !== 'ordering') throw new Error('expected an ordering question');
+    expect(ordering.translations?.es.choices).toEqual(ordering.choices.map((c) => spanish[c]));
+    expect(freeText).toMatchObject({
+      acceptedAnswers: ['Madrid', 'Villa'],
+      translations: { es: { prompt: '¿Capital de España?' } },
+    });
+  });
+});
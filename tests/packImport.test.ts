@@ -0,0 +1,205 @@
+import { formatDelimited, parseDelimited } from '@/lib/csv';
+import { decodeEntities, detectImportFormat, importPack } from '@/lib/packImport';
+import { describe, expect, it } from 'vitest';
+
+const errorsOf = (result: ReturnType<typeof importPack>) =>
+  result.diagnostics.filter((d) => d.severity === 'error').map((d) => d.message);
+
+describe('spreadsheet import', () => {
+  it('parses quoted fields, escaped quotes and newlines', () => {
+    expect(parseDelimited('a,"b, c","say ""hi"""\r\n"two\nlines",,\n', ',')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['two\nlines', '', ''],
+    ]);
+  });
+
+  it('quotes cells that need it and can defuse formulas', () => {
+    const rows = [['a,b', 'say "hi"', ' pad', '=SUM(A1)', -5, undefined]];
+    expect(formatDelimited(rows)).toBe('"a,b","say ""hi"""," pad",=SUM(A1),-5,\r\n');
+    expect(formatDelimited(rows, ',', { escapeFormulas: true })).toContain(",'=SUM(A1),-5,");
+  });
+
+  it('converts rows by type, answer by text, letter or number', () => {
+    const csv = [
+      'Act,Category,Prompt,Choices,Answer,Value,Hard,Hint,Type',
+      'homeroom,Sci,Water?,Salt|Water|Air,water,,,,',
+      'homeroom,Sci,Gas?,Salt|Water|Air,C,200,yes,,',
+      'homeroom,Sci,Which are wet?,Salt|Water|Sea,2|3,,,,',
+      'pop_quiz,Music,Violins have strings?,,true,,,,',
+      'pop_quiz,Maths,Hexagon sides?,,6|six,,,,',
+      'pop_quiz,Size,Smallest first,Ant|Dog|Whale,,,,,ordering',
+    ].join('\n');
+    const { source, summary } = importPack('csv', csv, { id: 'sheet' });
+
+    expect(summary?.totalQuestions).toBe(6);
+    expect(source.questions.homeroom).toEqual([
+      {
+        category: 'Sci',
+        prompt: 'Water?',
+        choices: ['Salt', 'Water', 'Air'],
+        answerIndex: 1,
+        value: 100,
+      },
+      {
+        category: 'Sci',
+        prompt: 'Gas?',
+        choices: ['Salt', 'Water', 'Air'],
+        answerIndex: 2,
+        value: 200,
+        hard: true,
+      },
+      {
+        type: 'multi_select',
+        category: 'Sci',
+        prompt: 'Which are wet?',
+        choices: ['Salt', 'Water', 'Sea'],
+        answerIndexes: [1, 2],
+        value: 100,
+      },
+    ]);
+    expect(
+      source.questions.pop_quiz.map((q) => [q.type, q.answer ?? q.answers ?? q.choices])
+    ).toEqual([
+      ['true_false', true],
+      ['free_text', ['6', 'six']],
+      ['ordering', ['Ant', 'Dog', 'Whale']],
+    ]);
+  });
+
+  it('points problems at spreadsheet rows', () => {
+    const tsv = [
+      'act\tprompt\tchoices\tanswer\tvalue',
+      'homeroom\tOk?\tA|B\tA\t',
+      'nope\tX\tA|B\tA\t',
+      'homeroom\tY\tA|B\tZ\t',
+      'homeroom\tZ\tA|B\tB\t-5',
+    ].join('\n');
+    const result = importPack('tsv', tsv, { id: 'sheet' });
+    expect(errorsOf(result)).toEqual([
+      'row 4: answer "Z" isn\'t one of the choices',
+      'row 3: unknown act "nope" (acts: homeroom, pop_quiz, field_trip, wager_round, boss_fight)',
+      '"value" must be a positive number (row 5)',
+    ]);
+  });
+
+  it('deals questions without an act over the acts in order', () => {
+    const rows = Array.from({ length: 10 }, (_, i) => `,Q${i},A|B,A`);
+    const { source } = importPack('csv', ['act,prompt,choices,answer', ...rows].join('\n'));
+    expect(Object.values(source.questions).map((qs) => qs.map((q) => q.prompt))).toEqual([
+      ['Q0', 'Q1'],
+      ['Q2', 'Q3'],
+      ['Q4', 'Q5'],
+      ['Q6', 'Q7'],
+      ['Q8', 'Q9'],
+    ]);
+  });
+});
+
+describe('Open Trivia DB import', () => {
+  const dump = JSON.stringify({
+    response_code: 0,
+    results: [
+      {
+        type: 'multiple',
+        difficulty: 'hard',
+        category: 'Science &amp; Nature',
+        question: 'What is &quot;Au&quot;?',
+        correct_answer: 'Gold',
+        incorrect_answers: ['Silver', 'Argon', 'Copper'],
+      },
+      {
+        type: 'boolean',
+        difficulty: 'easy',
+        category: 'History',
+        question: 'Rome wasn&#039;t built in a day.',
+        correct_answer: 'True',
+        incorrect_answers: ['False'],
+      },
+    ],
+  });
+
+  it('decodes entities, scores by difficulty and puts easy questions first', () => {
+    expect(detectImportFormat('dump.json', dump)).toBe('opentdb');
+    expect(decodeEntities('caf&eacute; &#x2603; &bogus;')).toBe('café ☃ &bogus;');
+
+    const { source } = importPack('opentdb', dump, { id: 'otdb' });
+    expect([...source.questions.homeroom, ...source.questions.field_trip]).toEqual([
+      {
+        type: 'true_false',
+        category: 'History',
+        prompt: "Rome wasn't built in a day.",
+        value: 100,
+        answer: true,
+      },
+      {
+        category: 'Science & Nature',
+        prompt: 'What is "Au"?',
+        value: 300,
+        hard: true,
+        choices: ['Argon', 'Copper', 'Gold', 'Silver'],
+        answerIndex: 2,
+      },
+    ]);
+  });
+});
+
+describe('Kahoot import', () => {
+  it('converts quiz, multi-select, jumble and true/false questions and skips polls', () => {
+    const kahoot = JSON.stringify({
+      kahoot: {
+        title: 'Animals',
+        questions: [
+          {
+            type: 'quiz',
+            question: '<b>Fastest</b> land animal?',
+            pointsMultiplier: 2,
+            choices: [
+              { answer: 'Cheetah', correct: true },
+              { answer: 'Snail', correct: false },
+            ],
+          },
+          {
+            type: 'multiple_select_quiz',
+            question: 'Mammals?',
+            choices: [
+              { answer: 'Bat', correct: true },
+              { answer: 'Cod', correct: false },
+              { answer: 'Whale', correct: true },
+            ],
+          },
+          {
+            type: 'jumble',
+            question: 'Small to big',
+            choices: [
+              { answer: 'Ant', correct: true },
+              { answer: 'Cat', correct: true },
+            ],
+          },
+          {
+            type: 'quiz',
+            question: 'Penguins fly',
+            choices: [
+              { answer: 'True', correct: false },
+              { answer: 'False', correct: true },
+            ],
+          },
+          { type: 'survey', question: 'Favourite?', choices: [{ answer: 'Dogs' }] },
+        ],
+      },
+    });
+    expect(detectImportFormat('export.json', kahoot)).toBe('kahoot');
+
+    const result = importPack('kahoot', kahoot, { act: 'homeroom', id: 'animals' });
+    expect(result.source.name).toBe('Animals');
+    expect(result.source.questions.homeroom.map((q) => [q.type, q.prompt, q.value])).toEqual([
+      [undefined, 'Fastest land animal?', 200],
+      ['multi_select', 'Mammals?', 100],
+      ['ordering', 'Small to big', 100],
+      ['true_false', 'Penguins fly', 100],
+    ]);
+    expect(result.source.questions.homeroom[3].answer).toBe(false);
+    expect(result.diagnostics.map((d) => d.message)).toContain(
+      'question 5: "survey" slides have no right answer — skipped'
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { createManualClock, type ManualClock } from '@/lib/clock';
+import { createProfileRouter } from '@/lib/profileAccounts';
+import { addGameToStats, createMemoryProfileStore, type ProfileStore } from '@/lib/profileStore';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+let store: ProfileStore;
+let clock: ManualClock;
+let server: Server;
+let baseUrl: string;
+
+beforeEach(async () => {
+  store = createMemoryProfileStore();
+  clock = createManualClock(1_700_000_000_000);
+
+  const app = express();
+  app.use('/api/profiles', createProfileRouter(store, clock));
+  server = app.listen(0, '127.0.0.1');
+  await new Promise<void>((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/profiles`;
+});
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+async function call(method: string, url: string, body?: unknown, token = '') {
+  const res = await fetch(`${baseUrl}${url}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+const create = (body: Record<string, unknown>) =>
+  call('POST', '/', { name: 'Ada', avatar: '🦊', ...body });
+
+describe('profile accounts API', () => {
+  it('creates a profile with a unique name and signs the device in', async () => {
+    expect((await create({ avatar: '🍕' })).status).toBe(400);
+    expect((await create({ pin: '12' })).status).toBe(400);
+
+    const created = await create({ pin: '1234' });
+    expect(created.status).toBe(201);
+    expect(created.body.profile).toMatchObject({ name: 'Ada', avatar: '🦊', hasPin: true });
+    expect(created.body.profile).not.toHaveProperty('tokenHashes');
+    expect((await create({ name: 'ada' })).status).toBe(409);
+
+    const me = await call('GET', '/me', undefined, created.body.token);
+    expect(me.body.profile.id).toBe(created.body.profile.id);
+    expect((await call('GET', '/me', undefined, 'wrong')).status).toBe(401);
+    expect((await call('GET', `/${created.body.profile.id}`)).body.profile.name).toBe('Ada');
+  });
+
+  it('signs in on another device with the PIN, locking out repeated guesses', async () => {
+    await create({ pin: '1234' });
+    const login = await call('POST', '/login', { name: 'ADA', pin: '1234' });
+    expect(login.body.ok).toBe(true);
+
+    for (let i = 0; i < 5; i++) {
+      expect((await call('POST', '/login', { name: 'Ada', pin: '9999' })).status).toBe(401);
+    }
+    expect((await call('POST', '/login', { name: 'Ada', pin: '1234' })).status).toBe(429);
+    clock.advance(5 * 60 * 1000);
+    expect((await call('POST', '/login', { name: 'Ada', pin: '1234' })).status).toBe(200);
+  });
+
+  it('signs in once with a magic link before it expires', async () => {
+    const { token } = (await create({})).body;
+    const { code } = (await call('POST', '/me/link', undefined, token)).body;
+
+    const linked = await call('POST', '/link', { code });
+    expect(linked.body.ok).toBe(true);
+    expect(linked.body.token).not.toBe(token);
+    expect((await call('POST', '/link', { code })).status).toBe(400);
+
+    const late = (await call('POST', '/me/link', undefined, token)).body.code;
+    clock.advance(15 * 60 * 1000);
+    expect((await call('POST', '/link', { code: late })).status).toBe(400);
+  });
+
+  it('updates the profile and signs a device out', async () => {
+    const { token } = (await create({ pin: '1234' })).body;
+    await create({ name: 'Ben', avatar: '🐼' });
+
+    expect((await call('PATCH', '/me', { name: 'Ben' }, token)).status).toBe(409);
+    const patched = await call('PATCH', '/me', { avatar: '🐸', pin: null }, token);
+    expect(patched.body.profile).toMatchObject({ name: 'Ada', avatar: '🐸', hasPin: false });
+
+    await call('POST', '/me/logout', undefined, token);
+    expect((await call('GET', '/me', undefined, token)).status).toBe(401);
+  });
+});
+
+describe('profile stats', () => {
+  it('adds up games and picks the favourite categories', async () => {
+    const { token, profile } = (await create({})).body;
+    const saved = store.get(profile.id)!;
+    let stats = addGameToStats(saved.stats, {
+      won: true,
+      questionsAnswered: 4,
+      correctAnswers: 3,
+      correctCategories: ['Space', 'Maths', 'Space'],
+      bossDefeated: true,
+      allInsWon: 1,
+    });
+    stats = addGameToStats(stats, {
+      won: false,
+      questionsAnswered: 4,
+      correctAnswers: 1,
+      correctCategories: ['Art'],
+      bossDefeated: false,
+      allInsWon: 0,
+    });
+    store.save({ ...saved, stats });
+
+    const { body } = await call('GET', '/me', undefined, token);
+    expect(body.profile.stats).toMatchObject({
+      gamesPlayed: 2,
+      wins: 1,
+      bossesDefeated: 1,
+      allInsWon: 1,
+    });
+    expect(body.profile.accuracy).toBe(0.5);
+    expect(body.profile.favouriteCategories).toEqual(['Space', 'Art', 'Maths']);
+  });
+});
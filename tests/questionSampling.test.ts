@@ -0,0 +1,88 @@
+import { apportion, sampleMixed, sampleQuestions, sampleUnseenFirst } from '@/lib/questionSampling';
+import type { Question } from '@/lib/types';
+import { describe, expect, it } from 'vitest';
+
+const q = (id: string, category: string, value = 100, hard = false): Question => ({
+  id,
+  category,
+  prompt: id,
+  type: 'multiple_choice',
+  choices: ['a', 'b'],
+  answerIndex: 0,
+  value,
+  hard,
+});
+
+const pool = [
+  q('m1', 'Maths', 300, true),
+  q('m2', 'Maths', 100),
+  q('m3', 'Maths', 200),
+  q('h1', 'History', 500, true),
+  q('s1', 'Science', 100),
+];
+
+describe('sampleQuestions', () => {
+  it('never returns more questions than asked for or available', () => {
+    for (const strategy of ['random', 'sequential', 'balanced', 'ramped'] as const) {
+      expect(sampleQuestions(pool, 3, strategy)).toHaveLength(3);
+      expect(new Set(sampleQuestions(pool, 99, strategy).map((x) => x.id)).size).toBe(5);
+    }
+  });
+
+  it('keeps pack order when sequential', () => {
+    expect(sampleQuestions(pool, 3, 'sequential').map((x) => x.id)).toEqual(['m1', 'm2', 'm3']);
+  });
+
+  it('spreads a balanced sample across categories', () => {
+    const categories = sampleQuestions(pool, 3, 'balanced').map((x) => x.category);
+    expect(new Set(categories)).toEqual(new Set(['Maths', 'History', 'Science']));
+  });
+
+  it('orders a ramped sample easy to hard', () => {
+    const ids = sampleQuestions(pool, 5, 'ramped').map((x) => x.id);
+    expect(ids.slice(3)).toEqual(['m1', 'h1']);
+    expect(ids.slice(0, 3).sort()).toEqual(['m2', 's1', 'm3'].sort());
+    expect(ids[2]).toBe('m3');
+  });
+});
+
+describe('sampleUnseenFirst', () => {
+  it('only repeats seen questions once the unseen ones run out', () => {
+    const seen = new Set(['m1', 'm2', 'h1']);
+    expect(
+      sampleUnseenFirst(pool, 2, 'random', seen)
+        .map((x) => x.id)
+        .sort()
+    ).toEqual(['m3', 's1']);
+
+    const topped = sampleUnseenFirst(pool, 3, 'sequential', seen).map((x) => x.id);
+    expect(topped).toEqual(['m3', 's1', 'm1']);
+  });
+
+  it('keeps a ramped sample easy to hard across fresh and repeated questions', () => {
+    const ids = sampleUnseenFirst(pool, 5, 'ramped', new Set(['m2'])).map((x) => x.id);
+    expect(ids.slice(3)).toEqual(['m1', 'h1']);
+  });
+});
+
+describe('sampleMixed', () => {
+  it("splits questions by weight and hands a short pool's share to the others", () => {
+    expect(apportion([10, 10], [2, 1], 6)).toEqual([4, 2]);
+    expect(apportion([10, 10, 10], [1, 1, 1], 4).reduce((a, b) => a + b)).toBe(4);
+    expect(apportion([1, 10], [3, 1], 6)).toEqual([1, 5]);
+    expect(apportion([2, 1], [1, 1], 9)).toEqual([2, 1]);
+  });
+
+  it('samples each pool for its share, in pool order when sequential', () => {
+    const other = [q('o1', 'Art'), q('o2', 'Art'), q('o3', 'Art')];
+    const picked = sampleMixed(
+      [
+        { questions: pool, weight: 1 },
+        { questions: other, weight: 2 },
+      ],
+      3,
+      'sequential'
+    );
+    expect(picked.map((x) => x.id)).toEqual(['m1', 'o1', 'o2']);
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  checkAnswerShape,
+  describeAnswer,
+  isCorrectAnswer,
+  normalizeFreeText,
+} from '@/lib/questionTypes';
+import type { Question } from '@/lib/types';
+import { describe, expect, it } from 'vitest';
+
+const base = { id: 'q', category: 'Test', prompt: '?', value: 100 };
+
+describe('normalizeFreeText', () => {
+  it('ignores case, accents, punctuation, spacing and a leading article', () => {
+    expect(normalizeFreeText('  The Beatles! ')).toBe('beatles');
+    expect(normalizeFreeText('Pokémon')).toBe('pokemon');
+    expect(normalizeFreeText('Rock & Roll')).toBe('rock and roll');
+    expect(normalizeFreeText('東京')).toBe('東京');
+  });
+});
+
+describe('isCorrectAnswer', () => {
+  it('needs exactly the right picks for pick-all-that-apply', () => {
+    const q: Question = {
+      ...base,
+      type: 'multi_select',
+      choices: ['a', 'b', 'c'],
+      answerIndexes: [0, 2],
+    };
+    expect(isCorrectAnswer(q, { answerIndexes: [2, 0] })).toBe(true);
+    expect(isCorrectAnswer(q, { answerIndexes: [0] })).toBe(false);
+    expect(isCorrectAnswer(q, { answerIndexes: [0, 1, 2] })).toBe(false);
+  });
+
+  it('needs the whole order for ordering questions', () => {
+    const q: Question = {
+      ...base,
+      type: 'ordering',
+      choices: ['b', 'a', 'c'],
+      answerOrder: [1, 0, 2],
+    };
+    expect(isCorrectAnswer(q, { order: [1, 0, 2] })).toBe(true);
+    expect(isCorrectAnswer(q, { order: [0, 1, 2] })).toBe(false);
+    expect(checkAnswerShape(q, { order: [1, 1, 2] })).toBe('Order every answer once.');
+  });
+
+  it('accepts any alias for free text', () => {
+    const q: Question = { ...base, type: 'free_text', acceptedAnswers: ['USA', 'United States'] };
+    expect(isCorrectAnswer(q, { text: 'the united states.' })).toBe(true);
+    expect(isCorrectAnswer(q, { text: 'usa' })).toBe(true);
+    expect(isCorrectAnswer(q, { text: 'Canada' })).toBe(false);
+    expect(isCorrectAnswer(q, { answerIndex: 0 })).toBe(false);
+  });
+});
+
+describe('describeAnswer', () => {
+  it('names the choices for every choice-based type', () => {
+    const q = { choices: ['Mercury', 'Venus', 'Earth'] };
+    expect(describeAnswer(q, { answerIndex: 1 })).toBe('Venus');
+    expect(describeAnswer(q, { answerIndexes: [0, 2] })).toBe('Mercury, Earth');
+    expect(describeAnswer(q, { order: [2, 0, 1] })).toBe('Earth → Mercury → Venus');
+    expect(describeAnswer(q, { text: 'Mars' })).toBe('Mars');
+  });
+});